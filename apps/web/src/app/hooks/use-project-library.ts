@@ -0,0 +1,174 @@
+/**
+ * Hook that keeps the editor in sync with the local project library.
+ *
+ * - Restores the last opened project on startup
+ * - Saves the open project to the library shortly after each change
+ * - Takes autosave snapshots of the open project while it is edited
+ * - Releases the screen image URLs of projects that were replaced
+ */
+
+import { useEffect, useState } from "react";
+import { useAnnotationStore } from "@/features/annotation";
+import {
+  createProjectSnapshot,
+  getLastProjectId,
+  importLegacyProject,
+  openLibraryProject,
+  saveLibraryProject,
+  setLastProjectId,
+} from "@/features/storage";
+import { showError } from "@/lib/error";
+import { debounce } from "@/lib/throttle";
+import type { Project } from "@/types";
+
+/** Delay before changes are saved to the library (ms) */
+const AUTOSAVE_DELAY = 1000;
+
+/** Interval between autosave snapshots of an edited project (ms) */
+const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+
+/** Library save in progress (reads screen images from their URLs) */
+let currentSave: Promise<void> = Promise.resolve();
+
+/**
+ * Save a project to the library (debounced).
+ */
+const saveToLibrary = debounce((project: Project) => {
+  currentSave = (async () => {
+    const result = await saveLibraryProject(project);
+    if (!result.success) {
+      showError("Failed to save project", result.error);
+    }
+  })();
+}, AUTOSAVE_DELAY);
+
+/**
+ * Revoke the object URLs of screen images that are no longer used
+ * (after a project is replaced or a screen removed).
+ * Waits for the save in progress, which may still read them.
+ */
+function releaseScreenImages(previous: Project, next: Project | null): void {
+  const used = new Set(next?.screens.map((s) => s.imageUrl));
+  const unused = previous.screens
+    .map((s) => s.imageUrl)
+    .filter((url) => !used.has(url));
+  if (unused.length === 0) {
+    return;
+  }
+  currentSave.finally(() => {
+    for (const url of unused) {
+      URL.revokeObjectURL(url);
+    }
+  });
+}
+
+let restorePromise: Promise<void> | null = null;
+
+/**
+ * Load the last opened project into the editor (runs once per page load).
+ * The project kept in localStorage by earlier versions is moved into the
+ * library first.
+ */
+function restoreLastProject(): Promise<void> {
+  if (!restorePromise) {
+    restorePromise = (async () => {
+      const legacyResult = await importLegacyProject();
+      if (!legacyResult.success) {
+        showError("Failed to restore project", legacyResult.error);
+      }
+
+      const id = getLastProjectId();
+      if (!id) {
+        return;
+      }
+      const result = await openLibraryProject(id);
+      if (!result.success) {
+        setLastProjectId(null);
+        showError("Failed to restore project", result.error);
+        return;
+      }
+      // Keep a project the user opened while restoring
+      const { project, loadProject } = useAnnotationStore.getState();
+      if (project) {
+        releaseScreenImages(result.data.project, project);
+      } else {
+        loadProject(result.data.project, result.data.image);
+      }
+    })();
+  }
+  return restorePromise;
+}
+
+export function useProjectLibrarySync() {
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    restoreLastProject().finally(() => {
+      if (active) {
+        setIsRestoring(false);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = useAnnotationStore.subscribe((state, prevState) => {
+      if (state.project === prevState.project) {
+        return;
+      }
+      // Write pending changes before another project replaces them
+      if (prevState.project && state.project?.id !== prevState.project.id) {
+        saveToLibrary.flush();
+      }
+      if (
+        prevState.project &&
+        state.project?.screens !== prevState.project.screens
+      ) {
+        releaseScreenImages(prevState.project, state.project);
+      }
+      setLastProjectId(state.project?.id ?? null);
+      if (state.project) {
+        saveToLibrary(state.project);
+      }
+    });
+
+    const handlePageHide = () => saveToLibrary.flush();
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Edit time of the last snapshot (projects are not snapshotted on open)
+    let snapshotProjectId = useAnnotationStore.getState().project?.id;
+    let snapshotUpdatedAt = useAnnotationStore.getState().project?.updatedAt;
+
+    const intervalId = setInterval(async () => {
+      const { project } = useAnnotationStore.getState();
+      if (!project) {
+        return;
+      }
+      if (project.id !== snapshotProjectId) {
+        snapshotProjectId = project.id;
+        snapshotUpdatedAt = project.updatedAt;
+        return;
+      }
+      if (project.updatedAt === snapshotUpdatedAt) {
+        return;
+      }
+      snapshotUpdatedAt = project.updatedAt;
+      const result = await createProjectSnapshot(project);
+      if (!result.success) {
+        showError("Failed to save snapshot", result.error);
+      }
+    }, SNAPSHOT_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  return { isRestoring };
+}
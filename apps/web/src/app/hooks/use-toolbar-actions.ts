@@ -14,51 +14,152 @@ declare global {
 }
 
 import {
-  selectElements,
+  getElementCssColor,
   selectProject,
   useAnnotationStore,
 } from "@/features/annotation";
-import { downloadData, type ExportInput } from "@/features/export";
-import { openFile, saveProjectFile } from "@/features/storage";
+import { useImportStatementResolver } from "@/features/component-catalog";
+import type { DatasetAnnotation, DatasetTarget } from "@/features/dataset";
+import {
+  downloadData,
+  type ExportBatchSource,
+  type ExportInput,
+  type ImageRenderOptions,
+} from "@/features/export";
+import {
+  createProjectSnapshot,
+  getAcceptPattern,
+  loadFile,
+  openFile,
+  openImageAsScreen,
+  openLibraryProject,
+  openProjectSnapshot,
+  saveProjectFile,
+} from "@/features/storage";
 import { showError, showSuccess } from "@/lib/error";
-import { toElements } from "@/types";
+import { getActiveScreen, type Project, toElements } from "@/types";
+
+/**
+ * Revoke the screen image URLs of projects loaded for a batch export.
+ */
+function releaseExportInputs(inputs: ExportInput[]): void {
+  for (const input of inputs) {
+    for (const screen of input.screens) {
+      if (screen.imageUrl) {
+        URL.revokeObjectURL(screen.imageUrl);
+      }
+    }
+  }
+}
+
+/**
+ * Convert a project to export input format.
+ */
+function toExportInput(
+  project: Project,
+  resolveImportStatement: (name: string) => string | undefined
+): ExportInput {
+  // Resolve import statements of used components from the catalog
+  const componentImports: Record<string, string> = {};
+  for (const screen of project.screens) {
+    for (const element of screen.elements) {
+      const name = element.component?.name;
+      const importStatement = name && resolveImportStatement(name);
+      if (name && importStatement) {
+        componentImports[name] = importStatement;
+      }
+    }
+  }
+
+  // Render annotated images on demand (Konva is loaded lazily)
+  const renderImage = async (
+    screenIndex: number,
+    options: ImageRenderOptions
+  ) => {
+    const { renderAnnotatedImage } = await import(
+      "@/features/annotation/canvas"
+    );
+    return renderAnnotatedImage(project.screens[screenIndex], options);
+  };
+
+  return {
+    name: project.name,
+    description: project.description,
+    screens: project.screens.map((screen) => ({
+      name: screen.name,
+      sourceFileName: screen.sourceFileName,
+      imageWidth: screen.imageWidth,
+      imageHeight: screen.imageHeight,
+      elements: toElements(screen.elements),
+      imageUrl: screen.imageUrl,
+      elementColors: Object.fromEntries(
+        screen.elements.map((e) => [e.id, getElementCssColor(e.color)])
+      ),
+      comments: screen.comments,
+      connectors: screen.connectors,
+      spacings: screen.spacings,
+      pixelRatio: screen.pixelRatio,
+    })),
+    componentImports,
+    activeScreenIndex: project.screens.findIndex(
+      (s) => s.id === project.activeScreenId
+    ),
+    renderImage,
+  };
+}
 
 /**
  * Hook that integrates toolbar actions from multiple features
  *
  * This hook provides a unified interface for:
- * - Storage operations (Open/Save project files)
+ * - Storage operations (Open/Save project files, add screens, project library)
  * - Export operations (from export feature)
+ * - Dataset annotation import (from dataset feature)
  *
  * Used to inject handlers into AnnotatorToolbar without the annotation
  * feature depending on other features.
  */
 export function useToolbarActions() {
   const project = useAnnotationStore(selectProject);
-  const elements = useAnnotationStore(selectElements);
   const loadProject = useAnnotationStore((state) => state.loadProject);
+  const addScreen = useAnnotationStore((state) => state.addScreen);
+  const addElements = useAnnotationStore((state) => state.addElements);
+  const resolveImportStatement = useImportStatementResolver();
 
-  // Convert editor elements to export input format
-  const exportInput = useMemo<ExportInput | null>(() => {
-    if (!project) {
-      return null;
-    }
-    return {
-      name: project.name,
-      description: project.description,
-      sourceFileName: project.sourceFileName,
-      imageWidth: project.imageWidth,
-      imageHeight: project.imageHeight,
-      elements: toElements(elements),
-    };
-  }, [project, elements]);
+  // Convert project screens to export input format
+  // (the store keeps the active screen's elements in sync with the project)
+  const exportInput = useMemo<ExportInput | null>(
+    () => (project ? toExportInput(project, resolveImportStatement) : null),
+    [project, resolveImportStatement]
+  );
+
+  // Other project files can be added to batch exports (e.g. datasets)
+  const exportBatchSource = useMemo<ExportBatchSource>(
+    () => ({
+      accept: getAcceptPattern(),
+      load: async (files: File[]) => {
+        const inputs: ExportInput[] = [];
+        for (const file of files) {
+          const result = await loadFile(file);
+          if (!result.success) {
+            releaseExportInputs(inputs);
+            throw new Error(`${file.name}: ${result.error}`);
+          }
+          inputs.push(toExportInput(result.data, resolveImportStatement));
+        }
+        return inputs;
+      },
+      release: releaseExportInputs,
+    }),
+    [resolveImportStatement]
+  );
 
   /**
-   * Handle opening an image or project file.
+   * Handle opening an image, project file, or JSON export with its images.
    */
   const handleOpen = useCallback(
-    async (file: File) => {
-      const result = await openFile(file);
+    async (file: File, companions: File[] = []) => {
+      const result = await openFile(file, companions);
 
       if (!result.success) {
         showError("Failed to open file", result.error);
@@ -75,6 +176,66 @@ export function useToolbarActions() {
     [loadProject]
   );
 
+  /**
+   * Handle switching to a project from the local library.
+   */
+  const handleOpenLibraryProject = useCallback(
+    async (id: string) => {
+      const result = await openLibraryProject(id);
+
+      if (!result.success) {
+        showError("Failed to open project", result.error);
+        return;
+      }
+
+      loadProject(result.data.project, result.data.image);
+    },
+    [loadProject]
+  );
+
+  /**
+   * Handle restoring a snapshot of the current project.
+   * The current state is snapshotted first so the restore can be undone.
+   */
+  const handleRestoreSnapshot = useCallback(
+    async (snapshotId: string) => {
+      if (project) {
+        const snapshotResult = await createProjectSnapshot(project);
+        if (!snapshotResult.success) {
+          showError("Failed to restore version", snapshotResult.error);
+          return;
+        }
+      }
+
+      const result = await openProjectSnapshot(snapshotId);
+      if (!result.success) {
+        showError("Failed to restore version", result.error);
+        return;
+      }
+
+      loadProject(result.data.project, result.data.image);
+      showSuccess("Version restored", result.data.project.name);
+    },
+    [project, loadProject]
+  );
+
+  /**
+   * Handle adding an image as a new screen of the current project.
+   */
+  const handleAddScreen = useCallback(
+    async (file: File) => {
+      const result = await openImageAsScreen(file);
+
+      if (!result.success) {
+        showError("Failed to add screen", result.error);
+        return;
+      }
+
+      addScreen(result.data.screen, result.data.image);
+    },
+    [addScreen]
+  );
+
   /**
    * Handle saving project to ZIP archive.
    * Uses File System Access API for native save dialog when available.
@@ -84,14 +245,7 @@ export function useToolbarActions() {
       return;
     }
 
-    // Sync elements with project for save
-    const projectToSave = {
-      ...project,
-      elements,
-      updatedAt: new Date().toISOString(),
-    };
-
-    const result = await saveProjectFile(projectToSave);
+    const result = await saveProjectFile(project);
 
     if (!result.success) {
       showError("Save failed", result.error);
@@ -137,7 +291,7 @@ export function useToolbarActions() {
     }
 
     showSuccess("Project saved", result.data.filename);
-  }, [project, elements]);
+  }, [project]);
 
   /**
    * Handle exporting for AI (JSON format).
@@ -158,11 +312,49 @@ export function useToolbarActions() {
     }
   }, [exportInput, project]);
 
+  // Active screen image that dataset annotations are imported into
+  const importTarget = useMemo<DatasetTarget | null>(() => {
+    if (!project) {
+      return null;
+    }
+    const screen = getActiveScreen(project);
+    return {
+      fileName: screen.sourceFileName,
+      width: screen.imageWidth,
+      height: screen.imageHeight,
+    };
+  }, [project]);
+
+  /**
+   * Handle creating annotations imported from dataset files.
+   */
+  const handleImportAnnotations = useCallback(
+    (annotations: DatasetAnnotation[]) => {
+      addElements(
+        annotations.map(({ pixel, label, componentName }) => ({
+          pixel,
+          label,
+          ...(componentName && { component: { name: componentName } }),
+        }))
+      );
+      showSuccess("Annotations imported", `${annotations.length} elements`);
+    },
+    [addElements]
+  );
+
   return {
     handleOpen,
+    handleOpenLibraryProject,
+    handleRestoreSnapshot,
+    handleAddScreen,
     handleSave,
     handleExport,
+    handleImportAnnotations,
+    /** Image of the active screen for dataset import */
+    importTarget,
     /** Pre-computed export input from current project state */
     exportInput,
+    /** Loads other projects for batch exports */
+    exportBatchSource,
   };
 }
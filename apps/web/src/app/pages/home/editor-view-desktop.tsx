@@ -6,6 +6,8 @@ import {
   HelpButton,
   LayerPanel,
   PropertiesPanel,
+  ScreenList,
+  selectProject,
   selectSelectedIds,
   useAnnotationStore,
 } from "@/features/annotation";
@@ -18,8 +20,11 @@ import {
 import {
   ComponentPropertyEditor,
   ComponentsDialog,
+  useComponentNames,
 } from "@/features/component-catalog";
+import { DatasetImportDialog } from "@/features/dataset";
 import { ExportDialog } from "@/features/export";
+import { ProjectLibraryDialog, SnapshotsDialog } from "@/features/storage";
 import { useFileInputConfig } from "../../hooks/use-file-input-config";
 import { useToolbarActions } from "../../hooks/use-toolbar-actions";
 import { AnnotationProvider } from "../../providers/annotation-provider";
@@ -28,12 +33,27 @@ export function DesktopEditorView() {
   useKeyboardShortcuts();
 
   const selectedIds = useAnnotationStore(selectSelectedIds);
-  const { handleOpen, handleSave, exportInput } = useToolbarActions();
+  const project = useAnnotationStore(selectProject);
+  const {
+    handleOpen,
+    handleOpenLibraryProject,
+    handleRestoreSnapshot,
+    handleAddScreen,
+    handleSave,
+    handleImportAnnotations,
+    importTarget,
+    exportInput,
+    exportBatchSource,
+  } = useToolbarActions();
   const { acceptPattern } = useFileInputConfig();
+  const componentNames = useComponentNames();
 
   // Dialog states
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
   const [componentLibraryOpen, setComponentLibraryOpen] = useState(false);
+  const [datasetImportOpen, setDatasetImportOpen] = useState(false);
+  const [projectLibraryOpen, setProjectLibraryOpen] = useState(false);
+  const [snapshotsOpen, setSnapshotsOpen] = useState(false);
 
   const handleExport = useCallback(() => {
     setExportDialogOpen(true);
@@ -43,14 +63,29 @@ export function DesktopEditorView() {
     setComponentLibraryOpen(true);
   }, []);
 
+  const handleDatasetImport = useCallback(() => {
+    setDatasetImportOpen(true);
+  }, []);
+
+  const handleProjectLibrary = useCallback(() => {
+    setProjectLibraryOpen(true);
+  }, []);
+
+  const handleSnapshots = useCallback(() => {
+    setSnapshotsOpen(true);
+  }, []);
+
   return (
     <AnnotationProvider>
       <div className="flex h-full flex-col bg-background">
         <EditorHeader
           acceptPattern={acceptPattern}
           onExport={handleExport}
+          onImportAnnotations={handleDatasetImport}
           onImportComponentLibrary={handleComponentLibrary}
           onOpen={handleOpen}
+          onOpenHistory={handleSnapshots}
+          onOpenProjects={handleProjectLibrary}
           onSave={handleSave}
         />
         <div className="relative flex flex-1 overflow-hidden">
@@ -60,7 +95,12 @@ export function DesktopEditorView() {
             collapsedTitle="Expand layers"
             position="left"
           >
-            <LayerPanel />
+            <div className="flex h-full flex-col">
+              <ScreenList onAddScreen={handleAddScreen} />
+              <div className="min-h-0 flex-1">
+                <LayerPanel />
+              </div>
+            </div>
           </ResizableSidebar>
 
           {/* Canvas area */}
@@ -89,6 +129,7 @@ export function DesktopEditorView() {
 
       {/* Export Dialog */}
       <ExportDialog
+        batchSource={exportBatchSource}
         input={exportInput}
         onOpenChange={setExportDialogOpen}
         open={exportDialogOpen}
@@ -99,6 +140,31 @@ export function DesktopEditorView() {
         onOpenChange={setComponentLibraryOpen}
         open={componentLibraryOpen}
       />
+
+      {/* Dataset Import Dialog */}
+      <DatasetImportDialog
+        componentNames={componentNames}
+        onImport={handleImportAnnotations}
+        onOpenChange={setDatasetImportOpen}
+        open={datasetImportOpen}
+        target={importTarget}
+      />
+
+      {/* Project Library Dialog */}
+      <ProjectLibraryDialog
+        currentProjectId={project?.id}
+        onOpenChange={setProjectLibraryOpen}
+        onOpenProject={handleOpenLibraryProject}
+        open={projectLibraryOpen}
+      />
+
+      {/* Snapshots Dialog */}
+      <SnapshotsDialog
+        onOpenChange={setSnapshotsOpen}
+        onRestore={handleRestoreSnapshot}
+        open={snapshotsOpen}
+        project={project}
+      />
     </AnnotationProvider>
   );
 }
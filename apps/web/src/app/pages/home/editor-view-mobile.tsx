@@ -1,5 +1,11 @@
 import { useCallback, useState } from "react";
-import { BottomToolbar, EditorHeader, HelpButton } from "@/features/annotation";
+import {
+  BottomToolbar,
+  EditorHeader,
+  HelpButton,
+  selectProject,
+  useAnnotationStore,
+} from "@/features/annotation";
 import {
   KonvaCanvas,
   MobileToolSwitcher,
@@ -10,8 +16,11 @@ import { PropertiesSheet } from "@/features/annotation/components/panels/propert
 import {
   ComponentPropertyEditor,
   ComponentsDialog,
+  useComponentNames,
 } from "@/features/component-catalog";
+import { DatasetImportDialog } from "@/features/dataset";
 import { ExportDialog } from "@/features/export";
+import { ProjectLibraryDialog, SnapshotsDialog } from "@/features/storage";
 import { useFileInputConfig } from "../../hooks/use-file-input-config";
 import { useToolbarActions } from "../../hooks/use-toolbar-actions";
 import { AnnotationProvider } from "../../providers/annotation-provider";
@@ -19,8 +28,20 @@ import { AnnotationProvider } from "../../providers/annotation-provider";
 export function MobileEditorView() {
   useKeyboardShortcuts();
 
-  const { handleOpen, handleSave, exportInput } = useToolbarActions();
+  const project = useAnnotationStore(selectProject);
+  const {
+    handleOpen,
+    handleOpenLibraryProject,
+    handleRestoreSnapshot,
+    handleAddScreen,
+    handleSave,
+    handleImportAnnotations,
+    importTarget,
+    exportInput,
+    exportBatchSource,
+  } = useToolbarActions();
   const { acceptPattern } = useFileInputConfig();
+  const componentNames = useComponentNames();
 
   // Sheet states
   const [layerSheetOpen, setLayerSheetOpen] = useState(false);
@@ -29,6 +50,9 @@ export function MobileEditorView() {
   // Dialog states
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
   const [componentLibraryOpen, setComponentLibraryOpen] = useState(false);
+  const [datasetImportOpen, setDatasetImportOpen] = useState(false);
+  const [projectLibraryOpen, setProjectLibraryOpen] = useState(false);
+  const [snapshotsOpen, setSnapshotsOpen] = useState(false);
 
   const handleExport = useCallback(() => {
     setExportDialogOpen(true);
@@ -38,6 +62,18 @@ export function MobileEditorView() {
     setComponentLibraryOpen(true);
   }, []);
 
+  const handleDatasetImport = useCallback(() => {
+    setDatasetImportOpen(true);
+  }, []);
+
+  const handleProjectLibrary = useCallback(() => {
+    setProjectLibraryOpen(true);
+  }, []);
+
+  const handleSnapshots = useCallback(() => {
+    setSnapshotsOpen(true);
+  }, []);
+
   return (
     <AnnotationProvider>
       <div className="flex h-full flex-col bg-background">
@@ -46,8 +82,11 @@ export function MobileEditorView() {
           acceptPattern={acceptPattern}
           compact
           onExport={handleExport}
+          onImportAnnotations={handleDatasetImport}
           onImportComponentLibrary={handleComponentLibrary}
           onOpen={handleOpen}
+          onOpenHistory={handleSnapshots}
+          onOpenProjects={handleProjectLibrary}
           onSave={handleSave}
         />
 
@@ -65,7 +104,11 @@ export function MobileEditorView() {
         />
 
         {/* Layer Sheet */}
-        <LayerSheet onOpenChange={setLayerSheetOpen} open={layerSheetOpen} />
+        <LayerSheet
+          onAddScreen={handleAddScreen}
+          onOpenChange={setLayerSheetOpen}
+          open={layerSheetOpen}
+        />
 
         {/* Properties Sheet */}
         <PropertiesSheet
@@ -78,6 +121,7 @@ export function MobileEditorView() {
 
         {/* Export Dialog */}
         <ExportDialog
+          batchSource={exportBatchSource}
           input={exportInput}
           onOpenChange={setExportDialogOpen}
           open={exportDialogOpen}
@@ -88,6 +132,31 @@ export function MobileEditorView() {
           onOpenChange={setComponentLibraryOpen}
           open={componentLibraryOpen}
         />
+
+        {/* Dataset Import Dialog */}
+        <DatasetImportDialog
+          componentNames={componentNames}
+          onImport={handleImportAnnotations}
+          onOpenChange={setDatasetImportOpen}
+          open={datasetImportOpen}
+          target={importTarget}
+        />
+
+        {/* Project Library Dialog */}
+        <ProjectLibraryDialog
+          currentProjectId={project?.id}
+          onOpenChange={setProjectLibraryOpen}
+          onOpenProject={handleOpenLibraryProject}
+          open={projectLibraryOpen}
+        />
+
+        {/* Snapshots Dialog */}
+        <SnapshotsDialog
+          onOpenChange={setSnapshotsOpen}
+          onRestore={handleRestoreSnapshot}
+          open={snapshotsOpen}
+          project={project}
+        />
       </div>
     </AnnotationProvider>
   );
@@ -2,6 +2,7 @@ import { lazy, Suspense, useEffect } from "react";
 import Loader from "@/components/common/loader";
 import { selectProject, useAnnotationStore } from "@/features/annotation";
 import { cancelIdle, requestIdle } from "@/lib/request-idle-agnostic";
+import { useProjectLibrarySync } from "../../hooks/use-project-library";
 import { WelcomeView } from "./welcome-view";
 
 // EditorView を遅延読み込み
@@ -26,9 +27,14 @@ function usePreloadEditorView() {
  */
 export function RootPage() {
   const project = useAnnotationStore(selectProject);
+  const { isRestoring } = useProjectLibrarySync();
 
   usePreloadEditorView();
 
+  if (isRestoring) {
+    return <Loader />;
+  }
+
   if (!project) {
     return <WelcomeView />;
   }
@@ -12,21 +12,29 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ImageUploader } from "@/features/annotation";
+import { ProjectLibrary } from "@/features/storage";
 import { useFileInputConfig } from "../../hooks/use-file-input-config";
 import { useToolbarActions } from "../../hooks/use-toolbar-actions";
 
 export function WelcomeView() {
-  const { handleOpen } = useToolbarActions();
+  const { handleOpen, handleOpenLibraryProject } = useToolbarActions();
   const { acceptPattern, isAcceptableFile } = useFileInputConfig();
 
   return (
-    <div className="canvas-background relative flex h-full items-center justify-center">
+    <div className="canvas-background relative h-full overflow-y-auto">
       <WelcomeMenu acceptPattern={acceptPattern} onOpen={handleOpen} />
       <ImageUploader
         acceptPattern={acceptPattern}
         isAcceptableFile={isAcceptableFile}
         onOpen={handleOpen}
-      />
+      >
+        <ProjectLibrary
+          className="mt-10 w-full"
+          hideWhenEmpty
+          onOpenProject={handleOpenLibraryProject}
+          title="Recent projects"
+        />
+      </ImageUploader>
     </div>
   );
 }
@@ -36,7 +44,7 @@ function WelcomeMenu({
   onOpen,
 }: {
   acceptPattern: string;
-  onOpen: (file: File) => void;
+  onOpen: (file: File, companions: File[]) => void;
 }) {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -60,10 +68,11 @@ function WelcomeMenu({
       <input
         accept={acceptPattern}
         className="hidden"
+        multiple
         onChange={(e) => {
-          const file = e.target.files?.[0];
+          const [file, ...companions] = Array.from(e.target.files ?? []);
           if (file) {
-            onOpen(file);
+            onOpen(file, companions);
           }
           e.target.value = "";
         }}
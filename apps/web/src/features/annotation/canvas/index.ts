@@ -12,3 +12,7 @@ export {
   ZoomControls,
 } from "../components/toolbar/floating-toolbar";
 export { useKeyboardShortcuts } from "../hooks/use-keyboard-shortcuts";
+export {
+  type AnnotatedImageOptions,
+  renderAnnotatedImage,
+} from "../lib/annotated-image";
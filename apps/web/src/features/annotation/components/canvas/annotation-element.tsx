@@ -1,14 +1,16 @@
 import type Konva from "konva";
 import { memo, useCallback } from "react";
-import { Group, Rect, Text } from "react-konva";
+import { Ellipse, Group, Line, Rect, Text } from "react-konva";
 import {
   type EditorElement,
   type ElementColor,
   type ElementId,
+  type ElementShape,
   getDisplayLabel,
 } from "@/types";
 import { labelConfig } from "../../constants/canvas";
 import { colorToRgb, colorToRgba, getElementRgb } from "../../constants/colors";
+import { getLabelWidth } from "../../lib/canvas-utils";
 
 export function getElementStroke(color?: ElementColor): string {
   return colorToRgb(getElementRgb(color));
@@ -28,18 +30,56 @@ export function getElementFill(
   return colorToRgba(getElementRgb(color), alpha);
 }
 
-// Calculate label width accounting for full-width characters (Japanese, etc.)
-export function getLabelWidth(text: string, fontSize: number): number {
-  let width = 0;
-  for (const char of text) {
-    const code = char.charCodeAt(0);
-    const isFullWidth =
-      (code >= 0x30_00 && code <= 0x9f_ff) || // CJK
-      (code >= 0xff_00 && code <= 0xff_ef) || // Full-width forms
-      (code >= 0xac_00 && code <= 0xd7_af); // Korean
-    width += isFullWidth ? fontSize : fontSize * 0.6;
-  }
-  return width;
+/** Name of the node drawing a non-rectangular shape (scaled while resizing) */
+export const SHAPE_NODE_NAME = "element-shape";
+
+interface ElementShapeNodeProps {
+  shape: ElementShape;
+  width: number;
+  height: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+}
+
+/**
+ * Ellipse or polygon drawn inside the element's box.
+ * The box itself stays the (invisible) hit and transform target.
+ */
+function ElementShapeNode({
+  shape,
+  width,
+  height,
+  fill,
+  stroke,
+  strokeWidth,
+}: ElementShapeNodeProps) {
+  const style = {
+    fill,
+    listening: false,
+    stroke,
+    strokeScaleEnabled: false,
+    strokeWidth,
+  };
+  return (
+    <Group listening={false} name={SHAPE_NODE_NAME}>
+      {shape.type === "ellipse" ? (
+        <Ellipse
+          {...style}
+          radiusX={width / 2}
+          radiusY={height / 2}
+          x={width / 2}
+          y={height / 2}
+        />
+      ) : (
+        <Line
+          {...style}
+          closed
+          points={shape.points.flatMap((p) => [p.x * width, p.y * height])}
+        />
+      )}
+    </Group>
+  );
 }
 
 interface AnnotationElementProps {
@@ -61,7 +101,7 @@ export const AnnotationElement = memo(function AnnotationElement({
   onTransformEnd,
   onHover,
 }: AnnotationElementProps) {
-  const { id, bbox, color } = element;
+  const { id, bbox, color, shape } = element;
   const { x, y, w, h } = bbox.pixel;
   const displayLabel = getDisplayLabel(element);
 
@@ -122,9 +162,20 @@ export const AnnotationElement = memo(function AnnotationElement({
           y={labelConfig.padding}
         />
       </Group>
+      {shape && (
+        <ElementShapeNode
+          fill={fillColor}
+          height={h}
+          shape={shape}
+          stroke={strokeColor}
+          strokeWidth={isSelected || isHovered ? 2 : 1}
+          width={w}
+        />
+      )}
       {/* Bounding box - listening enabled for Transformer and hover */}
+      {/* Shaped elements draw their outline above and keep the box invisible */}
       <Rect
-        fill={fillColor}
+        fill={shape ? "transparent" : fillColor}
         height={h}
         id={id}
         listening={true}
@@ -132,7 +183,7 @@ export const AnnotationElement = memo(function AnnotationElement({
         onMouseLeave={handleMouseLeave}
         onTransform={handleTransform}
         onTransformEnd={handleTransformEnd}
-        stroke={strokeColor}
+        stroke={shape ? undefined : strokeColor}
         strokeScaleEnabled={false}
         strokeWidth={isSelected || isHovered ? 2 : 1}
         width={w}
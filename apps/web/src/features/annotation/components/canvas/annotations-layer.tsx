@@ -6,8 +6,12 @@ import type { EditorElement, ElementId } from "@/types";
 import { canvasConfig } from "../../constants/canvas";
 import { colorToRgb, primaryColors } from "../../constants/colors";
 import { useKonvaSnap } from "../../hooks/use-konva-snap";
-import { selectElements, selectProject, useAnnotationStore } from "../../store";
-import { AnnotationElement } from "./annotation-element";
+import {
+  selectActiveScreen,
+  selectElements,
+  useAnnotationStore,
+} from "../../store";
+import { AnnotationElement, SHAPE_NODE_NAME } from "./annotation-element";
 
 interface AnnotationsLayerProps {
   sortedElements: EditorElement[];
@@ -65,13 +69,11 @@ export function AnnotationsLayer({
   onHover,
 }: AnnotationsLayerProps) {
   const elements = useAnnotationStore(selectElements);
-  const project = useAnnotationStore(selectProject);
+  const screen = useAnnotationStore(selectActiveScreen);
   const imageSize = useMemo(
     () =>
-      project
-        ? { width: project.imageWidth, height: project.imageHeight }
-        : null,
-    [project]
+      screen ? { width: screen.imageWidth, height: screen.imageHeight } : null,
+    [screen]
   );
   const updateElement = useAnnotationStore((state) => state.updateElement);
   const { getResizeSnapResult, clearGuidelines } = useKonvaSnap();
@@ -143,6 +145,8 @@ export function AnnotationsLayer({
       group.y(snapped.top);
       rect.scaleX(newW / rect.width());
       rect.scaleY(newH / rect.height());
+      // Ellipses and polygons follow the box while resizing
+      group.findOne(`.${SHAPE_NODE_NAME}`)?.scale(rect.scale());
     },
     [elements, imageSize, getResizeSnapResult]
   );
@@ -181,6 +185,7 @@ export function AnnotationsLayer({
       node.scaleY(1);
       node.width(newW);
       node.height(newH);
+      group?.findOne(`.${SHAPE_NODE_NAME}`)?.scale({ x: 1, y: 1 });
 
       const bbox = createBBox(
         { x: newX, y: newY, w: newW, h: newH },
@@ -1,14 +1,20 @@
 import type Konva from "konva";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { createBBox } from "@/lib/geometry";
+import type { WorkingImage } from "@/lib/image";
+import { getActiveScreen } from "@/types";
 import { useCanvasInteraction } from "../../hooks/use-canvas-interaction";
 import {
+  beginAnnotationTransaction,
+  endAnnotationTransaction,
   selectContainerSize,
   selectImage,
   selectProject,
   useAnnotationStore,
   useUIStore,
 } from "../../store";
+import { CommentPopover } from "./comment-popover";
+import { ConnectorPopover } from "./connector-popover";
 import { KonvaStage } from "./konva-stage";
 
 /**
@@ -37,9 +43,15 @@ function moveSelectedElements(key: string, shiftKey: boolean): boolean {
     dy = step;
   }
 
-  const { imageWidth, imageHeight } = project;
+  const { imageWidth, imageHeight } = getActiveScreen(project);
+  const { selectedIds } = selection;
 
-  for (const id of selection.selectedIds) {
+  beginAnnotationTransaction(
+    selectedIds.length === 1
+      ? "Moved element"
+      : `Moved ${selectedIds.length} elements`
+  );
+  for (const id of selectedIds) {
     const element = elements.find((el: { id: string }) => el.id === id);
     if (!element) {
       continue;
@@ -52,6 +64,8 @@ function moveSelectedElements(key: string, shiftKey: boolean): boolean {
     );
     updateElement(id, { bbox });
   }
+  // Repeated nudges of the same selection form one undo step
+  endAnnotationTransaction(`nudge:${selectedIds.join(",")}`);
 
   return true;
 }
@@ -64,6 +78,7 @@ function moveSelectedElements(key: string, shiftKey: boolean): boolean {
  * - Keyboard event handling (arrow keys, enter)
  * - Viewport initialization (zoomToFit on new image)
  * - Composing KonvaStage with interaction handlers
+ * - Comment thread and connector popovers
  *
  * Note: Image loading is handled by the annotation store (self-healing pattern).
  */
@@ -98,6 +113,8 @@ export function CanvasContainer() {
     handleMouseMove,
     handleMouseUp,
     handleDblClick,
+    finishPolygon,
+    clearMode,
   } = useCanvasInteraction({ stageRef });
 
   // Hover handler that ignores updates during drag/draw
@@ -139,6 +156,17 @@ export function CanvasContainer() {
   // Canvas-local keyboard handler
   const handleCanvasKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
+      // Enter closes the polygon being drawn, Escape abandons it
+      if (mode.type === "polygon" && ["Enter", "Escape"].includes(e.key)) {
+        e.preventDefault();
+        if (e.key === "Enter") {
+          finishPolygon();
+        } else {
+          clearMode();
+        }
+        return;
+      }
+
       // Enter key triggers label editing
       if (e.key === "Enter") {
         const currentSelectedIds =
@@ -158,7 +186,7 @@ export function CanvasContainer() {
         e.preventDefault();
       }
     },
-    [triggerLabelFocus]
+    [mode.type, finishPolygon, clearMode, triggerLabelFocus]
   );
 
   // Focus canvas when triggered from other components
@@ -196,8 +224,8 @@ export function CanvasContainer() {
 
   // Track which image has been initialized
   // Using image reference (not URL) ensures re-initialization on consecutive same-file opens
-  // because a new HTMLImageElement is created each time
-  const initializedImageRef = useRef<HTMLImageElement | null>(null);
+  // because a new image is created each time
+  const initializedImageRef = useRef<WorkingImage | null>(null);
 
   // Derive readiness from current state
   const canInitialize =
@@ -235,33 +263,38 @@ export function CanvasContainer() {
   }, []);
 
   return (
-    <div
-      className="canvas-background h-full w-full overflow-hidden focus:outline-none"
-      onKeyDown={handleCanvasKeyDown}
-      onMouseDown={focusContainer}
-      onTouchStart={focusContainer}
-      ref={containerRef}
-      role="application"
-      style={{ touchAction: "none" }}
-      tabIndex={0}
-    >
-      {project && (
-        <KonvaStage
-          containerHeight={containerSize.height}
-          containerWidth={containerSize.width}
-          drawCurrent={drawCurrent}
-          image={image}
-          isAltPressed={isAltPressed}
-          isReady={isReady}
-          mode={mode}
-          onDblClick={handleDblClick}
-          onHover={setHovered}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          ref={stageRef}
-        />
-      )}
-    </div>
+    <>
+      <div
+        className="canvas-background h-full w-full overflow-hidden focus:outline-none"
+        onKeyDown={handleCanvasKeyDown}
+        onMouseDown={focusContainer}
+        onTouchStart={focusContainer}
+        ref={containerRef}
+        role="application"
+        style={{ touchAction: "none" }}
+        tabIndex={0}
+      >
+        {project && (
+          <KonvaStage
+            containerHeight={containerSize.height}
+            containerWidth={containerSize.width}
+            drawCurrent={drawCurrent}
+            image={image}
+            isAltPressed={isAltPressed}
+            isReady={isReady}
+            mode={mode}
+            onDblClick={handleDblClick}
+            onHover={setHovered}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            ref={stageRef}
+          />
+        )}
+      </div>
+      {/* Outside the container so typing in it skips the canvas shortcuts */}
+      {project && <CommentPopover />}
+      {project && <ConnectorPopover />}
+    </>
   );
 }
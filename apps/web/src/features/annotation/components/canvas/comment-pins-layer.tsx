@@ -0,0 +1,116 @@
+import type Konva from "konva";
+import { memo, useCallback } from "react";
+import { Circle, Group, Layer, Text } from "react-konva";
+import type { CommentId, Point } from "@/types";
+import { colorToRgb, primaryColors } from "../../constants/colors";
+import { getCommentAnchor } from "../../lib/comments";
+import {
+  selectComments,
+  selectElements,
+  useAnnotationStore,
+  useUIStore,
+} from "../../store";
+
+/** Pin radius in screen pixels */
+const PIN_RADIUS = 11;
+
+interface CommentPinProps {
+  id?: CommentId;
+  position: Point;
+  text: string;
+  color: string;
+  opacity: number;
+  stageScale: number;
+  onOpen?: (id: CommentId) => void;
+}
+
+/**
+ * Numbered pin drawn at a constant screen size.
+ */
+const CommentPin = memo(function CommentPin({
+  id,
+  position,
+  text,
+  color,
+  opacity,
+  stageScale,
+  onOpen,
+}: CommentPinProps) {
+  const handlePointerDown = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+      // Keep the stage from starting a drag, drawing or a new comment
+      e.cancelBubble = true;
+      if (id) {
+        onOpen?.(id);
+      }
+    },
+    [id, onOpen]
+  );
+
+  return (
+    <Group
+      listening={Boolean(id)}
+      onMouseDown={handlePointerDown}
+      onTouchStart={handlePointerDown}
+      opacity={opacity}
+      scaleX={1 / stageScale}
+      scaleY={1 / stageScale}
+      x={position.x}
+      y={position.y}
+    >
+      <Circle fill={color} radius={PIN_RADIUS} stroke="white" strokeWidth={2} />
+      <Text
+        align="center"
+        fill="white"
+        fontFamily="system-ui, sans-serif"
+        fontSize={11}
+        fontStyle="bold"
+        height={PIN_RADIUS * 2}
+        listening={false}
+        offsetX={PIN_RADIUS}
+        offsetY={PIN_RADIUS}
+        text={text}
+        verticalAlign="middle"
+        width={PIN_RADIUS * 2}
+      />
+    </Group>
+  );
+});
+
+/**
+ * Renders review comment pins of the active screen.
+ * Resolved comments are faded; the comment being written is shown in blue.
+ */
+export function CommentPinsLayer({ stageScale }: { stageScale: number }) {
+  const comments = useAnnotationStore(selectComments);
+  const elements = useAnnotationStore(selectElements);
+  const openCommentId = useUIStore((state) => state.openCommentId);
+  const pendingComment = useUIStore((state) => state.pendingComment);
+  const openComment = useUIStore((state) => state.openComment);
+
+  return (
+    <Layer>
+      {comments.map((comment, index) => (
+        <CommentPin
+          color={colorToRgb(primaryColors.comment)}
+          id={comment.id}
+          key={comment.id}
+          onOpen={openComment}
+          opacity={comment.resolved && comment.id !== openCommentId ? 0.45 : 1}
+          position={getCommentAnchor(comment, elements)}
+          stageScale={stageScale}
+          text={String(index + 1)}
+        />
+      ))}
+      {pendingComment && (
+        <CommentPin
+          color={colorToRgb(primaryColors.primary)}
+          opacity={1}
+          position={getCommentAnchor(pendingComment, elements)}
+          stageScale={stageScale}
+          text="+"
+        />
+      )}
+    </Layer>
+  );
+}
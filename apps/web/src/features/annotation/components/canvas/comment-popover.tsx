@@ -0,0 +1,278 @@
+import { Check, RotateCcw, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverAnchor,
+  PopoverContent,
+} from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { getDisplayLabel, type ReviewComment } from "@/types";
+import {
+  getCommentAnchor,
+  getCommentAuthor,
+  setCommentAuthor,
+} from "../../lib/comments";
+import {
+  selectActiveScreen,
+  selectComments,
+  selectElements,
+  useAnnotationStore,
+  useUIStore,
+} from "../../store";
+
+/**
+ * Format the time of a comment or reply.
+ */
+function formatCreatedAt(createdAt: string): string {
+  return new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// ============================================
+// Comment Form
+// ============================================
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (author: string, text: string) => void;
+}
+
+/**
+ * Author name and message form. The name is remembered for later comments.
+ */
+function CommentForm({ placeholder, submitLabel, onSubmit }: CommentFormProps) {
+  const [author, setAuthor] = useState(getCommentAuthor);
+  const [text, setText] = useState("");
+  const canSubmit = author.trim() !== "" && text.trim() !== "";
+
+  const submit = () => {
+    if (!canSubmit) {
+      return;
+    }
+    setCommentAuthor(author.trim());
+    onSubmit(author.trim(), text.trim());
+    setText("");
+  };
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <Input
+        className="h-8"
+        onChange={(e) => setAuthor(e.target.value)}
+        placeholder="Your name"
+        value={author}
+      />
+      <Textarea
+        autoFocus
+        className="min-h-16 resize-none"
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        placeholder={placeholder}
+        value={text}
+      />
+      <div className="flex justify-end">
+        <Button disabled={!canSubmit} size="sm" type="submit">
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// ============================================
+// Comment Thread
+// ============================================
+
+/**
+ * Single message of a thread (the comment or a reply).
+ */
+function CommentMessage({
+  author,
+  text,
+  createdAt,
+}: {
+  author: string;
+  text: string;
+  createdAt: string;
+}) {
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-baseline gap-2">
+        <span className="font-medium text-sm">{author}</span>
+        <span className="text-muted-foreground text-xs">
+          {formatCreatedAt(createdAt)}
+        </span>
+      </div>
+      <p className="whitespace-pre-wrap break-words text-sm">{text}</p>
+    </div>
+  );
+}
+
+/**
+ * Comment with its replies, reply form and resolve/delete actions.
+ */
+function CommentThread({
+  comment,
+  elementLabel,
+}: {
+  comment: ReviewComment;
+  elementLabel: string | null;
+}) {
+  const replyToComment = useAnnotationStore((state) => state.replyToComment);
+  const setCommentResolved = useAnnotationStore(
+    (state) => state.setCommentResolved
+  );
+  const deleteComment = useAnnotationStore((state) => state.deleteComment);
+  const openComment = useUIStore((state) => state.openComment);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1">
+        <span className="flex-1 truncate text-muted-foreground text-xs">
+          {elementLabel ? `On ${elementLabel}` : "On canvas"}
+          {comment.resolved && " · Resolved"}
+        </span>
+        <Button
+          className="h-7 w-7"
+          onClick={() => setCommentResolved(comment.id, !comment.resolved)}
+          size="icon"
+          title={comment.resolved ? "Reopen" : "Resolve"}
+          variant="ghost"
+        >
+          {comment.resolved ? (
+            <RotateCcw className="h-4 w-4" />
+          ) : (
+            <Check className="h-4 w-4" />
+          )}
+        </Button>
+        <Button
+          className="h-7 w-7"
+          onClick={() => {
+            deleteComment(comment.id);
+            openComment(null);
+          }}
+          size="icon"
+          title="Delete comment"
+          variant="ghost"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <div
+        className={cn(
+          "max-h-60 space-y-3 overflow-y-auto",
+          comment.resolved && "opacity-70"
+        )}
+      >
+        <CommentMessage {...comment} />
+        {comment.replies.map((reply) => (
+          <CommentMessage key={reply.id} {...reply} />
+        ))}
+      </div>
+      <CommentForm
+        onSubmit={(author, text) => replyToComment(comment.id, author, text)}
+        placeholder="Reply…"
+        submitLabel="Reply"
+      />
+    </div>
+  );
+}
+
+// ============================================
+// Comment Popover
+// ============================================
+
+/**
+ * Popover for the open comment thread or the comment being written.
+ * Anchored to the comment pin on the canvas.
+ */
+export function CommentPopover() {
+  const screen = useAnnotationStore(selectActiveScreen);
+  const comments = useAnnotationStore(selectComments);
+  const elements = useAnnotationStore(selectElements);
+  const viewport = useAnnotationStore((state) => state.viewport);
+  const addComment = useAnnotationStore((state) => state.addComment);
+  const openCommentId = useUIStore((state) => state.openCommentId);
+  const pendingComment = useUIStore((state) => state.pendingComment);
+  const openComment = useUIStore((state) => state.openComment);
+
+  // Comments belong to a screen
+  const screenId = screen?.id;
+  useEffect(() => {
+    if (screenId) {
+      openComment(null);
+    }
+  }, [screenId, openComment]);
+
+  const comment = comments.find((c) => c.id === openCommentId);
+  const target = pendingComment ?? comment;
+  if (!target) {
+    return null;
+  }
+
+  const anchor = getCommentAnchor(target, elements);
+  const element = elements.find((e) => e.id === target.elementId);
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (!open) {
+          openComment(null);
+        }
+      }}
+      open
+    >
+      <PopoverAnchor asChild>
+        <div
+          className="pointer-events-none absolute h-0 w-0"
+          style={{
+            left: viewport.offsetX + anchor.x * viewport.scale,
+            top: viewport.offsetY + anchor.y * viewport.scale,
+          }}
+        />
+      </PopoverAnchor>
+      <PopoverContent align="start" className="w-80" sideOffset={16}>
+        {pendingComment ? (
+          <div className="space-y-2">
+            <div className="text-muted-foreground text-xs">
+              {element ? `On ${getDisplayLabel(element)}` : "On canvas"}
+            </div>
+            <CommentForm
+              onSubmit={(author, text) => {
+                const id = addComment({ ...pendingComment, author, text });
+                openComment(id);
+              }}
+              placeholder="Add a comment…"
+              submitLabel="Comment"
+            />
+          </div>
+        ) : (
+          comment && (
+            <CommentThread
+              comment={comment}
+              elementLabel={element ? getDisplayLabel(element) : null}
+              key={comment.id}
+            />
+          )
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,132 @@
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverAnchor,
+  PopoverContent,
+} from "@/components/ui/popover";
+import { getConnectorRoute } from "@/lib/geometry";
+import {
+  type ConnectorEndpoint,
+  type ConnectorType,
+  type EditorElement,
+  getDisplayLabel,
+} from "@/types";
+import {
+  selectConnectors,
+  selectElements,
+  selectSelectedConnectorId,
+  useAnnotationStore,
+} from "../../store";
+
+/** Connector types in display order */
+const CONNECTOR_TYPES: { type: ConnectorType; title: string }[] = [
+  { type: "navigation", title: "Navigation" },
+  { type: "data-flow", title: "Data flow" },
+  { type: "toggle", title: "Toggle" },
+];
+
+/**
+ * Describe a connector endpoint ("Login button" or "Point").
+ */
+function describeEndpoint(
+  endpoint: ConnectorEndpoint,
+  elements: EditorElement[]
+): string {
+  if ("point" in endpoint) {
+    return "Point";
+  }
+  const element = elements.find((e) => e.id === endpoint.elementId);
+  return element ? getDisplayLabel(element) : "Point";
+}
+
+/**
+ * Popover to edit the selected connector (type and label).
+ * Anchored to the middle of the arrow.
+ */
+export function ConnectorPopover() {
+  const connectors = useAnnotationStore(selectConnectors);
+  const elements = useAnnotationStore(selectElements);
+  const selectedId = useAnnotationStore(selectSelectedConnectorId);
+  const viewport = useAnnotationStore((state) => state.viewport);
+  const selectConnector = useAnnotationStore((state) => state.selectConnector);
+  const updateConnector = useAnnotationStore((state) => state.updateConnector);
+  const deleteConnector = useAnnotationStore((state) => state.deleteConnector);
+
+  const connector = connectors.find((c) => c.id === selectedId);
+  const route = connector && getConnectorRoute(connector, elements);
+  if (!(connector && route)) {
+    return null;
+  }
+
+  const anchor = {
+    x: (route.from.x + route.to.x) / 2,
+    y: (route.from.y + route.to.y) / 2,
+  };
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (!open) {
+          selectConnector(null);
+        }
+      }}
+      open
+    >
+      <PopoverAnchor asChild>
+        <div
+          className="pointer-events-none absolute h-0 w-0"
+          style={{
+            left: viewport.offsetX + anchor.x * viewport.scale,
+            top: viewport.offsetY + anchor.y * viewport.scale,
+          }}
+        />
+      </PopoverAnchor>
+      <PopoverContent align="center" className="w-72 space-y-3" sideOffset={12}>
+        <div className="flex items-center gap-1">
+          <span className="flex-1 truncate text-muted-foreground text-xs">
+            {describeEndpoint(connector.from, elements)} →{" "}
+            {describeEndpoint(connector.to, elements)}
+          </span>
+          <Button
+            className="h-7 w-7"
+            onClick={() => deleteConnector(connector.id)}
+            size="icon"
+            title="Delete connector"
+            variant="ghost"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex gap-1">
+          {CONNECTOR_TYPES.map(({ type, title }) => (
+            <Button
+              className="h-7 flex-1 text-xs"
+              key={type}
+              onClick={() => updateConnector(connector.id, { type })}
+              size="sm"
+              variant={connector.type === type ? "secondary" : "ghost"}
+            >
+              {title}
+            </Button>
+          ))}
+        </div>
+        <Input
+          autoFocus
+          className="h-8"
+          onChange={(e) =>
+            updateConnector(connector.id, { label: e.target.value })
+          }
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              selectConnector(null);
+            }
+          }}
+          placeholder="Label, e.g. onClick → navigate"
+          value={connector.label ?? ""}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
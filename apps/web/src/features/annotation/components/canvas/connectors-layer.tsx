@@ -0,0 +1,143 @@
+import type Konva from "konva";
+import { memo, useCallback } from "react";
+import { Arrow, Label, Layer, Tag, Text } from "react-konva";
+import { getConnectorRoute } from "@/lib/geometry";
+import type { Connector, ConnectorId, Point } from "@/types";
+import { connectorConfig, labelConfig } from "../../constants/canvas";
+import { colorToRgb, primaryColors } from "../../constants/colors";
+import {
+  selectConnectors,
+  selectElements,
+  selectSelectedConnectorId,
+  type ToolMode,
+  useAnnotationStore,
+} from "../../store";
+
+interface ConnectorArrowProps {
+  connector: Connector;
+  from: Point;
+  to: Point;
+  isSelected: boolean;
+  listening: boolean;
+  stageScale: number;
+  onSelect: (id: ConnectorId) => void;
+}
+
+/**
+ * Arrow of a single connector with its label at the midpoint.
+ * Drawn at a constant screen size.
+ */
+const ConnectorArrow = memo(function ConnectorArrow({
+  connector,
+  from,
+  to,
+  isSelected,
+  listening,
+  stageScale,
+  onSelect,
+}: ConnectorArrowProps) {
+  const handlePointerDown = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+      // Keep the stage from selecting, dragging or drawing under the arrow
+      e.cancelBubble = true;
+      onSelect(connector.id);
+    },
+    [connector.id, onSelect]
+  );
+
+  const color = colorToRgb(
+    isSelected ? primaryColors.primary : primaryColors.connector
+  );
+  const pointerSize = connectorConfig.pointerSize / stageScale;
+
+  return (
+    <>
+      <Arrow
+        dash={connectorConfig.dash[connector.type]}
+        fill={color}
+        hitStrokeWidth={12}
+        listening={listening}
+        onMouseDown={handlePointerDown}
+        onTouchStart={handlePointerDown}
+        pointerLength={pointerSize}
+        pointerWidth={pointerSize}
+        points={[from.x, from.y, to.x, to.y]}
+        stroke={color}
+        strokeScaleEnabled={false}
+        strokeWidth={connectorConfig.strokeWidth * (isSelected ? 1.5 : 1)}
+      />
+      {connector.label && (
+        <Label
+          listening={listening}
+          onMouseDown={handlePointerDown}
+          onTouchStart={handlePointerDown}
+          scaleX={1 / stageScale}
+          scaleY={1 / stageScale}
+          x={(from.x + to.x) / 2}
+          y={(from.y + to.y) / 2}
+        >
+          <Tag
+            cornerRadius={3}
+            fill={color}
+            pointerDirection="down"
+            pointerHeight={0}
+            pointerWidth={0}
+          />
+          <Text
+            fill="white"
+            fontFamily="system-ui, sans-serif"
+            fontSize={labelConfig.fontSize}
+            padding={labelConfig.padding}
+            text={connector.label}
+          />
+        </Label>
+      )}
+    </>
+  );
+});
+
+/**
+ * Renders the connectors of the active screen.
+ * Routes follow the connected elements; connectors can be selected with
+ * the edit and connector tools.
+ */
+export function ConnectorsLayer({
+  activeTool,
+  stageScale,
+}: {
+  activeTool: ToolMode;
+  stageScale: number;
+}) {
+  const connectors = useAnnotationStore(selectConnectors);
+  const elements = useAnnotationStore(selectElements);
+  const selectedId = useAnnotationStore(selectSelectedConnectorId);
+  const selectConnector = useAnnotationStore((state) => state.selectConnector);
+
+  if (connectors.length === 0) {
+    return null;
+  }
+
+  const listening = activeTool === "edit" || activeTool === "connector";
+
+  return (
+    <Layer>
+      {connectors.map((connector) => {
+        const route = getConnectorRoute(connector, elements);
+        return (
+          route && (
+            <ConnectorArrow
+              connector={connector}
+              from={route.from}
+              isSelected={connector.id === selectedId}
+              key={connector.id}
+              listening={listening}
+              onSelect={selectConnector}
+              stageScale={stageScale}
+              to={route.to}
+            />
+          )
+        );
+      })}
+    </Layer>
+  );
+}
@@ -1,7 +1,23 @@
-import { Line, Rect } from "react-konva";
+import {
+  Arrow,
+  Circle,
+  Ellipse,
+  Label,
+  Line,
+  Rect,
+  Tag,
+  Text,
+} from "react-konva";
 import type { Point } from "@/types";
+import {
+  canvasConfig,
+  connectorConfig,
+  labelConfig,
+} from "../../constants/canvas";
 import { colorToRgb, colorToRgba, primaryColors } from "../../constants/colors";
 import type { CanvasMode } from "../../lib/canvas-utils";
+import { formatDistance } from "../../lib/measurements";
+import type { DistanceMarker } from "../../lib/smart-guides";
 import type { SnapGuideline } from "../../store";
 
 interface DrawingOverlayProps {
@@ -10,10 +26,132 @@ interface DrawingOverlayProps {
   guidelines: SnapGuideline[];
   imageWidth: number;
   imageHeight: number;
+  stageScale: number;
+  /** Pixel ratio of the screen (distance labels are in CSS pixels) */
+  pixelRatio: number;
+}
+
+/** Shared style of drawing previews */
+const previewStyle = {
+  dash: [6, 3],
+  fill: colorToRgba(primaryColors.primary, 0.2),
+  stroke: colorToRgb(primaryColors.primary),
+  strokeScaleEnabled: false,
+  strokeWidth: 2,
+};
+
+/**
+ * Preview of the polygon being drawn: placed vertices, the edge to the
+ * pointer and a marker on the first vertex (click it to close).
+ */
+function PolygonPreview({
+  points,
+  drawCurrent,
+  stageScale,
+}: {
+  points: Point[];
+  drawCurrent: Point | null;
+  stageScale: number;
+}) {
+  const path = drawCurrent ? [...points, drawCurrent] : points;
+  return (
+    <>
+      <Line
+        {...previewStyle}
+        fill={undefined}
+        listening={false}
+        points={path.flatMap((p) => [p.x, p.y])}
+      />
+      <Circle
+        fill="white"
+        listening={false}
+        radius={canvasConfig.vertexHandleRadius / stageScale}
+        stroke={previewStyle.stroke}
+        strokeScaleEnabled={false}
+        strokeWidth={2}
+        x={points[0].x}
+        y={points[0].y}
+      />
+    </>
+  );
+}
+
+/** Length of the distance marker end ticks (screen pixels) */
+const MARKER_TICK_SIZE = 6;
+
+/**
+ * Distance marker of a smart guide (equal gap or matching size) with
+ * end ticks and its value.
+ */
+function DistanceGuide({
+  marker,
+  stageScale,
+  pixelRatio,
+}: {
+  marker: DistanceMarker;
+  stageScale: number;
+  pixelRatio: number;
+}) {
+  const { axis, start, end, position } = marker;
+  const color = colorToRgb(primaryColors.guideline);
+  const tick = MARKER_TICK_SIZE / 2 / stageScale;
+  const middle = (start + end) / 2;
+  // Lines as [x1, y1, x2, y2] along the measured axis
+  const toPoints = (a: number, b: number, cross1: number, cross2: number) =>
+    axis === "x" ? [a, cross1, b, cross2] : [cross1, a, cross2, b];
+
+  return (
+    <>
+      <Line
+        listening={false}
+        points={toPoints(start, end, position, position)}
+        stroke={color}
+        strokeScaleEnabled={false}
+        strokeWidth={1}
+      />
+      <Line
+        listening={false}
+        points={toPoints(start, start, position - tick, position + tick)}
+        stroke={color}
+        strokeScaleEnabled={false}
+        strokeWidth={1}
+      />
+      <Line
+        listening={false}
+        points={toPoints(end, end, position - tick, position + tick)}
+        stroke={color}
+        strokeScaleEnabled={false}
+        strokeWidth={1}
+      />
+      <Label
+        listening={false}
+        scaleX={1 / stageScale}
+        scaleY={1 / stageScale}
+        x={axis === "x" ? middle : position}
+        y={axis === "x" ? position : middle}
+      >
+        <Tag
+          cornerRadius={3}
+          fill={color}
+          pointerDirection={axis === "x" ? "down" : "left"}
+          pointerHeight={0}
+          pointerWidth={0}
+        />
+        <Text
+          fill="white"
+          fontFamily="system-ui, sans-serif"
+          fontSize={labelConfig.fontSize}
+          padding={labelConfig.padding / 2}
+          text={formatDistance(end - start, pixelRatio)}
+        />
+      </Label>
+    </>
+  );
 }
 
 /**
- * Renders drawing preview rectangle and snap guidelines.
+ * Renders the drawing preview (rectangle, ellipse, polygon or connector)
+ * and snap guidelines (alignment lines and smart guide distances).
  * Shows visual feedback during annotation creation.
  */
 export function DrawingOverlay({
@@ -22,9 +160,11 @@ export function DrawingOverlay({
   guidelines,
   imageWidth,
   imageHeight,
+  stageScale,
+  pixelRatio,
 }: DrawingOverlayProps) {
-  // Drawing preview rectangle
-  let previewRect: React.ReactNode = null;
+  // Drawing preview rectangle or ellipse
+  let preview: React.ReactNode = null;
   if (mode.type === "drawing" && drawCurrent) {
     const { start } = mode;
     const x = Math.min(start.x, drawCurrent.x);
@@ -32,28 +172,60 @@ export function DrawingOverlay({
     const w = Math.abs(drawCurrent.x - start.x);
     const h = Math.abs(drawCurrent.y - start.y);
 
-    previewRect = (
-      <Rect
-        dash={[6, 3]}
-        fill={colorToRgba(primaryColors.primary, 0.2)}
-        height={h}
-        stroke={colorToRgb(primaryColors.primary)}
+    preview =
+      mode.shape === "ellipse" ? (
+        <Ellipse
+          {...previewStyle}
+          radiusX={w / 2}
+          radiusY={h / 2}
+          x={x + w / 2}
+          y={y + h / 2}
+        />
+      ) : (
+        <Rect {...previewStyle} height={h} width={w} x={x} y={y} />
+      );
+  } else if (mode.type === "connecting" && drawCurrent) {
+    const color = colorToRgb(primaryColors.connector);
+    preview = (
+      <Arrow
+        dash={previewStyle.dash}
+        fill={color}
+        listening={false}
+        pointerLength={connectorConfig.pointerSize / stageScale}
+        pointerWidth={connectorConfig.pointerSize / stageScale}
+        points={[mode.start.x, mode.start.y, drawCurrent.x, drawCurrent.y]}
+        stroke={color}
         strokeScaleEnabled={false}
-        strokeWidth={2}
-        width={w}
-        x={x}
-        y={y}
+        strokeWidth={connectorConfig.strokeWidth}
+      />
+    );
+  } else if (mode.type === "polygon") {
+    preview = (
+      <PolygonPreview
+        drawCurrent={drawCurrent}
+        points={mode.points}
+        stageScale={stageScale}
       />
     );
   }
 
   return (
     <>
-      {previewRect}
+      {preview}
 
       {/* Snap guidelines */}
-      {guidelines.map((line, idx) =>
-        line.type === "vertical" ? (
+      {guidelines.map((line, idx) => {
+        if (line.type === "distance") {
+          return (
+            <DistanceGuide
+              key={`guide-d-${line.axis}-${line.start}-${idx}`}
+              marker={line}
+              pixelRatio={pixelRatio}
+              stageScale={stageScale}
+            />
+          );
+        }
+        return line.type === "vertical" ? (
           <Line
             dash={[4, 2]}
             key={`guide-v-${line.position}-${idx}`}
@@ -71,8 +243,8 @@ export function DrawingOverlay({
             strokeScaleEnabled={false}
             strokeWidth={1}
           />
-        )
-      )}
+        );
+      })}
     </>
   );
 }
@@ -1,7 +1,8 @@
 import { Image, Layer } from "react-konva";
+import type { WorkingImage } from "@/lib/image";
 
 interface ImageLayerProps {
-  image: HTMLImageElement | null;
+  image: WorkingImage | null;
   width: number;
   height: number;
 }
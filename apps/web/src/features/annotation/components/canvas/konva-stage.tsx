@@ -1,19 +1,24 @@
 import type Konva from "konva";
 import { forwardRef, useCallback, useMemo, useRef } from "react";
 import { Layer, Stage } from "react-konva";
+import type { WorkingImage } from "@/lib/image";
 import type { Point } from "@/types";
 import { canvasConfig } from "../../constants/canvas";
 import type { CanvasMode } from "../../lib/canvas-utils";
 import {
   selectActiveGuidelines,
+  selectActiveScreen,
   selectElements,
-  selectProject,
   useAnnotationStore,
   useUIStore,
 } from "../../store";
 import { AnnotationsLayer, TransformerLayer } from "./annotations-layer";
+import { CommentPinsLayer } from "./comment-pins-layer";
+import { ConnectorsLayer } from "./connectors-layer";
 import { DrawingOverlay } from "./drawing-overlay";
 import { ImageLayer } from "./image-layer";
+import { MeasurementsLayer } from "./measurements-layer";
+import { VertexHandlesLayer } from "./vertex-handles-layer";
 
 /** Get distance between two touch points */
 const getDistance = (
@@ -33,7 +38,7 @@ const getCenter = (
 interface KonvaStageProps {
   containerWidth: number;
   containerHeight: number;
-  image: HTMLImageElement | null;
+  image: WorkingImage | null;
   mode: CanvasMode;
   drawCurrent: Point | null;
   isReady: boolean;
@@ -68,17 +73,17 @@ export const KonvaStage = forwardRef<Konva.Stage, KonvaStageProps>(
     ref
   ) {
     // Store state
-    const project = useAnnotationStore(selectProject);
+    const screen = useAnnotationStore(selectActiveScreen);
     const elements = useAnnotationStore(selectElements);
     const viewport = useAnnotationStore((state) => state.viewport);
 
-    // Get image size from project
+    // Get image size from the active screen
     const imageSize = useMemo(
       () =>
-        project
-          ? { width: project.imageWidth, height: project.imageHeight }
+        screen
+          ? { width: screen.imageWidth, height: screen.imageHeight }
           : null,
-      [project]
+      [screen]
     );
     const activeTool = useAnnotationStore((state) => state.activeTool);
     const selectedIds = useAnnotationStore(
@@ -307,6 +312,9 @@ export const KonvaStage = forwardRef<Konva.Stage, KonvaStageProps>(
       if (activeTool === "pan") {
         return "grab";
       }
+      if (["comment", "connector", "ellipse", "polygon"].includes(activeTool)) {
+        return "crosshair";
+      }
       if (activeTool !== "edit") {
         return "default";
       }
@@ -319,7 +327,7 @@ export const KonvaStage = forwardRef<Konva.Stage, KonvaStageProps>(
       return "default";
     }, [activeTool, mode.type, isAltPressed]);
 
-    if (!(project && imageSize)) {
+    if (!imageSize) {
       return null;
     }
 
@@ -363,6 +371,9 @@ export const KonvaStage = forwardRef<Konva.Stage, KonvaStageProps>(
           stageScale={stageScale}
         />
 
+        {/* Connectors Layer */}
+        <ConnectorsLayer activeTool={activeTool} stageScale={stageScale} />
+
         {/* Drawing Overlay Layer */}
         <Layer>
           <DrawingOverlay
@@ -371,6 +382,8 @@ export const KonvaStage = forwardRef<Konva.Stage, KonvaStageProps>(
             imageHeight={imageHeight}
             imageWidth={imageWidth}
             mode={mode}
+            pixelRatio={screen?.pixelRatio ?? 1}
+            stageScale={stageScale}
           />
         </Layer>
 
@@ -380,6 +393,25 @@ export const KonvaStage = forwardRef<Konva.Stage, KonvaStageProps>(
           selectedIds={selectedIds}
           stageRef={ref as React.RefObject<Konva.Stage | null>}
         />
+
+        {/* Measurements & Spacings Layer */}
+        <MeasurementsLayer
+          activeTool={activeTool}
+          hoveredId={hoveredId}
+          isAltPressed={isAltPressed}
+          selectedIds={selectedIds}
+          stageScale={stageScale}
+        />
+
+        {/* Polygon Vertex Handles Layer */}
+        <VertexHandlesLayer
+          activeTool={activeTool}
+          selectedIds={selectedIds}
+          stageScale={stageScale}
+        />
+
+        {/* Comment Pins Layer */}
+        <CommentPinsLayer stageScale={stageScale} />
       </Stage>
     );
   }
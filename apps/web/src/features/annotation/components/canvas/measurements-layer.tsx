@@ -0,0 +1,202 @@
+import type Konva from "konva";
+import { memo, useCallback, useMemo } from "react";
+import { Group, Label, Layer, Line, Tag, Text } from "react-konva";
+import type { ElementId } from "@/types";
+import { labelConfig } from "../../constants/canvas";
+import { colorToRgb, primaryColors } from "../../constants/colors";
+import {
+  findSavedSpacing,
+  formatDistance,
+  type Measurement,
+  measureElements,
+  measureSpacing,
+} from "../../lib/measurements";
+import {
+  selectActiveScreen,
+  selectElements,
+  selectSpacings,
+  type ToolMode,
+  useAnnotationStore,
+} from "../../store";
+
+/** Length of the end ticks (screen pixels) */
+const TICK_SIZE = 6;
+
+interface MeasurementLineProps {
+  measurement: Measurement;
+  color: string;
+  text: string;
+  stageScale: number;
+  onClick: (measurement: Measurement) => void;
+}
+
+/**
+ * Distance line with end ticks and its value at the middle.
+ * Clicking the value saves or removes the spacing.
+ */
+const MeasurementLine = memo(function MeasurementLine({
+  measurement,
+  color,
+  text,
+  stageScale,
+  onClick,
+}: MeasurementLineProps) {
+  const handlePointerDown = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+      // Keep the stage from selecting, dragging or drawing under the label
+      e.cancelBubble = true;
+      onClick(measurement);
+    },
+    [measurement, onClick]
+  );
+
+  const { axis, start, end, position } = measurement;
+  const tick = TICK_SIZE / 2 / stageScale;
+  const middle = (start + end) / 2;
+  // Lines and ticks as [x1, y1, x2, y2] along the measured axis
+  const toPoints = (a: number, b: number, cross1: number, cross2: number) =>
+    axis === "x" ? [a, cross1, b, cross2] : [cross1, a, cross2, b];
+
+  return (
+    <Group>
+      <Line
+        listening={false}
+        points={toPoints(start, end, position, position)}
+        stroke={color}
+        strokeScaleEnabled={false}
+        strokeWidth={1}
+      />
+      {[start, end].map((value, index) => (
+        <Line
+          key={index === 0 ? "start" : "end"}
+          listening={false}
+          points={toPoints(value, value, position - tick, position + tick)}
+          stroke={color}
+          strokeScaleEnabled={false}
+          strokeWidth={1}
+        />
+      ))}
+      <Label
+        onMouseDown={handlePointerDown}
+        onTouchStart={handlePointerDown}
+        scaleX={1 / stageScale}
+        scaleY={1 / stageScale}
+        x={axis === "x" ? middle : position}
+        y={axis === "x" ? position : middle}
+      >
+        {/* A zero-size pointer centers the label on the line */}
+        <Tag
+          cornerRadius={3}
+          fill={color}
+          pointerDirection={axis === "x" ? "down" : "left"}
+          pointerHeight={0}
+          pointerWidth={0}
+        />
+        <Text
+          fill="white"
+          fontFamily="system-ui, sans-serif"
+          fontSize={labelConfig.fontSize}
+          padding={labelConfig.padding / 2}
+          text={text}
+        />
+      </Label>
+    </Group>
+  );
+});
+
+interface MeasurementsLayerProps {
+  activeTool: ToolMode;
+  selectedIds: ElementId[];
+  hoveredId: ElementId | null;
+  isAltPressed: boolean;
+  stageScale: number;
+}
+
+/**
+ * Renders saved spacings and live measurements.
+ * Distances are measured between two selected elements, or between the
+ * selected element and the hovered one while Alt is held. Values are in
+ * CSS pixels of the screen's pixel ratio.
+ */
+export function MeasurementsLayer({
+  activeTool,
+  selectedIds,
+  hoveredId,
+  isAltPressed,
+  stageScale,
+}: MeasurementsLayerProps) {
+  const screen = useAnnotationStore(selectActiveScreen);
+  const elements = useAnnotationStore(selectElements);
+  const spacings = useAnnotationStore(selectSpacings);
+  const addSpacing = useAnnotationStore((state) => state.addSpacing);
+  const deleteSpacing = useAnnotationStore((state) => state.deleteSpacing);
+
+  // Live measurement pair: two selected, or selected + Alt-hovered
+  const firstId = selectedIds.length <= 2 ? selectedIds[0] : undefined;
+  let secondId: ElementId | undefined;
+  if (selectedIds.length === 2) {
+    secondId = selectedIds[1];
+  } else if (isAltPressed && hoveredId && hoveredId !== firstId) {
+    secondId = hoveredId;
+  }
+
+  const measurements = useMemo(() => {
+    const a = elements.find((e) => e.id === firstId);
+    const b = elements.find((e) => e.id === secondId);
+    return a && b ? measureElements(a, b) : [];
+  }, [elements, firstId, secondId]);
+
+  const toggleSpacing = useCallback(
+    (measurement: Measurement) => {
+      const saved = findSavedSpacing(measurement, spacings);
+      if (saved) {
+        deleteSpacing(saved.id);
+      } else {
+        addSpacing({ from: measurement.from, to: measurement.to });
+      }
+    },
+    [spacings, addSpacing, deleteSpacing]
+  );
+
+  if (
+    activeTool !== "edit" ||
+    (spacings.length === 0 && measurements.length === 0)
+  ) {
+    return null;
+  }
+
+  const pixelRatio = screen?.pixelRatio ?? 1;
+  const savedColor = colorToRgb(primaryColors.spacing);
+  const liveColor = colorToRgb(primaryColors.measurement);
+  const live = measurements.filter((m) => !findSavedSpacing(m, spacings));
+
+  return (
+    <Layer>
+      {spacings.map((spacing) => {
+        const measurement = measureSpacing(spacing, elements);
+        return (
+          measurement && (
+            <MeasurementLine
+              color={savedColor}
+              key={spacing.id}
+              measurement={measurement}
+              onClick={toggleSpacing}
+              stageScale={stageScale}
+              text={formatDistance(measurement.distance, pixelRatio)}
+            />
+          )
+        );
+      })}
+      {live.map((measurement) => (
+        <MeasurementLine
+          color={liveColor}
+          key={`${measurement.from.edge}-${measurement.to.edge}`}
+          measurement={measurement}
+          onClick={toggleSpacing}
+          stageScale={stageScale}
+          text={formatDistance(measurement.distance, pixelRatio)}
+        />
+      ))}
+    </Layer>
+  );
+}
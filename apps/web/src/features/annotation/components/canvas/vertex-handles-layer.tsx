@@ -0,0 +1,137 @@
+import type Konva from "konva";
+import { useCallback } from "react";
+import { Circle, Layer } from "react-konva";
+import { fitPolygon, getPolygonPoints } from "@/lib/geometry";
+import type { ElementId, Point } from "@/types";
+import { canvasConfig } from "../../constants/canvas";
+import { colorToRgb, primaryColors } from "../../constants/colors";
+import {
+  beginAnnotationTransaction,
+  endAnnotationTransaction,
+  selectActiveScreen,
+  selectElements,
+  type ToolMode,
+  useAnnotationStore,
+} from "../../store";
+
+interface VertexHandlesLayerProps {
+  activeTool: ToolMode;
+  selectedIds: ElementId[];
+  stageScale: number;
+}
+
+type PointerEvent = Konva.KonvaEventObject<MouseEvent | TouchEvent>;
+
+/** Keep the stage from selecting, dragging or drawing under a handle */
+function stopPropagation(e: PointerEvent): void {
+  e.cancelBubble = true;
+}
+
+/**
+ * Vertex handles of the selected polygon.
+ * Drag a vertex to move it, Alt+click to remove it, and click an edge
+ * midpoint to insert a vertex there. Each drag is one undo step.
+ */
+export function VertexHandlesLayer({
+  activeTool,
+  selectedIds,
+  stageScale,
+}: VertexHandlesLayerProps) {
+  const elements = useAnnotationStore(selectElements);
+  const screen = useAnnotationStore(selectActiveScreen);
+  const updateElement = useAnnotationStore((state) => state.updateElement);
+
+  const element =
+    activeTool === "edit" && selectedIds.length === 1
+      ? elements.find((e) => e.id === selectedIds[0])
+      : undefined;
+  const shape = element?.shape;
+  const vertices =
+    element && shape?.type === "polygon"
+      ? getPolygonPoints(element.bbox.pixel, shape.points)
+      : null;
+
+  const setVertices = useCallback(
+    (next: Point[]) => {
+      if (!(element && screen)) {
+        return;
+      }
+      const size = { w: screen.imageWidth, h: screen.imageHeight };
+      updateElement(element.id, fitPolygon(next, size));
+    },
+    [element, screen, updateElement]
+  );
+
+  if (!vertices) {
+    return null;
+  }
+
+  const radius = canvasConfig.vertexHandleRadius / stageScale;
+  const color = colorToRgb(primaryColors.primary);
+
+  const moveVertex = (index: number, e: Konva.KonvaEventObject<DragEvent>) => {
+    const next = [...vertices];
+    next[index] = { x: e.target.x(), y: e.target.y() };
+    setVertices(next);
+  };
+
+  const removeVertex = (index: number, e: PointerEvent) => {
+    stopPropagation(e);
+    if (e.evt.altKey && vertices.length > 3) {
+      beginAnnotationTransaction("Removed vertex");
+      setVertices(vertices.filter((_, i) => i !== index));
+      endAnnotationTransaction();
+    }
+  };
+
+  const insertVertex = (index: number, point: Point, e: PointerEvent) => {
+    stopPropagation(e);
+    beginAnnotationTransaction("Added vertex");
+    setVertices([
+      ...vertices.slice(0, index + 1),
+      point,
+      ...vertices.slice(index + 1),
+    ]);
+    endAnnotationTransaction();
+  };
+
+  const midpoints = vertices.map((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  });
+
+  return (
+    <Layer>
+      {midpoints.map((point, index) => (
+        <Circle
+          fill={color}
+          key={`mid-${index.toString()}`}
+          onMouseDown={(e) => insertVertex(index, point, e)}
+          onTouchStart={(e) => insertVertex(index, point, e)}
+          opacity={0.5}
+          radius={radius * 0.7}
+          x={point.x}
+          y={point.y}
+        />
+      ))}
+      {vertices.map((point, index) => (
+        <Circle
+          draggable
+          fill="white"
+          key={`vertex-${index.toString()}`}
+          onDragEnd={() => endAnnotationTransaction()}
+          onDragMove={(e) => moveVertex(index, e)}
+          onDragStart={() => beginAnnotationTransaction("Moved vertex")}
+          onMouseDown={(e) => removeVertex(index, e)}
+          onTouchStart={stopPropagation}
+          radius={radius}
+          stroke={color}
+          strokeScaleEnabled={false}
+          strokeWidth={2}
+          x={point.x}
+          y={point.y}
+        />
+      ))}
+    </Layer>
+  );
+}
@@ -1,5 +1,5 @@
 import { ImageIcon, Lock, SquareMousePointer, Upload } from "lucide-react";
-import { useCallback, useRef, useState } from "react";
+import { type ReactNode, useCallback, useRef, useState } from "react";
 import { AppLogoWithText } from "@/components/common/app-logo";
 import { Button } from "@/components/ui/button";
 import { showError } from "@/lib/error";
@@ -9,14 +9,17 @@ export interface ImageUploaderProps {
   acceptPattern: string;
   /** Function to check if a file is acceptable */
   isAcceptableFile: (file: File) => boolean;
-  /** Handler for opening an image file */
-  onOpen?: (file: File) => void;
+  /** Handler for opening an image file (other selected files are companions, e.g. screenshots of a JSON export) */
+  onOpen?: (file: File, companions: File[]) => void;
+  /** Content shown below the drop zone (e.g. recent projects) */
+  children?: ReactNode;
 }
 
 export function ImageUploader({
   acceptPattern,
   isAcceptableFile,
   onOpen,
+  children,
 }: ImageUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -27,10 +30,10 @@ export function ImageUploader({
       e.preventDefault();
       setIsDragging(false);
       dragCounterRef.current = 0;
-      const file = e.dataTransfer.files[0];
+      const [file, ...companions] = Array.from(e.dataTransfer.files);
       if (file) {
         if (isAcceptableFile(file)) {
-          onOpen?.(file);
+          onOpen?.(file, companions);
         } else {
           showError(
             "Unsupported file type",
@@ -63,7 +66,7 @@ export function ImageUploader({
   }, []);
 
   return (
-    <div className="flex h-full w-full items-center justify-center py-8">
+    <div className="flex min-h-full w-full items-center justify-center py-8">
       <div className="flex w-full max-w-lg flex-col items-center px-6">
         {/* Logo */}
         <AppLogoWithText className="mb-5 scale-110" />
@@ -145,10 +148,11 @@ export function ImageUploader({
           <input
             accept={acceptPattern}
             className="hidden"
+            multiple
             onChange={(e) => {
-              const file = e.target.files?.[0];
+              const [file, ...companions] = Array.from(e.target.files ?? []);
               if (file) {
-                onOpen?.(file);
+                onOpen?.(file, companions);
               }
               e.target.value = "";
             }}
@@ -162,6 +166,8 @@ export function ImageUploader({
           <Lock className="mr-1 inline h-3 w-3" />
           Your images & annotations stay on your device, never uploaded.
         </p>
+
+        {children}
       </div>
     </div>
   );
@@ -0,0 +1,108 @@
+import { Check, History } from "lucide-react";
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import {
+  jumpToAnnotationHistory,
+  selectHistory,
+  useAnnotationStore,
+} from "../../store";
+
+/**
+ * A point in the undo/redo history.
+ */
+interface HistoryPoint {
+  /** Number of steps before this point */
+  position: number;
+  /** Change that led to this point */
+  label: string;
+}
+
+/**
+ * Build the history timeline (oldest first).
+ */
+function useHistoryPoints(): { points: HistoryPoint[]; current: number } {
+  const history = useAnnotationStore(selectHistory);
+
+  return useMemo(() => {
+    const past = history?.past ?? [];
+    // The next redo is the last future entry
+    const future = [...(history?.future ?? [])].reverse();
+    const points = [
+      { position: 0, label: "Start of history" },
+      ...[...past, ...future].map((entry, i) => ({
+        position: i + 1,
+        label: entry.label,
+      })),
+    ];
+    return { points, current: past.length };
+  }, [history]);
+}
+
+/**
+ * List of undo/redo history entries of the active screen.
+ * Clicking an entry undoes or redoes up to that point.
+ */
+export function HistoryPanel() {
+  const { points, current } = useHistoryPoints();
+
+  return (
+    <div className="flex max-h-80 flex-col overflow-y-auto py-1">
+      {[...points].reverse().map(({ position, label }) => (
+        <button
+          className={cn(
+            "flex items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-muted",
+            position > current && "text-muted-foreground/60",
+            position === current && "font-medium"
+          )}
+          key={position}
+          onClick={() => jumpToAnnotationHistory(position)}
+          type="button"
+        >
+          <Check
+            className={cn(
+              "h-3.5 w-3.5 shrink-0",
+              position !== current && "invisible"
+            )}
+          />
+          <span className="truncate">{label}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Button that opens the history panel in a popover.
+ */
+export function HistoryButton({
+  className,
+  iconClassName,
+}: {
+  className?: string;
+  iconClassName?: string;
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          className={className}
+          size="icon"
+          title="History"
+          variant="ghost"
+        >
+          <History className={iconClassName} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0">
+        <div className="border-b px-3 py-2 font-medium text-sm">History</div>
+        <HistoryPanel />
+      </PopoverContent>
+    </Popover>
+  );
+}
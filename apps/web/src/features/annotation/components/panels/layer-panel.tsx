@@ -2,6 +2,9 @@ import {
   closestCenter,
   DndContext,
   type DragEndEvent,
+  type DragMoveEvent,
+  type DragOverEvent,
+  type DragStartEvent,
   KeyboardSensor,
   PointerSensor,
   TouchSensor,
@@ -9,6 +12,7 @@ import {
   useSensors,
 } from "@dnd-kit/core";
 import {
+  arrayMove,
   SortableContext,
   sortableKeyboardCoordinates,
   useSortable,
@@ -16,11 +20,16 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { GripVertical } from "lucide-react";
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
-import { type EditorElement, getDisplayLabel } from "@/types";
+import { type EditorElement, type ElementId, getDisplayLabel } from "@/types";
 import { getElementColorConfig } from "../../constants/colors";
 import { useIconResolver } from "../../contexts/icon-resolver-context";
+import {
+  type FlattenedElement,
+  flattenElementTree,
+  getDescendantIds,
+} from "../../lib/hierarchy";
 import {
   selectElements,
   selectProject,
@@ -29,6 +38,64 @@ import {
   useUIStore,
 } from "../../store";
 
+/** Horizontal indentation per tree level (px) */
+const INDENT_WIDTH = 12;
+
+/**
+ * Drop target computed from the drag position.
+ * Dragging horizontally changes the depth (nest under / lift out of a parent).
+ */
+interface Projection {
+  depth: number;
+  parentId: ElementId | null;
+  /** Position among the new siblings, front to back */
+  index: number;
+}
+
+function getProjection(
+  items: FlattenedElement[],
+  activeId: ElementId,
+  overId: ElementId,
+  offsetX: number
+): Projection | null {
+  const activeIndex = items.findIndex((i) => i.element.id === activeId);
+  const overIndex = items.findIndex((i) => i.element.id === overId);
+  if (activeIndex === -1 || overIndex === -1) {
+    return null;
+  }
+
+  const active = items[activeIndex];
+  const moved = arrayMove(items, activeIndex, overIndex);
+  const previous = moved[overIndex - 1];
+  const next = moved[overIndex + 1];
+
+  const projectedDepth = active.depth + Math.round(offsetX / INDENT_WIDTH);
+  const maxDepth = previous ? previous.depth + 1 : 0;
+  const minDepth = next ? next.depth : 0;
+  const depth = Math.min(Math.max(projectedDepth, minDepth), maxDepth);
+
+  let parentId: ElementId | null = null;
+  if (previous && depth > 0) {
+    if (depth > previous.depth) {
+      parentId = previous.element.id;
+    } else {
+      const sibling = moved
+        .slice(0, overIndex)
+        .reverse()
+        .find((i) => i.depth === depth);
+      parentId = sibling?.element.parentId ?? null;
+    }
+  }
+
+  const index = moved
+    .slice(0, overIndex)
+    .filter((i) =>
+      parentId === null ? i.depth === 0 : i.element.parentId === parentId
+    ).length;
+
+  return { depth, parentId, index };
+}
+
 export interface LayerPanelProps {
   /** Show header with title. Default: true (for desktop sidebar) */
   showHeader?: boolean;
@@ -39,7 +106,9 @@ export function LayerPanel({ showHeader = true }: LayerPanelProps) {
   const elements = useAnnotationStore(selectElements);
   const selectedIds = useAnnotationStore(selectSelectedIds);
   const selectElement = useAnnotationStore((state) => state.selectElement);
-  const reorderElements = useAnnotationStore((state) => state.reorderElements);
+  const moveElementInTree = useAnnotationStore(
+    (state) => state.moveElementInTree
+  );
   const hoveredId = useUIStore((state) => state.hoveredId);
   const setHovered = useUIStore((state) => state.setHovered);
   const triggerLabelFocus = useUIStore((state) => state.triggerLabelFocus);
@@ -59,24 +128,67 @@ export function LayerPanel({ showHeader = true }: LayerPanelProps) {
     })
   );
 
-  // Reverse elements for display (top of list = front = highest displayOrder)
-  const reversedElements = useMemo(() => [...elements].reverse(), [elements]);
+  // Drag state for tree projection
+  const [activeId, setActiveId] = useState<ElementId | null>(null);
+  const [overId, setOverId] = useState<ElementId | null>(null);
+  const [offsetX, setOffsetX] = useState(0);
+
+  // Tree for display (top of list = front, children below their parent)
+  const flattenedElements = useMemo(
+    () => flattenElementTree(elements),
+    [elements]
+  );
+
+  // While dragging, descendants travel with the dragged element
+  const items = useMemo(() => {
+    if (!activeId) {
+      return flattenedElements;
+    }
+    const descendants = getDescendantIds(elements, activeId);
+    return flattenedElements.filter((i) => !descendants.has(i.element.id));
+  }, [elements, flattenedElements, activeId]);
+
+  const projection =
+    activeId && overId ? getProjection(items, activeId, overId, offsetX) : null;
+
+  const resetDrag = useCallback(() => {
+    setActiveId(null);
+    setOverId(null);
+    setOffsetX(0);
+  }, []);
+
+  const handleDragStart = useCallback((event: DragStartEvent) => {
+    const id = String(event.active.id);
+    setActiveId(id);
+    setOverId(id);
+  }, []);
+
+  const handleDragMove = useCallback((event: DragMoveEvent) => {
+    setOffsetX(event.delta.x);
+  }, []);
+
+  const handleDragOver = useCallback((event: DragOverEvent) => {
+    setOverId(event.over ? String(event.over.id) : null);
+  }, []);
 
   const handleDragEnd = useCallback(
     (event: DragEndEvent) => {
       const { active, over } = event;
-      if (!over || active.id === over.id) {
+      const result = over
+        ? getProjection(items, String(active.id), String(over.id), offsetX)
+        : null;
+      resetDrag();
+
+      if (!result) {
         return;
       }
-
-      const oldIndex = elements.findIndex((e) => e.id === active.id);
-      const newIndex = elements.findIndex((e) => e.id === over.id);
-
-      if (oldIndex !== -1 && newIndex !== -1) {
-        reorderElements(oldIndex, newIndex);
+      const current = items.find((i) => i.element.id === active.id);
+      if (active.id === over?.id && current?.depth === result.depth) {
+        return;
       }
+      moveElementInTree(String(active.id), result.parentId, result.index);
     },
-    [elements, reorderElements]
+    [items, offsetX, moveElementInTree, resetDrag]
   );
 
   if (!project) {
@@ -94,23 +206,32 @@ export function LayerPanel({ showHeader = true }: LayerPanelProps) {
       )}
       {/* Scroll container with touch-action: pan-y for smooth scrolling */}
       <div className="flex-1 overflow-y-auto" style={{ touchAction: "pan-y" }}>
-        {reversedElements.length === 0 ? (
+        {items.length === 0 ? (
           <div className="p-3 text-center text-muted-foreground text-xs">
             No annotations yet
           </div>
         ) : (
           <DndContext
             collisionDetection={closestCenter}
+            onDragCancel={resetDrag}
             onDragEnd={handleDragEnd}
+            onDragMove={handleDragMove}
+            onDragOver={handleDragOver}
+            onDragStart={handleDragStart}
             sensors={sensors}
           >
             <SortableContext
-              items={reversedElements.map((e) => e.id)}
+              items={items.map((i) => i.element.id)}
               strategy={verticalListSortingStrategy}
             >
               <div className="py-1">
-                {reversedElements.map((element) => (
+                {items.map(({ element, depth }) => (
                   <SortableLayerItem
+                    depth={
+                      element.id === activeId && projection
+                        ? projection.depth
+                        : depth
+                    }
                     element={element}
                     isHovered={hoveredId === element.id}
                     isSelected={selectedIds.includes(element.id)}
@@ -136,6 +257,8 @@ export function LayerPanel({ showHeader = true }: LayerPanelProps) {
 
 interface LayerItemProps {
   element: EditorElement;
+  /** Nesting depth in the element tree */
+  depth: number;
   isSelected: boolean;
   isHovered: boolean;
   onSelect: (addToSelection: boolean) => void;
@@ -172,6 +295,7 @@ interface LayerItemInternalProps extends LayerItemProps {
 
 function LayerItem({
   element,
+  depth,
   isSelected,
   isHovered,
   onSelect,
@@ -199,6 +323,7 @@ function LayerItem({
       onDoubleClick={onDoubleClick}
       onMouseEnter={() => onHover(true)}
       onMouseLeave={() => onHover(false)}
+      style={{ paddingLeft: 8 + depth * INDENT_WIDTH }}
     >
       {/* Drag handle - touch-none prevents scroll, data-vaul-no-drag prevents drawer interference */}
       <span
@@ -1,14 +1,22 @@
 import { BaseSheet } from "./base-sheet";
 import { LayerPanel } from "./layer-panel";
+import { ScreenList } from "./screen-list";
 
 export interface LayerSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** Handler for adding an image as a new screen */
+  onAddScreen?: (file: File) => void;
 }
 
-export function LayerSheet({ open, onOpenChange }: LayerSheetProps) {
+export function LayerSheet({
+  open,
+  onOpenChange,
+  onAddScreen,
+}: LayerSheetProps) {
   return (
     <BaseSheet onOpenChange={onOpenChange} open={open} title="Annotations">
+      <ScreenList onAddScreen={onAddScreen} />
       <LayerPanel showHeader={false} />
     </BaseSheet>
   );
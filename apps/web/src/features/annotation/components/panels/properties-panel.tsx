@@ -28,6 +28,7 @@ import type { ElementColor } from "@/types";
 import type { ComponentSpec } from "@/types/component";
 import { ELEMENT_COLORS } from "../../constants/colors";
 import {
+  selectActiveScreen,
   selectFirstSelectedElement,
   useAnnotationStore,
   useUIStore,
@@ -63,6 +64,45 @@ function CoordinateGrid({
   );
 }
 
+/** Pixel ratios offered for screenshots */
+const PIXEL_RATIOS = [1, 2, 3];
+
+/**
+ * Pixel ratio of the active screen, used to show and export distances
+ * in CSS pixels (e.g. 2x for Retina screenshots).
+ */
+function PixelRatioField() {
+  const screen = useAnnotationStore(selectActiveScreen);
+  const setScreenPixelRatio = useAnnotationStore(
+    (state) => state.setScreenPixelRatio
+  );
+
+  if (!screen) {
+    return null;
+  }
+
+  const current = screen.pixelRatio ?? 1;
+
+  return (
+    <div className="w-full max-w-48 space-y-1.5">
+      <Label className="text-muted-foreground text-xs">Pixel ratio</Label>
+      <div className="flex gap-1">
+        {PIXEL_RATIOS.map((ratio) => (
+          <Button
+            className="h-7 flex-1 text-xs"
+            key={ratio}
+            onClick={() => setScreenPixelRatio(screen.id, ratio)}
+            size="sm"
+            variant={current === ratio ? "secondary" : "ghost"}
+          >
+            {ratio}x
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 /** Delete button styles */
 const DELETE_BUTTON_CLASS =
   "w-full text-destructive hover:text-destructive hover:bg-destructive/10";
@@ -119,8 +159,9 @@ export function PropertiesPanel({
 
   if (!selectedElement) {
     return (
-      <div className="flex h-full items-center justify-center p-4 text-muted-foreground text-sm">
+      <div className="flex h-full flex-col items-center justify-center gap-6 p-4 text-muted-foreground text-sm">
         Select an element to edit
+        <PixelRatioField />
       </div>
     );
   }
@@ -0,0 +1,295 @@
+import {
+  closestCenter,
+  DndContext,
+  type DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { GripVertical, Plus, X } from "lucide-react";
+import { useCallback, useRef, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { Screen } from "@/types";
+import { selectProject, selectScreens, useAnnotationStore } from "../../store";
+
+export interface ScreenListProps {
+  /** Handler for adding an image as a new screen (injected from outside) */
+  onAddScreen?: (file: File) => void;
+}
+
+export function ScreenList({ onAddScreen }: ScreenListProps) {
+  const project = useAnnotationStore(selectProject);
+  const screens = useAnnotationStore(selectScreens);
+  const switchScreen = useAnnotationStore((state) => state.switchScreen);
+  const removeScreen = useAnnotationStore((state) => state.removeScreen);
+  const renameScreen = useAnnotationStore((state) => state.renameScreen);
+  const reorderScreens = useAnnotationStore((state) => state.reorderScreens);
+  const addInputRef = useRef<HTMLInputElement>(null);
+  const [screenToRemove, setScreenToRemove] = useState<Screen | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: { distance: 8 },
+    }),
+    useSensor(TouchSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over } = event;
+      if (!over || active.id === over.id) {
+        return;
+      }
+
+      const oldIndex = screens.findIndex((s) => s.id === active.id);
+      const newIndex = screens.findIndex((s) => s.id === over.id);
+
+      if (oldIndex !== -1 && newIndex !== -1) {
+        reorderScreens(oldIndex, newIndex);
+      }
+    },
+    [screens, reorderScreens]
+  );
+
+  if (!project) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col">
+      <AlertDialog
+        onOpenChange={(open) => !open && setScreenToRemove(null)}
+        open={!!screenToRemove}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Screen</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to remove "{screenToRemove?.name}" and its
+              annotations?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "destructive" })}
+              onClick={() => {
+                if (screenToRemove) {
+                  removeScreen(screenToRemove.id);
+                }
+                setScreenToRemove(null);
+              }}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <div className="flex items-center justify-between border-b px-3 py-1">
+        <h3 className="font-medium text-muted-foreground text-xs">Screens</h3>
+        {onAddScreen && (
+          <Button
+            className="h-6 w-6"
+            onClick={() => addInputRef.current?.click()}
+            size="icon"
+            title="Add screen"
+            variant="ghost"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+      <div
+        className="max-h-48 overflow-y-auto border-b"
+        style={{ touchAction: "pan-y" }}
+      >
+        <DndContext
+          collisionDetection={closestCenter}
+          onDragEnd={handleDragEnd}
+          sensors={sensors}
+        >
+          <SortableContext
+            items={screens.map((s) => s.id)}
+            strategy={verticalListSortingStrategy}
+          >
+            <div className="py-1">
+              {screens.map((screen, index) => (
+                <SortableScreenItem
+                  canRemove={screens.length > 1}
+                  index={index}
+                  isActive={screen.id === project.activeScreenId}
+                  key={screen.id}
+                  onRemove={() => setScreenToRemove(screen)}
+                  onRename={(name) => renameScreen(screen.id, name)}
+                  onSelect={() => switchScreen(screen.id)}
+                  screen={screen}
+                />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      </div>
+
+      <input
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file && onAddScreen) {
+            onAddScreen(file);
+          }
+          e.target.value = "";
+        }}
+        ref={addInputRef}
+        type="file"
+      />
+    </div>
+  );
+}
+
+interface ScreenItemProps {
+  screen: Screen;
+  index: number;
+  isActive: boolean;
+  canRemove: boolean;
+  onSelect: () => void;
+  onRename: (name: string) => void;
+  onRemove: () => void;
+}
+
+function SortableScreenItem(props: ScreenItemProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: props.screen.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style}>
+      <ScreenItem
+        {...props}
+        dragHandleProps={{ ...attributes, ...listeners }}
+      />
+    </div>
+  );
+}
+
+interface ScreenItemInternalProps extends ScreenItemProps {
+  dragHandleProps?: Record<string, unknown>;
+}
+
+function ScreenItem({
+  screen,
+  index,
+  isActive,
+  canRemove,
+  onSelect,
+  onRename,
+  onRemove,
+  dragHandleProps,
+}: ScreenItemInternalProps) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const commitRename = (value: string) => {
+    const name = value.trim();
+    if (name && name !== screen.name) {
+      onRename(name);
+    }
+    setIsEditing(false);
+  };
+
+  return (
+    // biome-ignore lint/a11y/useKeyWithClickEvents: Screen items use mouse/touch, PageUp/PageDown navigate screens
+    // biome-ignore lint/a11y/noStaticElementInteractions: Screen items use mouse/touch, PageUp/PageDown navigate screens
+    <div
+      className={cn(
+        "group flex cursor-pointer items-center gap-1.5 px-2 py-1.5 transition-colors",
+        isActive ? "bg-accent" : "hover:bg-accent/50"
+      )}
+      onClick={onSelect}
+      onDoubleClick={() => setIsEditing(true)}
+    >
+      <span
+        className="flex-shrink-0 cursor-grab text-muted-foreground active:cursor-grabbing"
+        data-vaul-no-drag
+        style={{ touchAction: "none" }}
+        {...dragHandleProps}
+      >
+        <GripVertical className="h-4 w-4" />
+      </span>
+      <span className="w-4 flex-shrink-0 text-muted-foreground text-xs tabular-nums">
+        {index + 1}
+      </span>
+      {isEditing ? (
+        <input
+          autoFocus
+          className="min-w-0 flex-1 rounded border bg-background px-1 text-xs outline-none focus:ring-1 focus:ring-ring"
+          defaultValue={screen.name}
+          onBlur={(e) => commitRename(e.target.value)}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              commitRename(e.currentTarget.value);
+            } else if (e.key === "Escape") {
+              setIsEditing(false);
+            }
+          }}
+        />
+      ) : (
+        <span
+          className={cn("flex-1 truncate text-xs", isActive && "font-medium")}
+        >
+          {screen.name}
+        </span>
+      )}
+      <span className="flex-shrink-0 text-muted-foreground text-xs tabular-nums">
+        {screen.elements.length}
+      </span>
+      {canRemove && (
+        <button
+          className="flex-shrink-0 text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          title="Remove screen"
+          type="button"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
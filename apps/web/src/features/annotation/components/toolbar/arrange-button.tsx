@@ -0,0 +1,97 @@
+import { AlignStartVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenuItem,
+  DropdownMenuShortcut,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useArrangeCommands } from "../../hooks/use-arrange-commands";
+import { useAnnotationStore } from "../../store";
+
+/**
+ * Button that opens the arrange commands (align, distribute, match size,
+ * tidy up) in a popover. Enabled with two or more selected elements.
+ */
+export function ArrangeButton({
+  className,
+  iconClassName,
+}: {
+  className?: string;
+  iconClassName?: string;
+}) {
+  const groups = useArrangeCommands();
+  const selectionCount = useAnnotationStore(
+    (state) => state.selection.selectedIds.length
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          className={className}
+          disabled={selectionCount < 2}
+          size="icon"
+          title="Arrange"
+          variant="ghost"
+        >
+          <AlignStartVertical className={iconClassName} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto space-y-1 p-1">
+        {groups.map((group) => (
+          <div className="flex gap-1" key={group[0].id}>
+            {group.map(
+              ({ id, title, shortcut, icon: Icon, disabled, execute }) => (
+                <Button
+                  className="h-8 w-8"
+                  disabled={disabled}
+                  key={id}
+                  onClick={execute}
+                  size="icon"
+                  title={`${title} (${shortcut})`}
+                  variant="ghost"
+                >
+                  <Icon className="h-4 w-4" />
+                </Button>
+              )
+            )}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Arrange submenu for the editor menu.
+ */
+export function ArrangeMenuItems() {
+  const groups = useArrangeCommands();
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <AlignStartVertical className="mr-2 h-4 w-4" />
+        Arrange
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-64">
+        {groups
+          .flat()
+          .map(({ id, title, shortcut, icon: Icon, disabled, execute }) => (
+            <DropdownMenuItem disabled={disabled} key={id} onClick={execute}>
+              <Icon className="mr-2 h-4 w-4" />
+              {title}
+              <DropdownMenuShortcut>{shortcut}</DropdownMenuShortcut>
+            </DropdownMenuItem>
+          ))}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
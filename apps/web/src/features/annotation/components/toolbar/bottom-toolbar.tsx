@@ -2,6 +2,8 @@ import { Layers, Maximize, Settings, ZoomIn, ZoomOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useZoomControls } from "../../hooks/use-zoom-controls";
 import { selectElements, selectProject, useAnnotationStore } from "../../store";
+import { HistoryButton } from "../panels/history-panel";
+import { SnapSettingsButton } from "./snap-settings-button";
 
 export interface BottomToolbarProps {
   onLayersClick: () => void;
@@ -56,6 +58,8 @@ export function BottomToolbar({
 
         {/* Right: Panel triggers */}
         <div className="flex items-center gap-3">
+          <SnapSettingsButton className="h-10 w-10" iconClassName="h-5 w-5" />
+          <HistoryButton className="h-10 w-10" iconClassName="h-5 w-5" />
           <Button
             className="h-10 w-10"
             onClick={onPropertiesClick}
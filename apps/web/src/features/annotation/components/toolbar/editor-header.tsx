@@ -3,7 +3,11 @@ import { useRef } from "react";
 import { AppLogo, AppLogoWithText } from "@/components/common/app-logo";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { selectProject, useAnnotationStore } from "../../store";
+import {
+  selectActiveScreen,
+  selectProject,
+  useAnnotationStore,
+} from "../../store";
 import { EditorMenu } from "./editor-menu";
 
 /**
@@ -13,12 +17,18 @@ import { EditorMenu } from "./editor-menu";
 export interface EditorHeaderProps {
   /** Accept pattern for file input */
   acceptPattern: string;
-  /** Handler for opening an image or project file */
-  onOpen?: (file: File) => void;
+  /** Handler for opening an image or project file (with companion files) */
+  onOpen?: (file: File, companions: File[]) => void;
+  /** Handler for opening the project library */
+  onOpenProjects?: () => void;
+  /** Handler for opening the version history of the project */
+  onOpenHistory?: () => void;
   /** Handler for saving project */
   onSave?: () => void;
   /** Handler for exporting for AI */
   onExport?: () => void;
+  /** Handler for importing annotations from dataset files */
+  onImportAnnotations?: () => void;
   /** Handler for opening component library dialog */
   onImportComponentLibrary?: () => void;
   /** Compact mode for mobile (smaller height, logo only) */
@@ -28,12 +38,16 @@ export interface EditorHeaderProps {
 export function EditorHeader({
   acceptPattern,
   onOpen,
+  onOpenProjects,
+  onOpenHistory,
   onSave,
   onExport,
+  onImportAnnotations,
   onImportComponentLibrary,
   compact = false,
 }: EditorHeaderProps) {
   const project = useAnnotationStore(selectProject);
+  const activeScreen = useAnnotationStore(selectActiveScreen);
   const clearProject = useAnnotationStore((state) => state.clearProject);
   const openInputRef = useRef<HTMLInputElement>(null);
 
@@ -53,7 +67,7 @@ export function EditorHeader({
         <AppLogoWithText />
       )}
 
-      {/* Center: File name */}
+      {/* Center: Project and screen name */}
       {project && (
         <div
           className={cn(
@@ -69,6 +83,12 @@ export function EditorHeader({
             )}
           >
             {project.name}
+            {project.screens.length > 1 && activeScreen && (
+              <span className="text-muted-foreground/70">
+                {" / "}
+                {activeScreen.name}
+              </span>
+            )}
           </span>
         </div>
       )}
@@ -88,10 +108,13 @@ export function EditorHeader({
         )}
         <EditorMenu
           hasProject={!!project}
-          onClear={clearProject}
+          onClose={clearProject}
           onExport={onExport}
+          onImportAnnotations={onImportAnnotations}
           onImportComponentLibrary={onImportComponentLibrary}
           onOpen={() => openInputRef.current?.click()}
+          onOpenHistory={onOpenHistory}
+          onOpenProjects={onOpenProjects}
           onSave={onSave}
         />
       </div>
@@ -99,10 +122,11 @@ export function EditorHeader({
       <input
         accept={acceptPattern}
         className="hidden"
+        multiple
         onChange={(e) => {
-          const file = e.target.files?.[0];
+          const [file, ...companions] = Array.from(e.target.files ?? []);
           if (file && onOpen) {
-            onOpen(file);
+            onOpen(file, companions);
           }
           e.target.value = "";
         }}
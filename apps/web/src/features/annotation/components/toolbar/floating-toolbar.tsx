@@ -1,7 +1,51 @@
-import { Hand, Maximize, Pencil, ZoomIn, ZoomOut } from "lucide-react";
+import {
+  ArrowUpRight,
+  Circle,
+  Hand,
+  type LucideIcon,
+  Maximize,
+  MessageSquare,
+  Pencil,
+  Pentagon,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useZoomControls } from "../../hooks/use-zoom-controls";
-import { selectProject, useAnnotationStore } from "../../store";
+import { selectProject, type ToolMode, useAnnotationStore } from "../../store";
+import { HistoryButton } from "../panels/history-panel";
+import { ArrangeButton } from "./arrange-button";
+import { SnapSettingsButton } from "./snap-settings-button";
+
+/** Tools in toolbar order */
+const TOOLS: { tool: ToolMode; icon: LucideIcon; title: string }[] = [
+  { tool: "edit", icon: Pencil, title: "Annotate (V)" },
+  { tool: "ellipse", icon: Circle, title: "Ellipse (O)" },
+  { tool: "polygon", icon: Pentagon, title: "Polygon (P)" },
+  { tool: "connector", icon: ArrowUpRight, title: "Connector (A)" },
+  { tool: "pan", icon: Hand, title: "Pan (H)" },
+  { tool: "comment", icon: MessageSquare, title: "Comment (C)" },
+];
+
+/** Position of the sliding background for each tool */
+const TOOL_OFFSET: Record<ToolMode, string> = {
+  edit: "translate-x-0",
+  ellipse: "translate-x-9",
+  polygon: "translate-x-18",
+  connector: "translate-x-27",
+  pan: "translate-x-36",
+  comment: "translate-x-45",
+};
+
+/** Position of the sliding background for each tool (mobile, vertical) */
+const MOBILE_TOOL_OFFSET: Record<ToolMode, string> = {
+  edit: "translate-y-0",
+  ellipse: "translate-y-11",
+  polygon: "translate-y-22",
+  connector: "translate-y-33",
+  pan: "translate-y-44",
+  comment: "translate-y-55",
+};
 
 export function FloatingToolbar() {
   const project = useAnnotationStore(selectProject);
@@ -19,35 +63,30 @@ export function FloatingToolbar() {
         <div className="relative flex">
           {/* Sliding background */}
           <div
-            className={`absolute top-0 left-0 h-8 w-8 rounded-md bg-blue-600 transition-transform duration-200 ease-out ${
-              activeTool === "pan" ? "translate-x-9" : "translate-x-0"
-            }`}
+            className={`absolute top-0 left-0 h-8 w-8 rounded-md bg-blue-600 transition-transform duration-200 ease-out ${TOOL_OFFSET[activeTool]}`}
           />
-          <button
-            className={`relative z-10 flex h-8 w-8 items-center justify-center transition-colors duration-200 ${
-              activeTool === "edit"
-                ? "text-white"
-                : "text-muted-foreground hover:text-foreground"
-            }`}
-            onClick={() => setActiveTool("edit")}
-            title="Annotate (V)"
-            type="button"
-          >
-            <Pencil className="h-4 w-4" />
-          </button>
-          <button
-            className={`relative z-10 ml-1 flex h-8 w-8 items-center justify-center transition-colors duration-200 ${
-              activeTool === "pan"
-                ? "text-white"
-                : "text-muted-foreground hover:text-foreground"
-            }`}
-            onClick={() => setActiveTool("pan")}
-            title="Pan (H)"
-            type="button"
-          >
-            <Hand className="h-4 w-4" />
-          </button>
+          {TOOLS.map(({ tool, icon: Icon, title }, index) => (
+            <button
+              className={`relative z-10 flex h-8 w-8 items-center justify-center transition-colors duration-200 ${
+                index > 0 ? "ml-1" : ""
+              } ${
+                activeTool === tool
+                  ? "text-white"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+              key={tool}
+              onClick={() => setActiveTool(tool)}
+              title={title}
+              type="button"
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
         </div>
+        <div className="h-5 w-px bg-border" />
+        <ArrangeButton className="h-8 w-8" iconClassName="h-4 w-4" />
+        <SnapSettingsButton className="h-8 w-8" iconClassName="h-4 w-4" />
+        <HistoryButton className="h-8 w-8" iconClassName="h-4 w-4" />
       </div>
     </div>
   );
@@ -117,29 +156,22 @@ export function MobileToolSwitcher() {
       <div className="relative flex flex-col rounded-lg border bg-background/95 p-1 shadow-lg backdrop-blur supports-[backdrop-filter]:bg-background/80">
         {/* Sliding background */}
         <div
-          className={`absolute right-1 left-1 h-10 rounded-md bg-blue-600 transition-transform duration-200 ease-out ${
-            activeTool === "pan" ? "translate-y-11" : "translate-y-0"
-          }`}
+          className={`absolute right-1 left-1 h-10 rounded-md bg-blue-600 transition-transform duration-200 ease-out ${MOBILE_TOOL_OFFSET[activeTool]}`}
           style={{ top: "4px" }}
         />
-        <button
-          className={`relative z-10 flex h-10 w-10 items-center justify-center rounded-md transition-colors duration-200 ${
-            activeTool === "edit" ? "text-white" : "text-muted-foreground"
-          }`}
-          onClick={() => setActiveTool("edit")}
-          type="button"
-        >
-          <Pencil className="h-5 w-5" />
-        </button>
-        <button
-          className={`relative z-10 mt-1 flex h-10 w-10 items-center justify-center rounded-md transition-colors duration-200 ${
-            activeTool === "pan" ? "text-white" : "text-muted-foreground"
-          }`}
-          onClick={() => setActiveTool("pan")}
-          type="button"
-        >
-          <Hand className="h-5 w-5" />
-        </button>
+        {TOOLS.map(({ tool, icon: Icon, title }, index) => (
+          <button
+            className={`relative z-10 flex h-10 w-10 items-center justify-center rounded-md transition-colors duration-200 ${
+              index > 0 ? "mt-1" : ""
+            } ${activeTool === tool ? "text-white" : "text-muted-foreground"}`}
+            key={tool}
+            onClick={() => setActiveTool(tool)}
+            title={title}
+            type="button"
+          >
+            <Icon className="h-5 w-5" />
+          </button>
+        ))}
       </div>
     </div>
   );
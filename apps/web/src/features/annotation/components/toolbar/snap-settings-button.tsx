@@ -0,0 +1,80 @@
+import { Magnet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { snapConfig } from "../../constants/canvas";
+import { useSnapSettingsStore } from "../../store";
+
+/**
+ * Button that opens the snap settings in a popover:
+ * smart guides on/off and the snap distance.
+ */
+export function SnapSettingsButton({
+  className,
+  iconClassName,
+}: {
+  className?: string;
+  iconClassName?: string;
+}) {
+  const smartGuides = useSnapSettingsStore((state) => state.smartGuides);
+  const threshold = useSnapSettingsStore((state) => state.threshold);
+  const setSmartGuides = useSnapSettingsStore((state) => state.setSmartGuides);
+  const setThreshold = useSnapSettingsStore((state) => state.setThreshold);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          className={className}
+          size="icon"
+          title="Snapping"
+          variant="ghost"
+        >
+          <Magnet className={iconClassName} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-4">
+        <div className="font-medium text-sm">Snapping</div>
+        <div className="flex items-start gap-2">
+          <Checkbox
+            checked={smartGuides}
+            id="snap-smart-guides"
+            onCheckedChange={(checked) => setSmartGuides(checked === true)}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="snap-smart-guides">Smart guides</Label>
+            <p className="text-muted-foreground text-xs">
+              Snap to equal spacing and matching sizes of sibling elements
+            </p>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="snap-threshold">Snap distance</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              className="h-8"
+              id="snap-threshold"
+              max={snapConfig.maxThreshold}
+              min={snapConfig.minThreshold}
+              onChange={(e) => {
+                const value = e.target.valueAsNumber;
+                if (!Number.isNaN(value)) {
+                  setThreshold(value);
+                }
+              }}
+              type="number"
+              value={threshold}
+            />
+            <span className="text-muted-foreground text-xs">px</span>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
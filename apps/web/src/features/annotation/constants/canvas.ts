@@ -4,6 +4,8 @@
  * Canvas-related constants for the annotation editor.
  */
 
+import type { ConnectorType } from "@/types";
+
 export const canvasConfig = {
   /** Minimum annotation size in pixels */
   minAnnotationSize: 10,
@@ -17,14 +19,34 @@ export const canvasConfig = {
   defaultScale: 1,
   /** Fit to screen padding factor */
   fitPadding: 0.9,
+  /** Distance to the first vertex (screen pixels) that closes a polygon */
+  polygonCloseDistance: 8,
+  /** Vertex handle radius (screen pixels) */
+  vertexHandleRadius: 5,
+} as const;
+
+export const connectorConfig = {
+  /** Minimum drag distance (image pixels) that creates a connector */
+  minLength: 10,
+  /** Arrowhead size (screen pixels) */
+  pointerSize: 10,
+  /** Line width (screen pixels) */
+  strokeWidth: 2,
+  /** Line dash per connector type (screen pixels, empty = solid) */
+  dash: {
+    navigation: [],
+    "data-flow": [8, 4],
+    toggle: [2, 4],
+  } satisfies Record<ConnectorType, number[]>,
 } as const;
 
-export const snapConfig: {
-  threshold: number;
-} = {
+export const snapConfig = {
   /** Default snap threshold in pixels */
   threshold: 8,
-};
+  /** Threshold range offered in the snap settings */
+  minThreshold: 1,
+  maxThreshold: 32,
+} as const;
 
 export const labelConfig = {
   /** Label font size in pixels */
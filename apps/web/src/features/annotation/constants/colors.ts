@@ -23,6 +23,14 @@ export const primaryColors = {
   primary: { r: 59, g: 130, b: 246 } as RGBColor,
   /** Guideline pink color (Tailwind pink-500) */
   guideline: { r: 236, g: 72, b: 153 } as RGBColor,
+  /** Comment pin amber color (Tailwind amber-500) */
+  comment: { r: 245, g: 158, b: 11 } as RGBColor,
+  /** Connector arrow violet color (Tailwind violet-500) */
+  connector: { r: 139, g: 92, b: 246 } as RGBColor,
+  /** Measurement red color (Tailwind red-500) */
+  measurement: { r: 239, g: 68, b: 68 } as RGBColor,
+  /** Saved spacing teal color (Tailwind teal-500) */
+  spacing: { r: 20, g: 184, b: 166 } as RGBColor,
 } as const;
 
 /**
@@ -72,6 +80,11 @@ export function getElementRgb(colorName?: string): RGBColor {
   return defaultElementColorRgb;
 }
 
+/** Get element color as a CSS rgb() string (for rendering outside the editor) */
+export function getElementCssColor(color?: ElementColor): string {
+  return colorToRgb(getElementRgb(color));
+}
+
 // ============================================
 // Element Color UI Configuration
 // ============================================
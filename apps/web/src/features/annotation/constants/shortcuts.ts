@@ -26,7 +26,11 @@ export const KEYBOARD_SHORTCUTS: ShortcutGroup[] = [
     title: "Tools",
     shortcuts: [
       { keys: ["V"], description: "Switch to Edit tool" },
+      { keys: ["O"], description: "Switch to Ellipse tool" },
+      { keys: ["P"], description: "Switch to Polygon tool" },
+      { keys: ["A"], description: "Switch to Connector tool" },
       { keys: ["H"], description: "Switch to Pan tool" },
+      { keys: ["C"], description: "Switch to Comment tool" },
     ],
   },
   {
@@ -48,7 +52,10 @@ export const KEYBOARD_SHORTCUTS: ShortcutGroup[] = [
         macKeys: ["⌘", "+", "V"],
         description: "Paste elements",
       },
-      { keys: ["Delete"], description: "Delete selected elements" },
+      {
+        keys: ["Delete"],
+        description: "Delete selected elements or connector",
+      },
     ],
   },
   {
@@ -65,8 +72,100 @@ export const KEYBOARD_SHORTCUTS: ShortcutGroup[] = [
       {
         keys: ["Alt", "+", "Drag"],
         macKeys: ["Option", "+", "Drag"],
-        description: "Draw over existing elements",
+        description: "Draw inside existing elements (auto-nested)",
+      },
+      {
+        keys: ["Click"],
+        description: "Add polygon vertex (click first vertex to close)",
+      },
+      { keys: ["Enter"], description: "Close polygon" },
+      { keys: ["Esc"], description: "Cancel polygon" },
+      { keys: ["Alt", "+", "Click"], description: "Remove polygon vertex" },
+      {
+        keys: ["Drag"],
+        description: "Draw connector between elements (Connector tool)",
+      },
+    ],
+  },
+  {
+    title: "Arrange (2+ selected)",
+    shortcuts: [
+      {
+        keys: ["Alt", "+", "A"],
+        macKeys: ["Option", "+", "A"],
+        description: "Align left",
+      },
+      {
+        keys: ["Alt", "+", "H"],
+        macKeys: ["Option", "+", "H"],
+        description: "Align horizontal centers",
+      },
+      {
+        keys: ["Alt", "+", "D"],
+        macKeys: ["Option", "+", "D"],
+        description: "Align right",
+      },
+      {
+        keys: ["Alt", "+", "W"],
+        macKeys: ["Option", "+", "W"],
+        description: "Align top",
+      },
+      {
+        keys: ["Alt", "+", "V"],
+        macKeys: ["Option", "+", "V"],
+        description: "Align vertical centers",
+      },
+      {
+        keys: ["Alt", "+", "S"],
+        macKeys: ["Option", "+", "S"],
+        description: "Align bottom",
       },
+      {
+        keys: ["Alt", "+", "Shift", "+", "H"],
+        macKeys: ["Option", "+", "Shift", "+", "H"],
+        description: "Distribute horizontally (3+ elements)",
+      },
+      {
+        keys: ["Alt", "+", "Shift", "+", "V"],
+        macKeys: ["Option", "+", "Shift", "+", "V"],
+        description: "Distribute vertically (3+ elements)",
+      },
+      {
+        keys: ["Alt", "+", "Shift", "+", "W"],
+        macKeys: ["Option", "+", "Shift", "+", "W"],
+        description: "Match width of the first selected",
+      },
+      {
+        keys: ["Alt", "+", "Shift", "+", "E"],
+        macKeys: ["Option", "+", "Shift", "+", "E"],
+        description: "Match height of the first selected",
+      },
+      {
+        keys: ["Alt", "+", "Shift", "+", "T"],
+        macKeys: ["Option", "+", "Shift", "+", "T"],
+        description: "Tidy up into a grid",
+      },
+    ],
+  },
+  {
+    title: "Measure",
+    shortcuts: [
+      {
+        keys: ["Alt", "+", "Hover"],
+        macKeys: ["Option", "+", "Hover"],
+        description: "Measure distances from the selected element",
+      },
+      {
+        keys: ["Click"],
+        description: "Save or remove a distance as spacing (click its value)",
+      },
+    ],
+  },
+  {
+    title: "Screens",
+    shortcuts: [
+      { keys: ["Page Up"], description: "Previous screen" },
+      { keys: ["Page Down"], description: "Next screen" },
     ],
   },
   {
@@ -0,0 +1,152 @@
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalSpaceBetween,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalSpaceBetween,
+  LayoutGrid,
+  type LucideIcon,
+  StretchHorizontal,
+  StretchVertical,
+} from "lucide-react";
+import { useMemo } from "react";
+import { type AnnotationActions, useAnnotationStore } from "../store";
+
+/**
+ * Arrange command for the selected elements.
+ */
+export interface ArrangeCommand {
+  id: string;
+  title: string;
+  icon: LucideIcon;
+  /** Shortcut shown next to the title */
+  shortcut: string;
+  /** Number of selected elements the command needs */
+  minSelection: number;
+  run: (actions: AnnotationActions) => void;
+}
+
+/**
+ * Arrange commands in groups (align, distribute, match size, tidy up).
+ * Shortcuts are handled by useKeyboardShortcuts.
+ */
+export const ARRANGE_COMMANDS: ArrangeCommand[][] = [
+  [
+    {
+      id: "align-left",
+      title: "Align left",
+      icon: AlignStartVertical,
+      shortcut: "Alt+A",
+      minSelection: 2,
+      run: (a) => a.alignSelected("left"),
+    },
+    {
+      id: "align-center",
+      title: "Align horizontal centers",
+      icon: AlignCenterVertical,
+      shortcut: "Alt+H",
+      minSelection: 2,
+      run: (a) => a.alignSelected("center"),
+    },
+    {
+      id: "align-right",
+      title: "Align right",
+      icon: AlignEndVertical,
+      shortcut: "Alt+D",
+      minSelection: 2,
+      run: (a) => a.alignSelected("right"),
+    },
+    {
+      id: "align-top",
+      title: "Align top",
+      icon: AlignStartHorizontal,
+      shortcut: "Alt+W",
+      minSelection: 2,
+      run: (a) => a.alignSelected("top"),
+    },
+    {
+      id: "align-middle",
+      title: "Align vertical centers",
+      icon: AlignCenterHorizontal,
+      shortcut: "Alt+V",
+      minSelection: 2,
+      run: (a) => a.alignSelected("middle"),
+    },
+    {
+      id: "align-bottom",
+      title: "Align bottom",
+      icon: AlignEndHorizontal,
+      shortcut: "Alt+S",
+      minSelection: 2,
+      run: (a) => a.alignSelected("bottom"),
+    },
+  ],
+  [
+    {
+      id: "distribute-x",
+      title: "Distribute horizontally",
+      icon: AlignHorizontalSpaceBetween,
+      shortcut: "Alt+Shift+H",
+      minSelection: 3,
+      run: (a) => a.distributeSelected("x"),
+    },
+    {
+      id: "distribute-y",
+      title: "Distribute vertically",
+      icon: AlignVerticalSpaceBetween,
+      shortcut: "Alt+Shift+V",
+      minSelection: 3,
+      run: (a) => a.distributeSelected("y"),
+    },
+    {
+      id: "match-width",
+      title: "Match width",
+      icon: StretchHorizontal,
+      shortcut: "Alt+Shift+W",
+      minSelection: 2,
+      run: (a) => a.matchSelectedSize("width"),
+    },
+    {
+      id: "match-height",
+      title: "Match height",
+      icon: StretchVertical,
+      shortcut: "Alt+Shift+E",
+      minSelection: 2,
+      run: (a) => a.matchSelectedSize("height"),
+    },
+  ],
+  [
+    {
+      id: "tidy-up",
+      title: "Tidy up",
+      icon: LayoutGrid,
+      shortcut: "Alt+Shift+T",
+      minSelection: 2,
+      run: (a) => a.tidySelected(),
+    },
+  ],
+];
+
+/**
+ * Arrange commands bound to the current selection.
+ */
+export function useArrangeCommands() {
+  const selectionCount = useAnnotationStore(
+    (state) => state.selection.selectedIds.length
+  );
+
+  return useMemo(
+    () =>
+      ARRANGE_COMMANDS.map((group) =>
+        group.map((command) => ({
+          ...command,
+          disabled: selectionCount < command.minSelection,
+          execute: () => command.run(useAnnotationStore.getState()),
+        }))
+      ),
+    [selectionCount]
+  );
+}
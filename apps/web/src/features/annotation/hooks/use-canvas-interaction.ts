@@ -1,17 +1,26 @@
 import type Konva from "konva";
-import { useCallback, useMemo, useState } from "react";
-import { createBBox } from "@/lib/geometry";
-import type { Point } from "@/types";
-import { canvasConfig } from "../constants/canvas";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createBBox, fitPolygon } from "@/lib/geometry";
+import type {
+  BBox,
+  ConnectorEndpoint,
+  ElementShape,
+  Point,
+  ShapeType,
+} from "@/types";
+import { canvasConfig, connectorConfig } from "../constants/canvas";
 import type { CanvasMode } from "../lib/canvas-utils";
 import {
   findElementsAtPoint,
   findSelectedElementAtPoint,
 } from "../lib/canvas-utils";
+import { findContainingElement } from "../lib/hierarchy";
 import { createElement } from "../services/element-factory";
 import {
+  beginAnnotationTransaction,
+  endAnnotationTransaction,
+  selectActiveScreen,
   selectElements,
-  selectProject,
   useAnnotationStore,
   useUIStore,
 } from "../store";
@@ -30,9 +39,22 @@ interface UseCanvasInteractionReturn {
   handleMouseMove: (e: Konva.KonvaEventObject<PointerEvent>) => void;
   handleMouseUp: (e: Konva.KonvaEventObject<PointerEvent>) => void;
   handleDblClick: (e: Konva.KonvaEventObject<MouseEvent>) => void;
+  /** Close the polygon being drawn (if it has enough vertices) */
+  finishPolygon: () => void;
   clearMode: () => void;
 }
 
+/**
+ * Remove consecutive vertices that are (almost) at the same position,
+ * e.g. the two clicks of a double click.
+ */
+function dedupePoints(points: Point[]): Point[] {
+  return points.filter((p, i) => {
+    const prev = points[i - 1];
+    return !prev || Math.hypot(p.x - prev.x, p.y - prev.y) >= 1;
+  });
+}
+
 /**
  * Custom hook for canvas mouse interactions.
  * Handles drawing, dragging, and element selection logic.
@@ -45,13 +67,11 @@ export function useCanvasInteraction({
 
   // Store state
   const elements = useAnnotationStore(selectElements);
-  const project = useAnnotationStore(selectProject);
+  const screen = useAnnotationStore(selectActiveScreen);
   const imageSize = useMemo(
     () =>
-      project
-        ? { width: project.imageWidth, height: project.imageHeight }
-        : null,
-    [project]
+      screen ? { width: screen.imageWidth, height: screen.imageHeight } : null,
+    [screen]
   );
   const selectedIds = useAnnotationStore(
     (state) => state.selection.selectedIds
@@ -63,9 +83,12 @@ export function useCanvasInteraction({
   const deselectAll = useAnnotationStore((state) => state.deselectAll);
   const updateElement = useAnnotationStore((state) => state.updateElement);
   const addElement = useAnnotationStore((state) => state.addElement);
+  const addConnector = useAnnotationStore((state) => state.addConnector);
+  const setActiveTool = useAnnotationStore((state) => state.setActiveTool);
 
   // UI state
   const setHoveredRaw = useUIStore((state) => state.setHovered);
+  const setPendingComment = useUIStore((state) => state.setPendingComment);
 
   // Snap hook
   const { getSnapResult, clearGuidelines } = useKonvaSnap();
@@ -104,9 +127,9 @@ export function useCanvasInteraction({
 
   /** Start drawing mode at the given position */
   const startDrawingMode = useCallback(
-    (pos: Point) => {
+    (pos: Point, shape?: Exclude<ShapeType, "polygon">) => {
       setHoveredRaw(null);
-      setMode({ type: "drawing", start: pos });
+      setMode({ type: "drawing", start: pos, shape });
       setDrawCurrent(pos);
     },
     [setHoveredRaw]
@@ -116,6 +139,8 @@ export function useCanvasInteraction({
   const startDragMode = useCallback(
     (elementId: string, pos: Point, elementPos: { x: number; y: number }) => {
       setHoveredRaw(null);
+      // The whole drag is one undo step
+      beginAnnotationTransaction("Moved element");
       setMode({
         type: "dragging",
         elementId,
@@ -125,6 +150,37 @@ export function useCanvasInteraction({
     [setHoveredRaw]
   );
 
+  /** Start a comment at the pointer, attached to the top element there */
+  const placeComment = useCallback(() => {
+    const pos = getImagePointerPosition();
+    if (!(pos && imageSize)) {
+      return;
+    }
+    const topElement = findElementsAtPoint(pos, elements)[0];
+    setPendingComment({ point: pos, elementId: topElement?.id });
+  }, [getImagePointerPosition, imageSize, elements, setPendingComment]);
+
+  /** Start a connector at the pointer, from the top element there */
+  const startConnecting = useCallback(() => {
+    const pos = getImagePointerPosition();
+    if (!(pos && imageSize)) {
+      return;
+    }
+    const topElement = findElementsAtPoint(pos, elements)[0];
+    setHoveredRaw(null);
+    if (topElement) {
+      const { x, y, w, h } = topElement.bbox.pixel;
+      setMode({
+        type: "connecting",
+        from: { elementId: topElement.id },
+        start: { x: x + w / 2, y: y + h / 2 },
+      });
+    } else {
+      setMode({ type: "connecting", from: { point: pos }, start: pos });
+    }
+    setDrawCurrent(pos);
+  }, [getImagePointerPosition, imageSize, elements, setHoveredRaw]);
+
   /** Check if interaction should be blocked */
   const canInteract = useCallback(
     (e: Konva.KonvaEventObject<PointerEvent>): boolean => {
@@ -155,8 +211,18 @@ export function useCanvasInteraction({
     setMode({ type: "idle" });
     setDrawCurrent(null);
     clearGuidelines();
+    endAnnotationTransaction();
   }, [clearGuidelines]);
 
+  // Switching tools abandons a polygon in progress
+  useEffect(() => {
+    if (activeTool !== "polygon") {
+      setMode((current) =>
+        current.type === "polygon" ? { type: "idle" } : current
+      );
+    }
+  }, [activeTool]);
+
   // ============================================
   // Mouse Move Helpers
   // ============================================
@@ -226,9 +292,31 @@ export function useCanvasInteraction({
   // Mouse Up Helpers
   // ============================================
 
+  /**
+   * Create an element, nested inside the innermost element that fully
+   * contains its box. Shape tools hand over to the edit tool afterwards.
+   */
+  const createShapeElement = useCallback(
+    (bbox: BBox, shape?: ElementShape) => {
+      const newElement = createElement({
+        bbox,
+        shape,
+        existingElements: elements,
+        parentId: findContainingElement(bbox, elements)?.id,
+      });
+
+      addElement(newElement);
+      selectElement(newElement.id);
+      if (shape) {
+        setActiveTool("edit");
+      }
+    },
+    [elements, addElement, selectElement, setActiveTool]
+  );
+
   /** Finalize drawing by creating a new element if valid */
   const finalizeDrawing = useCallback(
-    (start: Point, end: Point) => {
+    (start: Point, end: Point, shape?: Exclude<ShapeType, "polygon">) => {
       if (!imageSize) {
         return;
       }
@@ -250,24 +338,133 @@ export function useCanvasInteraction({
         { x, y, w, h },
         { w: imageSize.width, h: imageSize.height }
       );
+      createShapeElement(bbox, shape && { type: shape });
+    },
+    [imageSize, createShapeElement]
+  );
 
-      const newElement = createElement({
-        bbox,
-        existingElements: elements,
+  /** Create a polygon element from its vertices if valid */
+  const finalizePolygon = useCallback(
+    (points: Point[]) => {
+      resetInteractionState();
+      const vertices = dedupePoints(points);
+      if (!imageSize || vertices.length < 3) {
+        return;
+      }
+
+      const { bbox, shape } = fitPolygon(vertices, {
+        w: imageSize.width,
+        h: imageSize.height,
       });
+      const { w, h } = bbox.pixel;
+      if (
+        w < canvasConfig.minAnnotationSize ||
+        h < canvasConfig.minAnnotationSize
+      ) {
+        return;
+      }
+      createShapeElement(bbox, shape);
+    },
+    [imageSize, resetInteractionState, createShapeElement]
+  );
 
-      addElement(newElement);
-      selectElement(newElement.id);
+  /**
+   * Create a connector ending at the top element under the pointer,
+   * or at the pointer itself if there is none.
+   */
+  const finalizeConnector = useCallback(
+    (from: ConnectorEndpoint, start: Point, end: Point) => {
+      if (
+        Math.hypot(end.x - start.x, end.y - start.y) < connectorConfig.minLength
+      ) {
+        return;
+      }
+      const target = findElementsAtPoint(end, elements)[0];
+      const isSource = "elementId" in from && from.elementId === target?.id;
+      const to: ConnectorEndpoint =
+        target && !isSource ? { elementId: target.id } : { point: end };
+      addConnector({ type: "navigation", from, to });
     },
-    [imageSize, elements, addElement, selectElement]
+    [elements, addConnector]
   );
 
+  /** Add a polygon vertex; clicking the first vertex closes the polygon */
+  const addPolygonPoint = useCallback(
+    (pos: Point) => {
+      if (mode.type !== "polygon") {
+        deselectAll();
+        setHoveredRaw(null);
+        setMode({ type: "polygon", points: [pos] });
+        setDrawCurrent(pos);
+        return;
+      }
+
+      const first = mode.points[0];
+      const scale = stageRef.current?.scaleX() ?? 1;
+      const closes =
+        mode.points.length >= 3 &&
+        Math.hypot(pos.x - first.x, pos.y - first.y) * scale <=
+          canvasConfig.polygonCloseDistance;
+      if (closes) {
+        finalizePolygon(mode.points);
+        return;
+      }
+      setMode({ type: "polygon", points: [...mode.points, pos] });
+    },
+    [mode, stageRef, deselectAll, setHoveredRaw, finalizePolygon]
+  );
+
+  /** Handle mouse down with the ellipse or polygon tool */
+  const handleShapeToolDown = useCallback(() => {
+    const pos = getImagePointerPosition();
+    if (!(pos && imageSize)) {
+      return;
+    }
+    if (activeTool === "polygon") {
+      addPolygonPoint(pos);
+      return;
+    }
+    deselectAll();
+    startDrawingMode(pos, "ellipse");
+  }, [
+    activeTool,
+    imageSize,
+    getImagePointerPosition,
+    addPolygonPoint,
+    deselectAll,
+    startDrawingMode,
+  ]);
+
+  /** Handle mouse down with a tool other than edit */
+  const handleToolDown = useCallback(() => {
+    switch (activeTool) {
+      case "comment":
+        placeComment();
+        break;
+      case "connector":
+        startConnecting();
+        break;
+      case "ellipse":
+      case "polygon":
+        handleShapeToolDown();
+        break;
+      default:
+        break;
+    }
+  }, [activeTool, placeComment, startConnecting, handleShapeToolDown]);
+
   /**
    * Handle mouse/touch down event for drawing and dragging.
    * Priority: Alt+click → Selected element → Any element → Empty area
+   * In comment mode, a click places a new comment instead; in connector
+   * mode a drag draws a connector.
    */
   const handleMouseDown = useCallback(
     (e: Konva.KonvaEventObject<PointerEvent>) => {
+      if (activeTool !== "edit") {
+        handleToolDown();
+        return;
+      }
       if (!canInteract(e)) {
         return;
       }
@@ -308,6 +505,8 @@ export function useCanvasInteraction({
       startDrawingMode(pos);
     },
     [
+      activeTool,
+      handleToolDown,
       canInteract,
       getImagePointerPosition,
       isAltClick,
@@ -332,6 +531,8 @@ export function useCanvasInteraction({
 
       if (mode.type === "drawing") {
         updateDrawingPreview(pos);
+      } else if (mode.type === "polygon" || mode.type === "connecting") {
+        setDrawCurrent(pos);
       } else if (mode.type === "dragging") {
         updateDraggingPosition(pos, mode.elementId, mode.offset);
       }
@@ -349,34 +550,44 @@ export function useCanvasInteraction({
    */
   const handleMouseUp = useCallback(
     (_e: Konva.KonvaEventObject<PointerEvent>) => {
+      // Polygons are drawn over several clicks
+      if (mode.type === "polygon") {
+        return;
+      }
+
       // Finalize drawing if in drawing mode
       if (mode.type === "drawing" && drawCurrent) {
-        finalizeDrawing(mode.start, drawCurrent);
+        finalizeDrawing(mode.start, drawCurrent, mode.shape);
+      } else if (mode.type === "connecting" && drawCurrent) {
+        finalizeConnector(mode.from, mode.start, drawCurrent);
       }
 
       // Always reset to idle state
       resetInteractionState();
     },
-    [mode, drawCurrent, finalizeDrawing, resetInteractionState]
+    [
+      mode,
+      drawCurrent,
+      finalizeDrawing,
+      finalizeConnector,
+      resetInteractionState,
+    ]
   );
 
   /**
-   * Handle double click to cycle through overlapping elements.
+   * Close the polygon being drawn.
    */
-  const handleDblClick = useCallback(
-    (e: Konva.KonvaEventObject<MouseEvent>) => {
-      if (activeTool !== "edit") {
-        return;
-      }
-      if (isTransformerTarget(e.target)) {
-        return;
-      }
-
-      const pos = getImagePointerPosition();
-      if (!pos) {
-        return;
-      }
+  const finishPolygon = useCallback(() => {
+    if (mode.type === "polygon") {
+      finalizePolygon(mode.points);
+    }
+  }, [mode, finalizePolygon]);
 
+  /**
+   * Select the next element in the stack of overlapping elements at a point.
+   */
+  const cycleSelectionAt = useCallback(
+    (pos: Point) => {
       const elementsAtPoint = findElementsAtPoint(pos, elements);
       if (elementsAtPoint.length <= 1) {
         return;
@@ -395,13 +606,38 @@ export function useCanvasInteraction({
 
       selectElement(nextElement.id);
     },
+    [elements, selectedIds, selectElement]
+  );
+
+  /**
+   * Handle double click to cycle through overlapping elements.
+   * While drawing a polygon, a double click closes it.
+   */
+  const handleDblClick = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (mode.type === "polygon") {
+        finishPolygon();
+        return;
+      }
+      if (activeTool !== "edit") {
+        return;
+      }
+      if (isTransformerTarget(e.target)) {
+        return;
+      }
+
+      const pos = getImagePointerPosition();
+      if (pos) {
+        cycleSelectionAt(pos);
+      }
+    },
     [
+      mode.type,
+      finishPolygon,
       activeTool,
-      elements,
-      selectedIds,
       isTransformerTarget,
       getImagePointerPosition,
-      selectElement,
+      cycleSelectionAt,
     ]
   );
 
@@ -419,6 +655,7 @@ export function useCanvasInteraction({
     handleMouseMove,
     handleMouseUp,
     handleDblClick,
+    finishPolygon,
     clearMode,
   };
 }
@@ -1,9 +1,12 @@
 import { useEffect } from "react";
+import type { ConnectorId } from "@/types";
 import {
   redoAnnotation as redo,
+  type ToolMode,
   undoAnnotation as undo,
   useAnnotationStore,
 } from "../store";
+import { ARRANGE_COMMANDS } from "./use-arrange-commands";
 
 /** Check if target is an input element that should capture keyboard events */
 function isInputElement(target: HTMLElement): boolean {
@@ -23,8 +26,10 @@ function hasModifierKey(e: KeyboardEvent): boolean {
 interface ShortcutContext {
   hasSelection: boolean;
   hasClipboard: boolean;
-  setActiveTool: (tool: "edit" | "pan") => void;
+  selectedConnectorId: ConnectorId | null;
+  setActiveTool: (tool: ToolMode) => void;
   deleteSelectedElements: () => void;
+  deleteConnector: (id: ConnectorId) => void;
   copySelectedElements: () => void;
   pasteElements: () => void;
 }
@@ -75,23 +80,96 @@ function handleCopyPaste(e: KeyboardEvent, ctx: ShortcutContext): boolean {
   return false;
 }
 
+/** Switch to the screen at the given offset from the active one */
+function switchScreenBy(offset: number): void {
+  const { project, switchScreen } = useAnnotationStore.getState();
+  if (!project) {
+    return;
+  }
+  const index = project.screens.findIndex(
+    (s) => s.id === project.activeScreenId
+  );
+  const target = project.screens[index + offset];
+  if (target) {
+    switchScreen(target.id);
+  }
+}
+
+/** Handle screen navigation shortcuts */
+function handleScreenNavigation(e: KeyboardEvent): boolean {
+  if (e.key === "PageUp") {
+    e.preventDefault();
+    switchScreenBy(-1);
+    return true;
+  }
+
+  if (e.key === "PageDown") {
+    e.preventDefault();
+    switchScreenBy(1);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Get the Alt shortcut of a key event in the format of the arrange
+ * commands (e.g. "Alt+Shift+H"). Uses the key code, since Option+key
+ * types special characters on Mac.
+ */
+function getAltShortcut(e: KeyboardEvent): string | null {
+  if (!e.altKey || hasModifierKey(e) || !e.code.startsWith("Key")) {
+    return null;
+  }
+  return `Alt+${e.shiftKey ? "Shift+" : ""}${e.code.slice(3)}`;
+}
+
+/** Handle align, distribute, match size and tidy up shortcuts */
+function handleArrangeShortcuts(e: KeyboardEvent): boolean {
+  const shortcut = getAltShortcut(e);
+  const command = ARRANGE_COMMANDS.flat().find((c) => c.shortcut === shortcut);
+  if (!command) {
+    return false;
+  }
+  e.preventDefault();
+  const state = useAnnotationStore.getState();
+  if (state.selection.selectedIds.length >= command.minSelection) {
+    command.run(state);
+  }
+  return true;
+}
+
+/** Tool shortcut keys */
+const TOOL_KEYS: Record<string, ToolMode> = {
+  v: "edit",
+  o: "ellipse",
+  p: "polygon",
+  a: "connector",
+  h: "pan",
+  c: "comment",
+};
+
 /** Handle tool and delete shortcuts */
 function handleToolShortcuts(e: KeyboardEvent, ctx: ShortcutContext): boolean {
   const key = e.key.toLowerCase();
 
-  if (key === "v") {
+  // Modified keys (e.g. Ctrl+C without a selection) must not switch tools
+  const tool = TOOL_KEYS[key];
+  if (tool && !hasModifierKey(e) && !e.altKey) {
     e.preventDefault();
-    ctx.setActiveTool("edit");
+    ctx.setActiveTool(tool);
     return true;
   }
 
-  if (key === "h") {
+  if (key !== "delete" && key !== "backspace") {
+    return false;
+  }
+  if (ctx.selectedConnectorId) {
     e.preventDefault();
-    ctx.setActiveTool("pan");
+    ctx.deleteConnector(ctx.selectedConnectorId);
     return true;
   }
-
-  if ((key === "delete" || key === "backspace") && ctx.hasSelection) {
+  if (ctx.hasSelection) {
     e.preventDefault();
     ctx.deleteSelectedElements();
     return true;
@@ -105,6 +183,7 @@ export function useKeyboardShortcuts() {
   const deleteSelectedElements = useAnnotationStore(
     (state) => state.deleteSelectedElements
   );
+  const deleteConnector = useAnnotationStore((state) => state.deleteConnector);
   const copySelectedElements = useAnnotationStore(
     (state) => state.copySelectedElements
   );
@@ -112,6 +191,9 @@ export function useKeyboardShortcuts() {
   const selectedIds = useAnnotationStore(
     (state) => state.selection.selectedIds
   );
+  const selectedConnectorId = useAnnotationStore(
+    (state) => state.selection.connectorId
+  );
   const hasClipboardElements = useAnnotationStore(
     (state) => state.clipboard.elements.length > 0
   );
@@ -126,8 +208,10 @@ export function useKeyboardShortcuts() {
       const ctx: ShortcutContext = {
         hasSelection: selectedIds.length > 0,
         hasClipboard: hasClipboardElements,
+        selectedConnectorId,
         setActiveTool,
         deleteSelectedElements,
+        deleteConnector,
         copySelectedElements,
         pasteElements,
       };
@@ -139,6 +223,12 @@ export function useKeyboardShortcuts() {
       if (handleCopyPaste(e, ctx)) {
         return;
       }
+      if (handleScreenNavigation(e)) {
+        return;
+      }
+      if (handleArrangeShortcuts(e)) {
+        return;
+      }
       handleToolShortcuts(e, ctx);
     };
 
@@ -147,9 +237,11 @@ export function useKeyboardShortcuts() {
   }, [
     setActiveTool,
     deleteSelectedElements,
+    deleteConnector,
     copySelectedElements,
     pasteElements,
     selectedIds,
+    selectedConnectorId,
     hasClipboardElements,
   ]);
 }
@@ -1,7 +1,13 @@
 import { useCallback } from "react";
-import type { EditorElement, ElementId } from "@/types";
-import { snapConfig } from "../constants/canvas";
-import { useUIStore } from "../store";
+import { getBoxEdges } from "@/lib/geometry";
+import type { EditorElement, ElementId, PixelCoord } from "@/types";
+import {
+  type DistanceMarker,
+  findEqualSpacingSnap,
+  findMatchingSizeSnap,
+  sizeMarker,
+} from "../lib/smart-guides";
+import { type SnapGuideline, useSnapSettingsStore, useUIStore } from "../store";
 
 interface SnapTarget {
   value: number;
@@ -25,6 +31,9 @@ interface SnapTargets {
   horizontal: SnapTarget[];
 }
 
+/** Edge movement below this is treated as not moved while resizing */
+const SIZE_EPSILON = 0.5;
+
 // ============================================
 // Helper: Collect Snap Targets
 // ============================================
@@ -45,18 +54,18 @@ function collectSnapTargets(
       continue;
     }
 
-    const { x, y, w, h } = element.bbox.pixel;
+    const edges = getBoxEdges(element.bbox.pixel);
 
     vertical.push(
-      { value: x, type: "edge" },
-      { value: x + w, type: "edge" },
-      { value: x + w / 2, type: "center" }
+      { value: edges.left, type: "edge" },
+      { value: edges.right, type: "edge" },
+      { value: edges.centerX, type: "center" }
     );
 
     horizontal.push(
-      { value: y, type: "edge" },
-      { value: y + h, type: "edge" },
-      { value: y + h / 2, type: "center" }
+      { value: edges.top, type: "edge" },
+      { value: edges.bottom, type: "edge" },
+      { value: edges.centerY, type: "center" }
     );
   }
 
@@ -112,10 +121,11 @@ function calculateOffset(checkIndex: number, boxSize: number): number {
 function findBestAxisSnap(
   checkPoints: number[],
   targets: SnapTarget[],
-  boxSize: number
+  boxSize: number,
+  threshold: number
 ): SnapResult | null {
   let bestSnap: SnapResult | null = null;
-  let minDistance = snapConfig.threshold;
+  let minDistance = threshold;
 
   for (let i = 0; i < checkPoints.length; i++) {
     const checkValue = checkPoints[i];
@@ -194,33 +204,149 @@ function collectResizeTargets(
     if (element.id === excludeId) {
       continue;
     }
-    const { x, y, w, h } = element.bbox.pixel;
-    vertical.push(x, x + w, x + w / 2);
-    horizontal.push(y, y + h, y + h / 2);
+    const edges = getBoxEdges(element.bbox.pixel);
+    vertical.push(edges.left, edges.right, edges.centerX);
+    horizontal.push(edges.top, edges.bottom, edges.centerY);
   }
 
   return { vertical, horizontal };
 }
 
 /** Find snap for a single edge value */
-function findEdgeSnap(edgeValue: number, targets: number[]): number | null {
+function findEdgeSnap(
+  edgeValue: number,
+  targets: number[],
+  threshold: number
+): number | null {
   for (const target of targets) {
-    if (Math.abs(edgeValue - target) < snapConfig.threshold) {
+    if (Math.abs(edgeValue - target) < threshold) {
       return target;
     }
   }
   return null;
 }
 
+// ============================================
+// Helper: Smart Guides
+// ============================================
+
+interface Edges {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/** Edge keys per axis */
+const AXIS_EDGE_KEYS = {
+  x: { start: "left", end: "right", pos: "x", size: "w" },
+  y: { start: "top", end: "bottom", pos: "y", size: "h" },
+} as const;
+
+/** Boxes of the elements sharing the parent of an element */
+function collectSiblingBoxes(
+  elements: EditorElement[],
+  elementId: ElementId | undefined,
+  excludeIds: ElementId[]
+): PixelCoord[] {
+  const parentId = elements.find((e) => e.id === elementId)?.parentId;
+  return elements
+    .filter((e) => e.parentId === parentId && !excludeIds.includes(e.id))
+    .map((e) => e.bbox.pixel);
+}
+
+function toDistanceGuidelines(markers: DistanceMarker[]): SnapGuideline[] {
+  return markers.map((marker) => ({ type: "distance", ...marker }));
+}
+
+/**
+ * Prefer equal spacing over an edge snap when it is closer.
+ * Returns the snapped box start and its markers, or null to keep the
+ * edge snap.
+ */
+function pickSpacingSnap(
+  box: PixelCoord,
+  siblings: PixelCoord[],
+  axis: "x" | "y",
+  edgeSnap: SnapResult | null,
+  threshold: number
+): { value: number; markers: DistanceMarker[] } | null {
+  const spacing = findEqualSpacingSnap(box, siblings, axis, threshold);
+  if (!spacing) {
+    return null;
+  }
+  if (edgeSnap && Math.abs(edgeSnap.value - box[axis]) <= spacing.distance) {
+    return null;
+  }
+  return spacing;
+}
+
+/**
+ * Snap the moving edge of a resized box so its width (x) or height (y)
+ * matches a sibling. Only applies when a single edge on the axis moves
+ * and that edge did not snap to an edge already.
+ */
+function snapResizeSize(
+  axis: "x" | "y",
+  edges: Edges,
+  original: PixelCoord,
+  snaps: { start: number | null; end: number | null },
+  siblings: PixelCoord[],
+  threshold: number
+): { start: number | null; end: number | null; markers: DistanceMarker[] } {
+  const keys = AXIS_EDGE_KEYS[axis];
+  const startMoved =
+    Math.abs(edges[keys.start] - original[keys.pos]) > SIZE_EPSILON;
+  const endMoved =
+    Math.abs(edges[keys.end] - (original[keys.pos] + original[keys.size])) >
+    SIZE_EPSILON;
+  const unchanged = { ...snaps, markers: [] };
+  if (
+    startMoved === endMoved ||
+    (endMoved ? snaps.end : snaps.start) !== null
+  ) {
+    return unchanged;
+  }
+
+  const box = {
+    x: edges.left,
+    y: edges.top,
+    w: edges.right - edges.left,
+    h: edges.bottom - edges.top,
+  };
+  const match = findMatchingSizeSnap(box, siblings, axis, threshold);
+  if (!match) {
+    return unchanged;
+  }
+
+  // Keep the fixed edge and move the other one
+  const start = endMoved
+    ? (snaps.start ?? edges[keys.start])
+    : (snaps.end ?? edges[keys.end]) - match.value;
+  const snapped = { ...box, [keys.pos]: start, [keys.size]: match.value };
+  return {
+    start: endMoved ? snaps.start : start,
+    end: endMoved ? start + match.value : snaps.end,
+    markers: [...match.markers, sizeMarker(snapped, axis)],
+  };
+}
+
 // ============================================
 // Main Hook
 // ============================================
 
+/**
+ * Snapping to element edges, centers and image bounds, plus smart guides
+ * (equal spacing and matching sizes of sibling elements) when enabled.
+ * Snap guidelines are published to the UI store for the canvas to draw.
+ */
 export function useKonvaSnap() {
   const setActiveGuidelines = useUIStore((state) => state.setActiveGuidelines);
   const clearActiveGuidelines = useUIStore(
     (state) => state.clearActiveGuidelines
   );
+  const smartGuides = useSnapSettingsStore((state) => state.smartGuides);
+  const threshold = useSnapSettingsStore((state) => state.threshold);
 
   const getSnapResult = useCallback(
     (
@@ -243,27 +369,51 @@ export function useKonvaSnap() {
       const { xPoints, yPoints } = getCheckPoints(point, movingBox);
 
       // Find best snaps
-      const xSnap = findBestAxisSnap(
+      let xSnap = findBestAxisSnap(
         xPoints,
         targets.vertical,
-        movingBox?.w ?? 0
+        movingBox?.w ?? 0,
+        threshold
       );
-      const ySnap = findBestAxisSnap(
+      let ySnap = findBestAxisSnap(
         yPoints,
         targets.horizontal,
-        movingBox?.h ?? 0
+        movingBox?.h ?? 0,
+        threshold
       );
 
+      // Equal spacing with siblings of the moving element
+      let xSpacing: ReturnType<typeof pickSpacingSnap> = null;
+      let ySpacing: ReturnType<typeof pickSpacingSnap> = null;
+      if (smartGuides && movingBox) {
+        const box = { ...movingBox, x: point.x, y: point.y };
+        const siblings = collectSiblingBoxes(
+          elements,
+          excludeIds[0],
+          excludeIds
+        );
+        xSpacing = pickSpacingSnap(box, siblings, "x", xSnap, threshold);
+        ySpacing = pickSpacingSnap(box, siblings, "y", ySnap, threshold);
+        xSnap = xSpacing ? null : xSnap;
+        ySnap = ySpacing ? null : ySnap;
+      }
+
       // Update guidelines
-      const guidelines = buildGuidelines(xSnap, ySnap, imageWidth, imageHeight);
+      const guidelines = [
+        ...buildGuidelines(xSnap, ySnap, imageWidth, imageHeight),
+        ...toDistanceGuidelines([
+          ...(xSpacing?.markers ?? []),
+          ...(ySpacing?.markers ?? []),
+        ]),
+      ];
       setActiveGuidelines(guidelines);
 
       return {
-        x: xSnap ? xSnap.value : point.x,
-        y: ySnap ? ySnap.value : point.y,
+        x: xSpacing?.value ?? xSnap?.value ?? point.x,
+        y: ySpacing?.value ?? ySnap?.value ?? point.y,
       };
     },
-    [setActiveGuidelines]
+    [setActiveGuidelines, smartGuides, threshold]
   );
 
   const clearGuidelines = useCallback(() => {
@@ -272,7 +422,7 @@ export function useKonvaSnap() {
 
   const getResizeSnapResult = useCallback(
     (
-      edges: { left: number; right: number; top: number; bottom: number },
+      edges: Edges,
       elements: EditorElement[],
       excludeId: ElementId,
       imageWidth: number,
@@ -282,7 +432,6 @@ export function useKonvaSnap() {
       snapRight: number | null;
       snapTop: number | null;
       snapBottom: number | null;
-      guidelines: Array<{ type: "vertical" | "horizontal"; position: number }>;
     } => {
       // Collect targets
       const targets = collectResizeTargets(
@@ -293,41 +442,73 @@ export function useKonvaSnap() {
       );
 
       // Find edge snaps
-      const snapLeft = findEdgeSnap(edges.left, targets.vertical);
-      const snapRight = findEdgeSnap(edges.right, targets.vertical);
-      const snapTop = findEdgeSnap(edges.top, targets.horizontal);
-      const snapBottom = findEdgeSnap(edges.bottom, targets.horizontal);
+      let snapLeft = findEdgeSnap(edges.left, targets.vertical, threshold);
+      let snapRight = findEdgeSnap(edges.right, targets.vertical, threshold);
+      let snapTop = findEdgeSnap(edges.top, targets.horizontal, threshold);
+      let snapBottom = findEdgeSnap(
+        edges.bottom,
+        targets.horizontal,
+        threshold
+      );
 
       // Build guidelines
-      const guidelines: Array<{
-        type: "vertical" | "horizontal";
-        position: number;
-      }> = [];
+      const guidelines: SnapGuideline[] = [];
+      const vertical = {
+        type: "vertical",
+        start: 0,
+        end: imageHeight,
+      } as const;
+      const horizontal = {
+        type: "horizontal",
+        start: 0,
+        end: imageWidth,
+      } as const;
 
       if (snapLeft !== null) {
-        guidelines.push({ type: "vertical", position: snapLeft });
+        guidelines.push({ ...vertical, position: snapLeft });
       }
       if (snapRight !== null) {
-        guidelines.push({ type: "vertical", position: snapRight });
+        guidelines.push({ ...vertical, position: snapRight });
       }
       if (snapTop !== null) {
-        guidelines.push({ type: "horizontal", position: snapTop });
+        guidelines.push({ ...horizontal, position: snapTop });
       }
       if (snapBottom !== null) {
-        guidelines.push({ type: "horizontal", position: snapBottom });
+        guidelines.push({ ...horizontal, position: snapBottom });
       }
 
-      setActiveGuidelines(
-        guidelines.map((g) => ({
-          ...g,
-          start: 0,
-          end: g.type === "vertical" ? imageHeight : imageWidth,
-        }))
-      );
+      // Match the width or height of siblings
+      const original = elements.find((e) => e.id === excludeId)?.bbox.pixel;
+      if (smartGuides && original) {
+        const siblings = collectSiblingBoxes(elements, excludeId, [excludeId]);
+        const x = snapResizeSize(
+          "x",
+          edges,
+          original,
+          { start: snapLeft, end: snapRight },
+          siblings,
+          threshold
+        );
+        const y = snapResizeSize(
+          "y",
+          edges,
+          original,
+          { start: snapTop, end: snapBottom },
+          siblings,
+          threshold
+        );
+        snapLeft = x.start;
+        snapRight = x.end;
+        snapTop = y.start;
+        snapBottom = y.end;
+        guidelines.push(...toDistanceGuidelines([...x.markers, ...y.markers]));
+      }
+
+      setActiveGuidelines(guidelines);
 
-      return { snapLeft, snapRight, snapTop, snapBottom, guidelines };
+      return { snapLeft, snapRight, snapTop, snapBottom };
     },
-    [setActiveGuidelines]
+    [setActiveGuidelines, smartGuides, threshold]
   );
 
   return { getSnapResult, getResizeSnapResult, clearGuidelines };
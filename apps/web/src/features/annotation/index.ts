@@ -29,6 +29,7 @@ export {
   PropertiesPanel,
 } from "./components/panels/properties-panel";
 export { PropertiesSheet } from "./components/panels/properties-sheet";
+export { ScreenList } from "./components/panels/screen-list";
 export { BottomToolbar } from "./components/toolbar/bottom-toolbar";
 export { EditorHeader } from "./components/toolbar/editor-header";
 
@@ -48,3 +49,9 @@ export {
 // ============================================
 
 export { IconResolverProvider } from "./contexts/icon-resolver-context";
+
+// ============================================
+// Utilities
+// ============================================
+
+export { getElementCssColor } from "./constants/colors";
@@ -0,0 +1,306 @@
+import Konva from "konva";
+import { getConnectorRoute } from "@/lib/geometry";
+import { loadImageFromUrl } from "@/lib/image";
+import {
+  type Connector,
+  type EditorElement,
+  getDisplayLabel,
+  type Screen,
+} from "@/types";
+import { connectorConfig, labelConfig } from "../constants/canvas";
+import { colorToRgb, getElementRgb, primaryColors } from "../constants/colors";
+import { getLabelWidth } from "./canvas-utils";
+import { orderByHierarchy } from "./hierarchy";
+
+/**
+ * Annotated Image Rendering
+ *
+ * Renders a screen (image layer + annotations layer) on an offscreen
+ * Konva stage at the original image resolution.
+ */
+
+/**
+ * Options for rendering an annotated image.
+ */
+export interface AnnotatedImageOptions {
+  /** Draw element labels above the boxes */
+  showLabels: boolean;
+  /** Draw serial number badges inside the boxes */
+  showNumbers: boolean;
+  /** Use element colors (otherwise all boxes use the primary color) */
+  useColors: boolean;
+}
+
+/**
+ * Reference width for label size.
+ * Labels are scaled up on larger images so they stay readable.
+ */
+const LABEL_REFERENCE_WIDTH = 1280;
+
+/**
+ * Create the label group drawn above a box (same style as the editor).
+ * Boxes at the top edge get the label inside so it is not clipped.
+ */
+function createLabel(
+  text: string,
+  color: string,
+  scale: number,
+  inside: boolean
+): Konva.Group {
+  const textWidth = getLabelWidth(text, labelConfig.fontSize);
+  const needsEllipsis =
+    textWidth + labelConfig.padding * 2 > labelConfig.maxWidth;
+  const group = new Konva.Group({
+    scaleX: scale,
+    scaleY: scale,
+    x: inside ? 0 : -1,
+    y: inside ? 0 : -(labelConfig.height + labelConfig.gap) * scale,
+  });
+  group.add(
+    new Konva.Rect({
+      cornerRadius: 2,
+      fill: color,
+      height: labelConfig.height,
+      width: Math.min(
+        textWidth + labelConfig.padding * 2,
+        labelConfig.maxWidth
+      ),
+    }),
+    new Konva.Text({
+      ellipsis: needsEllipsis,
+      fill: "white",
+      fontFamily: "system-ui, sans-serif",
+      fontSize: labelConfig.fontSize,
+      text,
+      width: needsEllipsis
+        ? labelConfig.maxWidth - labelConfig.padding * 2
+        : undefined,
+      wrap: "none",
+      x: labelConfig.padding,
+      y: labelConfig.padding,
+    })
+  );
+  return group;
+}
+
+/**
+ * Create a round serial number badge at the top-left corner of a box.
+ */
+function createNumberBadge(
+  serialNumber: number,
+  color: string,
+  scale: number,
+  offsetY: number
+): Konva.Group {
+  const size = labelConfig.height;
+  const group = new Konva.Group({
+    scaleX: scale,
+    scaleY: scale,
+    x: 2,
+    y: 2 + offsetY,
+  });
+  group.add(
+    new Konva.Circle({
+      fill: color,
+      radius: size / 2,
+      x: size / 2,
+      y: size / 2,
+    }),
+    new Konva.Text({
+      align: "center",
+      fill: "white",
+      fontFamily: "system-ui, sans-serif",
+      fontSize: labelConfig.fontSize,
+      fontStyle: "bold",
+      height: size,
+      text: String(serialNumber),
+      verticalAlign: "middle",
+      width: size,
+    })
+  );
+  return group;
+}
+
+/**
+ * Create the outline of an element (rectangle, ellipse or polygon)
+ * relative to its bounding box.
+ */
+function createOutlineNode(
+  element: EditorElement,
+  style: Konva.ShapeConfig
+): Konva.Shape {
+  const { w, h } = element.bbox.pixel;
+  const { shape } = element;
+  if (shape?.type === "ellipse") {
+    return new Konva.Ellipse({
+      ...style,
+      radiusX: w / 2,
+      radiusY: h / 2,
+      x: w / 2,
+      y: h / 2,
+    });
+  }
+  if (shape?.type === "polygon") {
+    return new Konva.Line({
+      ...style,
+      closed: true,
+      points: shape.points.flatMap((p) => [p.x * w, p.y * h]),
+    });
+  }
+  return new Konva.Rect({ ...style, height: h, width: w });
+}
+
+/**
+ * Create the node for a single element (box, label, badge).
+ */
+function createElementNode(
+  element: EditorElement,
+  options: AnnotatedImageOptions,
+  scale: number
+): Konva.Group {
+  const { x, y } = element.bbox.pixel;
+  const rgb = options.useColors
+    ? getElementRgb(element.color)
+    : primaryColors.primary;
+  const color = colorToRgb(rgb);
+
+  const group = new Konva.Group({ x, y });
+  group.add(
+    createOutlineNode(element, {
+      fill: `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.05)`,
+      stroke: color,
+      strokeWidth: 2 * scale,
+    })
+  );
+  const labelHeight = (labelConfig.height + labelConfig.gap) * scale;
+  const labelInside = options.showLabels && y < labelHeight;
+  if (options.showLabels) {
+    group.add(createLabel(getDisplayLabel(element), color, scale, labelInside));
+  }
+  if (options.showNumbers) {
+    group.add(
+      createNumberBadge(
+        element.serialNumber,
+        color,
+        scale,
+        labelInside ? labelConfig.height * scale : 0
+      )
+    );
+  }
+  return group;
+}
+
+/**
+ * Create the arrow (and label) of a connector.
+ * Returns null if an endpoint's element no longer exists.
+ */
+function createConnectorNode(
+  connector: Connector,
+  elements: EditorElement[],
+  options: AnnotatedImageOptions,
+  scale: number
+): Konva.Group | null {
+  const route = getConnectorRoute(connector, elements);
+  if (!route) {
+    return null;
+  }
+  const { from, to } = route;
+  const color = colorToRgb(primaryColors.connector);
+  const pointerSize = connectorConfig.pointerSize * scale;
+
+  const group = new Konva.Group();
+  group.add(
+    new Konva.Arrow({
+      dash: connectorConfig.dash[connector.type].map((d) => d * scale),
+      fill: color,
+      pointerLength: pointerSize,
+      pointerWidth: pointerSize,
+      points: [from.x, from.y, to.x, to.y],
+      stroke: color,
+      strokeWidth: connectorConfig.strokeWidth * scale,
+    })
+  );
+  if (options.showLabels && connector.label) {
+    const label = new Konva.Label({
+      x: (from.x + to.x) / 2,
+      y: (from.y + to.y) / 2,
+      scaleX: scale,
+      scaleY: scale,
+    });
+    // A zero-size pointer centers the label above the midpoint
+    label.add(
+      new Konva.Tag({
+        cornerRadius: 3,
+        fill: color,
+        pointerDirection: "down",
+        pointerHeight: 0,
+        pointerWidth: 0,
+      })
+    );
+    label.add(
+      new Konva.Text({
+        fill: "white",
+        fontFamily: "system-ui, sans-serif",
+        fontSize: labelConfig.fontSize,
+        padding: labelConfig.padding,
+        text: connector.label,
+      })
+    );
+    group.add(label);
+  }
+  return group;
+}
+
+/**
+ * Render a screen with its annotations as a PNG at native image resolution.
+ */
+export async function renderAnnotatedImage(
+  screen: Screen,
+  options: AnnotatedImageOptions
+): Promise<Blob> {
+  const image = await loadImageFromUrl(screen.imageUrl);
+  const scale = Math.max(1, screen.imageWidth / LABEL_REFERENCE_WIDTH);
+
+  const stage = new Konva.Stage({
+    container: document.createElement("div"),
+    width: screen.imageWidth,
+    height: screen.imageHeight,
+  });
+
+  try {
+    const imageLayer = new Konva.Layer();
+    imageLayer.add(
+      new Konva.Image({
+        image,
+        width: screen.imageWidth,
+        height: screen.imageHeight,
+      })
+    );
+
+    // Parents first so children are drawn on top (same as the editor)
+    const annotationsLayer = new Konva.Layer();
+    for (const element of orderByHierarchy(screen.elements)) {
+      annotationsLayer.add(createElementNode(element, options, scale));
+    }
+    for (const connector of screen.connectors ?? []) {
+      const node = createConnectorNode(
+        connector,
+        screen.elements,
+        options,
+        scale
+      );
+      if (node) {
+        annotationsLayer.add(node);
+      }
+    }
+
+    stage.add(imageLayer, annotationsLayer);
+    const blob = await stage.toBlob({ mimeType: "image/png", pixelRatio: 1 });
+    if (!(blob instanceof Blob)) {
+      throw new Error("Failed to render image");
+    }
+    return blob;
+  } finally {
+    stage.destroy();
+  }
+}
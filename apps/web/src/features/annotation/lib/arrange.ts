@@ -0,0 +1,172 @@
+import type { PixelCoord } from "@/types";
+
+/**
+ * Arrange Utilities
+ *
+ * Align, distribute, match sizes and tidy up boxes of a multi-selection.
+ * Every function returns the boxes in the order they were given.
+ */
+
+/** Edge or center that boxes are aligned to */
+export type AlignMode =
+  | "left"
+  | "center"
+  | "right"
+  | "top"
+  | "middle"
+  | "bottom";
+
+/** Box keys per axis */
+const AXIS_KEYS = {
+  x: { pos: "x", size: "w" },
+  y: { pos: "y", size: "h" },
+} as const;
+
+/** Axis and anchor (0 = start, 0.5 = center, 1 = end) of each align mode */
+const ALIGN_ANCHORS: Record<AlignMode, { axis: "x" | "y"; anchor: number }> = {
+  left: { axis: "x", anchor: 0 },
+  center: { axis: "x", anchor: 0.5 },
+  right: { axis: "x", anchor: 1 },
+  top: { axis: "y", anchor: 0 },
+  middle: { axis: "y", anchor: 0.5 },
+  bottom: { axis: "y", anchor: 1 },
+};
+
+/**
+ * Align boxes to an edge or the center of their common bounds.
+ */
+export function alignBoxes(boxes: PixelCoord[], mode: AlignMode): PixelCoord[] {
+  const { axis, anchor } = ALIGN_ANCHORS[mode];
+  const { pos, size } = AXIS_KEYS[axis];
+  const start = Math.min(...boxes.map((b) => b[pos]));
+  const end = Math.max(...boxes.map((b) => b[pos] + b[size]));
+  return boxes.map((box) => ({
+    ...box,
+    [pos]: start + (end - start - box[size]) * anchor,
+  }));
+}
+
+/**
+ * Space boxes evenly between the first and the last one on an axis.
+ * The outermost boxes stay in place.
+ */
+export function distributeBoxes(
+  boxes: PixelCoord[],
+  axis: "x" | "y"
+): PixelCoord[] {
+  const { pos, size } = AXIS_KEYS[axis];
+  const order = boxes
+    .map((_, i) => i)
+    .sort((a, b) => boxes[a][pos] - boxes[b][pos]);
+  const start = boxes[order[0]][pos];
+  const end = Math.max(...boxes.map((b) => b[pos] + b[size]));
+  const totalSize = boxes.reduce((sum, b) => sum + b[size], 0);
+  const gap = (end - start - totalSize) / (boxes.length - 1);
+
+  const result = [...boxes];
+  let next = start;
+  for (const i of order) {
+    result[i] = { ...boxes[i], [pos]: next };
+    next += boxes[i][size] + gap;
+  }
+  return result;
+}
+
+/**
+ * Give all boxes the width or height of the first box.
+ * Boxes keep their left or top edge.
+ */
+export function matchBoxSizes(
+  boxes: PixelCoord[],
+  dimension: "width" | "height"
+): PixelCoord[] {
+  const key = dimension === "width" ? "w" : "h";
+  const value = boxes[0][key];
+  return boxes.map((box) => ({ ...box, [key]: value }));
+}
+
+/**
+ * Group boxes into lines along an axis (columns for "x", rows for "y").
+ * A box joins the line whose first box contains its center.
+ * Returns box indices per line, ordered along the axis.
+ */
+function groupLines(boxes: PixelCoord[], axis: "x" | "y"): number[][] {
+  const { pos, size } = AXIS_KEYS[axis];
+  const order = boxes
+    .map((_, i) => i)
+    .sort((a, b) => boxes[a][pos] - boxes[b][pos]);
+  const lines: number[][] = [];
+  for (const i of order) {
+    const center = boxes[i][pos] + boxes[i][size] / 2;
+    const line = lines.find((l) => {
+      const first = boxes[l[0]];
+      return center >= first[pos] && center <= first[pos] + first[size];
+    });
+    if (line) {
+      line.push(i);
+    } else {
+      lines.push([i]);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Get the start of each line when placed one after another with an even
+ * gap (the rounded average of the current gaps), from the first line on.
+ */
+function layoutLines(
+  boxes: PixelCoord[],
+  lines: number[][],
+  axis: "x" | "y"
+): number[] {
+  const { pos, size } = AXIS_KEYS[axis];
+  const extents = lines.map((line) => ({
+    start: Math.min(...line.map((i) => boxes[i][pos])),
+    end: Math.max(...line.map((i) => boxes[i][pos] + boxes[i][size])),
+    size: Math.max(...line.map((i) => boxes[i][size])),
+  }));
+  const gaps = extents.slice(1).map((e, i) => e.start - extents[i].end);
+  const gap =
+    gaps.length > 0
+      ? Math.max(0, Math.round(gaps.reduce((a, b) => a + b, 0) / gaps.length))
+      : 0;
+
+  const starts: number[] = [];
+  let next = Math.round(extents[0].start);
+  for (const extent of extents) {
+    starts.push(next);
+    next += extent.size + gap;
+  }
+  return starts;
+}
+
+/**
+ * Snap nearly aligned boxes into a clean grid: boxes in a row share their
+ * top, boxes in a column share their left, and rows and columns are
+ * evenly spaced.
+ * Returns null if the boxes do not form a grid (two boxes in one cell).
+ */
+export function tidyBoxes(boxes: PixelCoord[]): PixelCoord[] | null {
+  const rows = groupLines(boxes, "y");
+  const columns = groupLines(boxes, "x");
+  const rowOf = new Map(rows.flatMap((line, r) => line.map((i) => [i, r])));
+  const columnOf = new Map(
+    columns.flatMap((line, c) => line.map((i) => [i, c]))
+  );
+
+  const cells = new Set(
+    boxes.map((_, i) => `${rowOf.get(i)}:${columnOf.get(i)}`)
+  );
+  if (cells.size < boxes.length) {
+    return null;
+  }
+
+  const rowStarts = layoutLines(boxes, rows, "y");
+  const columnStarts = layoutLines(boxes, columns, "x");
+  return boxes.map((box, i) => ({
+    ...box,
+    x: columnStarts[columnOf.get(i) ?? 0],
+    y: rowStarts[rowOf.get(i) ?? 0],
+  }));
+}
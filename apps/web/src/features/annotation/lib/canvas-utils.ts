@@ -1,25 +1,39 @@
-import type { EditorElement, ElementId, Point } from "@/types";
+import { isPointInShape } from "@/lib/geometry";
+import type {
+  ConnectorEndpoint,
+  EditorElement,
+  ElementId,
+  Point,
+  ShapeType,
+} from "@/types";
 
 /**
  * Canvas interaction mode state.
  * - idle: No active interaction
  * - dragging: Moving an existing element
- * - drawing: Creating a new annotation
+ * - drawing: Creating a new annotation by dragging (rectangle or ellipse)
+ * - polygon: Placing polygon vertices one click at a time
+ * - connecting: Dragging a connector from an element or point
  */
 export type CanvasMode =
   | { type: "idle" }
   | { type: "dragging"; elementId: ElementId; offset: { x: number; y: number } }
-  | { type: "drawing"; start: { x: number; y: number } };
+  | {
+      type: "drawing";
+      start: { x: number; y: number };
+      shape?: Exclude<ShapeType, "polygon">;
+    }
+  | { type: "polygon"; points: Point[] }
+  | { type: "connecting"; from: ConnectorEndpoint; start: Point };
 
 /**
- * Check if a point is inside an element's bounding box.
+ * Check if a point is inside an element's shape.
  */
 export function isPointInElement(
   point: Point,
   element: EditorElement
 ): boolean {
-  const { x, y, w, h } = element.bbox.pixel;
-  return point.x >= x && point.x <= x + w && point.y >= y && point.y <= y + h;
+  return isPointInShape(point, element.bbox.pixel, element.shape);
 }
 
 /**
@@ -50,3 +64,19 @@ export function findSelectedElementAtPoint(
   }
   return null;
 }
+
+/**
+ * Calculate label width accounting for full-width characters (Japanese, etc.)
+ */
+export function getLabelWidth(text: string, fontSize: number): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const isFullWidth =
+      (code >= 0x30_00 && code <= 0x9f_ff) || // CJK
+      (code >= 0xff_00 && code <= 0xff_ef) || // Full-width forms
+      (code >= 0xac_00 && code <= 0xd7_af); // Korean
+    width += isFullWidth ? fontSize : fontSize * 0.6;
+  }
+  return width;
+}
@@ -0,0 +1,37 @@
+import type { EditorElement, Point, ReviewComment } from "@/types";
+
+/** localStorage key of the name used for new comments */
+const COMMENT_AUTHOR_KEY = "ui-annotator-comment-author";
+
+/**
+ * Get the pin position of a comment in image pixels.
+ * Element comments follow the element's top-right corner; comments of
+ * deleted elements stay at their stored point.
+ */
+export function getCommentAnchor(
+  comment: Pick<ReviewComment, "elementId" | "point">,
+  elements: EditorElement[]
+): Point {
+  const element = comment.elementId
+    ? elements.find((e) => e.id === comment.elementId)
+    : undefined;
+  if (!element) {
+    return comment.point;
+  }
+  const { x, y, w } = element.bbox.pixel;
+  return { x: x + w, y };
+}
+
+/**
+ * Get the name last used for comments.
+ */
+export function getCommentAuthor(): string {
+  return localStorage.getItem(COMMENT_AUTHOR_KEY) ?? "";
+}
+
+/**
+ * Remember the name used for comments.
+ */
+export function setCommentAuthor(author: string): void {
+  localStorage.setItem(COMMENT_AUTHOR_KEY, author);
+}
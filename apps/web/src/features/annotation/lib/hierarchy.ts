@@ -0,0 +1,129 @@
+import type { BBox, EditorElement, ElementId } from "@/types";
+
+/**
+ * Element Hierarchy Utilities
+ *
+ * Elements form a tree via optional parentId. The elements array stays
+ * ordered by displayOrder (back to front); in that order every parent
+ * sits directly below its subtree, so children always render on top.
+ */
+
+/**
+ * An element with its depth in the tree (for layer panel display).
+ */
+export interface FlattenedElement {
+  element: EditorElement;
+  depth: number;
+}
+
+/**
+ * Check if bbox `outer` fully contains bbox `inner` (in pixel space).
+ */
+function containsBBox(outer: BBox, inner: BBox): boolean {
+  const o = outer.pixel;
+  const i = inner.pixel;
+  return (
+    i.x >= o.x && i.y >= o.y && i.x + i.w <= o.x + o.w && i.y + i.h <= o.y + o.h
+  );
+}
+
+/**
+ * Find the innermost element that fully contains the bbox.
+ * Used to auto-assign a parent when drawing a box inside another.
+ */
+export function findContainingElement(
+  bbox: BBox,
+  elements: EditorElement[]
+): EditorElement | null {
+  let best: EditorElement | null = null;
+  for (const element of elements) {
+    if (!containsBBox(element.bbox, bbox)) {
+      continue;
+    }
+    const area = element.bbox.pixel.w * element.bbox.pixel.h;
+    if (!best || area < best.bbox.pixel.w * best.bbox.pixel.h) {
+      best = element;
+    }
+  }
+  return best;
+}
+
+/**
+ * Get IDs of all descendants of an element.
+ */
+export function getDescendantIds(
+  elements: EditorElement[],
+  id: ElementId
+): Set<ElementId> {
+  const descendants = new Set<ElementId>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const element of elements) {
+      if (element.parentId === current && !descendants.has(element.id)) {
+        descendants.add(element.id);
+        queue.push(element.id);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Group elements by parent ID, each group sorted by displayOrder.
+ * Elements whose parent no longer exists are treated as top-level.
+ */
+function groupByParent(
+  elements: EditorElement[]
+): Map<ElementId | null, EditorElement[]> {
+  const ids = new Set(elements.map((e) => e.id));
+  const groups = new Map<ElementId | null, EditorElement[]>();
+  for (const element of elements) {
+    const key =
+      element.parentId && ids.has(element.parentId) ? element.parentId : null;
+    const group = groups.get(key) ?? [];
+    group.push(element);
+    groups.set(key, group);
+  }
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.displayOrder - b.displayOrder);
+  }
+  return groups;
+}
+
+/**
+ * Reorder elements so each subtree is contiguous (parent first, back to front).
+ * Sibling order is taken from the current displayOrder.
+ * Callers must reassign displayOrder from the returned index.
+ */
+export function orderByHierarchy<T extends EditorElement>(elements: T[]): T[] {
+  const groups = groupByParent(elements) as Map<ElementId | null, T[]>;
+  const result: T[] = [];
+  const visit = (parentId: ElementId | null) => {
+    for (const element of groups.get(parentId) ?? []) {
+      result.push(element);
+      visit(element.id);
+    }
+  };
+  visit(null);
+  return result;
+}
+
+/**
+ * Flatten the element tree for display (front to back, parent above children).
+ */
+export function flattenElementTree(
+  elements: EditorElement[]
+): FlattenedElement[] {
+  const groups = groupByParent(elements);
+  const result: FlattenedElement[] = [];
+  const visit = (parentId: ElementId | null, depth: number) => {
+    const siblings = groups.get(parentId) ?? [];
+    for (let i = siblings.length - 1; i >= 0; i--) {
+      result.push({ element: siblings[i], depth });
+      visit(siblings[i].id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+}
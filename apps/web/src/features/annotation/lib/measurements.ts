@@ -0,0 +1,149 @@
+import { type BoxEdges, getBoxEdges, getEdgeAxis } from "@/lib/geometry";
+import type { EditorElement, ElementEdge, Spacing, SpacingEnd } from "@/types";
+
+/**
+ * Element Measurements
+ *
+ * Distances between the edges of two elements, like the Alt-hover
+ * measurements of design tools.
+ */
+
+/**
+ * Distance between two parallel element edges.
+ */
+export interface Measurement {
+  from: SpacingEnd;
+  to: SpacingEnd;
+  /** Axis the distance is measured along */
+  axis: "x" | "y";
+  /** Line start and end along the axis (start <= end) */
+  start: number;
+  end: number;
+  /** Position of the line on the other axis */
+  position: number;
+  /** Distance in image pixels */
+  distance: number;
+}
+
+/** Edges measured on each axis */
+const AXIS_EDGES = {
+  x: { start: "left", end: "right", crossStart: "top", crossEnd: "bottom" },
+  y: { start: "top", end: "bottom", crossStart: "left", crossEnd: "right" },
+} as const;
+
+/**
+ * Get where a measurement line is drawn on the other axis: the middle of
+ * the range both elements share, or the first element's center.
+ */
+function getCrossPosition(a: BoxEdges, b: BoxEdges, axis: "x" | "y"): number {
+  const { crossStart, crossEnd } = AXIS_EDGES[axis];
+  const start = Math.max(a[crossStart], b[crossStart]);
+  const end = Math.min(a[crossEnd], b[crossEnd]);
+  if (start <= end) {
+    return (start + end) / 2;
+  }
+  return axis === "x" ? a.centerY : a.centerX;
+}
+
+/**
+ * Build a measurement between an edge of element A and an edge of element B.
+ */
+function createMeasurement(
+  a: EditorElement,
+  aEdge: ElementEdge,
+  b: EditorElement,
+  bEdge: ElementEdge
+): Measurement {
+  const aEdges = getBoxEdges(a.bbox.pixel);
+  const bEdges = getBoxEdges(b.bbox.pixel);
+  const axis = getEdgeAxis(aEdge);
+  const from = aEdges[aEdge];
+  const to = bEdges[bEdge];
+  return {
+    from: { elementId: a.id, edge: aEdge },
+    to: { elementId: b.id, edge: bEdge },
+    axis,
+    start: Math.min(from, to),
+    end: Math.max(from, to),
+    position: getCrossPosition(aEdges, bEdges, axis),
+    distance: Math.abs(to - from),
+  };
+}
+
+/**
+ * Measure the distances between two elements on one axis.
+ * Separated elements get the gap between their facing edges; overlapping
+ * or nested elements get the distances between their matching edges.
+ */
+function measureAxis(
+  a: EditorElement,
+  b: EditorElement,
+  axis: "x" | "y"
+): Measurement[] {
+  const { start, end } = AXIS_EDGES[axis];
+  const aEdges = getBoxEdges(a.bbox.pixel);
+  const bEdges = getBoxEdges(b.bbox.pixel);
+
+  let measurements: Measurement[];
+  if (aEdges[end] <= bEdges[start]) {
+    measurements = [createMeasurement(a, end, b, start)];
+  } else if (bEdges[end] <= aEdges[start]) {
+    measurements = [createMeasurement(a, start, b, end)];
+  } else {
+    measurements = [
+      createMeasurement(a, start, b, start),
+      createMeasurement(a, end, b, end),
+    ];
+  }
+  // Touching or aligned edges have nothing to show
+  return measurements.filter((m) => m.distance > 0);
+}
+
+/**
+ * Measure the distances between two elements on both axes.
+ */
+export function measureElements(
+  a: EditorElement,
+  b: EditorElement
+): Measurement[] {
+  return [...measureAxis(a, b, "x"), ...measureAxis(a, b, "y")];
+}
+
+/**
+ * Measure a saved spacing at the current element positions.
+ * Returns null if one of its elements no longer exists.
+ */
+export function measureSpacing(
+  spacing: Spacing,
+  elements: EditorElement[]
+): Measurement | null {
+  const a = elements.find((e) => e.id === spacing.from.elementId);
+  const b = elements.find((e) => e.id === spacing.to.elementId);
+  if (!(a && b)) {
+    return null;
+  }
+  return createMeasurement(a, spacing.from.edge, b, spacing.to.edge);
+}
+
+/**
+ * Check if a measurement is already saved as a spacing (in either direction).
+ */
+export function findSavedSpacing(
+  measurement: Pick<Measurement, "from" | "to">,
+  spacings: Spacing[]
+): Spacing | undefined {
+  const same = (x: SpacingEnd, y: SpacingEnd) =>
+    x.elementId === y.elementId && x.edge === y.edge;
+  return spacings.find(
+    (s) =>
+      (same(s.from, measurement.from) && same(s.to, measurement.to)) ||
+      (same(s.from, measurement.to) && same(s.to, measurement.from))
+  );
+}
+
+/**
+ * Format a distance in CSS pixels for display (at most one decimal).
+ */
+export function formatDistance(distance: number, pixelRatio = 1): string {
+  return String(Math.round((distance / pixelRatio) * 10) / 10);
+}
@@ -0,0 +1,221 @@
+import type { PixelCoord } from "@/types";
+
+/**
+ * Smart Guides
+ *
+ * Snapping beyond edges and centers, like the smart guides of design
+ * tools: equal spacing between sibling elements and matching sizes.
+ * Axis "x" works on left/right and widths, "y" on top/bottom and heights.
+ */
+
+/**
+ * Distance shown on the canvas while snapping (a gap or a size).
+ */
+export interface DistanceMarker {
+  /** Axis the distance is measured along */
+  axis: "x" | "y";
+  /** Start and end along the axis */
+  start: number;
+  end: number;
+  /** Position of the marker on the other axis */
+  position: number;
+}
+
+/**
+ * Smart snap on one axis.
+ */
+interface SmartSnap {
+  /** Snapped box start (equal spacing) or size (matching size) */
+  value: number;
+  /** Distance from the unsnapped value */
+  distance: number;
+  /** Distances to show while snapped */
+  markers: DistanceMarker[];
+}
+
+/** Range along one axis */
+interface Span {
+  start: number;
+  end: number;
+}
+
+/** Sibling with its ranges on the snap axis and the other axis */
+interface RowItem {
+  span: Span;
+  cross: Span;
+}
+
+/** Box keys per axis */
+const AXIS_KEYS = {
+  x: { pos: "x", size: "w", crossPos: "y", crossSize: "h" },
+  y: { pos: "y", size: "h", crossPos: "x", crossSize: "w" },
+} as const;
+
+/** Tolerance for sizes considered equal (pixels) */
+const EQUAL_TOLERANCE = 0.5;
+
+function getSpan(box: PixelCoord, axis: "x" | "y"): Span {
+  const { pos, size } = AXIS_KEYS[axis];
+  return { start: box[pos], end: box[pos] + box[size] };
+}
+
+function getCrossSpan(box: PixelCoord, axis: "x" | "y"): Span {
+  const { crossPos, crossSize } = AXIS_KEYS[axis];
+  return { start: box[crossPos], end: box[crossPos] + box[crossSize] };
+}
+
+/**
+ * Get where a marker between two boxes is drawn on the other axis:
+ * the middle of the range both share, or the middle of the first.
+ */
+function getMarkerPosition(a: Span, b: Span): number {
+  const start = Math.max(a.start, b.start);
+  const end = Math.min(a.end, b.end);
+  return start <= end ? (start + end) / 2 : (a.start + a.end) / 2;
+}
+
+/** Marker for the gap between two items */
+function gapMarker(
+  axis: "x" | "y",
+  start: number,
+  end: number,
+  a: Span,
+  b: Span
+): DistanceMarker {
+  return { axis, start, end, position: getMarkerPosition(a, b) };
+}
+
+/**
+ * Marker spanning the size of a box on one axis (drawn through its middle).
+ */
+export function sizeMarker(box: PixelCoord, axis: "x" | "y"): DistanceMarker {
+  const span = getSpan(box, axis);
+  const cross = getCrossSpan(box, axis);
+  return { axis, ...span, position: (cross.start + cross.end) / 2 };
+}
+
+/**
+ * Positions for the moving box that repeat the gap between two
+ * neighbouring siblings: centered between them, after them or before them.
+ */
+function getGapCandidates(
+  prev: RowItem,
+  next: RowItem,
+  size: number,
+  cross: Span,
+  axis: "x" | "y"
+): Omit<SmartSnap, "distance">[] {
+  const gap = next.span.start - prev.span.end;
+  if (gap <= 0) {
+    return [];
+  }
+  const pairMarker = gapMarker(
+    axis,
+    prev.span.end,
+    next.span.start,
+    prev.cross,
+    next.cross
+  );
+  const after = next.span.end + gap;
+  const before = prev.span.start - gap - size;
+  const candidates = [
+    {
+      value: after,
+      markers: [
+        pairMarker,
+        gapMarker(axis, next.span.end, after, next.cross, cross),
+      ],
+    },
+    {
+      value: before,
+      markers: [
+        gapMarker(axis, before + size, prev.span.start, cross, prev.cross),
+        pairMarker,
+      ],
+    },
+  ];
+
+  // Centered between the pair, if the box fits with a gap on both sides
+  const half = (gap - size) / 2;
+  if (half > 0) {
+    const between = prev.span.end + half;
+    candidates.push({
+      value: between,
+      markers: [
+        gapMarker(axis, prev.span.end, between, prev.cross, cross),
+        gapMarker(axis, between + size, next.span.start, cross, next.cross),
+      ],
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Find a position of the moving box that spaces it equally with the
+ * siblings in the same row (x) or column (y).
+ * Needs at least two siblings, so that three elements share the gap.
+ */
+export function findEqualSpacingSnap(
+  box: PixelCoord,
+  siblings: PixelCoord[],
+  axis: "x" | "y",
+  threshold: number
+): SmartSnap | null {
+  const span = getSpan(box, axis);
+  const cross = getCrossSpan(box, axis);
+  const row: RowItem[] = siblings
+    .map((s) => ({ span: getSpan(s, axis), cross: getCrossSpan(s, axis) }))
+    .filter((s) => s.cross.start < cross.end && cross.start < s.cross.end)
+    .sort((a, b) => a.span.start - b.span.start);
+
+  let best: SmartSnap | null = null;
+  for (let i = 1; i < row.length; i++) {
+    const candidates = getGapCandidates(
+      row[i - 1],
+      row[i],
+      span.end - span.start,
+      cross,
+      axis
+    );
+    for (const candidate of candidates) {
+      const distance = Math.abs(candidate.value - span.start);
+      if (distance < (best?.distance ?? threshold)) {
+        best = { ...candidate, distance };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Find a sibling width (x) or height (y) close to the size of the box.
+ * Markers show every sibling with the matched size.
+ */
+export function findMatchingSizeSnap(
+  box: PixelCoord,
+  siblings: PixelCoord[],
+  axis: "x" | "y",
+  threshold: number
+): SmartSnap | null {
+  const { size } = AXIS_KEYS[axis];
+  let match: number | null = null;
+  let minDistance = threshold;
+  for (const sibling of siblings) {
+    const distance = Math.abs(sibling[size] - box[size]);
+    if (distance < minDistance) {
+      minDistance = distance;
+      match = sibling[size];
+    }
+  }
+  if (match === null) {
+    return null;
+  }
+  const value = match;
+  return {
+    value,
+    distance: minDistance,
+    markers: siblings
+      .filter((s) => Math.abs(s[size] - value) < EQUAL_TOLERANCE)
+      .map((s) => sizeMarker(s, axis)),
+  };
+}
@@ -5,7 +5,14 @@
  */
 
 import { v4 as uuidv4 } from "uuid";
-import type { BBox, ComponentSpec, EditorElement, ElementColor } from "@/types";
+import type {
+  BBox,
+  ComponentSpec,
+  EditorElement,
+  ElementColor,
+  ElementId,
+  ElementShape,
+} from "@/types";
 
 /**
  * Options for creating a new element
@@ -13,6 +20,8 @@ import type { BBox, ComponentSpec, EditorElement, ElementColor } from "@/types";
 export interface CreateElementOptions {
   /** Bounding box for the element */
   bbox: BBox;
+  /** Optional exact shape within the bounding box (defaults to a rectangle) */
+  shape?: ElementShape;
   /** Existing elements (used for displayOrder and serialNumber generation) */
   existingElements: EditorElement[];
   /** Optional custom label (defaults to empty, display uses serialNumber as fallback) */
@@ -23,6 +32,8 @@ export interface CreateElementOptions {
   notes?: string;
   /** Optional color */
   color?: ElementColor;
+  /** Optional containing element */
+  parentId?: ElementId;
 }
 
 /**
@@ -58,7 +69,16 @@ function generateSerialNumber(existingElements: EditorElement[]): number {
  * @returns A fully initialized EditorElement
  */
 export function createElement(options: CreateElementOptions): EditorElement {
-  const { bbox, existingElements, label, component, notes, color } = options;
+  const {
+    bbox,
+    shape,
+    existingElements,
+    label,
+    component,
+    notes,
+    color,
+    parentId,
+  } = options;
   const now = new Date().toISOString();
 
   return {
@@ -69,8 +89,10 @@ export function createElement(options: CreateElementOptions): EditorElement {
     displayOrder: existingElements.length,
     createdAt: now,
     updatedAt: now,
+    ...(shape !== undefined && { shape }),
     ...(component !== undefined && { component }),
     ...(notes !== undefined && { notes }),
     ...(color !== undefined && { color }),
+    ...(parentId !== undefined && { parentId }),
   };
 }
@@ -1,13 +1,36 @@
-import type { WritableDraft } from "immer";
-import { temporal } from "zundo";
+import { produce, type WritableDraft } from "immer";
+import { v4 as uuidv4 } from "uuid";
 import { create } from "zustand";
-import { persist } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
 import { createBBox, updateBBoxPixel } from "@/lib/geometry";
-import { loadImageFromUrl } from "@/lib/image";
-import { throttle } from "@/lib/throttle";
-import type { EditorElement, Project } from "@/types";
+import { loadWorkingImage, type WorkingImage } from "@/lib/image";
+import {
+  type CommentId,
+  type Connector,
+  type EditorElement,
+  type ElementId,
+  type ElementUpdate,
+  getActiveScreen,
+  getScreenHistory,
+  type HistoryEntry,
+  type PixelCoord,
+  type Project,
+  type ReviewComment,
+  type Spacing,
+} from "@/types";
 import { canvasConfig } from "../constants/canvas";
+import {
+  type AlignMode,
+  alignBoxes,
+  distributeBoxes,
+  matchBoxSizes,
+  tidyBoxes,
+} from "../lib/arrange";
+import {
+  findContainingElement,
+  getDescendantIds,
+  orderByHierarchy,
+} from "../lib/hierarchy";
 import { createElement } from "../services/element-factory";
 import {
   type AnnotationState,
@@ -19,19 +42,20 @@ import {
   initialViewportState,
 } from "./types";
 
-/** Storage key for persist middleware */
-const STORAGE_KEY = "ui-annotator-project";
-
 /**
  * Initial annotation state
  */
 const initialState = {
-  // Project (persisted)
+  // Project (saved to the project library by the app layer)
   project: null as Project | null,
-  // Loaded image (1:1 with project, not persisted)
-  image: null as HTMLImageElement | null,
-  // Elements (for undo/redo, synced with project)
+  // Loaded image (1:1 with active screen, not persisted)
+  image: null as WorkingImage | null,
+  // Elements of the active screen (for undo/redo, synced with project)
   elements: [] as EditorElement[],
+  // Connectors of the active screen (for undo/redo, synced with project)
+  connectors: [] as Connector[],
+  // Saved spacings of the active screen (for undo/redo, synced with project)
+  spacings: [] as Spacing[],
   // Ephemeral state
   selection: initialSelectionState,
   drawing: initialDrawingState,
@@ -42,22 +66,357 @@ const initialState = {
 };
 
 /**
- * Get image size from project
+ * Get image size from the project's active screen
  */
-const getImageSize = (project: Project | null) =>
-  project ? { width: project.imageWidth, height: project.imageHeight } : null;
+const getImageSize = (project: Project | null) => {
+  if (!project) {
+    return null;
+  }
+  const screen = getActiveScreen(project);
+  return { width: screen.imageWidth, height: screen.imageHeight };
+};
 
 /**
- * Sync elements to project after mutation.
- * Call this at the end of any action that modifies elements.
+ * Sync elements, connectors and spacings to the active screen after mutation.
+ * Call this at the end of any action that modifies them.
  */
 function syncElementsToProject(state: WritableDraft<AnnotationState>): void {
   if (state.project) {
-    state.project.elements = state.elements;
+    const screen = getActiveScreen(state.project);
+    screen.elements = state.elements;
+    if (state.connectors.length > 0 || screen.connectors) {
+      screen.connectors = state.connectors;
+    }
+    if (state.spacings.length > 0 || screen.spacings) {
+      screen.spacings = state.spacings;
+    }
+    state.project.updatedAt = new Date().toISOString();
+  }
+}
+
+/**
+ * Load the annotations of the active screen into the editor state.
+ */
+function loadScreenAnnotations(state: WritableDraft<AnnotationState>): void {
+  if (!state.project) {
+    return;
+  }
+  const screen = getActiveScreen(state.project);
+  state.elements = screen.elements;
+  state.connectors = screen.connectors ?? [];
+  state.spacings = screen.spacings ?? [];
+}
+
+/**
+ * Reorder elements so subtrees are contiguous and renumber displayOrder.
+ * Call this after any change to parentId or sibling order.
+ */
+function normalizeHierarchy(state: WritableDraft<AnnotationState>): void {
+  state.elements = orderByHierarchy(state.elements);
+  state.elements.forEach((e, i) => {
+    e.displayOrder = i;
+  });
+}
+
+/**
+ * Remove elements, moving their children up to the nearest surviving ancestor.
+ * Connectors and spacings attached to a removed element are removed with it.
+ */
+function removeElements(
+  state: WritableDraft<AnnotationState>,
+  ids: ElementId[]
+): void {
+  const removed = new Set(ids);
+  const parentOf = new Map(state.elements.map((e) => [e.id, e.parentId]));
+
+  state.elements = state.elements.filter((e) => !removed.has(e.id));
+  for (const element of state.elements) {
+    let parentId = element.parentId;
+    while (parentId && removed.has(parentId)) {
+      parentId = parentOf.get(parentId);
+    }
+    element.parentId = parentId;
+  }
+  normalizeHierarchy(state);
+
+  const attached = (endpoint: Connector["from"]) =>
+    "elementId" in endpoint && removed.has(endpoint.elementId);
+  if (state.connectors.some((c) => attached(c.from) || attached(c.to))) {
+    state.connectors = state.connectors.filter(
+      (c) => !(attached(c.from) || attached(c.to))
+    );
+    state.selection.connectorId = null;
+  }
+  if (
+    state.spacings.some(
+      (s) => removed.has(s.from.elementId) || removed.has(s.to.elementId)
+    )
+  ) {
+    state.spacings = state.spacings.filter(
+      (s) => !(removed.has(s.from.elementId) || removed.has(s.to.elementId))
+    );
+  }
+}
+
+/**
+ * Assign parents to pasted elements.
+ * A copied parent maps to its copy; otherwise the original parent is kept
+ * if it exists on this screen.
+ */
+function relinkPastedParents(
+  copied: EditorElement[],
+  pasted: EditorElement[],
+  idMap: Map<ElementId, ElementId>,
+  existing: EditorElement[]
+): void {
+  for (const [i, { parentId }] of copied.entries()) {
+    if (!parentId) {
+      continue;
+    }
+    const newParentId =
+      idMap.get(parentId) ??
+      (existing.some((e) => e.id === parentId) ? parentId : undefined);
+    if (newParentId) {
+      pasted[i].parentId = newParentId;
+    }
+  }
+}
+
+/**
+ * Reset editor state that belongs to a single screen.
+ * Clipboard is kept so elements can be pasted across screens.
+ */
+function resetScreenState(state: WritableDraft<AnnotationState>): void {
+  state.selection = initialSelectionState;
+  state.viewport = initialViewportState;
+  state.drawing = initialDrawingState;
+}
+
+/**
+ * Update a review comment of the active screen.
+ * Comments are saved with the project but are not part of the undo history.
+ */
+function updateComment(
+  state: WritableDraft<AnnotationState>,
+  id: CommentId,
+  recipe: (comment: WritableDraft<ReviewComment>) => void
+): void {
+  if (!state.project) {
+    return;
+  }
+  const comment = getActiveScreen(state.project).comments?.find(
+    (c) => c.id === id
+  );
+  if (comment) {
+    recipe(comment);
     state.project.updatedAt = new Date().toISOString();
   }
 }
 
+// ============================================
+// History
+// ============================================
+
+/** Maximum number of undo steps kept */
+const HISTORY_LIMIT = 50;
+
+/** Edits with the same merge key closer together than this form one step (ms) */
+const MERGE_WINDOW = 1000;
+
+/** Open transaction; its changes are recorded as one step when it ends */
+let transaction: {
+  label: string;
+  screenId: string;
+  elements: EditorElement[];
+  connectors: Connector[];
+  spacings: Spacing[];
+} | null = null;
+
+/** Merge key and time of the last recorded step */
+let lastRecord: { mergeKey: string; time: number } | null = null;
+
+/**
+ * Drop the open transaction and the merge state, so that edits of a newly
+ * loaded project neither merge into nor end a step of the previous one.
+ */
+function resetHistoryTracking() {
+  transaction = null;
+  lastRecord = null;
+}
+
+/**
+ * Format an element count for history labels ("element", "3 elements").
+ */
+function formatCount(count: number): string {
+  return count === 1 ? "element" : `${count} elements`;
+}
+
+/**
+ * Record a change to the elements as an undo step.
+ * Edits with the same merge key in quick succession (e.g. typing a label)
+ * are merged into the first step.
+ */
+function pushHistory(
+  state: WritableDraft<AnnotationState>,
+  entry: HistoryEntry,
+  mergeKey?: string
+): void {
+  if (!state.project) {
+    return;
+  }
+  let history = getScreenHistory(state.project);
+  if (!history) {
+    history = { past: [], future: [] };
+    state.project.histories ??= {};
+    state.project.histories[getActiveScreen(state.project).id] = history;
+  }
+
+  const now = Date.now();
+  const merge =
+    mergeKey !== undefined &&
+    lastRecord?.mergeKey === mergeKey &&
+    now - lastRecord.time < MERGE_WINDOW &&
+    history.past.length > 0 &&
+    history.future.length === 0;
+  lastRecord = mergeKey ? { mergeKey, time: now } : null;
+
+  history.future = [];
+  if (merge) {
+    return;
+  }
+  history.past.push(entry);
+  if (history.past.length > HISTORY_LIMIT) {
+    history.past.shift();
+  }
+}
+
+/**
+ * Apply a change to the annotations (elements, connectors, spacings) as one
+ * labelled undo step.
+ * Untouched state is shared between steps, so comparing the arrays
+ * tells whether anything changed. Inside a transaction nothing is recorded.
+ */
+function commitChange(
+  label: string,
+  recipe: (state: WritableDraft<AnnotationState>) => void,
+  mergeKey?: string
+): void {
+  const prevState = useAnnotationStore.getState();
+  let nextState = produce(prevState, recipe);
+  const changed =
+    nextState.elements !== prevState.elements ||
+    nextState.connectors !== prevState.connectors ||
+    nextState.spacings !== prevState.spacings;
+  if (changed && !transaction) {
+    nextState = produce(nextState, (state) =>
+      pushHistory(
+        state,
+        {
+          label,
+          elements: prevState.elements,
+          connectors: prevState.connectors,
+          spacings: prevState.spacings,
+        },
+        mergeKey
+      )
+    );
+  }
+  useAnnotationStore.setState(nextState);
+}
+
+/**
+ * Replace the boxes of the selected elements as one undo step.
+ * `arrange` gets the boxes in selection order and returns null to leave
+ * them unchanged.
+ */
+function arrangeSelected(
+  label: string,
+  minCount: number,
+  arrange: (boxes: PixelCoord[]) => PixelCoord[] | null
+): void {
+  commitChange(label, (state) => {
+    const imageSize = getImageSize(state.project);
+    const selected = state.selection.selectedIds
+      .map((id) => state.elements.find((e) => e.id === id))
+      .filter((e) => e !== undefined);
+    const boxes =
+      selected.length >= minCount &&
+      arrange(selected.map((e) => ({ ...e.bbox.pixel })));
+    if (!(imageSize && boxes)) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    let changed = false;
+    selected.forEach((element, i) => {
+      const { x, y, w, h } = element.bbox.pixel;
+      const box = boxes[i];
+      if (box.x !== x || box.y !== y || box.w !== w || box.h !== h) {
+        element.bbox = createBBox(box, {
+          w: imageSize.width,
+          h: imageSize.height,
+        });
+        element.updatedAt = now;
+        changed = true;
+      }
+    });
+    if (changed) {
+      syncElementsToProject(state);
+    }
+  });
+}
+
+/** History labels of the align modes */
+const ALIGN_LABELS: Record<AlignMode, string> = {
+  left: "Aligned left",
+  center: "Aligned centers",
+  right: "Aligned right",
+  top: "Aligned top",
+  middle: "Aligned middles",
+  bottom: "Aligned bottom",
+};
+
+/**
+ * Describe an element update for the history.
+ */
+function getUpdateLabel(
+  element: EditorElement,
+  updates: ElementUpdate
+): string {
+  const fields = Object.entries(updates)
+    .filter(([, value]) => value !== undefined)
+    .map(([field]) => field);
+  // Vertex edits change the shape together with its bounding box
+  if (updates.shape) {
+    return "Edited shape";
+  }
+  if (fields.length !== 1) {
+    return "Edited element";
+  }
+
+  switch (fields[0]) {
+    case "label":
+      return "Renamed element";
+    case "component":
+      return updates.component
+        ? `Changed component to ${updates.component.name}`
+        : "Cleared component";
+    case "notes":
+      return "Edited notes";
+    case "color":
+      return "Changed color";
+    case "displayOrder":
+      return "Reordered layers";
+    default: {
+      const { w, h } = element.bbox.pixel;
+      const size = updates.bbox?.pixel;
+      return size && (size.w !== w || size.h !== h)
+        ? "Resized element"
+        : "Moved element";
+    }
+  }
+}
+
 /**
  * Apply updates to an element.
  * Handles null values for optional fields and updates timestamp.
@@ -67,6 +426,7 @@ function applyElementUpdates(
   updates: {
     label?: string;
     bbox?: EditorElement["bbox"];
+    shape?: EditorElement["shape"];
     component?: EditorElement["component"] | null;
     notes?: string;
     color?: EditorElement["color"];
@@ -87,6 +447,9 @@ function applyElementUpdates(
   if (updates.bbox !== undefined) {
     element.bbox = updates.bbox;
   }
+  if (updates.shape !== undefined) {
+    element.shape = updates.shape;
+  }
   if (updates.notes !== undefined) {
     element.notes = updates.notes || undefined;
   }
@@ -104,590 +467,1024 @@ function applyElementUpdates(
  * Annotation Store
  *
  * Unified store for annotation editing:
- * - Project metadata and persistence
+ * - Project metadata
  * - Elements (with undo/redo support)
  * - Selection, Drawing, Viewport, Tool state
  *
- * Uses persist + temporal + immer middlewares.
+ * Uses the immer middleware. Element changes are recorded as labelled
+ * undo steps in the project's history.
  */
 export const useAnnotationStore = create<AnnotationStore>()(
-  persist(
-    temporal(
-      immer((set, get) => ({
-        ...initialState,
-
-        // ============================================
-        // Project Actions
-        // ============================================
-
-        loadProject: (project, image) => {
-          set((state) => {
-            state.project = project;
-            // Cast needed: HTMLImageElement is immutable and not a draft target
-            state.image = image as unknown as typeof state.image;
-            state.elements = project.elements;
-            state.selection = initialSelectionState;
-            state.viewport = initialViewportState;
-            state.drawing = initialDrawingState;
-            state.clipboard = initialClipboardState;
-          });
-        },
-
-        clearProject: () => {
-          set((state) => {
-            state.project = null;
-            state.image = null;
-            state.elements = [];
-            state.selection = initialSelectionState;
-            state.viewport = initialViewportState;
-            state.drawing = initialDrawingState;
-          });
-        },
-
-        // ============================================
-        // Element Actions
-        // ============================================
+  immer((set, get) => ({
+    ...initialState,
+
+    // ============================================
+    // Project Actions
+    // ============================================
+
+    loadProject: (project, image) => {
+      set((state) => {
+        state.project = project;
+        // Cast needed: images are immutable and not draft targets
+        state.image = image as unknown as typeof state.image;
+        loadScreenAnnotations(state);
+        state.selection = initialSelectionState;
+        state.viewport = initialViewportState;
+        state.drawing = initialDrawingState;
+        state.clipboard = initialClipboardState;
+      });
+      resetHistoryTracking();
+    },
+
+    clearProject: () => {
+      set((state) => {
+        state.project = null;
+        state.image = null;
+        state.elements = [];
+        state.connectors = [];
+        state.spacings = [];
+        state.selection = initialSelectionState;
+        state.viewport = initialViewportState;
+        state.drawing = initialDrawingState;
+      });
+      resetHistoryTracking();
+    },
+
+    // ============================================
+    // Screen Actions
+    // ============================================
+
+    addScreen: (screen, image) => {
+      set((state) => {
+        if (!state.project) {
+          return;
+        }
+        state.project.screens.push(screen);
+        state.project.activeScreenId = screen.id;
+        state.project.updatedAt = new Date().toISOString();
+        // Cast needed: images are immutable and not draft targets
+        state.image = image as unknown as typeof state.image;
+        loadScreenAnnotations(state);
+        resetScreenState(state);
+      });
+    },
+
+    switchScreen: (id) => {
+      const { project } = get();
+      if (!project || project.activeScreenId === id) {
+        return;
+      }
+      if (!project.screens.some((s) => s.id === id)) {
+        return;
+      }
 
-        setElements: (elements) => {
-          set((state) => {
-            state.elements = elements;
-            syncElementsToProject(state);
-          });
-        },
+      set((state) => {
+        if (!state.project) {
+          return;
+        }
+        state.project.activeScreenId = id;
+        // Image is reloaded by the store subscription below
+        state.image = null;
+        loadScreenAnnotations(state);
+        resetScreenState(state);
+      });
+    },
+
+    removeScreen: (id) => {
+      const { project } = get();
+      if (!project || project.screens.length <= 1) {
+        return;
+      }
 
-        addElement: (element) => {
-          set((state) => {
-            state.elements.push(element);
-            syncElementsToProject(state);
-          });
-        },
+      const index = project.screens.findIndex((s) => s.id === id);
+      if (index === -1) {
+        return;
+      }
 
-        updateElement: (id, updates) => {
-          set((state) => {
-            const element = state.elements.find((e) => e.id === id);
-            if (!element) {
-              return;
-            }
+      if (project.activeScreenId === id) {
+        // Activate the neighbour before removing the current screen
+        const neighbour =
+          project.screens[index + 1] ?? project.screens[index - 1];
+        get().switchScreen(neighbour.id);
+      }
 
-            applyElementUpdates(element, updates);
-            syncElementsToProject(state);
-          });
-        },
+      set((state) => {
+        if (!state.project) {
+          return;
+        }
+        state.project.screens = state.project.screens.filter(
+          (s) => s.id !== id
+        );
+        delete state.project.histories?.[id];
+        state.project.updatedAt = new Date().toISOString();
+      });
+    },
+
+    renameScreen: (id, name) => {
+      set((state) => {
+        const screen = state.project?.screens.find((s) => s.id === id);
+        if (!(state.project && screen)) {
+          return;
+        }
+        screen.name = name;
+        state.project.updatedAt = new Date().toISOString();
+      });
+    },
+
+    reorderScreens: (oldIndex, newIndex) => {
+      set((state) => {
+        if (!state.project) {
+          return;
+        }
+        const [removed] = state.project.screens.splice(oldIndex, 1);
+        state.project.screens.splice(newIndex, 0, removed);
+        state.project.updatedAt = new Date().toISOString();
+      });
+    },
+
+    setScreenPixelRatio: (id, pixelRatio) => {
+      set((state) => {
+        const screen = state.project?.screens.find((s) => s.id === id);
+        if (!(state.project && screen)) {
+          return;
+        }
+        screen.pixelRatio = pixelRatio === 1 ? undefined : pixelRatio;
+        state.project.updatedAt = new Date().toISOString();
+      });
+    },
+
+    // ============================================
+    // Element Actions
+    // ============================================
+
+    setElements: (elements) => {
+      commitChange("Edited elements", (state) => {
+        state.elements = elements;
+        syncElementsToProject(state);
+      });
+    },
+
+    addElement: (element) => {
+      commitChange("Added element", (state) => {
+        state.elements.push(element);
+        normalizeHierarchy(state);
+        syncElementsToProject(state);
+      });
+    },
+
+    updateElement: (id, updates) => {
+      const element = get().elements.find((e) => e.id === id);
+      if (!element) {
+        return;
+      }
 
-        deleteElement: (id) => {
-          set((state) => {
-            state.elements = state.elements.filter((e) => e.id !== id);
-            state.selection.selectedIds = state.selection.selectedIds.filter(
-              (selectedId) => selectedId !== id
-            );
+      const label = getUpdateLabel(element, updates);
+      commitChange(
+        label,
+        (state) => {
+          const target = state.elements.find((e) => e.id === id);
+          if (target) {
+            applyElementUpdates(target, updates);
             syncElementsToProject(state);
-          });
+          }
         },
+        `${id}:${label}`
+      );
+    },
+
+    deleteElement: (id) => {
+      commitChange("Deleted element", (state) => {
+        removeElements(state, [id]);
+        state.selection.selectedIds = state.selection.selectedIds.filter(
+          (selectedId) => selectedId !== id
+        );
+        syncElementsToProject(state);
+      });
+    },
+
+    moveElement: (id, deltaX, deltaY) => {
+      commitChange(
+        "Moved element",
+        (state) => {
+          const element = state.elements.find((e) => e.id === id);
+          const imageSize = getImageSize(state.project);
+          if (!(element && imageSize)) {
+            return;
+          }
 
-        moveElement: (id, deltaX, deltaY) => {
-          set((state) => {
-            const element = state.elements.find((e) => e.id === id);
-            const imageSize = getImageSize(state.project);
-            if (!(element && imageSize)) {
-              return;
-            }
-
-            const newPixel = {
-              x: element.bbox.pixel.x + deltaX,
-              y: element.bbox.pixel.y + deltaY,
-            };
-
-            element.bbox = updateBBoxPixel(element.bbox, newPixel, {
-              w: imageSize.width,
-              h: imageSize.height,
-            });
-            element.updatedAt = new Date().toISOString();
+          const newPixel = {
+            x: element.bbox.pixel.x + deltaX,
+            y: element.bbox.pixel.y + deltaY,
+          };
 
-            syncElementsToProject(state);
+          element.bbox = updateBBoxPixel(element.bbox, newPixel, {
+            w: imageSize.width,
+            h: imageSize.height,
           });
-        },
-
-        deleteSelectedElements: () => {
-          set((state) => {
-            if (state.selection.selectedIds.length === 0) {
-              return;
-            }
-
-            const idsToDelete = state.selection.selectedIds;
-            state.elements = state.elements.filter(
-              (e) => !idsToDelete.includes(e.id)
-            );
-            state.selection.selectedIds = [];
+          element.updatedAt = new Date().toISOString();
 
-            syncElementsToProject(state);
-          });
+          syncElementsToProject(state);
         },
+        `${id}:move`
+      );
+    },
+
+    deleteSelectedElements: () => {
+      const count = get().selection.selectedIds.length;
+      if (count === 0) {
+        return;
+      }
 
-        reorderElements: (oldIndex, newIndex) => {
-          set((state) => {
-            const [removed] = state.elements.splice(oldIndex, 1);
-            state.elements.splice(newIndex, 0, removed);
-            state.elements.forEach((e, i) => {
-              e.displayOrder = i;
-            });
+      commitChange(`Deleted ${formatCount(count)}`, (state) => {
+        removeElements(state, state.selection.selectedIds);
+        state.selection.selectedIds = [];
 
-            syncElementsToProject(state);
-          });
-        },
+        syncElementsToProject(state);
+      });
+    },
 
-        // ============================================
-        // Selection Actions
-        // ============================================
-
-        selectElement: (id, addToSelection = false) => {
-          set((state) => {
-            if (addToSelection) {
-              if (!state.selection.selectedIds.includes(id)) {
-                state.selection.selectedIds.push(id);
-              }
-            } else {
-              state.selection.selectedIds = [id];
-            }
-          });
-        },
+    moveElementInTree: (id, parentId, index) => {
+      commitChange("Moved layer", (state) => {
+        const element = state.elements.find((e) => e.id === id);
+        if (!element) {
+          return;
+        }
+        // Prevent cycles: an element cannot be nested inside itself
+        if (
+          parentId &&
+          (parentId === id ||
+            getDescendantIds(state.elements, id).has(parentId))
+        ) {
+          return;
+        }
 
-        deselectAll: () => {
-          set((state) => {
-            state.selection.selectedIds = [];
-          });
-        },
+        // Siblings at the destination, front to back
+        const siblings = state.elements
+          .filter((e) => e.id !== id && (e.parentId ?? null) === parentId)
+          .sort((a, b) => b.displayOrder - a.displayOrder);
 
-        // ============================================
-        // Clipboard Actions
-        // ============================================
+        element.parentId = parentId ?? undefined;
 
-        copySelectedElements: () => {
-          const state = get();
-          const selectedElements = state.elements.filter((e) =>
-            state.selection.selectedIds.includes(e.id)
-          );
-          if (selectedElements.length === 0) {
+        // Place between neighbours; normalizeHierarchy renumbers
+        const behind = siblings[index];
+        const inFront = siblings[index - 1];
+        if (behind) {
+          element.displayOrder = behind.displayOrder + 0.5;
+        } else if (inFront) {
+          element.displayOrder = inFront.displayOrder - 0.5;
+        }
+        element.updatedAt = new Date().toISOString();
+
+        normalizeHierarchy(state);
+        syncElementsToProject(state);
+      });
+    },
+
+    // ============================================
+    // Arrange Actions
+    // ============================================
+
+    alignSelected: (mode) => {
+      arrangeSelected(ALIGN_LABELS[mode], 2, (boxes) =>
+        alignBoxes(boxes, mode)
+      );
+    },
+
+    distributeSelected: (axis) => {
+      arrangeSelected(
+        axis === "x" ? "Distributed horizontally" : "Distributed vertically",
+        3,
+        (boxes) => distributeBoxes(boxes, axis)
+      );
+    },
+
+    matchSelectedSize: (dimension) => {
+      arrangeSelected(`Matched ${dimension}`, 2, (boxes) =>
+        matchBoxSizes(boxes, dimension)
+      );
+    },
+
+    tidySelected: () => {
+      arrangeSelected("Tidied up", 2, tidyBoxes);
+    },
+
+    // ============================================
+    // Connector Actions
+    // ============================================
+
+    addConnector: ({ type, from, to, label }) => {
+      if (!get().project) {
+        return null;
+      }
+      const id = uuidv4();
+      commitChange("Added connector", (state) => {
+        state.connectors.push({
+          id,
+          type,
+          from,
+          to,
+          ...(label && { label }),
+        });
+        state.selection = { selectedIds: [], connectorId: id };
+        syncElementsToProject(state);
+      });
+      return id;
+    },
+
+    updateConnector: (id, updates) => {
+      commitChange(
+        "Edited connector",
+        (state) => {
+          const connector = state.connectors.find((c) => c.id === id);
+          if (!connector) {
             return;
           }
-
-          set((s) => {
-            // Deep copy elements for clipboard
-            s.clipboard.elements = structuredClone(selectedElements);
-          });
-        },
-
-        pasteElements: () => {
-          const state = get();
-          const { clipboard, elements, project } = state;
-          const imageSize = getImageSize(project);
-
-          if (clipboard.elements.length === 0 || !imageSize) {
-            return;
+          if (updates.type !== undefined) {
+            connector.type = updates.type;
           }
-
-          const pasteOffset = 20; // Offset in pixels for pasted elements
-          const newElements: EditorElement[] = [];
-          const newIds: EditorElement["id"][] = [];
-
-          for (const clipboardElement of clipboard.elements) {
-            const { pixel } = clipboardElement.bbox;
-            // Apply offset without boundary constraints (allow annotations outside image)
-            const newBbox = createBBox(
-              {
-                x: pixel.x + pasteOffset,
-                y: pixel.y + pasteOffset,
-                w: pixel.w,
-                h: pixel.h,
-              },
-              { w: imageSize.width, h: imageSize.height }
-            );
-
-            const newElement = createElement({
-              bbox: newBbox,
-              label: clipboardElement.label,
-              component: clipboardElement.component,
-              notes: clipboardElement.notes,
-              color: clipboardElement.color,
-              existingElements: [...elements, ...newElements],
-            });
-
-            newElements.push(newElement);
-            newIds.push(newElement.id);
+          if (updates.label !== undefined) {
+            connector.label = updates.label || undefined;
           }
-
-          set((s) => {
-            s.elements.push(...newElements);
-            s.selection.selectedIds = newIds;
-            // Update clipboard with new positions for subsequent paste
-            s.clipboard.elements = structuredClone(newElements);
-            syncElementsToProject(s);
-          });
+          syncElementsToProject(state);
         },
+        `${id}:connector`
+      );
+    },
+
+    deleteConnector: (id) => {
+      commitChange("Deleted connector", (state) => {
+        state.connectors = state.connectors.filter((c) => c.id !== id);
+        if (state.selection.connectorId === id) {
+          state.selection.connectorId = null;
+        }
+        syncElementsToProject(state);
+      });
+    },
 
-        // ============================================
-        // Drawing Actions
-        // ============================================
-
-        startDrawing: (point) => {
-          set((state) => {
-            state.drawing = {
-              isDrawing: true,
-              startPoint: point,
-              currentPoint: point,
-            };
-          });
-        },
+    // ============================================
+    // Spacing Actions
+    // ============================================
 
-        updateDrawing: (point) => {
-          set((state) => {
-            if (state.drawing.isDrawing) {
-              state.drawing.currentPoint = point;
-            }
+    addSpacing: ({ from, to }) => {
+      if (!get().project) {
+        return null;
+      }
+      const id = uuidv4();
+      commitChange("Added spacing", (state) => {
+        state.spacings.push({ id, from, to });
+        syncElementsToProject(state);
+      });
+      return id;
+    },
+
+    deleteSpacing: (id) => {
+      commitChange("Removed spacing", (state) => {
+        state.spacings = state.spacings.filter((s) => s.id !== id);
+        syncElementsToProject(state);
+      });
+    },
+
+    // ============================================
+    // Comment Actions
+    // ============================================
+
+    addComment: ({ author, text, point, elementId }) => {
+      if (!get().project) {
+        return null;
+      }
+      const id = uuidv4();
+      set((state) => {
+        if (!state.project) {
+          return;
+        }
+        const screen = getActiveScreen(state.project);
+        screen.comments ??= [];
+        screen.comments.push({
+          id,
+          author,
+          text,
+          createdAt: new Date().toISOString(),
+          elementId,
+          point,
+          resolved: false,
+          replies: [],
+        });
+        state.project.updatedAt = new Date().toISOString();
+      });
+      return id;
+    },
+
+    replyToComment: (id, author, text) => {
+      set((state) => {
+        updateComment(state, id, (comment) => {
+          comment.replies.push({
+            id: uuidv4(),
+            author,
+            text,
+            createdAt: new Date().toISOString(),
           });
-        },
-
-        finishDrawing: () => {
-          const state = get();
-          const { drawing, project, elements } = state;
-          const imageSize = getImageSize(project);
-
-          if (
-            !(
-              drawing.isDrawing &&
-              drawing.startPoint &&
-              drawing.currentPoint &&
-              imageSize
-            )
-          ) {
-            set((s) => {
-              s.drawing = initialDrawingState;
-            });
-            return null;
-          }
-
-          const { startPoint, currentPoint } = drawing;
-          const x = Math.min(startPoint.x, currentPoint.x);
-          const y = Math.min(startPoint.y, currentPoint.y);
-          const w = Math.abs(currentPoint.x - startPoint.x);
-          const h = Math.abs(currentPoint.y - startPoint.y);
-
-          if (
-            w < canvasConfig.minAnnotationSize ||
-            h < canvasConfig.minAnnotationSize
-          ) {
-            set((s) => {
-              s.drawing = initialDrawingState;
-            });
-            return null;
+        });
+      });
+    },
+
+    setCommentResolved: (id, resolved) => {
+      set((state) => {
+        updateComment(state, id, (comment) => {
+          comment.resolved = resolved;
+        });
+      });
+    },
+
+    deleteComment: (id) => {
+      set((state) => {
+        if (!state.project) {
+          return;
+        }
+        const screen = getActiveScreen(state.project);
+        screen.comments = screen.comments?.filter((c) => c.id !== id);
+        state.project.updatedAt = new Date().toISOString();
+      });
+    },
+
+    // ============================================
+    // Selection Actions
+    // ============================================
+
+    selectElement: (id, addToSelection = false) => {
+      set((state) => {
+        state.selection.connectorId = null;
+        if (addToSelection) {
+          if (!state.selection.selectedIds.includes(id)) {
+            state.selection.selectedIds.push(id);
           }
+        } else {
+          state.selection.selectedIds = [id];
+        }
+      });
+    },
+
+    selectConnector: (id) => {
+      set((state) => {
+        state.selection = { selectedIds: [], connectorId: id };
+      });
+    },
+
+    deselectAll: () => {
+      set((state) => {
+        state.selection.selectedIds = [];
+        state.selection.connectorId = null;
+      });
+    },
+
+    // ============================================
+    // Clipboard Actions
+    // ============================================
+
+    copySelectedElements: () => {
+      const state = get();
+      const selectedElements = state.elements.filter((e) =>
+        state.selection.selectedIds.includes(e.id)
+      );
+      if (selectedElements.length === 0) {
+        return;
+      }
 
-          const bbox = createBBox(
-            { x, y, w, h },
-            { w: imageSize.width, h: imageSize.height }
-          );
-
-          const element = createElement({
-            bbox,
-            existingElements: elements,
-          });
-
-          set((s) => {
-            s.elements.push(element);
-            s.drawing = initialDrawingState;
-            s.selection.selectedIds = [element.id];
-            syncElementsToProject(s);
-          });
-
-          return element;
-        },
+      set((s) => {
+        // Deep copy elements for clipboard
+        s.clipboard.elements = structuredClone(selectedElements);
+      });
+    },
 
-        cancelDrawing: () => {
-          set((state) => {
-            state.drawing = initialDrawingState;
-          });
-        },
+    pasteElements: () => {
+      const state = get();
+      const { clipboard, elements, project } = state;
+      const imageSize = getImageSize(project);
 
-        // ============================================
-        // Viewport Actions
-        // ============================================
-
-        setScale: (scale) => {
-          set((state) => {
-            const { minScale, maxScale } = state.viewport;
-            state.viewport.scale = Math.min(
-              Math.max(scale, minScale),
-              maxScale
-            );
-          });
-        },
+      if (clipboard.elements.length === 0 || !imageSize) {
+        return;
+      }
 
-        setOffset: (x, y) => {
-          set((state) => {
-            state.viewport.offsetX = x;
-            state.viewport.offsetY = y;
-          });
-        },
+      const pasteOffset = 20; // Offset in pixels for pasted elements
+      const newElements: EditorElement[] = [];
+      const newIds: EditorElement["id"][] = [];
+      // Maps copied IDs to pasted IDs (to keep copied subtrees intact)
+      const idMap = new Map<ElementId, ElementId>();
+
+      for (const clipboardElement of clipboard.elements) {
+        const { pixel } = clipboardElement.bbox;
+        // Apply offset without boundary constraints (allow annotations outside image)
+        const newBbox = createBBox(
+          {
+            x: pixel.x + pasteOffset,
+            y: pixel.y + pasteOffset,
+            w: pixel.w,
+            h: pixel.h,
+          },
+          { w: imageSize.width, h: imageSize.height }
+        );
+
+        const newElement = createElement({
+          bbox: newBbox,
+          // Polygon points are relative to the bbox, so they copy as-is
+          shape: clipboardElement.shape,
+          label: clipboardElement.label,
+          component: clipboardElement.component,
+          notes: clipboardElement.notes,
+          color: clipboardElement.color,
+          existingElements: [...elements, ...newElements],
+        });
+
+        newElements.push(newElement);
+        newIds.push(newElement.id);
+        idMap.set(clipboardElement.id, newElement.id);
+      }
 
-        setViewport: (scale, offsetX, offsetY) => {
-          set((state) => {
-            const { minScale, maxScale } = state.viewport;
-            state.viewport.scale = Math.min(
-              Math.max(scale, minScale),
-              maxScale
-            );
-            state.viewport.offsetX = offsetX;
-            state.viewport.offsetY = offsetY;
-          });
-        },
+      relinkPastedParents(clipboard.elements, newElements, idMap, elements);
+
+      commitChange(`Pasted ${formatCount(newElements.length)}`, (s) => {
+        s.elements.push(...newElements);
+        normalizeHierarchy(s);
+        s.selection.selectedIds = newIds;
+        // Update clipboard with new positions for subsequent paste
+        s.clipboard.elements = structuredClone(newElements);
+        syncElementsToProject(s);
+      });
+    },
+
+    addElements: (drafts) => {
+      const { elements, project } = get();
+      const imageSize = getImageSize(project);
+      if (drafts.length === 0 || !imageSize) {
+        return;
+      }
 
-        setContainerSize: (width, height) => {
-          set((state) => {
-            state.containerSize = { width, height };
-          });
-        },
+      // Larger boxes first so they become parents of boxes inside them
+      const sorted = [...drafts].sort(
+        (a, b) => b.pixel.w * b.pixel.h - a.pixel.w * a.pixel.h
+      );
+      const newElements: EditorElement[] = [];
+      for (const draft of sorted) {
+        const bbox = createBBox(draft.pixel, {
+          w: imageSize.width,
+          h: imageSize.height,
+        });
+        newElements.push(
+          createElement({
+            bbox,
+            label: draft.label,
+            component: draft.component,
+            existingElements: [...elements, ...newElements],
+            parentId: findContainingElement(bbox, [...elements, ...newElements])
+              ?.id,
+          })
+        );
+      }
 
-        zoomIn: () => {
-          set((state) => {
-            const { width, height } = state.containerSize;
-            if (width === 0 || height === 0) {
-              return;
-            }
-
-            const oldScale = state.viewport.scale;
-            const newScale = Math.min(
-              oldScale * canvasConfig.zoomFactor,
-              state.viewport.maxScale
-            );
-
-            // Zoom towards screen center
-            const centerX = width / 2;
-            const centerY = height / 2;
-            const worldX = (centerX - state.viewport.offsetX) / oldScale;
-            const worldY = (centerY - state.viewport.offsetY) / oldScale;
-
-            state.viewport.scale = newScale;
-            state.viewport.offsetX = centerX - worldX * newScale;
-            state.viewport.offsetY = centerY - worldY * newScale;
-          });
-        },
+      commitChange(`Added ${formatCount(newElements.length)}`, (s) => {
+        s.elements.push(...newElements);
+        normalizeHierarchy(s);
+        s.selection.selectedIds = newElements.map((e) => e.id);
+        syncElementsToProject(s);
+      });
+    },
+
+    // ============================================
+    // Drawing Actions
+    // ============================================
+
+    startDrawing: (point) => {
+      set((state) => {
+        state.drawing = {
+          isDrawing: true,
+          startPoint: point,
+          currentPoint: point,
+        };
+      });
+    },
+
+    updateDrawing: (point) => {
+      set((state) => {
+        if (state.drawing.isDrawing) {
+          state.drawing.currentPoint = point;
+        }
+      });
+    },
+
+    finishDrawing: () => {
+      const state = get();
+      const { drawing, project, elements } = state;
+      const imageSize = getImageSize(project);
+
+      if (
+        !(
+          drawing.isDrawing &&
+          drawing.startPoint &&
+          drawing.currentPoint &&
+          imageSize
+        )
+      ) {
+        set((s) => {
+          s.drawing = initialDrawingState;
+        });
+        return null;
+      }
 
-        zoomOut: () => {
-          set((state) => {
-            const { width, height } = state.containerSize;
-            if (width === 0 || height === 0) {
-              return;
-            }
-
-            const oldScale = state.viewport.scale;
-            const newScale = Math.max(
-              oldScale / canvasConfig.zoomFactor,
-              state.viewport.minScale
-            );
-
-            // Zoom towards screen center
-            const centerX = width / 2;
-            const centerY = height / 2;
-            const worldX = (centerX - state.viewport.offsetX) / oldScale;
-            const worldY = (centerY - state.viewport.offsetY) / oldScale;
-
-            state.viewport.scale = newScale;
-            state.viewport.offsetX = centerX - worldX * newScale;
-            state.viewport.offsetY = centerY - worldY * newScale;
-          });
-        },
+      const { startPoint, currentPoint } = drawing;
+      const x = Math.min(startPoint.x, currentPoint.x);
+      const y = Math.min(startPoint.y, currentPoint.y);
+      const w = Math.abs(currentPoint.x - startPoint.x);
+      const h = Math.abs(currentPoint.y - startPoint.y);
+
+      if (
+        w < canvasConfig.minAnnotationSize ||
+        h < canvasConfig.minAnnotationSize
+      ) {
+        set((s) => {
+          s.drawing = initialDrawingState;
+        });
+        return null;
+      }
 
-        zoomToFit: () => {
-          set((state) => {
-            const imageSize = getImageSize(state.project);
-            if (!imageSize) {
-              return;
-            }
-            const { width: containerWidth, height: containerHeight } =
-              state.containerSize;
-            if (containerWidth === 0 || containerHeight === 0) {
-              return;
-            }
-
-            const { width: imageWidth, height: imageHeight } = imageSize;
-            const scaleX = containerWidth / imageWidth;
-            const scaleY = containerHeight / imageHeight;
-            const scale = Math.min(scaleX, scaleY) * canvasConfig.fitPadding;
-
-            state.viewport.scale = Math.min(
-              Math.max(scale, state.viewport.minScale),
-              state.viewport.maxScale
-            );
-            state.viewport.offsetX =
-              (containerWidth - imageWidth * state.viewport.scale) / 2;
-            state.viewport.offsetY =
-              (containerHeight - imageHeight * state.viewport.scale) / 2;
-          });
-        },
+      const bbox = createBBox(
+        { x, y, w, h },
+        { w: imageSize.width, h: imageSize.height }
+      );
+
+      const element = createElement({
+        bbox,
+        existingElements: elements,
+        parentId: findContainingElement(bbox, elements)?.id,
+      });
+
+      commitChange("Added element", (s) => {
+        s.elements.push(element);
+        normalizeHierarchy(s);
+        s.drawing = initialDrawingState;
+        s.selection.selectedIds = [element.id];
+        syncElementsToProject(s);
+      });
+
+      return element;
+    },
+
+    cancelDrawing: () => {
+      set((state) => {
+        state.drawing = initialDrawingState;
+      });
+    },
+
+    // ============================================
+    // Viewport Actions
+    // ============================================
+
+    setScale: (scale) => {
+      set((state) => {
+        const { minScale, maxScale } = state.viewport;
+        state.viewport.scale = Math.min(Math.max(scale, minScale), maxScale);
+      });
+    },
+
+    setOffset: (x, y) => {
+      set((state) => {
+        state.viewport.offsetX = x;
+        state.viewport.offsetY = y;
+      });
+    },
+
+    setViewport: (scale, offsetX, offsetY) => {
+      set((state) => {
+        const { minScale, maxScale } = state.viewport;
+        state.viewport.scale = Math.min(Math.max(scale, minScale), maxScale);
+        state.viewport.offsetX = offsetX;
+        state.viewport.offsetY = offsetY;
+      });
+    },
+
+    setContainerSize: (width, height) => {
+      set((state) => {
+        state.containerSize = { width, height };
+      });
+    },
+
+    zoomIn: () => {
+      set((state) => {
+        const { width, height } = state.containerSize;
+        if (width === 0 || height === 0) {
+          return;
+        }
 
-        centerAt100: () => {
-          set((state) => {
-            const imageSize = getImageSize(state.project);
-            if (!imageSize) {
-              return;
-            }
-            const { width: containerWidth, height: containerHeight } =
-              state.containerSize;
-            if (containerWidth === 0 || containerHeight === 0) {
-              return;
-            }
-
-            const { width: imageWidth, height: imageHeight } = imageSize;
-            state.viewport.scale = 1;
-            state.viewport.offsetX = (containerWidth - imageWidth) / 2;
-            state.viewport.offsetY = (containerHeight - imageHeight) / 2;
-          });
-        },
+        const oldScale = state.viewport.scale;
+        const newScale = Math.min(
+          oldScale * canvasConfig.zoomFactor,
+          state.viewport.maxScale
+        );
+
+        // Zoom towards screen center
+        const centerX = width / 2;
+        const centerY = height / 2;
+        const worldX = (centerX - state.viewport.offsetX) / oldScale;
+        const worldY = (centerY - state.viewport.offsetY) / oldScale;
+
+        state.viewport.scale = newScale;
+        state.viewport.offsetX = centerX - worldX * newScale;
+        state.viewport.offsetY = centerY - worldY * newScale;
+      });
+    },
+
+    zoomOut: () => {
+      set((state) => {
+        const { width, height } = state.containerSize;
+        if (width === 0 || height === 0) {
+          return;
+        }
 
-        resetViewport: () => {
-          set((state) => {
-            state.viewport = initialViewportState;
-          });
-        },
+        const oldScale = state.viewport.scale;
+        const newScale = Math.max(
+          oldScale / canvasConfig.zoomFactor,
+          state.viewport.minScale
+        );
+
+        // Zoom towards screen center
+        const centerX = width / 2;
+        const centerY = height / 2;
+        const worldX = (centerX - state.viewport.offsetX) / oldScale;
+        const worldY = (centerY - state.viewport.offsetY) / oldScale;
+
+        state.viewport.scale = newScale;
+        state.viewport.offsetX = centerX - worldX * newScale;
+        state.viewport.offsetY = centerY - worldY * newScale;
+      });
+    },
+
+    zoomToFit: () => {
+      set((state) => {
+        const imageSize = getImageSize(state.project);
+        if (!imageSize) {
+          return;
+        }
+        const { width: containerWidth, height: containerHeight } =
+          state.containerSize;
+        if (containerWidth === 0 || containerHeight === 0) {
+          return;
+        }
 
-        // ============================================
-        // Tool Actions
-        // ============================================
+        const { width: imageWidth, height: imageHeight } = imageSize;
+        const scaleX = containerWidth / imageWidth;
+        const scaleY = containerHeight / imageHeight;
+        const scale = Math.min(scaleX, scaleY) * canvasConfig.fitPadding;
+
+        state.viewport.scale = Math.min(
+          Math.max(scale, state.viewport.minScale),
+          state.viewport.maxScale
+        );
+        state.viewport.offsetX =
+          (containerWidth - imageWidth * state.viewport.scale) / 2;
+        state.viewport.offsetY =
+          (containerHeight - imageHeight * state.viewport.scale) / 2;
+      });
+    },
+
+    centerAt100: () => {
+      set((state) => {
+        const imageSize = getImageSize(state.project);
+        if (!imageSize) {
+          return;
+        }
+        const { width: containerWidth, height: containerHeight } =
+          state.containerSize;
+        if (containerWidth === 0 || containerHeight === 0) {
+          return;
+        }
 
-        setActiveTool: (tool) => {
-          set((state) => {
-            state.activeTool = tool;
-            if (tool !== "edit") {
-              state.drawing = initialDrawingState;
-            }
-          });
-        },
+        const { width: imageWidth, height: imageHeight } = imageSize;
+        state.viewport.scale = 1;
+        state.viewport.offsetX = (containerWidth - imageWidth) / 2;
+        state.viewport.offsetY = (containerHeight - imageHeight) / 2;
+      });
+    },
+
+    resetViewport: () => {
+      set((state) => {
+        state.viewport = initialViewportState;
+      });
+    },
+
+    // ============================================
+    // Tool Actions
+    // ============================================
+
+    setActiveTool: (tool) => {
+      set((state) => {
+        state.activeTool = tool;
+        if (tool !== "edit") {
+          state.drawing = initialDrawingState;
+        }
+      });
+    },
 
-        // ============================================
-        // Reset
-        // ============================================
+    // ============================================
+    // Reset
+    // ============================================
 
-        reset: () => {
-          set(() => ({ ...initialState }));
-        },
-      })),
-      {
-        // Temporal config for undo/redo
-        partialize: (state) => ({
-          elements: state.elements,
-        }),
-        limit: 50,
-        equality: (pastState, currentState) =>
-          JSON.stringify(pastState.elements) ===
-          JSON.stringify(currentState.elements),
-        handleSet: (handleSet) =>
-          throttle(handleSet, 500, { leading: true, trailing: true }),
-      }
-    ),
-    {
-      name: STORAGE_KEY,
-      partialize: (state) => ({
-        project: state.project,
-        elements: state.elements,
-      }),
-      onRehydrateStorage: () => (state) => {
-        // Sync elements from persisted project on hydration
-        if (state?.project?.elements) {
-          state.elements = state.project.elements;
-        }
-      },
-    }
-  )
+    reset: () => {
+      set(() => ({ ...initialState }));
+    },
+  }))
 );
 
+/**
+ * Get the image URL of the active screen
+ */
+const getActiveImageUrl = (state: AnnotationState) =>
+  state.project ? getActiveScreen(state.project).imageUrl : null;
+
 /**
  * Auto-load image when project exists but image is null.
  *
- * This handles the page reload scenario where the project is restored
- * from localStorage but the image (HTMLImageElement) cannot be serialized.
- * The store self-heals by loading the image from the project's imageUrl.
+ * This handles screen switches, which clear the image of the previous
+ * screen, and projects loaded without an image.
+ * The store self-heals by loading the image from the active screen's imageUrl.
  *
  * Tracks previous imageUrl to only trigger on actual changes (performance optimization).
  */
 let prevImageUrl: string | null = null;
-let isLoadingImage = false;
+let loadingImageUrl: string | null = null;
 useAnnotationStore.subscribe((state) => {
-  const currentImageUrl = state.project?.imageUrl ?? null;
+  const currentImageUrl = getActiveImageUrl(state);
 
   // Skip if imageUrl hasn't changed (performance: avoid running on every state update)
   if (currentImageUrl === prevImageUrl) {
     return;
   }
+  prevImageUrl = currentImageUrl;
 
   // Skip if no imageUrl, image already exists, or already loading
-  if (!currentImageUrl || state.image || isLoadingImage) {
-    prevImageUrl = currentImageUrl;
+  if (!currentImageUrl || state.image || loadingImageUrl === currentImageUrl) {
     return;
   }
 
-  prevImageUrl = currentImageUrl;
-  isLoadingImage = true;
-  loadImageFromUrl(currentImageUrl)
-    .then((loadedImage) => {
-      useAnnotationStore.setState({ image: loadedImage });
+  loadingImageUrl = currentImageUrl;
+  loadWorkingImage(currentImageUrl)
+    .then(({ image: loadedImage }) => {
+      // Ignore stale loads (screen switched while loading)
+      if (
+        getActiveImageUrl(useAnnotationStore.getState()) === currentImageUrl
+      ) {
+        useAnnotationStore.setState({ image: loadedImage });
+      }
     })
     .catch((error) => {
-      console.error("Failed to load project image:", error);
+      console.error("Failed to load screen image:", error);
     })
     .finally(() => {
-      isLoadingImage = false;
+      if (loadingImageUrl === currentImageUrl) {
+        loadingImageUrl = null;
+      }
     });
 });
 
+// ============================================
+// Undo/Redo
+// ============================================
+
 /**
- * Temporal store for undo/redo operations
+ * Restore a history entry, returning the current state as the entry
+ * to move to the opposite stack.
+ * Entries saved before connectors or spacings existed leave them unchanged.
  */
-export const annotationTemporalStore = useAnnotationStore.temporal;
+function swapHistoryEntry(
+  state: WritableDraft<AnnotationState>,
+  entry: HistoryEntry
+): HistoryEntry {
+  const current = {
+    label: entry.label,
+    elements: state.elements,
+    connectors: state.connectors,
+    spacings: state.spacings,
+  };
+  state.elements = entry.elements;
+  state.connectors = entry.connectors ?? state.connectors;
+  state.spacings = entry.spacings ?? state.spacings;
+  return current;
+}
 
 /**
- * Sync state after undo/redo operation.
- * - Filters out invalid selections (deleted elements)
- * - Syncs elements back to project
+ * Move through the history of the active screen.
+ * Negative steps undo, positive steps redo.
  */
-function syncAfterTemporalChange(): void {
-  const state = useAnnotationStore.getState();
-  const elementIds = new Set(state.elements.map((e) => e.id));
-  const validSelection = state.selection.selectedIds.filter((id) =>
-    elementIds.has(id)
-  );
+function stepHistory(steps: number): void {
+  const history = getScreenHistory(useAnnotationStore.getState().project);
+  if (
+    transaction ||
+    !history ||
+    (steps < 0 && history.past.length === 0) ||
+    (steps > 0 && history.future.length === 0)
+  ) {
+    return;
+  }
 
-  useAnnotationStore.setState((s) => {
-    if (validSelection.length !== s.selection.selectedIds.length) {
-      s.selection.selectedIds = validSelection;
+  useAnnotationStore.setState((state) => {
+    const draftHistory = getScreenHistory(state.project);
+    if (!draftHistory) {
+      return;
+    }
+    for (let i = 0; i < -steps && draftHistory.past.length > 0; i++) {
+      const entry = draftHistory.past.pop() as HistoryEntry;
+      draftHistory.future.push(swapHistoryEntry(state, entry));
     }
-    if (s.project) {
-      s.project.elements = s.elements;
-      s.project.updatedAt = new Date().toISOString();
+    for (let i = 0; i < steps && draftHistory.future.length > 0; i++) {
+      const entry = draftHistory.future.pop() as HistoryEntry;
+      draftHistory.past.push(swapHistoryEntry(state, entry));
+    }
+
+    // Drop selected elements and connectors that no longer exist
+    const elementIds = new Set(state.elements.map((e) => e.id));
+    state.selection.selectedIds = state.selection.selectedIds.filter((id) =>
+      elementIds.has(id)
+    );
+    if (!state.connectors.some((c) => c.id === state.selection.connectorId)) {
+      state.selection.connectorId = null;
     }
+    syncElementsToProject(state);
   });
+  lastRecord = null;
 }
 
 /**
  * Undo the last action
  */
-export const undoAnnotation = () => {
-  const temporal = annotationTemporalStore.getState();
-  if (temporal.pastStates.length === 0) {
-    return;
-  }
+export const undoAnnotation = () => stepHistory(-1);
+
+/**
+ * Redo the last undone action
+ */
+export const redoAnnotation = () => stepHistory(1);
 
-  temporal.undo();
-  syncAfterTemporalChange();
+/**
+ * Undo or redo up to a point in history.
+ *
+ * @param position - Number of steps before that point
+ *   (0 = oldest state, past.length = current state)
+ */
+export const jumpToAnnotationHistory = (position: number) => {
+  const history = getScreenHistory(useAnnotationStore.getState().project);
+  if (history) {
+    stepHistory(position - history.past.length);
+  }
 };
 
 /**
- * Redo the last undone action
+ * Start grouping element changes into one undo step
+ * (e.g. while dragging). Ignored while another transaction is open.
  */
-export const redoAnnotation = () => {
-  const temporal = annotationTemporalStore.getState();
-  if (temporal.futureStates.length === 0) {
+export const beginAnnotationTransaction = (label: string) => {
+  const { project, elements, connectors, spacings } =
+    useAnnotationStore.getState();
+  if (transaction || !project) {
     return;
   }
+  transaction = {
+    label,
+    screenId: getActiveScreen(project).id,
+    elements,
+    connectors,
+    spacings,
+  };
+};
 
-  temporal.redo();
-  syncAfterTemporalChange();
+/**
+ * Finish the open transaction, recording one undo step if anything changed.
+ *
+ * @param mergeKey - Merges the step with a previous one of the same key
+ *   (e.g. repeated arrow key nudges)
+ */
+export const endAnnotationTransaction = (mergeKey?: string) => {
+  const open = transaction;
+  transaction = null;
+  const { project, elements, connectors, spacings } =
+    useAnnotationStore.getState();
+  const unchanged =
+    elements === open?.elements &&
+    connectors === open.connectors &&
+    spacings === open.spacings;
+  if (
+    !(open && project) ||
+    unchanged ||
+    getActiveScreen(project).id !== open.screenId
+  ) {
+    return;
+  }
+  const { label } = open;
+  useAnnotationStore.setState((state) =>
+    pushHistory(
+      state,
+      {
+        label,
+        elements: open.elements,
+        connectors: open.connectors,
+        spacings: open.spacings,
+      },
+      mergeKey
+    )
+  );
 };
@@ -6,7 +6,9 @@
 
 // Store
 export {
-  annotationTemporalStore,
+  beginAnnotationTransaction,
+  endAnnotationTransaction,
+  jumpToAnnotationHistory,
   redoAnnotation,
   undoAnnotation,
   useAnnotationStore,
@@ -14,21 +16,32 @@ export {
 
 // Selectors
 export {
+  selectActiveScreen,
+  selectComments,
+  selectConnectors,
   selectContainerSize,
   selectElements,
   selectFirstSelectedElement,
+  selectHistory,
   selectImage,
   selectProject,
+  selectScreens,
+  selectSelectedConnectorId,
   selectSelectedIds,
+  selectSpacings,
 } from "./selectors";
-
+// Snap Settings Store
+export { useSnapSettingsStore } from "./snap-settings-store";
 // Types
 export type {
   AnnotationActions,
   AnnotationState,
   AnnotationStore,
+  CommentDraft,
+  ConnectorDraft,
   ContainerSize,
   DrawingState,
+  ElementDraft,
   SelectionState,
   ToolMode,
   ViewportState,
@@ -39,9 +52,9 @@ export {
   initialSelectionState,
   initialViewportState,
 } from "./types";
-
 // UI Store
 export {
+  type PendingComment,
   type SnapGuideline,
   selectActiveGuidelines,
   useUIStore,
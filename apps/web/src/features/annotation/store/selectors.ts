@@ -1,9 +1,21 @@
-import type { EditorElement } from "@/types";
+import {
+  type EditorElement,
+  getActiveScreen,
+  getScreenHistory,
+  type ReviewComment,
+  type Screen,
+} from "@/types";
 import type { AnnotationState } from "./types";
 
 /** Stable empty array for when elements is empty */
 const EMPTY_ELEMENTS: EditorElement[] = [];
 
+/** Stable empty array for when there is no project */
+const EMPTY_SCREENS: Screen[] = [];
+
+/** Stable empty array for screens without comments */
+const EMPTY_COMMENTS: ReviewComment[] = [];
+
 // ============================================
 // Project Selectors
 // ============================================
@@ -11,6 +23,22 @@ const EMPTY_ELEMENTS: EditorElement[] = [];
 /** Select project */
 export const selectProject = (state: AnnotationState) => state.project;
 
+/** Select the active screen */
+export const selectActiveScreen = (state: AnnotationState) =>
+  state.project ? getActiveScreen(state.project) : null;
+
+/** Select all screens in order */
+export const selectScreens = (state: AnnotationState) =>
+  state.project?.screens ?? EMPTY_SCREENS;
+
+/** Select the undo history of the active screen */
+export const selectHistory = (state: AnnotationState) =>
+  getScreenHistory(state.project);
+
+/** Select review comments of the active screen */
+export const selectComments = (state: AnnotationState) =>
+  (state.project && getActiveScreen(state.project).comments) ?? EMPTY_COMMENTS;
+
 /** Select loaded image element */
 export const selectImage = (state: AnnotationState) => state.image;
 
@@ -22,6 +50,12 @@ export const selectImage = (state: AnnotationState) => state.image;
 export const selectElements = (state: AnnotationState) =>
   state.elements.length > 0 ? state.elements : EMPTY_ELEMENTS;
 
+/** Select connectors of the active screen */
+export const selectConnectors = (state: AnnotationState) => state.connectors;
+
+/** Select saved spacings of the active screen */
+export const selectSpacings = (state: AnnotationState) => state.spacings;
+
 /** Select first selected element */
 export const selectFirstSelectedElement = (state: AnnotationState) => {
   const { elements, selection } = state;
@@ -40,6 +74,10 @@ export const selectFirstSelectedElement = (state: AnnotationState) => {
 export const selectSelectedIds = (state: AnnotationState) =>
   state.selection.selectedIds;
 
+/** Select the selected connector ID */
+export const selectSelectedConnectorId = (state: AnnotationState) =>
+  state.selection.connectorId;
+
 // ============================================
 // Viewport Selectors
 // ============================================
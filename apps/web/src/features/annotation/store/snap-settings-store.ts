@@ -0,0 +1,58 @@
+/**
+ * Snap Settings Store
+ *
+ * Persists snapping preferences across projects and sessions.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { snapConfig } from "../constants/canvas";
+
+const STORAGE_KEY = "ui-annotator-snap-settings";
+
+/**
+ * Store state
+ */
+interface SnapSettingsState {
+  /** Snap to equal spacing and matching sizes of sibling elements */
+  smartGuides: boolean;
+  /** Snap distance in image pixels */
+  threshold: number;
+}
+
+/**
+ * Store actions
+ */
+interface SnapSettingsActions {
+  setSmartGuides: (enabled: boolean) => void;
+  /** Set the snap distance (clamped to the allowed range) */
+  setThreshold: (threshold: number) => void;
+}
+
+type SnapSettingsStore = SnapSettingsState & SnapSettingsActions;
+
+export const useSnapSettingsStore = create<SnapSettingsStore>()(
+  persist(
+    (set) => ({
+      smartGuides: true,
+      threshold: snapConfig.threshold,
+
+      setSmartGuides: (enabled) => set({ smartGuides: enabled }),
+
+      setThreshold: (threshold) =>
+        set({
+          threshold: Math.min(
+            snapConfig.maxThreshold,
+            Math.max(snapConfig.minThreshold, Math.round(threshold))
+          ),
+        }),
+    }),
+    {
+      name: STORAGE_KEY,
+      partialize: (state) => ({
+        smartGuides: state.smartGuides,
+        threshold: state.threshold,
+      }),
+    }
+  )
+);
@@ -1,4 +1,23 @@
-import type { EditorElement, ElementId, ElementUpdate, Project } from "@/types";
+import type { WorkingImage } from "@/lib/image";
+import type {
+  CommentId,
+  ComponentSpec,
+  Connector,
+  ConnectorEndpoint,
+  ConnectorId,
+  ConnectorType,
+  EditorElement,
+  ElementId,
+  ElementUpdate,
+  PixelCoord,
+  Point,
+  Project,
+  Screen,
+  ScreenId,
+  Spacing,
+  SpacingId,
+} from "@/types";
+import type { AlignMode } from "../lib/arrange";
 
 // ============================================
 // State Types
@@ -22,6 +41,8 @@ export interface ContainerSize {
 /** Selection state */
 export interface SelectionState {
   selectedIds: ElementId[];
+  /** Selected connector (connectors are selected on their own) */
+  connectorId: ConnectorId | null;
 }
 
 /** Drawing state */
@@ -36,8 +57,46 @@ export interface ClipboardState {
   elements: EditorElement[];
 }
 
-/** Tool mode type */
-export type ToolMode = "edit" | "pan";
+/** Element to create from external data (e.g. imported datasets) */
+export interface ElementDraft {
+  /** Bounding box in image pixels */
+  pixel: PixelCoord;
+  label?: string;
+  component?: ComponentSpec;
+}
+
+/** Review comment to create on the active screen */
+export interface CommentDraft {
+  author: string;
+  text: string;
+  /** Pin position in image pixels */
+  point: Point;
+  /** Element to attach the comment to */
+  elementId?: ElementId;
+}
+
+/** Connector to create on the active screen */
+export interface ConnectorDraft {
+  type: ConnectorType;
+  from: ConnectorEndpoint;
+  to: ConnectorEndpoint;
+  label?: string;
+}
+
+/** Editable fields of a connector */
+export type ConnectorUpdate = Partial<Pick<Connector, "type" | "label">>;
+
+/**
+ * Tool mode type.
+ * "edit" draws rectangles; "ellipse" and "polygon" draw those shapes.
+ */
+export type ToolMode =
+  | "edit"
+  | "ellipse"
+  | "polygon"
+  | "connector"
+  | "pan"
+  | "comment";
 
 // ============================================
 // Initial States
@@ -58,6 +117,7 @@ export const initialContainerSize: ContainerSize = {
 
 export const initialSelectionState: SelectionState = {
   selectedIds: [],
+  connectorId: null,
 };
 
 export const initialDrawingState: DrawingState = {
@@ -79,12 +139,17 @@ export const initialClipboardState: ClipboardState = {
  * Contains project, elements, selection, drawing, viewport, and tool state
  */
 export interface AnnotationState {
-  // Project (persisted)
+  // Project (saved to the project library by the app layer)
   project: Project | null;
-  // Loaded image (1:1 with project, not persisted)
-  image: HTMLImageElement | null;
-  // Elements (synced with project, for undo/redo)
+  // Loaded image (1:1 with active screen, not persisted)
+  // Large images are a downscaled working copy drawn at original size
+  image: WorkingImage | null;
+  // Elements of the active screen (synced with project, for undo/redo)
   elements: EditorElement[];
+  // Connectors of the active screen (synced with project, for undo/redo)
+  connectors: Connector[];
+  // Saved spacings of the active screen (synced with project, for undo/redo)
+  spacings: Spacing[];
   // Ephemeral state
   selection: SelectionState;
   drawing: DrawingState;
@@ -100,21 +165,75 @@ export interface AnnotationState {
  */
 export interface AnnotationActions {
   // Project actions
-  /** Load project with its image (both must be ready) */
-  loadProject: (project: Project, image: HTMLImageElement) => void;
+  /**
+   * Load project with its image (both must be ready) and the undo history
+   * it carries. Opening from the library or a file keeps the saved history;
+   * restored snapshots and new projects come without one.
+   */
+  loadProject: (project: Project, image: WorkingImage) => void;
   clearProject: () => void;
 
+  // Screen actions
+  /** Append a screen with its image and make it active */
+  addScreen: (screen: Screen, image: WorkingImage) => void;
+  /** Make a screen active (image is loaded by the store) */
+  switchScreen: (id: ScreenId) => void;
+  removeScreen: (id: ScreenId) => void;
+  renameScreen: (id: ScreenId, name: string) => void;
+  reorderScreens: (oldIndex: number, newIndex: number) => void;
+  /** Set the device pixel ratio of a screenshot (used for measurements) */
+  setScreenPixelRatio: (id: ScreenId, pixelRatio: number) => void;
+
   // Element actions
   setElements: (elements: EditorElement[]) => void;
   addElement: (element: EditorElement) => void;
+  /** Create elements on the active screen (parents assigned by containment) */
+  addElements: (drafts: ElementDraft[]) => void;
   updateElement: (id: ElementId, updates: ElementUpdate) => void;
   deleteElement: (id: ElementId) => void;
   moveElement: (id: ElementId, deltaX: number, deltaY: number) => void;
   deleteSelectedElements: () => void;
-  reorderElements: (oldIndex: number, newIndex: number) => void;
+  /**
+   * Move an element under a new parent (null = top level).
+   * `index` is the position among the new siblings, front to back.
+   */
+  moveElementInTree: (
+    id: ElementId,
+    parentId: ElementId | null,
+    index: number
+  ) => void;
+
+  // Arrange actions (selected elements, one undo step each)
+  /** Align the selected elements to an edge or center of their bounds */
+  alignSelected: (mode: AlignMode) => void;
+  /** Space the selected elements evenly (needs three) */
+  distributeSelected: (axis: "x" | "y") => void;
+  /** Give the selected elements the width or height of the first one */
+  matchSelectedSize: (dimension: "width" | "height") => void;
+  /** Snap nearly aligned selected elements into an evenly spaced grid */
+  tidySelected: () => void;
+
+  // Connector actions
+  /** Create a connector and select it */
+  addConnector: (draft: ConnectorDraft) => ConnectorId | null;
+  updateConnector: (id: ConnectorId, updates: ConnectorUpdate) => void;
+  deleteConnector: (id: ConnectorId) => void;
+
+  // Spacing actions
+  /** Save a measured gap as a spacing annotation */
+  addSpacing: (draft: Omit<Spacing, "id">) => SpacingId | null;
+  deleteSpacing: (id: SpacingId) => void;
+
+  // Comment actions (not part of the undo history)
+  addComment: (draft: CommentDraft) => CommentId | null;
+  replyToComment: (id: CommentId, author: string, text: string) => void;
+  setCommentResolved: (id: CommentId, resolved: boolean) => void;
+  deleteComment: (id: CommentId) => void;
 
   // Selection actions
   selectElement: (id: ElementId, addToSelection?: boolean) => void;
+  /** Select a connector (clears the element selection) */
+  selectConnector: (id: ConnectorId | null) => void;
   deselectAll: () => void;
 
   // Clipboard actions
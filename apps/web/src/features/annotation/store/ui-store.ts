@@ -1,10 +1,11 @@
 import { create } from "zustand";
-import type { ElementId } from "@/types";
+import type { CommentId, ElementId, Point } from "@/types";
+import type { DistanceMarker } from "../lib/smart-guides";
 
 /**
- * Snap guideline for visual feedback
+ * Alignment line shown while snapping to an edge or center
  */
-export interface SnapGuideline {
+interface SnapLine {
   type: "vertical" | "horizontal";
   /** Position (x for vertical, y for horizontal) */
   position: number;
@@ -14,6 +15,28 @@ export interface SnapGuideline {
   end: number;
 }
 
+/**
+ * Distance marker shown while snapping to equal spacing or a matching size
+ */
+interface SnapDistance extends DistanceMarker {
+  type: "distance";
+}
+
+/**
+ * Snap guideline for visual feedback
+ */
+export type SnapGuideline = SnapLine | SnapDistance;
+
+/**
+ * Position of a comment being written (not yet saved)
+ */
+export interface PendingComment {
+  /** Pin position in image pixels */
+  point: Point;
+  /** Element under the pin, if any */
+  elementId?: ElementId;
+}
+
 /**
  * UI state
  */
@@ -28,6 +51,10 @@ interface UIState {
   canvasFocusTrigger: number;
   /** Active snap guidelines for visual feedback */
   activeGuidelines: SnapGuideline[];
+  /** Comment whose thread is open */
+  openCommentId: CommentId | null;
+  /** Comment being written in comment mode */
+  pendingComment: PendingComment | null;
 }
 
 /**
@@ -48,6 +75,10 @@ interface UIActions {
   setActiveGuidelines: (guidelines: SnapGuideline[]) => void;
   /** Clear all snap guidelines */
   clearActiveGuidelines: () => void;
+  /** Open a comment thread (null to close) */
+  openComment: (id: CommentId | null) => void;
+  /** Start writing a comment at a position (null to cancel) */
+  setPendingComment: (pending: PendingComment | null) => void;
   /** Reset all UI state */
   resetUIState: () => void;
 }
@@ -61,6 +92,8 @@ const initialUIState: UIState = {
   labelFocusTrigger: 0,
   canvasFocusTrigger: 0,
   activeGuidelines: [],
+  openCommentId: null,
+  pendingComment: null,
 };
 
 /**
@@ -85,6 +118,10 @@ export const useUIStore = create<UIState & UIActions>()((set) => ({
   setActiveGuidelines: (guidelines) => set({ activeGuidelines: guidelines }),
   clearActiveGuidelines: () => set({ activeGuidelines: [] }),
 
+  openComment: (id) => set({ openCommentId: id, pendingComment: null }),
+  setPendingComment: (pending) =>
+    set({ pendingComment: pending, openCommentId: null }),
+
   resetUIState: () => set(initialUIState),
 }));
 
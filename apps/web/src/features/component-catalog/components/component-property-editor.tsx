@@ -1,6 +1,9 @@
 import { Label } from "@/components/ui/label";
 import type { ComponentSpec } from "@/types/component";
+import { useComponentSuggestion } from "../store";
 import { ComponentCombobox } from "./component-combobox";
+import { ComponentPropsEditor } from "./component-props-editor";
+import { ComponentPropsForm } from "./component-props-form";
 
 export interface ComponentPropertyEditorProps {
   value: ComponentSpec | undefined;
@@ -10,12 +13,15 @@ export interface ComponentPropertyEditorProps {
 /**
  * Integrated component property editor
  *
- * Provides a unified interface for selecting component name.
+ * Provides a unified interface for selecting component name and editing props.
+ * Components with a prop schema get a typed form instead of free key/value rows.
  */
 export function ComponentPropertyEditor({
   value,
   onValueChange,
 }: ComponentPropertyEditorProps) {
+  const propSchema = useComponentSuggestion(value?.name)?.propSchema;
+
   const handleComponentChange = (name: string) => {
     if (name) {
       onValueChange({
@@ -28,12 +34,24 @@ export function ComponentPropertyEditor({
   };
 
   return (
-    <div className="space-y-1.5">
-      <Label className="text-muted-foreground text-xs">Component</Label>
-      <ComponentCombobox
-        onValueChange={handleComponentChange}
-        value={value?.name ?? ""}
-      />
-    </div>
+    <>
+      <div className="space-y-1.5">
+        <Label className="text-muted-foreground text-xs">Component</Label>
+        <ComponentCombobox
+          onValueChange={handleComponentChange}
+          value={value?.name ?? ""}
+        />
+      </div>
+      {value &&
+        (propSchema ? (
+          <ComponentPropsForm
+            onValueChange={onValueChange}
+            schema={propSchema}
+            value={value}
+          />
+        ) : (
+          <ComponentPropsEditor onValueChange={onValueChange} value={value} />
+        ))}
+    </>
   );
 }
@@ -0,0 +1,448 @@
+import { Plus, X } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import type { ComponentSpec } from "@/types/component";
+
+/**
+ * Value types supported by the props editor
+ */
+const PROP_VALUE_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "enum",
+  "json",
+] as const;
+
+type PropValueType = (typeof PROP_VALUE_TYPES)[number];
+
+/** Shared style for native selects (matches Input) */
+const SELECT_CLASS =
+  "h-7 rounded-md border border-input bg-transparent px-1.5 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 dark:bg-input/30";
+
+/**
+ * Infer the editor type of a prop value.
+ * Enum props are identified by their option list.
+ */
+function getPropValueType(value: unknown, options?: string[]): PropValueType {
+  if (options) {
+    return "enum";
+  }
+  if (typeof value === "string") {
+    return "string";
+  }
+  if (typeof value === "number") {
+    return "number";
+  }
+  if (typeof value === "boolean") {
+    return "boolean";
+  }
+  return "json";
+}
+
+/**
+ * Format a value as editable text.
+ */
+export function toText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value) ?? "";
+}
+
+/**
+ * Convert a value when the user changes its type.
+ */
+function convertPropValue(value: unknown, type: PropValueType): unknown {
+  switch (type) {
+    case "string":
+    case "enum":
+      return toText(value);
+    case "number": {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : 0;
+    }
+    case "boolean":
+      return value === true || value === "true";
+    default:
+      return value ?? null;
+  }
+}
+
+/**
+ * Parse a comma-separated option list.
+ */
+function parseOptions(text: string): string[] {
+  return text
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Generate a prop name that is not used yet.
+ */
+function generatePropName(props: Record<string, unknown>): string {
+  let name = "prop";
+  for (let i = 2; name in props; i++) {
+    name = `prop${i}`;
+  }
+  return name;
+}
+
+export interface ComponentPropsEditorProps {
+  value: ComponentSpec;
+  onValueChange: (spec: ComponentSpec) => void;
+}
+
+/**
+ * Key/value editor for component props.
+ * Supports string, number, boolean, enum, and JSON values.
+ */
+export function ComponentPropsEditor({
+  value,
+  onValueChange,
+}: ComponentPropsEditorProps) {
+  const props = value.props ?? {};
+  const propOptions = value.propOptions ?? {};
+
+  const commit = (
+    nextProps: Record<string, unknown>,
+    nextOptions: Record<string, string[]>
+  ) => {
+    onValueChange({
+      ...value,
+      props: Object.keys(nextProps).length > 0 ? nextProps : undefined,
+      propOptions:
+        Object.keys(nextOptions).length > 0 ? nextOptions : undefined,
+    });
+  };
+
+  const handleValueChange = (key: string, propValue: unknown) => {
+    commit({ ...props, [key]: propValue }, propOptions);
+  };
+
+  const handleOptionsChange = (key: string, options: string[]) => {
+    const propValue = options.includes(toText(props[key]))
+      ? props[key]
+      : (options[0] ?? "");
+    commit({ ...props, [key]: propValue }, { ...propOptions, [key]: options });
+  };
+
+  const handleTypeChange = (key: string, type: PropValueType) => {
+    const { [key]: _removed, ...restOptions } = propOptions;
+    const propValue = convertPropValue(props[key], type);
+    commit(
+      { ...props, [key]: propValue },
+      type === "enum"
+        ? { ...restOptions, [key]: parseOptions(toText(propValue)) }
+        : restOptions
+    );
+  };
+
+  const handleRename = (oldKey: string, newKey: string): boolean => {
+    if (!newKey || newKey in props) {
+      return false;
+    }
+    // Rebuild to keep prop order
+    const nextProps = Object.fromEntries(
+      Object.entries(props).map(([k, v]) => [k === oldKey ? newKey : k, v])
+    );
+    const { [oldKey]: options, ...restOptions } = propOptions;
+    commit(
+      nextProps,
+      options ? { ...restOptions, [newKey]: options } : restOptions
+    );
+    return true;
+  };
+
+  const handleRemove = (key: string) => {
+    const { [key]: _removedProp, ...restProps } = props;
+    const { [key]: _removedOptions, ...restOptions } = propOptions;
+    commit(restProps, restOptions);
+  };
+
+  const handleAdd = () => {
+    commit({ ...props, [generatePropName(props)]: "" }, propOptions);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <Label className="text-muted-foreground text-xs">Props</Label>
+        <Button
+          className="h-6 gap-1 px-1.5 text-xs"
+          onClick={handleAdd}
+          size="sm"
+          variant="ghost"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      </div>
+      {Object.entries(props).map(([key, propValue]) => (
+        <PropRow
+          key={key}
+          onOptionsChange={(options) => handleOptionsChange(key, options)}
+          onRemove={() => handleRemove(key)}
+          onRename={(newKey) => handleRename(key, newKey)}
+          onTypeChange={(type) => handleTypeChange(key, type)}
+          onValueChange={(v) => handleValueChange(key, v)}
+          options={propOptions[key]}
+          propKey={key}
+          value={propValue}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface PropRowProps {
+  propKey: string;
+  value: unknown;
+  options?: string[];
+  /** Returns false if the name is empty or already used */
+  onRename: (key: string) => boolean;
+  onTypeChange: (type: PropValueType) => void;
+  onValueChange: (value: unknown) => void;
+  onOptionsChange: (options: string[]) => void;
+  onRemove: () => void;
+}
+
+function PropRow({
+  propKey,
+  value,
+  options,
+  onRename,
+  onTypeChange,
+  onValueChange,
+  onOptionsChange,
+  onRemove,
+}: PropRowProps) {
+  const type = getPropValueType(value, options);
+
+  return (
+    <div className="space-y-1 rounded-md border p-1.5">
+      <div className="flex items-center gap-1">
+        <Input
+          aria-label="Prop name"
+          className="h-7 flex-1 font-mono text-xs"
+          defaultValue={propKey}
+          onBlur={(e) => {
+            const name = e.target.value.trim();
+            if (name !== propKey && !onRename(name)) {
+              e.target.value = propKey;
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.currentTarget.blur();
+            }
+          }}
+        />
+        <select
+          aria-label="Prop type"
+          className={SELECT_CLASS}
+          onChange={(e) => onTypeChange(e.target.value as PropValueType)}
+          value={type}
+        >
+          {PROP_VALUE_TYPES.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <Button
+          className="h-7 w-7"
+          onClick={onRemove}
+          size="icon"
+          title="Remove prop"
+          variant="ghost"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <PropValueInput
+        onOptionsChange={onOptionsChange}
+        onValueChange={onValueChange}
+        options={options}
+        type={type}
+        value={value}
+      />
+    </div>
+  );
+}
+
+interface PropValueInputProps {
+  type: PropValueType;
+  value: unknown;
+  options?: string[];
+  /** Shown when the value is not set (e.g. the schema default) */
+  placeholder?: string;
+  onValueChange: (value: unknown) => void;
+  /** Enables editing enum options (free-form props only) */
+  onOptionsChange?: (options: string[]) => void;
+}
+
+/**
+ * Input control for a single prop value, chosen by value type.
+ */
+export function PropValueInput({
+  type,
+  value,
+  options,
+  placeholder,
+  onValueChange,
+  onOptionsChange,
+}: PropValueInputProps) {
+  switch (type) {
+    case "boolean":
+      return (
+        <Checkbox
+          aria-label="Prop value"
+          checked={value === true}
+          onCheckedChange={(checked) => onValueChange(checked === true)}
+        />
+      );
+    case "number":
+      return (
+        <NumberInput
+          onValueChange={onValueChange}
+          placeholder={placeholder}
+          value={value}
+        />
+      );
+    case "enum":
+      return (
+        <div className="flex items-center gap-1">
+          <select
+            aria-label="Prop value"
+            className={cn(SELECT_CLASS, "flex-1")}
+            onChange={(e) => onValueChange(e.target.value)}
+            value={value === undefined ? "" : toText(value)}
+          >
+            {value === undefined && (
+              <option disabled value="">
+                {placeholder ?? "—"}
+              </option>
+            )}
+            {(options ?? []).map((o) => (
+              <option key={o} value={o}>
+                {o}
+              </option>
+            ))}
+          </select>
+          {onOptionsChange && (
+            <Input
+              aria-label="Enum options"
+              className="h-7 flex-1 text-xs"
+              defaultValue={(options ?? []).join(", ")}
+              key={(options ?? []).join(",")}
+              onBlur={(e) => onOptionsChange(parseOptions(e.target.value))}
+              placeholder="a, b, c"
+            />
+          )}
+        </div>
+      );
+    case "json":
+      return <JsonInput onValueChange={onValueChange} value={value} />;
+    default:
+      return (
+        <Input
+          aria-label="Prop value"
+          className="h-7 text-xs"
+          onChange={(e) => onValueChange(e.target.value)}
+          placeholder={placeholder}
+          value={value === undefined ? "" : toText(value)}
+        />
+      );
+  }
+}
+
+/**
+ * Number input that keeps partial input (e.g. "-") as a local draft.
+ */
+function NumberInput({
+  value,
+  placeholder,
+  onValueChange,
+}: {
+  value: unknown;
+  placeholder?: string;
+  onValueChange: (value: number) => void;
+}) {
+  const text = value === undefined ? "" : toText(value);
+  const [draft, setDraft] = useState(text);
+  const [seen, setSeen] = useState(value);
+
+  // Reset draft when the value changes externally (undo, other element)
+  if (value !== seen) {
+    setSeen(value);
+    if (value !== Number(draft)) {
+      setDraft(text);
+    }
+  }
+
+  return (
+    <Input
+      aria-label="Prop value"
+      className="h-7 text-xs"
+      inputMode="decimal"
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const number = Number(e.target.value);
+        if (e.target.value.trim() !== "" && Number.isFinite(number)) {
+          onValueChange(number);
+        }
+      }}
+      placeholder={placeholder}
+      value={draft}
+    />
+  );
+}
+
+/**
+ * JSON textarea, committed on blur when valid.
+ */
+function JsonInput({
+  value,
+  onValueChange,
+}: {
+  value: unknown;
+  onValueChange: (value: unknown) => void;
+}) {
+  const text = JSON.stringify(value, null, 2) ?? "";
+  const [draft, setDraft] = useState(text);
+  const [committed, setCommitted] = useState(text);
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  // Reset draft when the value changes externally (undo, other element)
+  if (text !== committed) {
+    setCommitted(text);
+    setDraft(text);
+    setIsInvalid(false);
+  }
+
+  return (
+    <Textarea
+      aria-invalid={isInvalid}
+      aria-label="Prop value"
+      className="min-h-16 resize-y font-mono text-xs"
+      onBlur={() => {
+        try {
+          onValueChange(JSON.parse(draft));
+          setIsInvalid(false);
+        } catch {
+          setIsInvalid(true);
+        }
+      }}
+      onChange={(e) => setDraft(e.target.value)}
+      value={draft}
+    />
+  );
+}
@@ -0,0 +1,120 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import type { ComponentSpec } from "@/types/component";
+import { validateProps } from "../lib/prop-validation";
+import type { PropSchema } from "../types";
+import { PropValueInput, toText } from "./component-props-editor";
+
+export interface ComponentPropsFormProps {
+  value: ComponentSpec;
+  /** Prop schemas of the selected component, keyed by prop name */
+  schema: Record<string, PropSchema>;
+  onValueChange: (spec: ComponentSpec) => void;
+}
+
+/**
+ * Typed props form driven by a component's prop schema.
+ * Props that don't fit the schema are flagged inline.
+ */
+export function ComponentPropsForm({
+  value,
+  schema,
+  onValueChange,
+}: ComponentPropsFormProps) {
+  const props = value.props ?? {};
+  const errors = validateProps(value.props, schema);
+  const unknownProps = Object.keys(props).filter((name) => !(name in schema));
+
+  const commit = (nextProps: Record<string, unknown>) => {
+    onValueChange({
+      ...value,
+      props: Object.keys(nextProps).length > 0 ? nextProps : undefined,
+      // Options come from the schema
+      propOptions: undefined,
+    });
+  };
+
+  const handleChange = (name: string, propValue: unknown) => {
+    commit({ ...props, [name]: propValue });
+  };
+
+  const handleClear = (name: string) => {
+    const { [name]: _removed, ...rest } = props;
+    commit(rest);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-muted-foreground text-xs">Props</Label>
+      {Object.entries(schema).map(([name, propSchema]) => {
+        const propValue = props[name];
+        const isSet = propValue !== undefined;
+        return (
+          <div className="space-y-1" key={name}>
+            <div className="flex items-center gap-1">
+              <span
+                className="flex-1 truncate font-mono text-xs"
+                title={propSchema.description}
+              >
+                {name}
+                {propSchema.required && (
+                  <span className="text-destructive">*</span>
+                )}
+              </span>
+              <span className="text-muted-foreground text-xs">
+                {propSchema.type}
+              </span>
+              {isSet && (
+                <Button
+                  className="h-5 w-5"
+                  onClick={() => handleClear(name)}
+                  size="icon"
+                  title="Reset to default"
+                  variant="ghost"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            <PropValueInput
+              onValueChange={(v) => handleChange(name, v)}
+              options={propSchema.options}
+              placeholder={
+                propSchema.default === undefined
+                  ? undefined
+                  : toText(propSchema.default)
+              }
+              type={propSchema.type}
+              value={
+                propSchema.type === "boolean" && !isSet
+                  ? propSchema.default
+                  : propValue
+              }
+            />
+            {errors[name] && (
+              <p className="text-destructive text-xs">{errors[name]}</p>
+            )}
+          </div>
+        );
+      })}
+      {unknownProps.map((name) => (
+        <div className="flex items-center gap-1" key={name}>
+          <span className="flex-1 truncate font-mono text-xs">
+            {name}={toText(props[name])}
+          </span>
+          <span className="text-destructive text-xs">{errors[name]}</span>
+          <Button
+            className="h-5 w-5"
+            onClick={() => handleClear(name)}
+            size="icon"
+            title="Remove prop"
+            variant="ghost"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,4 +6,8 @@
 
 export { ComponentPropertyEditor } from "./components/component-property-editor";
 export { ComponentsDialog } from "./components/components-dialog";
-export { getComponentIcon } from "./store";
+export {
+  getComponentIcon,
+  useComponentNames,
+  useImportStatementResolver,
+} from "./store";
@@ -0,0 +1,67 @@
+/**
+ * Prop Validation
+ *
+ * Checks component props against a prop schema.
+ */
+
+import type { PropSchema } from "../types";
+
+/**
+ * Check if a value fits a prop schema.
+ */
+function fitsSchema(value: unknown, schema: PropSchema): boolean {
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "enum":
+      return typeof value === "string" && !!schema.options?.includes(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validate a single prop value. Returns an error message or null.
+ */
+function validateProp(value: unknown, schema: PropSchema): string | null {
+  if (value === undefined) {
+    return schema.required && schema.default === undefined ? "Required" : null;
+  }
+  if (fitsSchema(value, schema)) {
+    return null;
+  }
+  return schema.type === "enum"
+    ? `Expected one of: ${schema.options?.join(", ")}`
+    : `Expected ${schema.type}`;
+}
+
+/**
+ * Validate props against a schema.
+ * Returns error messages keyed by prop name (empty if all props fit).
+ */
+export function validateProps(
+  props: Record<string, unknown> | undefined,
+  schema: Record<string, PropSchema>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const values = props ?? {};
+
+  for (const [name, propSchema] of Object.entries(schema)) {
+    const error = validateProp(values[name], propSchema);
+    if (error) {
+      errors[name] = error;
+    }
+  }
+
+  for (const name of Object.keys(values)) {
+    if (!(name in schema)) {
+      errors[name] = "Not defined by the component";
+    }
+  }
+
+  return errors;
+}
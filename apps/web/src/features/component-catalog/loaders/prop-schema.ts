@@ -0,0 +1,269 @@
+/**
+ * Prop Schema Parsing
+ *
+ * Converts Storybook prop descriptions into PropSchema:
+ * - CSF argTypes: { variant: { control: "select", options: [...], ... } }
+ * - react-docgen props: { variant: { tsType: { name: "union", ... }, ... } }
+ */
+
+import type { PropSchema, PropValueType } from "../types";
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Regex for a quoted string literal ("a" or 'a') */
+const STRING_LITERAL_REGEX = /^(["'])(.*)\1$/;
+
+/**
+ * Parse a default value written as source text (e.g. "'primary'", "false").
+ */
+function parseDefaultValue(text: unknown): unknown {
+  if (typeof text !== "string") {
+    return text;
+  }
+  const literal = STRING_LITERAL_REGEX.exec(text.trim());
+  if (literal) {
+    return literal[2];
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Extract string literal options from a union like `"sm" | "md" | "lg"`.
+ * Returns null if any member is not a string literal.
+ */
+function parseUnionOptions(raw: string): string[] | null {
+  const options: string[] = [];
+  for (const member of raw.split("|")) {
+    const literal = STRING_LITERAL_REGEX.exec(member.trim());
+    if (!literal) {
+      return null;
+    }
+    options.push(literal[2]);
+  }
+  return options.length > 0 ? options : null;
+}
+
+/**
+ * Map a Storybook/TypeScript type name to a prop value type.
+ * Returns null for props that cannot be annotated (e.g. event handlers).
+ */
+function mapTypeName(name: string): PropValueType | null {
+  switch (name.toLowerCase()) {
+    case "string":
+    case "text":
+    case "color":
+    case "date":
+      return "string";
+    case "number":
+    case "range":
+      return "number";
+    case "boolean":
+    case "bool":
+      return "boolean";
+    case "select":
+    case "radio":
+    case "inline-radio":
+    case "enum":
+      return "enum";
+    case "function":
+    case "func":
+      return null;
+    default:
+      return "json";
+  }
+}
+
+/** Get a non-empty description string */
+function getDescription(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Build a schema from type, options, and shared fields.
+ */
+function buildSchema(
+  type: PropValueType,
+  options: string[] | undefined,
+  fields: Omit<PropSchema, "type" | "options">
+): PropSchema {
+  // Enum without options cannot be validated; treat as free text
+  if (type === "enum" && !options?.length) {
+    return { type: "string", ...fields };
+  }
+  return {
+    type,
+    ...(type === "enum" && { options }),
+    ...(fields.default !== undefined && { default: fields.default }),
+    ...(fields.required && { required: true }),
+    ...(fields.description && { description: fields.description }),
+  };
+}
+
+/**
+ * Get enum options of an argType (from `options` or `type.value`).
+ */
+function getArgTypeOptions(
+  argType: UnknownRecord,
+  sbType: UnknownRecord | undefined
+): string[] | undefined {
+  if (Array.isArray(argType.options)) {
+    return argType.options.map(String);
+  }
+  if (Array.isArray(sbType?.value)) {
+    return sbType.value.filter((v) => typeof v === "string");
+  }
+  return;
+}
+
+/**
+ * Parse a single CSF argType.
+ */
+function parseArgType(argType: UnknownRecord): PropSchema | null {
+  const control = isRecord(argType.control)
+    ? argType.control.type
+    : argType.control;
+  const sbType = isRecord(argType.type) ? argType.type : undefined;
+  const typeName =
+    typeof argType.type === "string" ? argType.type : sbType?.name;
+
+  // Skip actions and disabled controls
+  if (argType.action || argType.control === false) {
+    return null;
+  }
+
+  const options = getArgTypeOptions(argType, sbType);
+
+  let type: PropValueType | null = null;
+  if (options?.length) {
+    type = "enum";
+  } else if (typeof control === "string") {
+    type = mapTypeName(control);
+  } else if (typeof typeName === "string") {
+    type = mapTypeName(typeName);
+  }
+  if (!type) {
+    return null;
+  }
+
+  const table = isRecord(argType.table) ? argType.table : undefined;
+  const tableDefault = isRecord(table?.defaultValue)
+    ? parseDefaultValue(table.defaultValue.summary)
+    : undefined;
+
+  return buildSchema(type, options, {
+    default: argType.defaultValue ?? tableDefault,
+    required: sbType?.required === true,
+    description: getDescription(argType.description),
+  });
+}
+
+/**
+ * Parse CSF argTypes into prop schemas.
+ */
+export function parseArgTypes(
+  argTypes: unknown
+): Record<string, PropSchema> | undefined {
+  if (!isRecord(argTypes)) {
+    return;
+  }
+  const result: Record<string, PropSchema> = {};
+  for (const [name, argType] of Object.entries(argTypes)) {
+    const schema = isRecord(argType) ? parseArgType(argType) : null;
+    if (schema) {
+      result[name] = schema;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Get enum options of a docgen type.
+ * - TypeScript: union of string literals (`"sm" | "md"`)
+ * - PropTypes: oneOf (`{ name: "enum", value: [{ value: "'sm'" }] }`)
+ */
+function getDocgenOptions(docType: UnknownRecord): string[] | undefined {
+  if (docType.name === "union" && typeof docType.raw === "string") {
+    return parseUnionOptions(docType.raw) ?? undefined;
+  }
+  if (docType.name === "enum" && Array.isArray(docType.value)) {
+    return docType.value
+      .map((v) => (isRecord(v) ? parseDefaultValue(v.value) : null))
+      .filter((v): v is string => typeof v === "string");
+  }
+  return;
+}
+
+/**
+ * Map a docgen type to a prop value type.
+ */
+function getDocgenValueType(
+  docType: UnknownRecord & { name: string },
+  options: string[] | undefined
+): PropValueType | null {
+  if (options) {
+    return "enum";
+  }
+  if (docType.name === "union" || docType.name === "signature") {
+    // Mixed unions and function signatures
+    return docType.type === "function" ? null : "json";
+  }
+  return mapTypeName(docType.name);
+}
+
+/**
+ * Parse a single react-docgen prop.
+ */
+function parseDocgenProp(prop: UnknownRecord): PropSchema | null {
+  const tsType = isRecord(prop.tsType) ? prop.tsType : undefined;
+  const flowType = isRecord(prop.type) ? prop.type : undefined;
+  const docType = tsType ?? flowType;
+  if (!docType || typeof docType.name !== "string") {
+    return null;
+  }
+
+  const options = getDocgenOptions(docType);
+  const type = getDocgenValueType(
+    docType as UnknownRecord & { name: string },
+    options
+  );
+  if (!type) {
+    return null;
+  }
+
+  const defaultValue = isRecord(prop.defaultValue)
+    ? parseDefaultValue(prop.defaultValue.value)
+    : undefined;
+
+  return buildSchema(type, options, {
+    default: defaultValue,
+    required: prop.required === true,
+    description: getDescription(prop.description),
+  });
+}
+
+/**
+ * Parse react-docgen props into prop schemas.
+ */
+export function parseDocgenProps(
+  props: unknown
+): Record<string, PropSchema> | undefined {
+  if (!isRecord(props)) {
+    return;
+  }
+  const result: Record<string, PropSchema> = {};
+  for (const [name, prop] of Object.entries(props)) {
+    const schema = isRecord(prop) ? parseDocgenProp(prop) : null;
+    if (schema) {
+      result[name] = schema;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
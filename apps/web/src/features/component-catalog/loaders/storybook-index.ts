@@ -14,8 +14,11 @@
  *     }
  *   }
  * }
+ *
+ * Props are read from CSF `argTypes` when the index includes them.
  */
 
+import { parseArgTypes } from "./prop-schema";
 import type { ManifestLoader } from "./types";
 import { inferCategory, inferIcon } from "./utils";
 
@@ -26,6 +29,7 @@ interface StorybookEntry {
   importPath?: string;
   type: "docs" | "story";
   tags?: string[];
+  argTypes?: unknown;
 }
 
 interface StorybookIndex {
@@ -62,7 +66,7 @@ export const storybookIndexLoader: ManifestLoader = {
     // Group by component title (e.g., "Components/ボタン")
     const componentMap = new Map<
       string,
-      { title: string; importPath?: string }
+      { title: string; importPath?: string; argTypes?: unknown }
     >();
 
     for (const entry of entries) {
@@ -72,11 +76,15 @@ export const storybookIndexLoader: ManifestLoader = {
       }
 
       const title = entry.title;
-      if (!componentMap.has(title)) {
+      const existing = componentMap.get(title);
+      if (!existing) {
         componentMap.set(title, {
           title,
           importPath: entry.importPath,
+          argTypes: entry.argTypes,
         });
+      } else if (!existing.argTypes && entry.argTypes) {
+        existing.argTypes = entry.argTypes;
       }
     }
 
@@ -96,6 +104,7 @@ export const storybookIndexLoader: ManifestLoader = {
           category: inferCategory(categoryHint, name),
           description: name,
           importStatement: comp.importPath,
+          propSchema: parseArgTypes(comp.argTypes),
         };
       })
       .filter((item): item is NonNullable<typeof item> => item !== null);
@@ -8,8 +8,11 @@
  *     "button": { "id": "button", "name": "Button", ... }
  *   }
  * }
+ *
+ * Props are read from `argTypes` (CSF) or `reactDocgen.props` when present.
  */
 
+import { parseArgTypes, parseDocgenProps } from "./prop-schema";
 import type { ManifestLoader } from "./types";
 import { inferCategory, inferIcon } from "./utils";
 
@@ -19,6 +22,8 @@ interface StorybookComponent {
   path?: string;
   import?: string;
   description?: string;
+  argTypes?: unknown;
+  reactDocgen?: { props?: unknown };
 }
 
 interface StorybookManifest {
@@ -56,6 +61,9 @@ export const storybookManifestLoader: ManifestLoader = {
       category: inferCategory(comp.id, comp.name),
       description: comp.description || comp.name,
       importStatement: comp.import,
+      propSchema:
+        parseArgTypes(comp.argTypes) ??
+        parseDocgenProps(comp.reactDocgen?.props),
     }));
   },
 };
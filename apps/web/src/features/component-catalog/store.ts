@@ -6,7 +6,7 @@
 
 import type { LucideIcon } from "lucide-react";
 import { Box } from "lucide-react";
-import { useMemo } from "react";
+import { useCallback, useMemo } from "react";
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import {
@@ -175,6 +175,42 @@ function loadSourceComponents(source: StoredSourceData): LoadResult {
   }
 }
 
+/**
+ * Collect the components of enabled sources (imported first, then builtin).
+ */
+function collectComponents(
+  importedSources: StoredSourceData[],
+  builtinEnabled: boolean
+): UIComponentSuggestion[] {
+  const components: UIComponentSuggestion[] = [];
+
+  // Add imported components
+  for (const source of importedSources) {
+    if (source.enabled) {
+      const result = loadSourceComponents(source);
+      components.push(...result.components);
+    }
+  }
+
+  // Add builtin components
+  if (builtinEnabled) {
+    components.push(...getBuiltinComponents());
+  }
+
+  return components;
+}
+
+/**
+ * Find a component by name (case-insensitive).
+ */
+function findComponentByName(
+  components: UIComponentSuggestion[],
+  name: string
+): UIComponentSuggestion | undefined {
+  const lowerName = name.toLowerCase();
+  return components.find((c) => c.name.toLowerCase() === lowerName);
+}
+
 // Builtin source constants
 const BUILTIN_ID = "builtin";
 const BUILTIN_NAME = "Built-in";
@@ -275,31 +311,12 @@ export const useComponentCatalogStore = create<ComponentCatalogStore>()(
       },
 
       getComponents: () => {
-        const state = get();
-        const components: UIComponentSuggestion[] = [];
-
-        // Add imported components
-        for (const source of state.importedSources) {
-          if (source.enabled) {
-            const result = loadSourceComponents(source);
-            components.push(...result.components);
-          }
-        }
-
-        // Add builtin components
-        if (state.builtinEnabled) {
-          components.push(...getBuiltinComponents());
-        }
-
-        return components;
+        const { importedSources, builtinEnabled } = get();
+        return collectComponents(importedSources, builtinEnabled);
       },
 
-      getComponentByName: (name) => {
-        const lowerName = name.toLowerCase();
-        return get()
-          .getComponents()
-          .find((c) => c.name.toLowerCase() === lowerName);
-      },
+      getComponentByName: (name) =>
+        findComponentByName(get().getComponents(), name),
 
       getComponentIcon: (name) => {
         if (!name) {
@@ -401,9 +418,62 @@ export function useSources(): ComponentSource[] {
   }, [importedSources, builtinEnabled]);
 }
 
+/**
+ * Hook to get the components of enabled sources (updates when sources change)
+ */
+function useEnabledComponents(): UIComponentSuggestion[] {
+  const importedSources = useComponentCatalogStore((s) => s.importedSources);
+  const builtinEnabled = useComponentCatalogStore((s) => s.builtinEnabled);
+
+  return useMemo(
+    () => collectComponents(importedSources, builtinEnabled),
+    [importedSources, builtinEnabled]
+  );
+}
+
+/**
+ * Hook to get a component suggestion by name (updates when sources change)
+ */
+export function useComponentSuggestion(
+  name: string | undefined
+): UIComponentSuggestion | undefined {
+  const components = useEnabledComponents();
+
+  return useMemo(
+    () => (name ? findComponentByName(components, name) : undefined),
+    [components, name]
+  );
+}
+
 // Convenience functions for non-React contexts
 export const getComponentIcon = (name: string | undefined) =>
   useComponentCatalogStore.getState().getComponentIcon(name);
 
 const _getComponentByName = (name: string) =>
   useComponentCatalogStore.getState().getComponentByName(name);
+
+/**
+ * Hook to get a resolver for component import statements (updates when sources change)
+ */
+export function useImportStatementResolver(): (
+  name: string
+) => string | undefined {
+  const components = useEnabledComponents();
+
+  return useCallback(
+    (name: string) => findComponentByName(components, name)?.importStatement,
+    [components]
+  );
+}
+
+/**
+ * Hook to get the names of all enabled components (updates when sources change)
+ */
+export function useComponentNames(): string[] {
+  const components = useEnabledComponents();
+
+  return useMemo(
+    () => [...new Set(components.map((c) => c.name))],
+    [components]
+  );
+}
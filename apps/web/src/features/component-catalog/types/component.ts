@@ -14,6 +14,24 @@ export type UIComponentCategory =
   | "Media"
   | "Other";
 
+/**
+ * Value type of a component prop
+ */
+export type PropValueType = "string" | "number" | "boolean" | "enum" | "json";
+
+/**
+ * Schema of a single component prop
+ */
+export interface PropSchema {
+  type: PropValueType;
+  /** Allowed values (enum props only) */
+  options?: string[];
+  /** Default value used when the prop is not set */
+  default?: unknown;
+  required?: boolean;
+  description?: string;
+}
+
 /**
  * UI Component suggestion for the combobox
  */
@@ -24,6 +42,8 @@ export interface UIComponentSuggestion {
   description: string;
   /** Import statement for the component */
   importStatement?: string;
+  /** Prop schemas keyed by prop name (from Storybook argTypes or docgen) */
+  propSchema?: Record<string, PropSchema>;
 }
 
 /**
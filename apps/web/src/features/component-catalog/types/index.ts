@@ -6,6 +6,8 @@
 export type { ComponentSpec } from "@/types/component";
 export {
   CATEGORY_ORDER,
+  type PropSchema,
+  type PropValueType,
   type UIComponentCategory,
   type UIComponentSuggestion,
 } from "./component";
@@ -0,0 +1,246 @@
+/**
+ * Dataset Import Dialog
+ *
+ * Imports bounding boxes from COCO / Pascal VOC / YOLO files and maps
+ * dataset categories to component names before creating annotations.
+ */
+
+import { ScanSearch, Upload } from "lucide-react";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  DATASET_ACCEPT_PATTERN,
+  parseDatasetFiles,
+} from "../services/dataset-parser";
+import { resolveCategoryComponent, useCategoryMappingStore } from "../store";
+import {
+  DATASET_FORMAT_NAMES,
+  type DatasetAnnotation,
+  type DatasetTarget,
+  type ParsedDataset,
+} from "../types";
+
+/** ID of the component name suggestions list */
+const COMPONENT_LIST_ID = "dataset-component-names";
+
+/**
+ * Count boxes per category (in order of first appearance).
+ */
+function countCategories(dataset: ParsedDataset): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const box of dataset.boxes) {
+    counts.set(box.category, (counts.get(box.category) ?? 0) + 1);
+  }
+  return Array.from(counts);
+}
+
+/**
+ * Build annotations from parsed boxes and category mappings.
+ */
+function toAnnotations(
+  dataset: ParsedDataset,
+  mappings: Record<string, string>
+): DatasetAnnotation[] {
+  return dataset.boxes.map(({ category, x, y, w, h }) => {
+    const componentName = mappings[category]?.trim();
+    return {
+      pixel: { x, y, w, h },
+      label: category,
+      ...(componentName && { componentName }),
+    };
+  });
+}
+
+export interface DatasetImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Image the annotations are imported into (active screen) */
+  target: DatasetTarget | null;
+  /** Component names offered for mapping (from the component catalog) */
+  componentNames: string[];
+  /** Create the annotations (injected by the app layer) */
+  onImport: (annotations: DatasetAnnotation[]) => void;
+}
+
+export function DatasetImportDialog({
+  open,
+  onOpenChange,
+  target,
+  componentNames,
+  onImport,
+}: DatasetImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dataset, setDataset] = useState<ParsedDataset | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mappings, setMappingDrafts] = useState<Record<string, string>>({});
+
+  const savedMappings = useCategoryMappingStore((s) => s.mappings);
+  const setMappings = useCategoryMappingStore((s) => s.setMappings);
+
+  const categories = useMemo(
+    () => (dataset ? countCategories(dataset) : []),
+    [dataset]
+  );
+
+  const handleOpenChange = useCallback(
+    (nextOpen: boolean) => {
+      if (!nextOpen) {
+        setDataset(null);
+        setError(null);
+        setMappingDrafts({});
+      }
+      onOpenChange(nextOpen);
+    },
+    [onOpenChange]
+  );
+
+  const handleFiles = useCallback(
+    async (files: File[]) => {
+      if (!target || files.length === 0) {
+        return;
+      }
+      setError(null);
+
+      const result = await parseDatasetFiles(files, target);
+      if (!result.success) {
+        setDataset(null);
+        setError(result.error);
+        return;
+      }
+
+      setDataset(result.data);
+      setMappingDrafts(
+        Object.fromEntries(
+          result.data.boxes.map((box) => [
+            box.category,
+            resolveCategoryComponent(
+              box.category,
+              savedMappings,
+              componentNames
+            ),
+          ])
+        )
+      );
+    },
+    [target, savedMappings, componentNames]
+  );
+
+  const handleImport = useCallback(() => {
+    if (!dataset) {
+      return;
+    }
+    setMappings(mappings);
+    onImport(toAnnotations(dataset, mappings));
+    handleOpenChange(false);
+  }, [dataset, mappings, setMappings, onImport, handleOpenChange]);
+
+  return (
+    <Dialog onOpenChange={handleOpenChange} open={open}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Annotations</DialogTitle>
+          <DialogDescription>
+            Import bounding boxes from COCO, Pascal VOC or YOLO files into
+            {target ? ` ${target.fileName}` : " the current screen"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <input
+            accept={DATASET_ACCEPT_PATTERN}
+            className="hidden"
+            multiple
+            onChange={(e) => {
+              handleFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+            ref={fileInputRef}
+            type="file"
+          />
+          <div className="rounded-lg border-2 border-muted-foreground/25 border-dashed p-6 text-center">
+            <ScanSearch className="mx-auto mb-2 h-8 w-8 text-muted-foreground" />
+            <p className="mb-3 text-muted-foreground/70 text-xs">
+              COCO .json / Pascal VOC .xml / YOLO .txt (with classes.txt or
+              data.yaml)
+            </p>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              size="sm"
+              variant="outline"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Select Files
+            </Button>
+          </div>
+
+          {error && (
+            <p className="rounded bg-destructive/10 p-2 text-destructive text-sm">
+              {error}
+            </p>
+          )}
+
+          {dataset && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">
+                {`${DATASET_FORMAT_NAMES[dataset.format]}: ${dataset.boxes.length} boxes`}
+              </h4>
+              <div className="max-h-64 space-y-2 overflow-y-auto">
+                {categories.map(([category, count]) => (
+                  <div
+                    className="flex items-center gap-3 rounded bg-muted/50 px-3 py-2 text-sm"
+                    key={category}
+                  >
+                    <span className="min-w-0 flex-1 truncate" title={category}>
+                      {category}
+                      <span className="ml-1 text-muted-foreground text-xs">
+                        ×{count}
+                      </span>
+                    </span>
+                    <Input
+                      className="h-8 w-40"
+                      list={COMPONENT_LIST_ID}
+                      onChange={(e) =>
+                        setMappingDrafts((prev) => ({
+                          ...prev,
+                          [category]: e.target.value,
+                        }))
+                      }
+                      placeholder="Component"
+                      value={mappings[category] ?? ""}
+                    />
+                  </div>
+                ))}
+              </div>
+              <datalist id={COMPONENT_LIST_ID}>
+                {componentNames.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => handleOpenChange(false)} variant="outline">
+            Cancel
+          </Button>
+          <Button
+            disabled={!dataset || dataset.boxes.length === 0}
+            onClick={handleImport}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Dataset Feature
+ *
+ * Imports annotations from UI detection datasets (COCO, Pascal VOC, YOLO).
+ */
+
+export { DatasetImportDialog } from "./components/dataset-import-dialog";
+export type { DatasetAnnotation, DatasetTarget } from "./types";
@@ -0,0 +1,106 @@
+/**
+ * COCO Parser
+ *
+ * Reads object detection annotations from a COCO JSON file.
+ * Boxes are `[x, y, width, height]` in image pixels.
+ */
+
+import { z } from "zod";
+import { err, ok, type Result } from "@/lib/error";
+import type { DatasetBox, DatasetTarget } from "../types";
+import { getFileName, isValidBox, scaleBox } from "./utils";
+
+const cocoSchema = z.object({
+  images: z.array(
+    z.object({
+      id: z.union([z.number(), z.string()]),
+      file_name: z.string(),
+      width: z.number().optional(),
+      height: z.number().optional(),
+    })
+  ),
+  annotations: z.array(
+    z.object({
+      image_id: z.union([z.number(), z.string()]),
+      category_id: z.union([z.number(), z.string()]),
+      bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+    })
+  ),
+  categories: z.array(
+    z.object({
+      id: z.union([z.number(), z.string()]),
+      name: z.string(),
+    })
+  ),
+});
+
+type CocoDataset = z.infer<typeof cocoSchema>;
+
+/**
+ * Check if parsed JSON looks like a COCO dataset.
+ */
+export function isCocoJson(json: unknown): boolean {
+  return (
+    typeof json === "object" &&
+    json !== null &&
+    "images" in json &&
+    "annotations" in json
+  );
+}
+
+/**
+ * Find the dataset image for the target.
+ * Matches by file name; a dataset with a single image always matches.
+ */
+function findImage(
+  dataset: CocoDataset,
+  target: DatasetTarget
+): CocoDataset["images"][number] | undefined {
+  if (dataset.images.length === 1) {
+    return dataset.images[0];
+  }
+  const fileName = target.fileName.toLowerCase();
+  return dataset.images.find(
+    (image) => getFileName(image.file_name).toLowerCase() === fileName
+  );
+}
+
+/**
+ * Parse COCO JSON and return the boxes of the target image.
+ */
+export function parseCoco(
+  json: unknown,
+  target: DatasetTarget
+): Result<DatasetBox[], string> {
+  const parsed = cocoSchema.safeParse(json);
+  if (!parsed.success) {
+    return err("Invalid COCO file");
+  }
+
+  const dataset = parsed.data;
+  const image = findImage(dataset, target);
+  if (!image) {
+    return err(`No annotations for "${target.fileName}" in COCO file`);
+  }
+
+  const categories = new Map(
+    dataset.categories.map((c) => [String(c.id), c.name])
+  );
+  const boxes = dataset.annotations
+    .filter((a) => String(a.image_id) === String(image.id))
+    .map((a) => {
+      const [x, y, w, h] = a.bbox;
+      const category =
+        categories.get(String(a.category_id)) ?? String(a.category_id);
+      return scaleBox(
+        { category, x, y, w, h },
+        image.width && image.height
+          ? { width: image.width, height: image.height }
+          : undefined,
+        target
+      );
+    })
+    .filter(isValidBox);
+
+  return ok(boxes);
+}
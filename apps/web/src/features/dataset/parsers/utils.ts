@@ -0,0 +1,45 @@
+import type { DatasetBox, DatasetTarget } from "../types";
+
+/** Matches the directory part of a path */
+const DIRECTORY_REGEX = /^.*[\\/]/;
+
+/**
+ * Get the file name of a path (datasets often store relative paths).
+ */
+export function getFileName(path: string): string {
+  return path.replace(DIRECTORY_REGEX, "");
+}
+
+/**
+ * Scale a box from the dataset's image size to the target image size.
+ * Datasets are sometimes annotated on resized copies of the screenshot.
+ */
+export function scaleBox(
+  box: DatasetBox,
+  source: { width: number; height: number } | undefined,
+  target: DatasetTarget
+): DatasetBox {
+  if (!(source?.width && source.height)) {
+    return box;
+  }
+  const sx = target.width / source.width;
+  const sy = target.height / source.height;
+  return {
+    category: box.category,
+    x: box.x * sx,
+    y: box.y * sy,
+    w: box.w * sx,
+    h: box.h * sy,
+  };
+}
+
+/**
+ * Check that a box has a positive size.
+ */
+export function isValidBox(box: DatasetBox): boolean {
+  return (
+    [box.x, box.y, box.w, box.h].every(Number.isFinite) &&
+    box.w > 0 &&
+    box.h > 0
+  );
+}
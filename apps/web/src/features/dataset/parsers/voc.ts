@@ -0,0 +1,65 @@
+/**
+ * Pascal VOC Parser
+ *
+ * Reads object annotations from a Pascal VOC XML file.
+ * Boxes are `xmin/ymin/xmax/ymax` in image pixels.
+ */
+
+import { err, ok, type Result } from "@/lib/error";
+import type { DatasetBox, DatasetTarget } from "../types";
+import { isValidBox, scaleBox } from "./utils";
+
+/**
+ * Read a numeric child element (NaN if missing).
+ */
+function readNumber(parent: Element | null, tagName: string): number {
+  const text = parent?.getElementsByTagName(tagName)[0]?.textContent;
+  return text ? Number(text.trim()) : Number.NaN;
+}
+
+/**
+ * Read a VOC `<object>` as a box.
+ */
+function readObject(object: Element): DatasetBox {
+  const category =
+    object.getElementsByTagName("name")[0]?.textContent?.trim() ?? "object";
+  const bndbox = object.getElementsByTagName("bndbox")[0] ?? null;
+  const xmin = readNumber(bndbox, "xmin");
+  const ymin = readNumber(bndbox, "ymin");
+  return {
+    category,
+    x: xmin,
+    y: ymin,
+    w: readNumber(bndbox, "xmax") - xmin,
+    h: readNumber(bndbox, "ymax") - ymin,
+  };
+}
+
+/**
+ * Parse Pascal VOC XML and return its boxes.
+ */
+export function parseVoc(
+  xml: string,
+  target: DatasetTarget
+): Result<DatasetBox[], string> {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const annotation = doc.getElementsByTagName("annotation")[0];
+  if (doc.getElementsByTagName("parsererror").length > 0 || !annotation) {
+    return err("Invalid Pascal VOC file");
+  }
+
+  const size = annotation.getElementsByTagName("size")[0] ?? null;
+  const source = {
+    width: readNumber(size, "width"),
+    height: readNumber(size, "height"),
+  };
+  const hasSize = source.width > 0 && source.height > 0;
+
+  const boxes = Array.from(annotation.getElementsByTagName("object"))
+    .map((object) =>
+      scaleBox(readObject(object), hasSize ? source : undefined, target)
+    )
+    .filter(isValidBox);
+
+  return ok(boxes);
+}
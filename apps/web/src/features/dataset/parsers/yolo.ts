@@ -0,0 +1,118 @@
+/**
+ * YOLO Parser
+ *
+ * Reads a YOLO label file (`class cx cy w h`, normalized to 0-1).
+ * Segmentation labels (`class x1 y1 x2 y2 ...`) are converted to their bounds.
+ * Class names come from an optional names file (classes.txt, *.names, data.yaml).
+ */
+
+import { err, ok, type Result } from "@/lib/error";
+import type { DatasetBox, DatasetTarget } from "../types";
+import { isValidBox } from "./utils";
+
+/** Splits a label line into values */
+const WHITESPACE_REGEX = /\s+/;
+
+/** Matches an inline YAML list: `names: [a, b]` */
+const YAML_INLINE_NAMES_REGEX = /^names:\s*\[(.*)\]\s*$/m;
+
+/** Matches a YAML mapping or list entry: `  0: name` or `  - name` */
+const YAML_NAME_ENTRY_REGEX = /^\s+(?:(\d+):|-)\s*(.+?)\s*$/;
+
+/** Matches surrounding quotes of a YAML value */
+const YAML_QUOTES_REGEX = /^['"]|['"]$/g;
+
+/**
+ * Parse class names from a names file.
+ * Supports one name per line or a YOLO `data.yaml`.
+ * Blank lines keep their class id (with an empty name), so later names
+ * stay at their line index.
+ */
+export function parseYoloNames(text: string, isYaml: boolean): string[] {
+  if (!isYaml) {
+    const names = text.split("\n").map((line) => line.trim());
+    while (names.length > 0 && !names.at(-1)) {
+      names.pop();
+    }
+    return names;
+  }
+
+  const inline = YAML_INLINE_NAMES_REGEX.exec(text);
+  if (inline) {
+    return inline[1]
+      .split(",")
+      .map((name) => name.trim().replace(YAML_QUOTES_REGEX, ""));
+  }
+
+  const names: string[] = [];
+  const lines = text.split("\n");
+  const start = lines.findIndex((line) => line.trim() === "names:");
+  for (const line of start >= 0 ? lines.slice(start + 1) : []) {
+    const match = YAML_NAME_ENTRY_REGEX.exec(line);
+    if (!match) {
+      break;
+    }
+    const index = match[1] ? Number(match[1]) : names.length;
+    names[index] = match[2].replace(YAML_QUOTES_REGEX, "");
+  }
+  return names;
+}
+
+/**
+ * Convert normalized values of a label line to pixel bounds.
+ */
+function toPixelBounds(
+  values: number[],
+  target: DatasetTarget
+): Omit<DatasetBox, "category"> {
+  if (values.length === 4) {
+    const [cx, cy, w, h] = values;
+    return {
+      x: (cx - w / 2) * target.width,
+      y: (cy - h / 2) * target.height,
+      w: w * target.width,
+      h: h * target.height,
+    };
+  }
+
+  // Polygon: x1 y1 x2 y2 ...
+  const xs = values.filter((_, i) => i % 2 === 0);
+  const ys = values.filter((_, i) => i % 2 === 1);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX * target.width,
+    y: minY * target.height,
+    w: (Math.max(...xs) - minX) * target.width,
+    h: (Math.max(...ys) - minY) * target.height,
+  };
+}
+
+/**
+ * Parse a YOLO label file.
+ * Classes without a name are labelled by their index.
+ */
+export function parseYolo(
+  text: string,
+  names: string[],
+  target: DatasetTarget
+): Result<DatasetBox[], string> {
+  const boxes: DatasetBox[] = [];
+  for (const line of text.split("\n")) {
+    const parts = line.trim().split(WHITESPACE_REGEX);
+    if (parts.length < 5 || parts[0].startsWith("#")) {
+      continue;
+    }
+    const classIndex = Number(parts[0]);
+    const values = parts.slice(1).map(Number);
+    if (!Number.isInteger(classIndex) || values.some(Number.isNaN)) {
+      return err("Invalid YOLO label file");
+    }
+    boxes.push({
+      category: names[classIndex] || String(classIndex),
+      ...toPixelBounds(values, target),
+    });
+  }
+
+  return ok(boxes.filter(isValidBox));
+}
@@ -0,0 +1,114 @@
+/**
+ * Dataset Parser Service
+ *
+ * Detects the dataset format of selected files and parses the boxes
+ * for the target image.
+ */
+
+import { err, ok, type Result } from "@/lib/error";
+import { isCocoJson, parseCoco } from "../parsers/coco";
+import { getFileName } from "../parsers/utils";
+import { parseVoc } from "../parsers/voc";
+import { parseYolo, parseYoloNames } from "../parsers/yolo";
+import type { DatasetTarget, ParsedDataset } from "../types";
+
+/** File types accepted by the dataset importer */
+export const DATASET_ACCEPT_PATTERN = ".json,.xml,.txt,.names,.yaml,.yml";
+
+/** Matches YOLO class name files */
+const NAMES_FILE_REGEX = /(^classes\.txt|\.names|\.ya?ml)$/i;
+
+/** Matches YAML files */
+const YAML_FILE_REGEX = /\.ya?ml$/i;
+
+/** Matches a file extension */
+const EXTENSION_REGEX = /\.[^.]+$/;
+
+/**
+ * Get a file name without extension.
+ */
+function getStem(fileName: string): string {
+  return getFileName(fileName).replace(EXTENSION_REGEX, "").toLowerCase();
+}
+
+/**
+ * Parse YOLO label files with an optional names file.
+ * Prefers the label file named after the image.
+ */
+async function parseYoloFiles(
+  labels: File[],
+  namesFile: File | undefined,
+  target: DatasetTarget
+): Promise<Result<ParsedDataset, string>> {
+  const label =
+    labels.find((f) => getStem(f.name) === getStem(target.fileName)) ??
+    (labels.length === 1 ? labels[0] : undefined);
+  if (!label) {
+    return err(`No YOLO label file named after "${target.fileName}"`);
+  }
+
+  const names = namesFile
+    ? parseYoloNames(
+        await namesFile.text(),
+        YAML_FILE_REGEX.test(namesFile.name)
+      )
+    : [];
+  const result = parseYolo(await label.text(), names, target);
+  return result.success ? ok({ format: "yolo", boxes: result.data }) : result;
+}
+
+/**
+ * Parse a single COCO JSON or Pascal VOC XML file.
+ */
+async function parseSingleFile(
+  file: File,
+  target: DatasetTarget
+): Promise<Result<ParsedDataset, string>> {
+  const text = await file.text();
+  if (file.name.toLowerCase().endsWith(".xml")) {
+    const result = parseVoc(text, target);
+    return result.success ? ok({ format: "voc", boxes: result.data }) : result;
+  }
+
+  const json: unknown = JSON.parse(text);
+  if (!isCocoJson(json)) {
+    return err("JSON file is not a COCO dataset");
+  }
+  const result = parseCoco(json, target);
+  return result.success ? ok({ format: "coco", boxes: result.data }) : result;
+}
+
+/**
+ * Parse dataset files for an image.
+ *
+ * - COCO: one `.json` file (the image is matched by file name)
+ * - Pascal VOC: one `.xml` file
+ * - YOLO: a `.txt` label file, optionally with `classes.txt`, `*.names` or `data.yaml`
+ *
+ * @param files - Files selected by the user
+ * @param target - Image the boxes are imported into
+ */
+export async function parseDatasetFiles(
+  files: File[],
+  target: DatasetTarget
+): Promise<Result<ParsedDataset, string>> {
+  try {
+    const namesFile = files.find((f) => NAMES_FILE_REGEX.test(f.name));
+    const labels = files.filter(
+      (f) => f !== namesFile && f.name.toLowerCase().endsWith(".txt")
+    );
+    if (labels.length > 0) {
+      return await parseYoloFiles(labels, namesFile, target);
+    }
+
+    const file = files.find((f) => f !== namesFile);
+    if (!file) {
+      return err("No annotation file selected");
+    }
+    return await parseSingleFile(file, target);
+  } catch (error) {
+    return err(
+      `Failed to read annotations: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Category Mapping Store
+ *
+ * Persists which component each dataset category maps to,
+ * so repeated imports from the same dataset need no setup.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+const STORAGE_KEY = "ui-annotator-category-mappings";
+
+/** Matches characters ignored when comparing names */
+const NON_ALPHANUMERIC_REGEX = /[^a-z0-9]/g;
+
+/**
+ * Store state
+ */
+interface CategoryMappingState {
+  /** Component name keyed by dataset category */
+  mappings: Record<string, string>;
+}
+
+/**
+ * Store actions
+ */
+interface CategoryMappingActions {
+  /** Merge mappings (empty names remove the mapping) */
+  setMappings: (mappings: Record<string, string>) => void;
+}
+
+type CategoryMappingStore = CategoryMappingState & CategoryMappingActions;
+
+export const useCategoryMappingStore = create<CategoryMappingStore>()(
+  persist(
+    (set) => ({
+      mappings: {},
+
+      setMappings: (mappings) => {
+        set((state) => {
+          const next = { ...state.mappings };
+          for (const [category, name] of Object.entries(mappings)) {
+            if (name.trim()) {
+              next[category] = name.trim();
+            } else {
+              delete next[category];
+            }
+          }
+          return { mappings: next };
+        });
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      partialize: (state) => ({ mappings: state.mappings }),
+    }
+  )
+);
+
+/** Normalize a name for loose comparison (e.g. "text_button" ~ "TextButton") */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(NON_ALPHANUMERIC_REGEX, "");
+}
+
+/**
+ * Get the component for a category.
+ * Uses the saved mapping, or a component with the same name.
+ */
+export function resolveCategoryComponent(
+  category: string,
+  mappings: Record<string, string>,
+  componentNames: string[]
+): string {
+  const saved = mappings[category];
+  if (saved !== undefined) {
+    return saved;
+  }
+  const normalized = normalizeName(category);
+  return componentNames.find((n) => normalizeName(n) === normalized) ?? "";
+}
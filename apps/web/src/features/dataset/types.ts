@@ -0,0 +1,56 @@
+/**
+ * Dataset Types
+ *
+ * Types for importing annotations from UI detection datasets.
+ */
+
+/** Supported dataset formats */
+export type DatasetFormat = "coco" | "voc" | "yolo";
+
+/** Display names of dataset formats */
+export const DATASET_FORMAT_NAMES: Record<DatasetFormat, string> = {
+  coco: "COCO",
+  voc: "Pascal VOC",
+  yolo: "YOLO",
+};
+
+/**
+ * Image the annotations are imported into.
+ */
+export interface DatasetTarget {
+  /** Source file name of the image (used to pick the matching entry) */
+  fileName: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * A labelled bounding box in target image pixels.
+ */
+export interface DatasetBox {
+  category: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Boxes parsed from dataset files for one image.
+ */
+export interface ParsedDataset {
+  format: DatasetFormat;
+  boxes: DatasetBox[];
+}
+
+/**
+ * Annotation to create from a dataset box.
+ */
+export interface DatasetAnnotation {
+  /** Bounding box in image pixels */
+  pixel: { x: number; y: number; w: number; h: number };
+  /** Category name (used as the element label) */
+  label: string;
+  /** Component mapped from the category */
+  componentName?: string;
+}
@@ -5,9 +5,17 @@
  * Uses the plugin system to support multiple export formats.
  */
 
-import { AlertTriangle, Check, ClipboardCopy, Download } from "lucide-react";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  Check,
+  ClipboardCopy,
+  Download,
+  FolderPlus,
+  X,
+} from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -15,27 +23,297 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { showError, showSuccess } from "@/lib/error";
+import { hasResultContent } from "../services/archive";
 import { exportPluginManager } from "../services/plugin-manager";
 import type {
   ExporterMeta,
+  ExporterOptionMeta,
   ExportInput,
+  ExportOptions,
   ExportResult,
   ValidationResult,
 } from "../types";
 
+/** Maximum preview length for text formats */
+const MAX_PREVIEW_LENGTH = 2000;
+
+/**
+ * Delay before the preview is regenerated after a change (ms).
+ * Image formats render at full resolution, so quick option toggles are
+ * batched into one render.
+ */
+const PREVIEW_DELAY = 300;
+
+/** Value of an exporter option */
+type OptionValue = ExporterOptionMeta["defaultValue"];
+
+/** Key of an option value in dialog state */
+function getOptionKey(formatId: string, optionId: string): string {
+  return `${formatId}:${optionId}`;
+}
+
+/**
+ * Build export options from the format's option defaults and user choices.
+ */
+function getExportOptions(
+  format: ExporterMeta | undefined,
+  values: Record<string, OptionValue>
+): ExportOptions {
+  return Object.fromEntries(
+    (format?.options ?? []).map((option) => [
+      option.id,
+      values[getOptionKey(format?.id ?? "", option.id)] ?? option.defaultValue,
+    ])
+  );
+}
+
+/**
+ * Group identical validation warnings with their count
+ * (exporters report some warnings once per element).
+ */
+function summarizeWarnings(warnings: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const warning of warnings) {
+    counts.set(warning, (counts.get(warning) ?? 0) + 1);
+  }
+  return [...counts].map(([warning, count]) =>
+    count > 1 ? `${warning} (${count} elements)` : warning
+  );
+}
+
+/**
+ * Format a file size for display (e.g. "12.3 KB").
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * List the files of a multi-file export result.
+ */
+function getFileListText(result: ExportResult): string {
+  const files = result.files ?? [];
+  const lines = files.map((file) => {
+    const size =
+      typeof file.content === "string"
+        ? new TextEncoder().encode(file.content).length
+        : file.content.size;
+    return `${file.path}  (${formatFileSize(size)})`;
+  });
+  return [`${result.filename}: ${files.length} files`, "", ...lines].join("\n");
+}
+
+/**
+ * Get preview text for an export result (truncated).
+ */
+function getPreviewText(result: ExportResult): string {
+  if (result.success && result.files) {
+    return getFileListText(result);
+  }
+  if (!(result.success && result.content)) {
+    return result.error || "Failed to generate preview";
+  }
+  if (result.content.length > MAX_PREVIEW_LENGTH) {
+    return `${result.content.slice(0, MAX_PREVIEW_LENGTH)}...\n\n(truncated)`;
+  }
+  return result.content;
+}
+
+/**
+ * Copy an export result to the clipboard (text or image).
+ */
+async function copyResult(result: ExportResult): Promise<void> {
+  if (result.blob) {
+    await navigator.clipboard.write([
+      new ClipboardItem({ [result.blob.type]: result.blob }),
+    ]);
+    return;
+  }
+  await navigator.clipboard.writeText(result.content ?? "");
+}
+
+interface ExportOptionFieldProps {
+  option: ExporterOptionMeta;
+  value: OptionValue;
+  onChange: (value: OptionValue) => void;
+}
+
+/**
+ * Checkbox or number input for an exporter option.
+ */
+function ExportOptionField({
+  option,
+  value,
+  onChange,
+}: ExportOptionFieldProps) {
+  if (typeof option.defaultValue === "number") {
+    return (
+      <Label className="flex items-center gap-2 font-normal">
+        {option.label}
+        <Input
+          className="h-8 w-20"
+          max={option.max}
+          min={option.min}
+          onChange={(e) => {
+            const next = e.target.valueAsNumber;
+            if (Number.isFinite(next)) {
+              onChange(next);
+            }
+          }}
+          type="number"
+          value={Number(value)}
+        />
+      </Label>
+    );
+  }
+
+  return (
+    <Label className="flex items-center gap-2 font-normal">
+      <Checkbox
+        checked={value === true}
+        onCheckedChange={(checked) => onChange(checked === true)}
+      />
+      {option.label}
+    </Label>
+  );
+}
+
+/**
+ * Loads other projects for batch exports (injected by the app layer).
+ */
+export interface ExportBatchSource {
+  /** Accept pattern for project files */
+  accept: string;
+  /** Load project files as export inputs */
+  load: (files: File[]) => Promise<ExportInput[]>;
+  /** Release the images of loaded inputs that are no longer used */
+  release: (inputs: ExportInput[]) => void;
+}
+
+interface BatchProjectsFieldProps {
+  source: ExportBatchSource;
+  inputs: ExportInput[];
+  onChange: (inputs: ExportInput[]) => void;
+  onClear: () => void;
+}
+
+/**
+ * Adds other projects to a batch export (e.g. one training dataset).
+ */
+function BatchProjectsField({
+  source,
+  inputs,
+  onChange,
+  onClear,
+}: BatchProjectsFieldProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: File[]) => {
+    try {
+      onChange([...inputs, ...(await source.load(files))]);
+    } catch (err) {
+      showError(
+        "Failed to add projects",
+        err instanceof Error ? err.message : "Unknown error"
+      );
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="min-w-0 flex-1 truncate text-muted-foreground">
+        {inputs.length > 0
+          ? `Current project + ${inputs.map((i) => i.name).join(", ")}`
+          : "Current project only"}
+      </span>
+      {inputs.length > 0 && (
+        <Button
+          aria-label="Remove added projects"
+          className="h-8 w-8"
+          onClick={onClear}
+          size="icon"
+          variant="ghost"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        size="sm"
+        variant="outline"
+      >
+        <FolderPlus className="mr-2 h-4 w-4" />
+        Add Projects
+      </Button>
+      <input
+        accept={source.accept}
+        className="hidden"
+        multiple
+        onChange={(e) => {
+          handleFiles(Array.from(e.target.files ?? []));
+          e.target.value = "";
+        }}
+        ref={fileInputRef}
+        type="file"
+      />
+    </div>
+  );
+}
+
 export interface ExportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   input: ExportInput | null;
+  /** Enables adding other projects to batch-capable formats */
+  batchSource?: ExportBatchSource;
 }
 
-export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
+export function ExportDialog({
+  open,
+  onOpenChange,
+  input: sourceInput,
+  batchSource,
+}: ExportDialogProps) {
   const [copiedFormat, setCopiedFormat] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("prompt");
   const [previewContent, setPreviewContent] = useState<string>("");
-  const [warningCount, setWarningCount] = useState(0);
+  const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [optionValues, setOptionValues] = useState<Record<string, OptionValue>>(
+    {}
+  );
+  const [batchInputs, setBatchInputs] = useState<ExportInput[]>([]);
+  const [includeComments, setIncludeComments] = useState(false);
+
+  // Review comments are left out unless explicitly included
+  const input = useMemo(
+    () => sourceInput && { ...sourceInput, includeComments },
+    [sourceInput, includeComments]
+  );
+  const hasComments =
+    sourceInput?.screens.some((s) => (s.comments?.length ?? 0) > 0) ?? false;
+
+  // Added projects are kept until cleared or the dialog closes
+  const clearBatchInputs = useCallback(() => {
+    batchSource?.release(batchInputs);
+    setBatchInputs([]);
+  }, [batchSource, batchInputs]);
+
+  useEffect(() => {
+    if (!open && batchInputs.length > 0) {
+      clearBatchInputs();
+    }
+  }, [open, batchInputs, clearBatchInputs]);
 
   // Get available formats from plugin system
   const formats = useMemo<ExporterMeta[]>(
@@ -43,10 +321,48 @@ export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
     []
   );
 
+  const getOptions = useCallback(
+    (formatId: string) =>
+      getExportOptions(
+        formats.find((f) => f.id === formatId),
+        optionValues
+      ),
+    [formats, optionValues]
+  );
+
+  // Other projects are included only by formats that support batching
+  const getBatchInputs = useCallback(
+    (formatId: string) =>
+      input &&
+      batchInputs.length > 0 &&
+      exportPluginManager.supportsBatch(formatId)
+        ? [input, ...batchInputs.map((i) => ({ ...i, includeComments }))]
+        : null,
+    [input, batchInputs, includeComments]
+  );
+
+  const runExport = useCallback(
+    (formatId: string, exportInput: ExportInput) => {
+      const inputs = getBatchInputs(formatId);
+      return inputs
+        ? exportPluginManager.exportBatch(
+            formatId,
+            inputs,
+            getOptions(formatId)
+          )
+        : exportPluginManager.export(
+            formatId,
+            exportInput,
+            getOptions(formatId)
+          );
+    },
+    [getBatchInputs, getOptions]
+  );
+
   // Check for validation warnings
   useEffect(() => {
     if (!input) {
-      setWarningCount(0);
+      setWarnings([]);
       return;
     }
 
@@ -54,44 +370,51 @@ export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
       activeTab,
       input
     );
-    setWarningCount(validation.invalidElementIds.length);
+    setWarnings(summarizeWarnings(validation.warnings));
   }, [activeTab, input]);
 
-  // Update preview when tab changes or input changes
+  // Update preview when tab, options, or input changes
   useEffect(() => {
+    setPreviewImageUrl(null);
     if (!input) {
       setPreviewContent("");
       return;
     }
 
     let cancelled = false;
+    let imageUrl: string | null = null;
 
-    exportPluginManager
-      .export(activeTab, input)
-      .then((result: ExportResult) => {
-        if (cancelled) {
-          return;
-        }
+    const timeoutId = setTimeout(() => {
+      runExport(activeTab, input)
+        .then((result: ExportResult) => {
+          if (cancelled) {
+            return;
+          }
 
-        if (result.success && result.content) {
-          // Limit preview length
-          const maxLength = 2000;
-          if (result.content.length > maxLength) {
+          if (result.success && result.blob?.type.startsWith("image/")) {
+            imageUrl = URL.createObjectURL(result.blob);
+            setPreviewImageUrl(imageUrl);
+          } else {
+            setPreviewContent(getPreviewText(result));
+          }
+        })
+        .catch((error: unknown) => {
+          if (!cancelled) {
             setPreviewContent(
-              `${result.content.slice(0, maxLength)}...\n\n(truncated)`
+              `Failed to generate preview: ${error instanceof Error ? error.message : "Unknown error"}`
             );
-          } else {
-            setPreviewContent(result.content);
           }
-        } else {
-          setPreviewContent(result.error || "Failed to generate preview");
-        }
-      });
+        });
+    }, PREVIEW_DELAY);
 
     return () => {
       cancelled = true;
+      clearTimeout(timeoutId);
+      if (imageUrl) {
+        URL.revokeObjectURL(imageUrl);
+      }
     };
-  }, [activeTab, input]);
+  }, [activeTab, input, runExport]);
 
   const handleCopy = useCallback(
     async (formatId: string) => {
@@ -100,16 +423,17 @@ export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
       }
 
       try {
-        const result: ExportResult = await exportPluginManager.export(
-          formatId,
-          input
-        );
-        if (!(result.success && result.content)) {
+        const result: ExportResult = await runExport(formatId, input);
+        if (!hasResultContent(result)) {
           showError("Export failed", result.error || "Unknown error");
           return;
         }
+        if (result.files) {
+          showError("Copy failed", "Multi-file exports can only be downloaded");
+          return;
+        }
 
-        await navigator.clipboard.writeText(result.content);
+        await copyResult(result);
         setCopiedFormat(formatId);
         setTimeout(() => setCopiedFormat(null), 2000);
 
@@ -122,7 +446,7 @@ export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
         showError("Copy failed", "Could not access clipboard");
       }
     },
-    [input, formats]
+    [input, formats, runExport]
   );
 
   const handleDownload = useCallback(
@@ -132,7 +456,18 @@ export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
       }
 
       try {
-        await exportPluginManager.download(formatId, input);
+        const inputs = getBatchInputs(formatId);
+        await (inputs
+          ? exportPluginManager.downloadBatch(
+              formatId,
+              inputs,
+              getOptions(formatId)
+            )
+          : exportPluginManager.download(
+              formatId,
+              input,
+              getOptions(formatId)
+            ));
         const format = formats.find((f: ExporterMeta) => f.id === formatId);
         showSuccess("Download started", format?.name || formatId);
       } catch (err) {
@@ -142,7 +477,7 @@ export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
         );
       }
     },
-    [input, formats]
+    [input, formats, getBatchInputs, getOptions]
   );
 
   if (!input) {
@@ -161,10 +496,22 @@ export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
           </DialogDescription>
         </DialogHeader>
 
+        {hasComments && (
+          <Label className="mt-2 flex items-center gap-2 font-normal">
+            <Checkbox
+              checked={includeComments}
+              onCheckedChange={(checked) =>
+                setIncludeComments(checked === true)
+              }
+            />
+            Include review comments
+          </Label>
+        )}
+
         <Tabs className="mt-4" onValueChange={setActiveTab} value={activeTab}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="h-auto w-full flex-wrap">
             {formats.map((format) => (
-              <TabsTrigger key={format.id} value={format.id}>
+              <TabsTrigger className="flex-1" key={format.id} value={format.id}>
                 {format.name}
               </TabsTrigger>
             ))}
@@ -176,19 +523,58 @@ export function ExportDialog({ open, onOpenChange, input }: ExportDialogProps) {
                 <p className="text-muted-foreground text-sm">
                   {format.description}
                 </p>
-                {warningCount > 0 && (
-                  <div className="flex items-center gap-2 rounded-md border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-amber-600 text-sm dark:text-amber-400">
-                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
-                    <span>
-                      {warningCount} element{warningCount > 1 ? "s" : ""}{" "}
-                      missing label
-                    </span>
+                {batchSource &&
+                  exportPluginManager.supportsBatch(format.id) && (
+                    <BatchProjectsField
+                      inputs={batchInputs}
+                      onChange={setBatchInputs}
+                      onClear={clearBatchInputs}
+                      source={batchSource}
+                    />
+                  )}
+                {format.options && (
+                  <div className="flex flex-wrap gap-4">
+                    {format.options.map((option) => {
+                      const key = getOptionKey(format.id, option.id);
+                      return (
+                        <ExportOptionField
+                          key={option.id}
+                          onChange={(value) =>
+                            setOptionValues((prev) => ({
+                              ...prev,
+                              [key]: value,
+                            }))
+                          }
+                          option={option}
+                          value={optionValues[key] ?? option.defaultValue}
+                        />
+                      );
+                    })}
+                  </div>
+                )}
+                {warnings.length > 0 && (
+                  <div className="flex items-start gap-2 rounded-md border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-amber-600 text-sm dark:text-amber-400">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                    <ul className="space-y-0.5">
+                      {warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
                   </div>
                 )}
                 <div className="max-h-[300px] overflow-auto rounded-md border bg-muted/50 p-4">
-                  <pre className="w-0 min-w-full whitespace-pre-wrap break-words text-xs">
-                    {previewContent}
-                  </pre>
+                  {previewImageUrl ? (
+                    // biome-ignore lint/correctness/useImageSize: Preview size is unknown until rendered; constrained by max-w-full
+                    <img
+                      alt="Export preview"
+                      className="mx-auto h-auto max-w-full"
+                      src={previewImageUrl}
+                    />
+                  ) : (
+                    <pre className="w-0 min-w-full whitespace-pre-wrap break-words text-xs">
+                      {previewContent}
+                    </pre>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   {format.supportsClipboard !== false && (
@@ -2,17 +2,29 @@
  * Export Feature
  *
  * Provides export functionality for annotation data.
- * Supports multiple formats: Prompt, JSON.
+ * Supports multiple formats: Prompt, JSON, React, HTML, PNG, Crops, COCO, YOLO.
  */
 
+import { cocoExporter } from "./plugins/coco-exporter";
+import { cropExporter } from "./plugins/crop-exporter";
+import { htmlExporter } from "./plugins/html-exporter";
 import { jsonExporter } from "./plugins/json-exporter";
+import { pngExporter } from "./plugins/png-exporter";
 import { promptExporter } from "./plugins/prompt-exporter";
+import { reactExporter } from "./plugins/react-exporter";
+import { yoloExporter } from "./plugins/yolo-exporter";
 import { exportPluginManager } from "./services/plugin-manager";
 import type { ExportInput, ExportOptions } from "./types";
 
 // Register built-in plugins
 exportPluginManager.register(promptExporter);
 exportPluginManager.register(jsonExporter);
+exportPluginManager.register(reactExporter);
+exportPluginManager.register(htmlExporter);
+exportPluginManager.register(pngExporter);
+exportPluginManager.register(cropExporter);
+exportPluginManager.register(cocoExporter);
+exportPluginManager.register(yoloExporter);
 
 // ============================================
 // Public API
@@ -29,5 +41,8 @@ export function downloadData(
   return exportPluginManager.download(formatId, input, options);
 }
 
-export { ExportDialog } from "./components/export-dialog";
-export type { ExportInput } from "./types";
+export {
+  type ExportBatchSource,
+  ExportDialog,
+} from "./components/export-dialog";
+export type { ExportInput, ImageRenderOptions } from "./types";
@@ -0,0 +1,160 @@
+import { clipToImage } from "@/lib/geometry";
+import {
+  collectDatasetImages,
+  getDatasetCategories,
+  getDatasetElements,
+  getDatasetName,
+  getElementOutline,
+  validateDataset,
+} from "../services/dataset";
+import type {
+  ExportBatchItem,
+  ExportContext,
+  ExportData,
+  ExporterMeta,
+  ExporterPlugin,
+  ExportOptions,
+  ExportResult,
+  ValidationResult,
+} from "../types";
+
+/**
+ * Area of a polygon (shoelace formula).
+ */
+function getPolygonArea(points: { x: number; y: number }[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Build a COCO object detection dataset.
+ * Category ids start at 1; bboxes are `[x, y, width, height]` in pixels.
+ * Ellipses and polygons also get a polygon segmentation. Boxes and
+ * segmentations are clipped to the image.
+ */
+async function buildCocoDataset(items: ExportBatchItem[]) {
+  const categories = getDatasetCategories(items);
+  const categoryIds = new Map(categories.map((name, i) => [name, i + 1]));
+  const images = await collectDatasetImages(items);
+
+  const annotations = images.flatMap((image, imageIndex) =>
+    getDatasetElements(image.screen).map((element) => {
+      const { x, y, w, h } = clipToImage(element.bounds, image.screen.size);
+      const outline = getElementOutline(element, image.screen.size);
+      return {
+        image_id: imageIndex + 1,
+        category_id: categoryIds.get(element.component?.name ?? "") ?? 0,
+        bbox: [x, y, w, h],
+        area: outline ? getPolygonArea(outline) : w * h,
+        iscrowd: 0,
+        segmentation: outline
+          ? [outline.flatMap((p) => [Math.round(p.x), Math.round(p.y)])]
+          : [],
+      };
+    })
+  );
+
+  const dataset = {
+    info: {
+      description: items.map(({ data }) => data.project.name).join(", "),
+      date_created: new Date().toISOString(),
+    },
+    images: images.map((image, index) => ({
+      id: index + 1,
+      file_name: image.fileName,
+      width: image.screen.size.w,
+      height: image.screen.size.h,
+    })),
+    annotations: annotations.map((annotation, index) => ({
+      id: index + 1,
+      ...annotation,
+    })),
+    categories: categories.map((name, index) => ({
+      id: index + 1,
+      name,
+      supercategory: "component",
+    })),
+  };
+
+  return { dataset, images };
+}
+
+/**
+ * Export projects as a COCO dataset archive.
+ */
+async function exportCoco(
+  items: ExportBatchItem[],
+  options?: ExportOptions
+): Promise<ExportResult> {
+  try {
+    const { dataset, images } = await buildCocoDataset(items);
+    const filename = options?.filename ?? getDatasetName(items);
+
+    return {
+      success: true,
+      files: [
+        {
+          path: "annotations.json",
+          content: JSON.stringify(dataset, null, 2),
+        },
+        ...images.map((image) => ({
+          path: `images/${image.fileName}`,
+          content: image.content,
+        })),
+      ],
+      filename: `${filename}.zip`,
+      mimeType: "application/zip",
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      filename: "error.zip",
+      mimeType: "application/zip",
+    };
+  }
+}
+
+/**
+ * COCO Exporter Plugin.
+ * Exports component annotations as a COCO dataset (annotations.json + images)
+ * for training UI element detectors. Supports batching several projects.
+ */
+export const cocoExporter: ExporterPlugin = {
+  meta: {
+    id: "coco",
+    name: "COCO",
+    description: "COCO detection dataset with components as categories (ZIP)",
+    fileExtension: "zip",
+    mimeType: "application/zip",
+    supportsClipboard: false,
+    supportsDownload: true,
+  } satisfies ExporterMeta,
+
+  validate(data: ExportData): ValidationResult {
+    return validateDataset(data);
+  },
+
+  export(
+    data: ExportData,
+    options?: ExportOptions,
+    context?: ExportContext
+  ): Promise<ExportResult> {
+    return exportCoco(
+      [{ data, context: context ?? { screens: [], activeScreenIndex: 0 } }],
+      options
+    );
+  },
+
+  exportBatch(
+    items: ExportBatchItem[],
+    options?: ExportOptions
+  ): Promise<ExportResult> {
+    return exportCoco(items, options);
+  },
+};
@@ -0,0 +1,166 @@
+import { loadImageFromUrl } from "@/lib/image";
+import { flattenExportElements } from "../services/converter";
+import { cropImage, getCropFileNames, getCropRegion } from "../services/crops";
+import { formatComponent } from "../services/formatters";
+import type {
+  ExportContext,
+  ExportData,
+  ExporterMeta,
+  ExporterPlugin,
+  ExportFile,
+  ExportOptions,
+  ExportResult,
+  ValidationResult,
+} from "../types";
+
+/** Default padding around each crop in pixels */
+const DEFAULT_PADDING = 8;
+
+/**
+ * Manifest entry describing one crop.
+ */
+interface CropManifestEntry {
+  file: string;
+  screen: string;
+  elementId: string;
+  label: string;
+  component?: string;
+  /** Element bounds in screen pixels */
+  bounds: { x: number; y: number; w: number; h: number };
+  /** Cropped region in screen pixels (bounds plus padding) */
+  region: { x: number; y: number; w: number; h: number };
+}
+
+/**
+ * Read the padding option (non-negative pixels).
+ */
+function getPadding(options?: ExportOptions): number {
+  const padding = Number(options?.padding ?? DEFAULT_PADDING);
+  return Number.isFinite(padding) ? Math.max(0, Math.round(padding)) : 0;
+}
+
+/**
+ * Crop every element of a screen and add manifest entries.
+ */
+async function cropScreen(
+  screen: ExportData["screens"][number],
+  imageUrl: string,
+  padding: number,
+  fileNames: Map<string, string>,
+  manifest: CropManifestEntry[]
+): Promise<ExportFile[]> {
+  const image = await loadImageFromUrl(imageUrl);
+  const files: ExportFile[] = [];
+  for (const element of flattenExportElements(screen.elements)) {
+    const file = fileNames.get(element.id);
+    if (!file) {
+      continue;
+    }
+    const region = getCropRegion(element.bounds, padding, screen.size);
+    files.push({ path: file, content: await cropImage(image, region) });
+    manifest.push({
+      file,
+      screen: screen.name,
+      elementId: element.id,
+      label: element.label,
+      ...(element.component && {
+        component: formatComponent(element.component),
+      }),
+      bounds: element.bounds,
+      region,
+    });
+  }
+  return files;
+}
+
+/**
+ * Crop Exporter Plugin.
+ * Exports each annotated element as its own image with a manifest,
+ * for feeding large screens to vision models region by region.
+ */
+export const cropExporter: ExporterPlugin = {
+  meta: {
+    id: "crops",
+    name: "Crops",
+    description: "One image per element with a manifest (ZIP)",
+    fileExtension: "zip",
+    mimeType: "application/zip",
+    supportsClipboard: false,
+    supportsDownload: true,
+    options: [
+      {
+        id: "padding",
+        label: "Padding (px)",
+        defaultValue: DEFAULT_PADDING,
+        min: 0,
+        max: 200,
+      },
+    ],
+  } satisfies ExporterMeta,
+
+  validate(data: ExportData): ValidationResult {
+    const warnings: string[] = [];
+
+    const elements = data.screens.flatMap((screen) =>
+      flattenExportElements(screen.elements)
+    );
+
+    if (elements.length === 0) {
+      warnings.push("No annotations to export");
+    }
+
+    return {
+      isValid: true,
+      invalidElementIds: [],
+      errors: [],
+      warnings,
+    };
+  },
+
+  async export(
+    data: ExportData,
+    options?: ExportOptions,
+    context?: ExportContext
+  ): Promise<ExportResult> {
+    try {
+      const padding = getPadding(options);
+      const fileNames = getCropFileNames(data);
+      const manifest: CropManifestEntry[] = [];
+      const files: ExportFile[] = [];
+
+      for (const [index, screen] of data.screens.entries()) {
+        const imageUrl = context?.screens[index]?.imageUrl;
+        if (!imageUrl) {
+          throw new Error(`Image for "${screen.name}" is not available`);
+        }
+        files.push(
+          ...(await cropScreen(screen, imageUrl, padding, fileNames, manifest))
+        );
+      }
+
+      files.unshift({
+        path: "manifest.json",
+        content: JSON.stringify(
+          { project: data.project.name, padding, crops: manifest },
+          null,
+          2
+        ),
+      });
+      const filename = options?.filename ?? `${data.project.name}-crops`;
+
+      return {
+        success: true,
+        files,
+        filename: `${filename}.zip`,
+        mimeType: this.meta.mimeType,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        filename: "error.zip",
+        mimeType: this.meta.mimeType,
+      };
+    }
+  },
+};
@@ -0,0 +1,425 @@
+import { flattenExportElements } from "../services/converter";
+import { formatComponent } from "../services/formatters";
+import type {
+  ExportContext,
+  ExportData,
+  ExportElement,
+  ExporterMeta,
+  ExporterPlugin,
+  ExportOptions,
+  ExportResult,
+  ExportScreen,
+  ExportScreenAssets,
+  ValidationResult,
+} from "../types";
+
+/** Box color for elements without a color (Tailwind blue-500) */
+const DEFAULT_COLOR = "rgb(59, 130, 246)";
+
+/** Indentation per tree level in the sidebar (matches the layer panel) */
+const INDENT_WIDTH = 12;
+
+/** Characters escaped in HTML text and attributes */
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/** Matches characters that must be escaped in HTML */
+const HTML_ESCAPE_REGEX = /[&<>"']/g;
+
+/**
+ * Element details shown in the tooltip and details panel.
+ */
+interface ElementDetails {
+  label: string;
+  component?: string;
+  notes?: string;
+  bounds: string;
+}
+
+// ============================================
+// HTML Helpers
+// ============================================
+
+/** Escape text for use in HTML content and attributes */
+function escapeHtml(text: string): string {
+  return text.replace(HTML_ESCAPE_REGEX, (char) => HTML_ESCAPES[char]);
+}
+
+/** Format a number as a CSS percentage */
+function toPercent(value: number): string {
+  return `${(value * 100).toFixed(4)}%`;
+}
+
+/**
+ * Serialize data for an inline JSON script.
+ * `<` is escaped so the content cannot close the script tag.
+ */
+function toInlineJson(value: unknown): string {
+  return JSON.stringify(value).replaceAll("<", "\\u003c");
+}
+
+/**
+ * Flatten elements like the layer panel (front to back, parent above children).
+ */
+function flattenForSidebar(
+  elements: ExportElement[],
+  depth = 0
+): { element: ExportElement; depth: number }[] {
+  return [...elements]
+    .reverse()
+    .flatMap((element) => [
+      { element, depth },
+      ...flattenForSidebar(element.children ?? [], depth + 1),
+    ]);
+}
+
+/** Collect tooltip/details content for all elements */
+function collectDetails(data: ExportData): Record<string, ElementDetails> {
+  const details: Record<string, ElementDetails> = {};
+  for (const screen of data.screens) {
+    for (const element of flattenExportElements(screen.elements)) {
+      const { x, y, w, h } = element.bounds;
+      details[element.id] = {
+        label: element.label,
+        ...(element.component && {
+          component: formatComponent(element.component),
+        }),
+        ...(element.notes && { notes: element.notes }),
+        bounds: `x=${x}, y=${y}, w=${w}, h=${h}`,
+      };
+    }
+  }
+  return details;
+}
+
+// ============================================
+// Section Builders
+// ============================================
+
+/** Build the screen tabs (only for multi-screen projects) */
+function buildScreenTabs(screens: ExportScreen[]): string[] {
+  if (screens.length < 2) {
+    return [];
+  }
+  return [
+    '<nav class="tabs">',
+    ...screens.map(
+      (screen, index) =>
+        `<button type="button" class="tab${index === 0 ? " active" : ""}" data-screen="${index}">${escapeHtml(screen.name)}</button>`
+    ),
+    "</nav>",
+  ];
+}
+
+/** Build the layer list of a screen */
+function buildLayerList(
+  screen: ExportScreen,
+  index: number,
+  assets: ExportScreenAssets | undefined
+): string[] {
+  const items = flattenForSidebar(screen.elements).map(({ element, depth }) => {
+    const color = assets?.elementColors[element.id] ?? DEFAULT_COLOR;
+    const component = element.component
+      ? `<span class="component">${escapeHtml(element.component.name)}</span>`
+      : "";
+    return `<li class="layer" data-id="${escapeHtml(element.id)}" style="padding-left: ${8 + depth * INDENT_WIDTH}px"><span class="swatch" style="background: ${color}"></span><span class="name">${escapeHtml(element.label)}</span>${component}</li>`;
+  });
+  return [
+    `<ul class="layers${index === 0 ? " active" : ""}" data-screen="${index}">`,
+    ...(items.length > 0 ? items : ['<li class="empty">No elements</li>']),
+    "</ul>",
+  ];
+}
+
+/** Build the annotated image of a screen */
+function buildScreenView(
+  screen: ExportScreen,
+  index: number,
+  assets: ExportScreenAssets | undefined
+): string[] {
+  // Parents before children so children are drawn on top
+  const boxes = flattenExportElements(screen.elements).map((element) => {
+    const { x, y, w, h } = element.boundsNorm;
+    const color = assets?.elementColors[element.id] ?? DEFAULT_COLOR;
+    return `<div class="box" data-id="${escapeHtml(element.id)}" style="left: ${toPercent(x)}; top: ${toPercent(y)}; width: ${toPercent(w)}; height: ${toPercent(h)}; --color: ${color}"><span class="box-label">${escapeHtml(element.label)}</span></div>`;
+  });
+
+  const image = assets?.imageUrl
+    ? `<img src="${escapeHtml(assets.imageUrl)}" alt="${escapeHtml(screen.name)}">`
+    : `<div class="placeholder" style="aspect-ratio: ${screen.size.w} / ${screen.size.h}">${escapeHtml(screen.sourceFileName)}</div>`;
+
+  return [
+    `<section class="screen${index === 0 ? " active" : ""}" data-screen="${index}">`,
+    `<h2>${escapeHtml(screen.name)} <small>${escapeHtml(screen.sourceFileName)} · ${screen.size.w} x ${screen.size.h} px</small></h2>`,
+    `<div class="stage" style="max-width: ${screen.size.w}px">`,
+    image,
+    ...boxes,
+    "</div>",
+    "</section>",
+  ];
+}
+
+// ============================================
+// Page Template
+// ============================================
+
+const STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; display: flex; height: 100vh; font: 13px/1.4 system-ui, sans-serif; color: #171717; background: #f5f5f5; }
+.sidebar { display: flex; flex-direction: column; flex-shrink: 0; width: 280px; border-right: 1px solid #e5e5e5; background: #fff; }
+.sidebar header { padding: 12px 16px; border-bottom: 1px solid #e5e5e5; }
+h1 { margin: 0; font-size: 15px; }
+.description { margin: 4px 0 0; color: #737373; }
+.tabs { display: flex; flex-wrap: wrap; gap: 4px; padding: 8px; border-bottom: 1px solid #e5e5e5; }
+.tab { padding: 2px 8px; border: 1px solid #e5e5e5; border-radius: 6px; background: #fff; font: inherit; cursor: pointer; }
+.tab.active { border-color: #171717; background: #171717; color: #fff; }
+.layers { display: none; flex: 1; overflow: auto; margin: 0; padding: 4px 0; list-style: none; }
+.layers.active { display: block; }
+.layer { display: flex; align-items: center; gap: 6px; padding: 4px 8px; cursor: pointer; }
+.layer:hover { background: #f5f5f5; }
+.layer.selected { background: #e5e5e5; }
+.empty { padding: 8px 16px; color: #737373; }
+.swatch { flex-shrink: 0; width: 10px; height: 10px; border-radius: 2px; }
+.name { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.component { color: #737373; font-size: 11px; }
+.details { max-height: 40%; min-height: 96px; overflow: auto; padding: 12px 16px; border-top: 1px solid #e5e5e5; color: #737373; }
+.details strong, .tooltip strong { display: block; margin-bottom: 4px; color: inherit; }
+.details.filled { color: #171717; }
+.field { display: grid; grid-template-columns: 72px 1fr; gap: 8px; white-space: pre-wrap; word-break: break-word; }
+.field span:first-child { color: #a3a3a3; }
+main { flex: 1; overflow: auto; padding: 24px; }
+.screen { display: none; }
+.screen.active { display: block; }
+h2 { margin: 0 0 28px; font-size: 14px; }
+h2 small { color: #737373; font-weight: normal; }
+.stage { position: relative; margin: 0 auto; }
+.stage img { display: block; width: 100%; height: auto; }
+.placeholder { display: flex; align-items: center; justify-content: center; width: 100%; border: 1px dashed #a3a3a3; color: #737373; }
+.box { position: absolute; border: 2px solid var(--color); background: color-mix(in srgb, var(--color) 8%, transparent); cursor: pointer; }
+.box:hover, .box.selected { background: color-mix(in srgb, var(--color) 24%, transparent); }
+.box.selected { outline: 2px solid #171717; outline-offset: 1px; }
+.box-label { position: absolute; bottom: 100%; left: -2px; max-width: 240px; overflow: hidden; padding: 0 4px; background: var(--color); color: #fff; font-size: 11px; text-overflow: ellipsis; white-space: nowrap; }
+.tooltip { position: fixed; z-index: 10; max-width: 320px; padding: 8px 10px; border-radius: 6px; background: #171717; color: #fff; pointer-events: none; }
+.tooltip .field span:first-child { color: #a3a3a3; }
+`;
+
+const SCRIPT = `
+(() => {
+  const details = JSON.parse(document.getElementById("element-details").textContent);
+  const tooltip = document.getElementById("tooltip");
+  const panel = document.getElementById("details");
+
+  const fill = (target, info) => {
+    const title = document.createElement("strong");
+    title.textContent = info.label;
+    target.replaceChildren(title);
+    for (const [name, value] of [["Component", info.component], ["Notes", info.notes], ["Bounds", info.bounds]]) {
+      if (!value) continue;
+      const row = document.createElement("div");
+      row.className = "field";
+      const key = document.createElement("span");
+      key.textContent = name;
+      const text = document.createElement(name === "Component" ? "code" : "span");
+      text.textContent = value;
+      row.append(key, text);
+      target.append(row);
+    }
+  };
+
+  const select = (id) => {
+    for (const node of document.querySelectorAll("[data-id]")) {
+      node.classList.toggle("selected", node.dataset.id === id);
+    }
+    panel.classList.toggle("filled", !!id);
+    if (id) {
+      fill(panel, details[id]);
+      document.querySelector('.layer[data-id="' + CSS.escape(id) + '"]')?.scrollIntoView({ block: "nearest" });
+      document.querySelector('.box[data-id="' + CSS.escape(id) + '"]')?.scrollIntoView({ block: "nearest", inline: "nearest" });
+    } else {
+      panel.textContent = "Click an element to see its details.";
+    }
+  };
+
+  const showScreen = (index) => {
+    for (const node of document.querySelectorAll("[data-screen]")) {
+      node.classList.toggle("active", node.dataset.screen === index);
+    }
+    select(null);
+  };
+
+  for (const box of document.querySelectorAll(".box")) {
+    box.addEventListener("mouseenter", () => {
+      fill(tooltip, details[box.dataset.id]);
+      tooltip.hidden = false;
+    });
+    box.addEventListener("mousemove", (e) => {
+      tooltip.style.left = Math.min(e.clientX + 12, innerWidth - tooltip.offsetWidth - 8) + "px";
+      tooltip.style.top = Math.min(e.clientY + 12, innerHeight - tooltip.offsetHeight - 8) + "px";
+    });
+    box.addEventListener("mouseleave", () => {
+      tooltip.hidden = true;
+    });
+    box.addEventListener("click", (e) => {
+      e.stopPropagation();
+      select(box.dataset.id);
+    });
+  }
+  for (const layer of document.querySelectorAll(".layer")) {
+    layer.addEventListener("click", () => select(layer.dataset.id));
+  }
+  for (const tab of document.querySelectorAll(".tab")) {
+    tab.addEventListener("click", () => showScreen(tab.dataset.screen));
+  }
+  document.querySelector("main").addEventListener("click", () => select(null));
+  select(null);
+})();
+`;
+
+/**
+ * Format export data as a self-contained HTML review page.
+ */
+function formatAsHtml(data: ExportData, context?: ExportContext): string {
+  const description = data.project.description
+    ? `<p class="description">${escapeHtml(data.project.description)}</p>`
+    : "";
+
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(data.project.name)}</title>`,
+    `<style>${STYLES}</style>`,
+    "</head>",
+    "<body>",
+    '<aside class="sidebar">',
+    `<header><h1>${escapeHtml(data.project.name)}</h1>${description}</header>`,
+    ...buildScreenTabs(data.screens),
+    ...data.screens.flatMap((screen, index) =>
+      buildLayerList(screen, index, context?.screens[index])
+    ),
+    '<section class="details" id="details"></section>',
+    "</aside>",
+    "<main>",
+    ...data.screens.flatMap((screen, index) =>
+      buildScreenView(screen, index, context?.screens[index])
+    ),
+    "</main>",
+    '<div class="tooltip" id="tooltip" hidden></div>',
+    `<script type="application/json" id="element-details">${toInlineJson(collectDetails(data))}</script>`,
+    `<script>${SCRIPT}</script>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Read an image as a data URL.
+ */
+async function toDataUrl(url: string): Promise<string> {
+  if (url.startsWith("data:")) {
+    return url;
+  }
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read screenshot"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Replace screenshot URLs with data URLs so the page is self-contained.
+ */
+async function embedScreenshots(
+  context: ExportContext | undefined
+): Promise<ExportContext | undefined> {
+  if (!context) {
+    return context;
+  }
+  const screens: ExportScreenAssets[] = [];
+  for (const assets of context.screens) {
+    screens.push({
+      ...assets,
+      ...(assets.imageUrl && { imageUrl: await toDataUrl(assets.imageUrl) }),
+    });
+  }
+  return { ...context, screens };
+}
+
+/**
+ * HTML Exporter Plugin.
+ * Exports a single HTML file with the screenshots and clickable annotated regions.
+ */
+export const htmlExporter: ExporterPlugin = {
+  meta: {
+    id: "html",
+    name: "HTML",
+    description:
+      "Self-contained review page with screenshots and clickable regions",
+    fileExtension: "html",
+    mimeType: "text/html",
+    supportsClipboard: false,
+    supportsDownload: true,
+  } satisfies ExporterMeta,
+
+  validate(data: ExportData): ValidationResult {
+    const warnings: string[] = [];
+    const invalidElementIds: string[] = [];
+
+    const elements = data.screens.flatMap((screen) =>
+      flattenExportElements(screen.elements)
+    );
+
+    if (elements.length === 0) {
+      warnings.push("No annotations to export");
+    }
+
+    for (const element of elements) {
+      if (!element.label || element.label.trim() === "") {
+        invalidElementIds.push(element.id);
+        warnings.push("Element is missing a label");
+      }
+    }
+
+    return {
+      isValid: true, // Labels are optional - always valid
+      invalidElementIds,
+      errors: [],
+      warnings,
+    };
+  },
+
+  async export(
+    data: ExportData,
+    options?: ExportOptions,
+    context?: ExportContext
+  ): Promise<ExportResult> {
+    try {
+      const content = formatAsHtml(data, await embedScreenshots(context));
+      const filename = options?.filename ?? `${data.project.name}-review`;
+
+      return {
+        success: true,
+        content,
+        filename: `${filename}.html`,
+        mimeType: this.meta.mimeType,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        filename: "error.html",
+        mimeType: this.meta.mimeType,
+      };
+    }
+  },
+};
@@ -1,3 +1,4 @@
+import { flattenExportElements } from "../services/converter";
 import type {
   ExportData,
   ExporterMeta,
@@ -7,9 +8,6 @@ import type {
   ValidationResult,
 } from "../types";
 
-/** Regex to remove file extension */
-const FILE_EXTENSION_REGEX = /\.[^.]+$/;
-
 /**
  * JSON Exporter Plugin.
  * Exports annotation data in the standard ExportData JSON format.
@@ -29,11 +27,15 @@ export const jsonExporter: ExporterPlugin = {
     const warnings: string[] = [];
     const invalidElementIds: string[] = [];
 
-    if (data.elements.length === 0) {
+    const elements = data.screens.flatMap((screen) =>
+      flattenExportElements(screen.elements)
+    );
+
+    if (elements.length === 0) {
       warnings.push("No annotations to export");
     }
 
-    for (const element of data.elements) {
+    for (const element of elements) {
       if (!element.label || element.label.trim() === "") {
         invalidElementIds.push(element.id);
         warnings.push("Element is missing a label");
@@ -55,11 +57,7 @@ export const jsonExporter: ExporterPlugin = {
         ? JSON.stringify(data, null, 2)
         : JSON.stringify(data);
 
-      const baseName = data.screen.sourceFileName.replace(
-        FILE_EXTENSION_REGEX,
-        ""
-      );
-      const filename = options?.filename ?? `${baseName}-annotations`;
+      const filename = options?.filename ?? `${data.project.name}-annotations`;
 
       return {
         success: true,
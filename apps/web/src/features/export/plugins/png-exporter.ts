@@ -0,0 +1,136 @@
+import { toArchiveName } from "../services/archive";
+import { flattenExportElements } from "../services/converter";
+import type {
+  ExportContext,
+  ExportData,
+  ExporterMeta,
+  ExporterPlugin,
+  ExportFile,
+  ExportOptions,
+  ExportResult,
+  ImageRenderer,
+  ImageRenderOptions,
+  ValidationResult,
+} from "../types";
+
+/**
+ * Read render options from export options (dialog checkboxes).
+ */
+function getRenderOptions(options?: ExportOptions): ImageRenderOptions {
+  return {
+    showLabels: options?.showLabels !== false,
+    showNumbers: options?.showNumbers === true,
+    useColors: options?.useColors !== false,
+  };
+}
+
+/**
+ * Render every screen as a numbered PNG file.
+ */
+async function renderAllScreens(
+  data: ExportData,
+  renderImage: ImageRenderer,
+  options: ImageRenderOptions
+): Promise<ExportFile[]> {
+  const files: ExportFile[] = [];
+  for (const [index, screen] of data.screens.entries()) {
+    files.push({
+      path: `${index + 1}-${toArchiveName(screen.name)}.png`,
+      content: await renderImage(index, options),
+    });
+  }
+  return files;
+}
+
+/**
+ * PNG Exporter Plugin.
+ * Exports the current screen (or all screens as a ZIP) with its
+ * annotations as an image, rendered at the original image resolution.
+ */
+export const pngExporter: ExporterPlugin = {
+  meta: {
+    id: "png",
+    name: "Image",
+    description: "Annotated screenshot (PNG) at original resolution",
+    fileExtension: "png",
+    mimeType: "image/png",
+    supportsClipboard: true,
+    supportsDownload: true,
+    options: [
+      { id: "showLabels", label: "Labels", defaultValue: true },
+      { id: "showNumbers", label: "Numbers", defaultValue: false },
+      { id: "useColors", label: "Colors", defaultValue: true },
+      { id: "allScreens", label: "All screens", defaultValue: false },
+    ],
+  } satisfies ExporterMeta,
+
+  validate(data: ExportData): ValidationResult {
+    const warnings: string[] = [];
+
+    const elements = data.screens.flatMap((screen) =>
+      flattenExportElements(screen.elements)
+    );
+
+    if (elements.length === 0) {
+      warnings.push("No annotations to export");
+    }
+
+    return {
+      isValid: true,
+      invalidElementIds: [],
+      errors: [],
+      warnings,
+    };
+  },
+
+  async export(
+    data: ExportData,
+    options?: ExportOptions,
+    context?: ExportContext
+  ): Promise<ExportResult> {
+    try {
+      const screenIndex = context?.activeScreenIndex ?? 0;
+      const screen = data.screens[screenIndex];
+      if (!(context?.renderImage && screen)) {
+        throw new Error("Image rendering is not available");
+      }
+
+      if (options?.allScreens === true && data.screens.length > 1) {
+        return {
+          success: true,
+          files: await renderAllScreens(
+            data,
+            context.renderImage,
+            getRenderOptions(options)
+          ),
+          filename: `${options.filename ?? data.project.name}.zip`,
+          mimeType: "application/zip",
+        };
+      }
+
+      const blob = await context.renderImage(
+        screenIndex,
+        getRenderOptions(options)
+      );
+      const filename =
+        options?.filename ??
+        (data.screens.length > 1
+          ? `${data.project.name}-${screen.name}`
+          : data.project.name);
+
+      return {
+        success: true,
+        blob,
+        filename: `${filename}.png`,
+        mimeType: this.meta.mimeType,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        filename: "error.png",
+        mimeType: this.meta.mimeType,
+      };
+    }
+  },
+};
@@ -1,15 +1,24 @@
+import { flattenExportElements } from "../services/converter";
+import { getCropFileNames } from "../services/crops";
+import { formatComponent } from "../services/formatters";
 import type {
+  ExportComment,
   ExportData,
+  ExportElement,
   ExporterMeta,
   ExporterPlugin,
+  ExportInteraction,
+  ExportInteractionEndpoint,
+  ExportLayout,
+  ExportLayoutNode,
   ExportOptions,
   ExportResult,
+  ExportScreen,
+  ExportShape,
+  ExportSpacing,
   ValidationResult,
 } from "../types";
 
-/** Regex to remove file extension */
-const FILE_EXTENSION_REGEX = /\.[^.]+$/;
-
 /**
  * Row tolerance for sorting (3% of screen height).
  * Elements within this vertical distance are considered on the same row.
@@ -19,9 +28,7 @@ const ROW_TOLERANCE_NORM = 0.03;
 /**
  * Sort elements top-to-bottom, left-to-right.
  */
-function sortElementsByPosition(
-  elements: ExportData["elements"]
-): ExportData["elements"] {
+function sortElementsByPosition(elements: ExportElement[]): ExportElement[] {
   return [...elements].sort((a, b) => {
     // Primary: top to bottom (by normalized y)
     const yDiffNorm = a.boundsNorm.y - b.boundsNorm.y;
@@ -46,34 +53,47 @@ function formatNorm(value: number): string {
 // ============================================
 
 /** Build the header and important notice section */
-function buildHeaderSection(): string[] {
+function buildHeaderSection(hasCrops: boolean): string[] {
   return [
     "# UI Implementation Request",
     "",
-    "Implement the following UI based on the attached screenshot. Each element is defined with its bounding box and selected component type.",
+    "Implement the following UI based on the attached screenshots. Each screen lists its elements with their bounding boxes and selected component types.",
     "",
     "> **Important**:",
-    "> - This task requires the original screenshot image.",
-    "> - If you cannot access the image, ask the user to provide the screenshot file (or its path) corresponding to the filename below before proceeding.",
+    "> - This task requires the original screenshot images.",
+    "> - If you cannot access the images, ask the user to provide the screenshot files (or their paths) corresponding to the filenames below before proceeding.",
     "> - Use the component library available in the repository (e.g. shadcn/ui, MUI, or custom `/components` directory).",
     "> - If the component library is unclear, ask the user which library to use before proceeding.",
+    ...(hasCrops
+      ? [
+          "> - Each element also has a cropped image (`crop`); use it for details that are hard to see in the full screenshot.",
+        ]
+      : []),
     "",
   ];
 }
 
-/** Build the screen info section */
-function buildScreenSection(screen: ExportData["screen"]): string[] {
-  const lines = ["## Screen", "", `- Filename: ${screen.sourceFileName}`];
-  if (screen.description) {
-    lines.push(`- Description: ${screen.description}`);
+/** Build the project info section */
+function buildProjectSection(data: ExportData): string[] {
+  const lines = ["## Project", "", `- Name: ${data.project.name}`];
+  if (data.project.description) {
+    lines.push(`- Description: ${data.project.description}`);
+  }
+  lines.push(`- Screens: ${data.screens.length}`);
+  for (const [index, screen] of data.screens.entries()) {
+    lines.push(`  ${index + 1}. ${screen.name} (${screen.sourceFileName})`);
   }
-  lines.push(`- Size: ${screen.size.w} x ${screen.size.h} px`);
   lines.push("");
   return lines;
 }
 
-/** Build the rules section */
-function buildRulesSection(): string[] {
+/** Check if a screen has nested elements */
+function hasNestedElements(screen: ExportScreen): boolean {
+  return screen.elements.some((e) => e.children?.length);
+}
+
+/** Build the rules section (the nesting rule only for nested elements) */
+function buildRulesSection(isNested: boolean): string[] {
   return [
     "## Rules",
     "",
@@ -81,9 +101,15 @@ function buildRulesSection(): string[] {
     "- Use each element's `boundsNorm` / `bounds` as **layout hints**.",
     "- Prefer semantic layout (flex/grid) that matches the screenshot.",
     "- **Do not hardcode absolute positioning** unless it is clearly required by the screenshot.",
+    "- Use each screen's **Layout** outline (rows, columns, grids, gaps) to choose flex/grid containers.",
+    ...(isNested
+      ? [
+          "- Nest each element inside its `parent` to reproduce the component tree.",
+        ]
+      : []),
     "",
     "### Components",
-    "- Use the specified `component` **exactly** for each element.",
+    "- Use the specified `component` **exactly** for each element, with the listed props.",
     "- If an exact match is unavailable, use a similar component that fulfills the same purpose.",
     "",
     "### Unclear Requirements",
@@ -104,14 +130,29 @@ function formatNotes(notes: string): string[] {
   return [`- notes: ${notes}`];
 }
 
+/** Describe an exact element shape, e.g. "ellipse (center 40, 40, radius 20 x 20)" */
+function formatShape(shape: ExportShape): string {
+  if (shape.type === "ellipse") {
+    return `ellipse (center ${shape.cx}, ${shape.cy}, radius ${shape.rx} x ${shape.ry})`;
+  }
+  const points = shape.points.map((p) => `${p.x},${p.y}`).join(" ");
+  return `polygon (${points})`;
+}
+
 /** Build a single element section */
 function buildElementSection(
-  element: ExportData["elements"][number]
+  element: ExportElement,
+  crops: Map<string, string>,
+  parent?: ExportElement
 ): string[] {
-  const lines = [`### ${element.label}`, `- id: \`${element.id}\``];
+  const lines = [`#### ${element.label}`, `- id: \`${element.id}\``];
+
+  if (parent) {
+    lines.push(`- parent: ${parent.label} (\`${parent.id}\`)`);
+  }
 
   if (element.component?.name) {
-    lines.push(`- component: ${element.component.name}`);
+    lines.push(`- component: \`${formatComponent(element.component)}\``);
   }
 
   lines.push(
@@ -121,6 +162,15 @@ function buildElementSection(
     `- bounds (norm): x=${formatNorm(element.boundsNorm.x)}, y=${formatNorm(element.boundsNorm.y)}, w=${formatNorm(element.boundsNorm.w)}, h=${formatNorm(element.boundsNorm.h)}`
   );
 
+  if (element.shape) {
+    lines.push(`- shape: ${formatShape(element.shape)}`);
+  }
+
+  const crop = crops.get(element.id);
+  if (crop) {
+    lines.push(`- crop: \`${crop}\``);
+  }
+
   if (element.notes) {
     lines.push(...formatNotes(element.notes));
   }
@@ -129,33 +179,273 @@ function buildElementSection(
   return lines;
 }
 
-/** Build the elements section */
-function buildElementsSection(elements: ExportData["elements"]): string[] {
-  const lines = ["## Elements (top-to-bottom, left-to-right)", ""];
+/** Build element sections in tree order (parents before children) */
+function buildElementSections(
+  elements: ExportElement[],
+  crops: Map<string, string>,
+  parent?: ExportElement
+): string[] {
+  return sortElementsByPosition(elements).flatMap((element) => [
+    ...buildElementSection(element, crops, parent),
+    ...buildElementSections(element.children ?? [], crops, element),
+  ]);
+}
+
+/** Build an indented outline of the component tree */
+function buildTreeOutline(elements: ExportElement[], depth = 0): string[] {
+  return sortElementsByPosition(elements).flatMap((element) => {
+    const component = element.component ? ` (${element.component.name})` : "";
+    return [
+      `${"  ".repeat(depth)}- ${element.label}${component}`,
+      ...buildTreeOutline(element.children ?? [], depth + 1),
+    ];
+  });
+}
+
+/**
+ * Describe a layout group, e.g. "row (gap 16px, align center)".
+ */
+function formatLayoutGroup(node: ExportLayoutNode): string {
+  const details: string[] = [];
+  if (node.type === "grid") {
+    details.push(
+      `${node.columns} columns`,
+      `column gap ${node.gap}px`,
+      `row gap ${node.rowGap}px`
+    );
+  } else if (node.gap !== undefined) {
+    details.push(`gap ${node.gap}px`);
+  }
+  if (node.align) {
+    details.push(`align ${node.align}`);
+  }
+  const type = node.type === "overlap" ? "overlapping" : node.type;
+  return details.length > 0 ? `${type} (${details.join(", ")})` : type;
+}
+
+/**
+ * Build an indented layout outline.
+ * Element nodes are followed by the layout of their children.
+ */
+function buildLayoutOutline(
+  node: ExportLayoutNode,
+  layout: ExportLayout,
+  elements: Map<string, ExportElement>,
+  depth = 0
+): string[] {
+  const indent = "  ".repeat(depth);
+  if (node.type !== "element") {
+    return [
+      `${indent}- ${formatLayoutGroup(node)}`,
+      ...(node.children ?? []).flatMap((child) =>
+        buildLayoutOutline(child, layout, elements, depth + 1)
+      ),
+    ];
+  }
+
+  const element = node.elementId ? elements.get(node.elementId) : undefined;
+  const label = element?.label ?? node.elementId;
+  const component = element?.component ? ` (${element.component.name})` : "";
+  const container = node.elementId
+    ? layout.containers[node.elementId]
+    : undefined;
+  return [
+    `${indent}- ${label}${component}`,
+    ...(container
+      ? buildLayoutOutline(container, layout, elements, depth + 1)
+      : []),
+  ];
+}
+
+/** Describe an interaction endpoint (element or point) */
+function formatEndpoint(
+  endpoint: ExportInteractionEndpoint,
+  elements: Map<string, ExportElement>
+): string {
+  const element = endpoint.elementId
+    ? elements.get(endpoint.elementId)
+    : undefined;
+  return element
+    ? `${element.label} (\`${element.id}\`)`
+    : `point x=${endpoint.point.x}, y=${endpoint.point.y}`;
+}
+
+/** Format an interaction, e.g. "- Login → Home (navigation): onClick" */
+function formatInteraction(
+  interaction: ExportInteraction,
+  elements: Map<string, ExportElement>
+): string {
+  const label = interaction.label ? `: ${interaction.label}` : "";
+  return `- ${formatEndpoint(interaction.from, elements)} → ${formatEndpoint(interaction.to, elements)} (${interaction.type})${label}`;
+}
+
+/** Build the interactions section (empty without connectors) */
+function buildInteractionSection(screen: ExportScreen): string[] {
+  if (!screen.interactions?.length) {
+    return [];
+  }
+  const elements = new Map(
+    flattenExportElements(screen.elements).map((e) => [e.id, e])
+  );
+  return [
+    "### Interactions",
+    "",
+    ...screen.interactions.map((interaction) =>
+      formatInteraction(interaction, elements)
+    ),
+    "",
+  ];
+}
+
+/** Format a spacing, e.g. "- Title bottom → Body top: 16px (vertical)" */
+function formatSpacing(
+  spacing: ExportSpacing,
+  elements: Map<string, ExportElement>
+): string {
+  const describe = ({ elementId, edge }: ExportSpacing["from"]) => {
+    const element = elements.get(elementId);
+    return element
+      ? `${element.label} (\`${element.id}\`) ${edge}`
+      : `\`${elementId}\` ${edge}`;
+  };
+  const direction = spacing.axis === "x" ? "horizontal" : "vertical";
+  return `- ${describe(spacing.from)} → ${describe(spacing.to)}: ${spacing.cssDistance}px (${direction})`;
+}
+
+/** Build the spacing section (empty without saved spacings) */
+function buildSpacingSection(screen: ExportScreen): string[] {
+  if (!screen.spacings?.length) {
+    return [];
+  }
+  const elements = new Map(
+    flattenExportElements(screen.elements).map((e) => [e.id, e])
+  );
+  return [
+    "### Spacing (CSS pixels)",
+    "",
+    ...screen.spacings.map((spacing) => formatSpacing(spacing, elements)),
+    "",
+  ];
+}
+
+/** Format a comment with its replies as a quoted discussion */
+function formatComment(
+  comment: ExportComment,
+  elements: Map<string, ExportElement>
+): string[] {
+  const element = comment.elementId
+    ? elements.get(comment.elementId)
+    : undefined;
+  const target = element
+    ? `${element.label} (\`${element.id}\`)`
+    : `point x=${comment.point.x}, y=${comment.point.y}`;
+  const status = comment.resolved ? " [resolved]" : "";
+  return [
+    `- On ${target}${status}`,
+    ...[comment, ...comment.replies].map(
+      (message) =>
+        `  > **${message.author}**: ${message.text.replaceAll("\n", "\n  > ")}`
+    ),
+  ];
+}
+
+/** Build the review comments section (empty when comments are excluded) */
+function buildCommentSection(screen: ExportScreen): string[] {
+  if (!screen.comments?.length) {
+    return [];
+  }
+  const elements = new Map(
+    flattenExportElements(screen.elements).map((e) => [e.id, e])
+  );
+  return [
+    "### Review Comments",
+    "",
+    ...screen.comments.flatMap((comment) => formatComment(comment, elements)),
+    "",
+  ];
+}
+
+/** Build a screen section with its elements */
+function buildScreenSection(
+  screen: ExportScreen,
+  index: number,
+  crops: Map<string, string>
+): string[] {
+  const lines = [
+    `## Screen ${index + 1}: ${screen.name}`,
+    "",
+    `- Filename: ${screen.sourceFileName}`,
+    `- Size: ${screen.size.w} x ${screen.size.h} px`,
+    ...(screen.pixelRatio
+      ? [
+          `- Pixel ratio: ${screen.pixelRatio}x (CSS px = image px / ${screen.pixelRatio})`,
+        ]
+      : []),
+    "",
+  ];
 
-  if (elements.length === 0) {
-    lines.push("_No elements annotated._");
+  if (screen.elements.length === 0) {
+    lines.push(
+      "### Elements (top-to-bottom, left-to-right)",
+      "",
+      "_No elements annotated._",
+      "",
+      ...buildInteractionSection(screen),
+      ...buildCommentSection(screen)
+    );
     return lines;
   }
 
-  const sortedElements = sortElementsByPosition(elements);
-  for (const element of sortedElements) {
-    lines.push(...buildElementSection(element));
+  // Outline only when elements are nested
+  if (hasNestedElements(screen)) {
+    lines.push(
+      "### Component Tree",
+      "",
+      ...buildTreeOutline(screen.elements),
+      ""
+    );
+  }
+
+  if (screen.layout) {
+    const elements = new Map(
+      flattenExportElements(screen.elements).map((e) => [e.id, e])
+    );
+    lines.push(
+      "### Layout (inferred from positions)",
+      "",
+      ...buildLayoutOutline(screen.layout.root, screen.layout, elements),
+      ""
+    );
   }
 
+  lines.push(
+    "### Elements (parents before children, top-to-bottom, left-to-right)",
+    "",
+    ...buildElementSections(screen.elements, crops),
+    ...buildSpacingSection(screen),
+    ...buildInteractionSection(screen),
+    ...buildCommentSection(screen)
+  );
+
   return lines;
 }
 
 /**
  * Format export data as an AI-ready prompt.
  * Designed for direct use with Claude Code and similar tools.
+ * With `includeCrops`, elements reference the Crops export by file name.
  */
-function formatAsPrompt(data: ExportData): string {
+function formatAsPrompt(data: ExportData, includeCrops: boolean): string {
+  const crops = includeCrops
+    ? getCropFileNames(data)
+    : new Map<string, string>();
   return [
-    ...buildHeaderSection(),
-    ...buildScreenSection(data.screen),
-    ...buildRulesSection(),
-    ...buildElementsSection(data.elements),
+    ...buildHeaderSection(includeCrops),
+    ...buildProjectSection(data),
+    ...buildRulesSection(data.screens.some(hasNestedElements)),
+    ...data.screens.flatMap((screen, index) =>
+      buildScreenSection(screen, index, crops)
+    ),
   ].join("\n");
 }
 
@@ -172,17 +462,24 @@ export const promptExporter: ExporterPlugin = {
     mimeType: "text/markdown",
     supportsClipboard: true,
     supportsDownload: true,
+    options: [
+      { id: "includeCrops", label: "Reference crops", defaultValue: false },
+    ],
   } satisfies ExporterMeta,
 
   validate(data: ExportData): ValidationResult {
     const warnings: string[] = [];
     const invalidElementIds: string[] = [];
 
-    if (data.elements.length === 0) {
+    const elements = data.screens.flatMap((screen) =>
+      flattenExportElements(screen.elements)
+    );
+
+    if (elements.length === 0) {
       warnings.push("No annotations to export");
     }
 
-    for (const element of data.elements) {
+    for (const element of elements) {
       if (!element.label || element.label.trim() === "") {
         invalidElementIds.push(element.id);
         warnings.push("Element is missing a label");
@@ -199,12 +496,8 @@ export const promptExporter: ExporterPlugin = {
 
   export(data: ExportData, options?: ExportOptions): ExportResult {
     try {
-      const content = formatAsPrompt(data);
-      const baseName = data.screen.sourceFileName.replace(
-        FILE_EXTENSION_REGEX,
-        ""
-      );
-      const filename = options?.filename ?? `${baseName}-prompt`;
+      const content = formatAsPrompt(data, options?.includeCrops === true);
+      const filename = options?.filename ?? `${data.project.name}-prompt`;
 
       return {
         success: true,
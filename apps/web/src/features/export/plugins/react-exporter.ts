@@ -0,0 +1,412 @@
+import { flattenExportElements } from "../services/converter";
+import type {
+  ExportData,
+  ExportElement,
+  ExporterMeta,
+  ExporterPlugin,
+  ExportLayout,
+  ExportLayoutNode,
+  ExportOptions,
+  ExportResult,
+  ExportScreen,
+  ValidationResult,
+} from "../types";
+
+/** Tailwind classes for cross-axis alignment */
+const ALIGN_CLASSES: Record<NonNullable<ExportLayoutNode["align"]>, string> = {
+  start: "items-start",
+  center: "items-center",
+  end: "items-end",
+  stretch: "items-stretch",
+};
+
+/** Matches a name usable as a JSX component tag */
+const COMPONENT_TAG_REGEX = /^[\p{L}_$][\p{L}\p{N}_$]*$/u;
+
+/** Matches a Storybook stories file or source extension in an import path */
+const MODULE_SUFFIX_REGEX = /(\.stories)?\.[cm]?[jt]sx?$/;
+
+/** Splits text into words for identifiers */
+const WORD_SEPARATOR_REGEX = /[^\p{L}\p{N}]+/u;
+
+/** Matches a string starting with a letter */
+const LEADING_LETTER_REGEX = /^\p{L}/u;
+
+/** Matches a lowercase name (treated as an HTML element by JSX) */
+const LOWERCASE_TAG_REGEX = /^[a-z]/;
+
+/** Matches a name usable as a JSX attribute (e.g. `variant`, `aria-label`) */
+const ATTRIBUTE_NAME_REGEX = /^[\p{L}_$][\p{L}\p{N}_$-]*$/u;
+
+/** Characters that cannot appear in a quoted JSX attribute */
+const UNSAFE_ATTRIBUTE_REGEX = /["\\{}<>\n]/;
+
+/**
+ * State shared while rendering one file.
+ */
+interface RenderContext {
+  elements: Map<string, ExportElement>;
+  layout: ExportLayout;
+  /** Import lines keyed by component name (filled while rendering) */
+  imports: Map<string, string>;
+}
+
+// ============================================
+// Naming Helpers
+// ============================================
+
+/**
+ * Convert text to a PascalCase identifier (e.g. "login page" -> "LoginPage").
+ */
+function toPascalCase(text: string): string {
+  return text
+    .split(WORD_SEPARATOR_REGEX)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+}
+
+/**
+ * Check if a component can be rendered as its own JSX tag.
+ * Lowercase names would be treated as HTML elements.
+ */
+function isComponentTag(name: string): boolean {
+  return COMPONENT_TAG_REGEX.test(name) && !LOWERCASE_TAG_REGEX.test(name);
+}
+
+/**
+ * Get the names of components that are imported from the catalog.
+ */
+function getImportedComponentNames(screens: ExportScreen[]): Set<string> {
+  const names = new Set<string>();
+  for (const screen of screens) {
+    for (const { component } of flattenExportElements(screen.elements)) {
+      if (component?.importStatement && isComponentTag(component.name)) {
+        names.add(component.name);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Generate unique function names for screens.
+ * Names of imported components are taken first, so screens never shadow them.
+ */
+function getScreenComponentNames(screens: ExportScreen[]): string[] {
+  const used = getImportedComponentNames(screens);
+  return screens.map((screen, index) => {
+    const base = toPascalCase(screen.name);
+    const stem = LEADING_LETTER_REGEX.test(base)
+      ? base
+      : `Screen${base || index + 1}`;
+    let name = stem;
+    for (let i = 2; used.has(name); i++) {
+      name = `${stem}${i}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Build an import line from a catalog import statement.
+ * Accepts full statements or module paths (e.g. Storybook importPath).
+ */
+function toImportLine(name: string, importStatement: string): string {
+  const statement = importStatement.trim();
+  if (statement.startsWith("import ")) {
+    return statement.endsWith(";") ? statement : `${statement};`;
+  }
+  const modulePath = statement.replace(MODULE_SUFFIX_REGEX, "");
+  return `import { ${name} } from ${JSON.stringify(modulePath)};`;
+}
+
+// ============================================
+// JSX Builders
+// ============================================
+
+/** Format a JSX comment, keeping the text from closing it early */
+function formatComment(text: string): string {
+  return `{/* ${text.replaceAll("*/", "* /")} */}`;
+}
+
+/** Format a prop as a JSX attribute */
+function formatAttribute(key: string, value: unknown): string {
+  if (typeof value === "string" && !UNSAFE_ATTRIBUTE_REGEX.test(value)) {
+    return `${key}="${value}"`;
+  }
+  return `${key}={${JSON.stringify(value)}}`;
+}
+
+/**
+ * Format props as JSX attributes.
+ * Props whose key is not a valid attribute name are passed in a spread.
+ */
+function formatAttributes(props: Record<string, unknown>): string {
+  const entries = Object.entries(props);
+  const spread = entries.filter(([key]) => !ATTRIBUTE_NAME_REGEX.test(key));
+  return [
+    ...entries
+      .filter(([key]) => ATTRIBUTE_NAME_REGEX.test(key))
+      .map(([key, value]) => formatAttribute(key, value)),
+    ...(spread.length > 0
+      ? [`{...${JSON.stringify(Object.fromEntries(spread))}}`]
+      : []),
+  ]
+    .map((attribute) => ` ${attribute}`)
+    .join("");
+}
+
+/** Format a Tailwind gap class (omitted for zero gaps) */
+function formatGap(prefix: string, gap: number | undefined): string[] {
+  return gap ? [`${prefix}-[${gap}px]`] : [];
+}
+
+/**
+ * Get Tailwind classes for a layout group.
+ */
+function getContainerClasses(node: ExportLayoutNode): string[] {
+  const align = node.align ? [ALIGN_CLASSES[node.align]] : [];
+  switch (node.type) {
+    case "row":
+      return ["flex flex-row", ...formatGap("gap", node.gap), ...align];
+    case "column":
+      return ["flex flex-col", ...formatGap("gap", node.gap), ...align];
+    case "grid":
+      return [
+        `grid grid-cols-[repeat(${node.columns},minmax(0,1fr))]`,
+        ...formatGap("gap-x", node.gap),
+        ...formatGap("gap-y", node.rowGap),
+      ];
+    default:
+      return ["relative"];
+  }
+}
+
+/** Format a className attribute */
+function formatClassName(classes: string[]): string {
+  return classes.length > 0 ? ` className="${classes.join(" ")}"` : "";
+}
+
+/** Indent lines by one level */
+function indent(lines: string[]): string[] {
+  return lines.map((line) => `  ${line}`);
+}
+
+/**
+ * Render a layout group as a container div.
+ */
+function renderGroup(node: ExportLayoutNode, ctx: RenderContext): string[] {
+  const children = (node.children ?? []).flatMap((child) =>
+    renderNode(child, ctx)
+  );
+  return [
+    ...(node.type === "overlap"
+      ? [formatComment("TODO: overlapping elements, position manually")]
+      : []),
+    `<div${formatClassName(getContainerClasses(node))}>`,
+    ...indent(children),
+    "</div>",
+  ];
+}
+
+/**
+ * Get the opening tag for an element and the comments that describe it.
+ * Components without an import are rendered as a div with a TODO.
+ */
+function getElementTag(
+  element: ExportElement,
+  ctx: RenderContext
+): { tag: string; attributes: string; comments: string[] } {
+  const component = element.component;
+  if (!component) {
+    return { tag: "div", attributes: "", comments: [] };
+  }
+
+  const attributes = formatAttributes(component.props ?? {});
+  if (component.importStatement && isComponentTag(component.name)) {
+    ctx.imports.set(
+      component.name,
+      toImportLine(component.name, component.importStatement)
+    );
+    return { tag: component.name, attributes, comments: [] };
+  }
+
+  return {
+    tag: "div",
+    attributes: "",
+    comments: [
+      formatComment(
+        `TODO: replace with <${component.name}${attributes} /> (no import in catalog)`
+      ),
+    ],
+  };
+}
+
+/**
+ * Render an element with its children layout.
+ * Plain divs take the container classes of their children directly.
+ */
+function renderElement(element: ExportElement, ctx: RenderContext): string[] {
+  const { tag, attributes, comments } = getElementTag(element, ctx);
+  const notes = (element.notes ?? "")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => formatComment(`TODO: ${line.trim()}`));
+  const header = [formatComment(element.label), ...comments, ...notes];
+
+  const container = ctx.layout.containers[element.id];
+  if (!container) {
+    return [...header, `<${tag}${attributes} />`];
+  }
+
+  const mergeContainer = tag === "div" && container.type !== "element";
+  const classes = mergeContainer ? getContainerClasses(container) : [];
+  const children = mergeContainer
+    ? (container.children ?? []).flatMap((child) => renderNode(child, ctx))
+    : renderNode(container, ctx);
+  return [
+    ...header,
+    `<${tag}${attributes}${formatClassName(classes)}>`,
+    ...indent(children),
+    `</${tag}>`,
+  ];
+}
+
+/**
+ * Render a layout node as JSX lines.
+ */
+function renderNode(node: ExportLayoutNode, ctx: RenderContext): string[] {
+  if (node.type !== "element") {
+    return renderGroup(node, ctx);
+  }
+  const element = node.elementId ? ctx.elements.get(node.elementId) : undefined;
+  return element ? renderElement(element, ctx) : [];
+}
+
+/**
+ * Render a screen as an exported function component.
+ */
+function renderScreen(
+  screen: ExportScreen,
+  name: string,
+  imports: Map<string, string>
+): string[] {
+  const body = screen.layout
+    ? renderNode(screen.layout.root, {
+        elements: new Map(
+          flattenExportElements(screen.elements).map((e) => [e.id, e])
+        ),
+        layout: screen.layout,
+        imports,
+      })
+    : [formatComment("TODO: no elements annotated")];
+
+  return [
+    `/** ${screen.name} (${screen.sourceFileName}, ${screen.size.w}x${screen.size.h}) */`,
+    `export function ${name}() {`,
+    "  return (",
+    `    <div className="mx-auto w-full max-w-[${screen.size.w}px]">`,
+    ...indent(indent(indent(body))),
+    "    </div>",
+    "  );",
+    "}",
+  ];
+}
+
+/**
+ * Format export data as a React + Tailwind skeleton.
+ */
+function formatAsReact(data: ExportData): string {
+  const imports = new Map<string, string>();
+  const names = getScreenComponentNames(data.screens);
+  const screens = data.screens.flatMap((screen, index) => [
+    "",
+    ...renderScreen(screen, names[index], imports),
+  ]);
+
+  return [
+    "/**",
+    ` * ${data.project.name}`,
+    " *",
+    " * UI skeleton generated by UI Annotator.",
+    " * Layout is inferred from annotation positions; refine spacing and content.",
+    " */",
+    ...(imports.size > 0 ? ["", ...new Set(imports.values())] : []),
+    ...screens,
+    "",
+  ].join("\n");
+}
+
+/**
+ * React Exporter Plugin.
+ * Exports annotation data as a compilable React + Tailwind skeleton.
+ */
+export const reactExporter: ExporterPlugin = {
+  meta: {
+    id: "react",
+    name: "React",
+    description: "React + Tailwind skeleton with catalog components",
+    fileExtension: "tsx",
+    mimeType: "text/typescript",
+    supportsClipboard: true,
+    supportsDownload: true,
+  } satisfies ExporterMeta,
+
+  validate(data: ExportData): ValidationResult {
+    const warnings: string[] = [];
+    const invalidElementIds: string[] = [];
+
+    const elements = data.screens.flatMap((screen) =>
+      flattenExportElements(screen.elements)
+    );
+
+    if (elements.length === 0) {
+      warnings.push("No annotations to export");
+    }
+
+    const missingImports = new Set<string>();
+    for (const element of elements) {
+      if (!element.label || element.label.trim() === "") {
+        invalidElementIds.push(element.id);
+        warnings.push("Element is missing a label");
+      }
+      if (element.component && !element.component.importStatement) {
+        missingImports.add(element.component.name);
+      }
+    }
+
+    for (const name of missingImports) {
+      warnings.push(`No import for "${name}"; rendered as a div`);
+    }
+
+    return {
+      isValid: true, // Missing imports fall back to divs - always valid
+      invalidElementIds,
+      errors: [],
+      warnings,
+    };
+  },
+
+  export(data: ExportData, options?: ExportOptions): ExportResult {
+    try {
+      const content = formatAsReact(data);
+      const filename = options?.filename ?? `${data.project.name}-skeleton`;
+
+      return {
+        success: true,
+        content,
+        filename: `${filename}.tsx`,
+        mimeType: this.meta.mimeType,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        filename: "error.tsx",
+        mimeType: this.meta.mimeType,
+      };
+    }
+  },
+};
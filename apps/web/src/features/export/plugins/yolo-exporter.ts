@@ -0,0 +1,150 @@
+import { clipToImage, type ImageSize, pixelToNorm } from "@/lib/geometry";
+import type { PixelCoord } from "@/types";
+import {
+  collectDatasetImages,
+  getDatasetCategories,
+  getDatasetElements,
+  getDatasetName,
+  validateDataset,
+} from "../services/dataset";
+import type {
+  ExportBatchItem,
+  ExportContext,
+  ExportData,
+  ExporterMeta,
+  ExporterPlugin,
+  ExportFile,
+  ExportOptions,
+  ExportResult,
+  ValidationResult,
+} from "../types";
+
+/** Matches an image file extension */
+const IMAGE_EXTENSION_REGEX = /\.[^.]+$/;
+
+/**
+ * Format an element as a YOLO label line: `class cx cy w h` (normalized).
+ * The box is clipped to the image (boxes may extend past the edges).
+ */
+function formatLabelLine(
+  classId: number,
+  bounds: PixelCoord,
+  size: ImageSize
+): string {
+  const { x, y, w, h } = pixelToNorm(clipToImage(bounds, size), size);
+  return [classId, x + w / 2, y + h / 2, w, h]
+    .map((value, i) => (i === 0 ? String(value) : value.toFixed(6)))
+    .join(" ");
+}
+
+/**
+ * Format the Ultralytics dataset config.
+ */
+function formatDataYaml(categories: string[]): string {
+  return [
+    "path: .",
+    "train: images",
+    "val: images",
+    "names:",
+    ...categories.map((name, i) => `  ${i}: ${JSON.stringify(name)}`),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Build YOLO dataset files: images, one label file per image, class names.
+ */
+async function buildYoloFiles(items: ExportBatchItem[]): Promise<ExportFile[]> {
+  const categories = getDatasetCategories(items);
+  const classIds = new Map(categories.map((name, i) => [name, i]));
+  const images = await collectDatasetImages(items);
+
+  const files: ExportFile[] = [
+    { path: "data.yaml", content: formatDataYaml(categories) },
+    { path: "classes.txt", content: `${categories.join("\n")}\n` },
+  ];
+  for (const image of images) {
+    const lines = getDatasetElements(image.screen).map((element) =>
+      formatLabelLine(
+        classIds.get(element.component?.name ?? "") ?? 0,
+        element.bounds,
+        image.screen.size
+      )
+    );
+    const stem = image.fileName.replace(IMAGE_EXTENSION_REGEX, "");
+    files.push(
+      { path: `images/${image.fileName}`, content: image.content },
+      {
+        path: `labels/${stem}.txt`,
+        content: lines.length > 0 ? `${lines.join("\n")}\n` : "",
+      }
+    );
+  }
+  return files;
+}
+
+/**
+ * Export projects as a YOLO dataset archive.
+ */
+async function exportYolo(
+  items: ExportBatchItem[],
+  options?: ExportOptions
+): Promise<ExportResult> {
+  try {
+    const files = await buildYoloFiles(items);
+    const filename = options?.filename ?? getDatasetName(items);
+
+    return {
+      success: true,
+      files,
+      filename: `${filename}.zip`,
+      mimeType: "application/zip",
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      filename: "error.zip",
+      mimeType: "application/zip",
+    };
+  }
+}
+
+/**
+ * YOLO Exporter Plugin.
+ * Exports component annotations as a YOLO dataset (images, labels, data.yaml)
+ * for training UI element detectors. Supports batching several projects.
+ */
+export const yoloExporter: ExporterPlugin = {
+  meta: {
+    id: "yolo",
+    name: "YOLO",
+    description: "YOLO detection dataset with components as classes (ZIP)",
+    fileExtension: "zip",
+    mimeType: "application/zip",
+    supportsClipboard: false,
+    supportsDownload: true,
+  } satisfies ExporterMeta,
+
+  validate(data: ExportData): ValidationResult {
+    return validateDataset(data);
+  },
+
+  export(
+    data: ExportData,
+    options?: ExportOptions,
+    context?: ExportContext
+  ): Promise<ExportResult> {
+    return exportYolo(
+      [{ data, context: context ?? { screens: [], activeScreenIndex: 0 } }],
+      options
+    );
+  },
+
+  exportBatch(
+    items: ExportBatchItem[],
+    options?: ExportOptions
+  ): Promise<ExportResult> {
+    return exportYolo(items, options);
+  },
+};
@@ -0,0 +1,82 @@
+/**
+ * Export Archive
+ *
+ * Converts export results to downloadable blobs.
+ * Multi-file results are bundled into a ZIP archive.
+ */
+
+import { type Zippable, zip } from "fflate";
+import type { ExportFile, ExportResult } from "../types";
+
+/** Characters not allowed in archive file names */
+const UNSAFE_NAME_REGEX = /[\\/:*?"<>|]+/g;
+
+/**
+ * Make a name safe to use as a file name inside an archive.
+ */
+export function toArchiveName(name: string): string {
+  return name.replace(UNSAFE_NAME_REGEX, "-").trim() || "untitled";
+}
+
+/**
+ * Check if an export result has content to download or copy.
+ */
+export function hasResultContent(result: ExportResult): boolean {
+  return (
+    result.success &&
+    (!!result.content || !!result.blob || !!result.files?.length)
+  );
+}
+
+/**
+ * Read a file's content as bytes.
+ */
+async function toBytes(content: string | Blob): Promise<Uint8Array> {
+  if (typeof content === "string") {
+    return new TextEncoder().encode(content);
+  }
+  return new Uint8Array(await content.arrayBuffer());
+}
+
+/**
+ * Bundle files into a ZIP archive.
+ * Images are stored without compression (already compressed).
+ */
+export async function createArchive(files: ExportFile[]): Promise<Blob> {
+  const entries: Zippable = {};
+  for (const file of files) {
+    const isImage =
+      typeof file.content !== "string" &&
+      file.content.type.startsWith("image/");
+    entries[file.path] = [
+      await toBytes(file.content),
+      { level: isImage ? 0 : 6 },
+    ];
+  }
+
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(entries, (zipErr, result) => {
+      if (zipErr) {
+        reject(new Error(`Failed to create ZIP: ${zipErr.message}`));
+      } else {
+        resolve(result);
+      }
+    });
+  });
+
+  return new Blob([data as Uint8Array<ArrayBuffer>], {
+    type: "application/zip",
+  });
+}
+
+/**
+ * Convert an export result to a single blob for download.
+ */
+export function toResultBlob(result: ExportResult): Promise<Blob> {
+  if (result.files) {
+    return createArchive(result.files);
+  }
+  return Promise.resolve(
+    result.blob ?? new Blob([result.content ?? ""], { type: result.mimeType })
+  );
+}
@@ -4,14 +4,70 @@
  * Converts ExportInput to ExportData format.
  */
 
-import { type Element, VERSIONS } from "@/types";
-import type { ExportData, ExportElement } from "../types/export-schema";
-import type { ExportInput } from "../types/exporter";
+import {
+  getBoxEdges,
+  getConnectorRoute,
+  getEdgeAxis,
+  getPolygonPoints,
+} from "@/lib/geometry";
+import {
+  type Connector,
+  type Element,
+  type ExportComment,
+  type ExportData,
+  type ExportElement,
+  type ExportInteraction,
+  type ExportScreen,
+  type ExportShape,
+  type ExportSpacing,
+  type ReviewComment,
+  type Spacing,
+  VERSIONS,
+} from "@/types";
+import type {
+  ExportContext,
+  ExportInput,
+  ExportScreenInput,
+} from "../types/exporter";
+import { analyzeLayout } from "./layout-analyzer";
+
+/** Import statements keyed by component name */
+type ComponentImports = Record<string, string>;
+
+/**
+ * Convert an element's shape to pixel coordinates.
+ */
+function toExportShape(
+  element: Element & { shape: NonNullable<Element["shape"]> }
+): ExportShape {
+  const { x, y, w, h } = element.bbox.pixel;
+  if (element.shape.type === "ellipse") {
+    return {
+      type: "ellipse",
+      cx: Math.round(x + w / 2),
+      cy: Math.round(y + h / 2),
+      rx: Math.round(w / 2),
+      ry: Math.round(h / 2),
+    };
+  }
+  return {
+    type: "polygon",
+    points: getPolygonPoints(element.bbox.pixel, element.shape.points).map(
+      (p) => ({ x: Math.round(p.x), y: Math.round(p.y) })
+    ),
+  };
+}
 
 /**
  * Convert an Element to ExportElement format.
  */
-function toExportElement(element: Element): ExportElement {
+function toExportElement(
+  element: Element,
+  imports: ComponentImports
+): ExportElement {
+  const importStatement = element.component
+    ? imports[element.component.name]
+    : undefined;
   return {
     id: element.id,
     label: element.label,
@@ -27,15 +83,176 @@ function toExportElement(element: Element): ExportElement {
       w: element.bbox.norm.w,
       h: element.bbox.norm.h,
     },
+    ...(element.shape && {
+      shape: toExportShape({ ...element, shape: element.shape }),
+    }),
     ...(element.component && {
       component: {
         name: element.component.name,
+        ...(element.component.props &&
+          Object.keys(element.component.props).length > 0 && {
+            props: element.component.props,
+          }),
+        ...(importStatement && { importStatement }),
       },
     }),
     ...(element.notes && { notes: element.notes }),
   };
 }
 
+/**
+ * Convert elements to a tree of ExportElements using parentId.
+ * Elements whose parent is missing are exported at the top level.
+ */
+function toExportElementTree(
+  elements: Element[],
+  imports: ComponentImports
+): ExportElement[] {
+  const ids = new Set(elements.map((e) => e.id));
+  const childrenOf = new Map<string | null, Element[]>();
+  for (const element of elements) {
+    const key =
+      element.parentId && ids.has(element.parentId) ? element.parentId : null;
+    childrenOf.set(key, [...(childrenOf.get(key) ?? []), element]);
+  }
+
+  const build = (parentId: string | null): ExportElement[] =>
+    (childrenOf.get(parentId) ?? []).map((element) => {
+      const children = build(element.id);
+      return {
+        ...toExportElement(element, imports),
+        ...(children.length > 0 && { children }),
+      };
+    });
+
+  return build(null);
+}
+
+/**
+ * Flatten an ExportElement tree (parents before children).
+ */
+export function flattenExportElements(
+  elements: ExportElement[]
+): ExportElement[] {
+  return elements.flatMap((element) => [
+    element,
+    ...flattenExportElements(element.children ?? []),
+  ]);
+}
+
+/**
+ * Convert a review comment to ExportComment format.
+ */
+function toExportComment(comment: ReviewComment): ExportComment {
+  return {
+    author: comment.author,
+    text: comment.text,
+    createdAt: comment.createdAt,
+    ...(comment.elementId && { elementId: comment.elementId }),
+    point: {
+      x: Math.round(comment.point.x),
+      y: Math.round(comment.point.y),
+    },
+    resolved: comment.resolved,
+    replies: comment.replies.map(({ author, text, createdAt }) => ({
+      author,
+      text,
+      createdAt,
+    })),
+  };
+}
+
+/**
+ * Convert a connector to ExportInteraction format.
+ * Returns null if an endpoint's element no longer exists.
+ */
+function toExportInteraction(
+  connector: Connector,
+  elements: Element[]
+): ExportInteraction | null {
+  const route = getConnectorRoute(connector, elements);
+  if (!route) {
+    return null;
+  }
+  const toEndpoint = (
+    endpoint: Connector["from"],
+    point: { x: number; y: number }
+  ) => ({
+    ...("elementId" in endpoint && { elementId: endpoint.elementId }),
+    point: { x: Math.round(point.x), y: Math.round(point.y) },
+  });
+  return {
+    id: connector.id,
+    type: connector.type,
+    ...(connector.label && { label: connector.label }),
+    from: toEndpoint(connector.from, route.from),
+    to: toEndpoint(connector.to, route.to),
+  };
+}
+
+/**
+ * Convert a saved spacing to ExportSpacing format, measured at the
+ * current element positions.
+ * Returns null if one of its elements no longer exists.
+ */
+function toExportSpacing(
+  spacing: Spacing,
+  elements: Element[],
+  pixelRatio: number
+): ExportSpacing | null {
+  const from = elements.find((e) => e.id === spacing.from.elementId);
+  const to = elements.find((e) => e.id === spacing.to.elementId);
+  if (!(from && to)) {
+    return null;
+  }
+  const distance = Math.round(
+    Math.abs(
+      getBoxEdges(to.bbox.pixel)[spacing.to.edge] -
+        getBoxEdges(from.bbox.pixel)[spacing.from.edge]
+    )
+  );
+  return {
+    from: spacing.from,
+    to: spacing.to,
+    axis: getEdgeAxis(spacing.from.edge),
+    distance,
+    cssDistance: Math.round((distance / pixelRatio) * 10) / 10,
+  };
+}
+
+/**
+ * Convert a screen input to ExportScreen format.
+ * Comments are omitted unless explicitly included.
+ */
+function toExportScreen(
+  screen: ExportScreenInput,
+  imports: ComponentImports,
+  includeComments: boolean
+): ExportScreen {
+  const size = { w: screen.imageWidth, h: screen.imageHeight };
+  const elements = toExportElementTree(screen.elements, imports);
+  const layout = analyzeLayout({ size, elements });
+  const comments = includeComments ? (screen.comments ?? []) : [];
+  const interactions = (screen.connectors ?? [])
+    .map((connector) => toExportInteraction(connector, screen.elements))
+    .filter((interaction) => interaction !== null);
+  const pixelRatio = screen.pixelRatio ?? 1;
+  const spacings = (screen.spacings ?? [])
+    .map((spacing) => toExportSpacing(spacing, screen.elements, pixelRatio))
+    .filter((spacing) => spacing !== null);
+  return {
+    name: screen.name,
+    sourceFileName: screen.sourceFileName,
+    size,
+    ...(pixelRatio !== 1 && { pixelRatio }),
+    elements,
+    ...(layout && { layout }),
+    ...(comments.length > 0 && { comments: comments.map(toExportComment) }),
+    ...(interactions.length > 0 && { interactions }),
+    ...(spacings.length > 0 && { spacings }),
+  };
+}
+
 /**
  * Convert ExportInput to the unified ExportData format.
  * All exporters should use this function to get normalized data.
@@ -43,16 +260,32 @@ function toExportElement(element: Element): ExportElement {
 export function toExportData(input: ExportInput): ExportData {
   return {
     version: VERSIONS.export,
-    screen: {
+    project: {
       name: input.name,
       ...(input.description && { description: input.description }),
-      sourceFileName: input.sourceFileName,
-      size: {
-        w: input.imageWidth,
-        h: input.imageHeight,
-      },
     },
-    elements: input.elements.map(toExportElement),
+    screens: input.screens.map((screen) =>
+      toExportScreen(
+        screen,
+        input.componentImports ?? {},
+        input.includeComments ?? false
+      )
+    ),
     exportedAt: new Date().toISOString(),
   };
 }
+
+/**
+ * Collect screen resources (images, colors) that exporters may need
+ * in addition to ExportData.
+ */
+export function toExportContext(input: ExportInput): ExportContext {
+  return {
+    screens: input.screens.map((screen) => ({
+      imageUrl: screen.imageUrl,
+      elementColors: screen.elementColors ?? {},
+    })),
+    activeScreenIndex: input.activeScreenIndex ?? 0,
+    renderImage: input.renderImage,
+  };
+}
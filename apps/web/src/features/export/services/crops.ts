@@ -0,0 +1,94 @@
+/**
+ * Element Crops
+ *
+ * Cuts annotated regions out of screen images.
+ * File names are shared by the crop exporter and the prompt exporter
+ * so prompts can reference crops by name.
+ */
+
+import type { ExportData, ExportElement } from "../types";
+import { toArchiveName } from "./archive";
+import { flattenExportElements } from "./converter";
+
+/** Pixel rectangle within a screen image */
+type CropRegion = ExportElement["bounds"];
+
+/** Directory of crop images within the archive */
+const CROPS_DIRECTORY = "crops";
+
+/**
+ * Get crop file paths keyed by element ID.
+ * Crops are numbered in tree order per screen, with one
+ * subdirectory per screen when the project has several screens.
+ */
+export function getCropFileNames(data: ExportData): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const [screenIndex, screen] of data.screens.entries()) {
+    const directory =
+      data.screens.length > 1
+        ? `${CROPS_DIRECTORY}/${screenIndex + 1}-${toArchiveName(screen.name)}`
+        : CROPS_DIRECTORY;
+    const elements = flattenExportElements(screen.elements);
+    const digits = String(elements.length).length;
+    for (const [index, element] of elements.entries()) {
+      const number = String(index + 1).padStart(digits, "0");
+      files.set(
+        element.id,
+        `${directory}/${number}-${toArchiveName(element.label)}.png`
+      );
+    }
+  }
+  return files;
+}
+
+/**
+ * Expand bounds by padding, clamped to the image.
+ */
+export function getCropRegion(
+  bounds: CropRegion,
+  padding: number,
+  size: { w: number; h: number }
+): CropRegion {
+  const x = Math.max(0, Math.floor(bounds.x - padding));
+  const y = Math.max(0, Math.floor(bounds.y - padding));
+  const right = Math.min(size.w, Math.ceil(bounds.x + bounds.w + padding));
+  const bottom = Math.min(size.h, Math.ceil(bounds.y + bounds.h + padding));
+  return { x, y, w: Math.max(1, right - x), h: Math.max(1, bottom - y) };
+}
+
+/**
+ * Cut a region out of an image as a PNG.
+ */
+export function cropImage(
+  image: HTMLImageElement,
+  region: CropRegion
+): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = region.w;
+  canvas.height = region.h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    return Promise.reject(new Error("Canvas is not supported"));
+  }
+  ctx.drawImage(
+    image,
+    region.x,
+    region.y,
+    region.w,
+    region.h,
+    0,
+    0,
+    region.w,
+    region.h
+  );
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("Failed to encode crop"));
+      }
+    }, "image/png");
+  });
+}
@@ -0,0 +1,190 @@
+/**
+ * Training Dataset Helpers
+ *
+ * Shared by the COCO and YOLO exporters: categories from component names
+ * and screen images with unique file names across a batch of projects.
+ */
+
+import {
+  clipPolygonToImage,
+  clipToImage,
+  getShapeOutline,
+} from "@/lib/geometry";
+import type { Point } from "@/types";
+import type {
+  ExportBatchItem,
+  ExportData,
+  ExportElement,
+  ExportScreen,
+  ValidationResult,
+} from "../types";
+import { toArchiveName } from "./archive";
+import { flattenExportElements } from "./converter";
+
+/** Matches a file extension */
+const EXTENSION_REGEX = /\.([a-z0-9]+)$/i;
+
+/**
+ * Screen image of a dataset.
+ */
+export interface DatasetImage {
+  /** Unique file name within the dataset (no directory) */
+  fileName: string;
+  content: Blob;
+  screen: ExportScreen;
+}
+
+/**
+ * Get the outline of a shaped element in pixels, clipped to the image.
+ * Ellipses are approximated by a polygon; rectangles return null.
+ */
+export function getElementOutline(
+  element: ExportElement,
+  size: ExportScreen["size"]
+): Point[] | null {
+  if (element.shape?.type === "polygon") {
+    return clipPolygonToImage(element.shape.points, size);
+  }
+  if (element.shape?.type === "ellipse") {
+    return clipPolygonToImage(
+      getShapeOutline(element.bounds, { type: "ellipse" }),
+      size
+    );
+  }
+  return null;
+}
+
+/**
+ * Check if nothing of an element is left after clipping it to the image.
+ */
+function isOutsideImage(element: ExportElement, screen: ExportScreen): boolean {
+  const { w, h } = clipToImage(element.bounds, screen.size);
+  const outline = getElementOutline(element, screen.size);
+  return w <= 0 || h <= 0 || (outline !== null && outline.length < 3);
+}
+
+/**
+ * Get the elements of a screen that have a component (dataset objects).
+ * Elements outside the image are skipped.
+ */
+export function getDatasetElements(screen: ExportScreen): ExportElement[] {
+  return flattenExportElements(screen.elements).filter(
+    (element) => element.component?.name && !isOutsideImage(element, screen)
+  );
+}
+
+/**
+ * Get category names (component names) sorted alphabetically.
+ * The index in this list is the category id.
+ */
+export function getDatasetCategories(items: ExportBatchItem[]): string[] {
+  const names = new Set<string>();
+  for (const { data } of items) {
+    for (const screen of data.screens) {
+      for (const element of getDatasetElements(screen)) {
+        names.add(element.component?.name ?? "");
+      }
+    }
+  }
+  return [...names].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Get the image file extension of a screen.
+ */
+function getImageExtension(screen: ExportScreen, blob: Blob): string {
+  const match = EXTENSION_REGEX.exec(screen.sourceFileName);
+  if (match) {
+    return match[1].toLowerCase();
+  }
+  return blob.type.split("/")[1] ?? "png";
+}
+
+/**
+ * Collect screen images of all projects with unique file names.
+ * Throws if a screen image is not available.
+ */
+export async function collectDatasetImages(
+  items: ExportBatchItem[]
+): Promise<DatasetImage[]> {
+  const images: DatasetImage[] = [];
+  const used = new Set<string>();
+
+  for (const { data, context } of items) {
+    for (const [index, screen] of data.screens.entries()) {
+      const imageUrl = context.screens[index]?.imageUrl;
+      if (!imageUrl) {
+        throw new Error(`Image for "${screen.name}" is not available`);
+      }
+      const content = await (await fetch(imageUrl)).blob();
+      const base = `${toArchiveName(data.project.name)}-${index + 1}-${toArchiveName(screen.name)}`;
+      let stem = base;
+      for (let i = 2; used.has(stem.toLowerCase()); i++) {
+        stem = `${base}-${i}`;
+      }
+      used.add(stem.toLowerCase());
+      images.push({
+        fileName: `${stem}.${getImageExtension(screen, content)}`,
+        content,
+        screen,
+      });
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Get the archive name of a batch (project name for a single project).
+ */
+export function getDatasetName(items: ExportBatchItem[]): string {
+  return items.length === 1
+    ? `${items[0].data.project.name}-dataset`
+    : "dataset";
+}
+
+/**
+ * Validate data for dataset export.
+ * Elements without a component have no category and are skipped.
+ */
+export function validateDataset(data: ExportData): ValidationResult {
+  const warnings: string[] = [];
+  const elements = data.screens.flatMap((screen) =>
+    flattenExportElements(screen.elements)
+  );
+  const outsideCount = data.screens.flatMap((screen) =>
+    flattenExportElements(screen.elements).filter(
+      (element) => element.component?.name && isOutsideImage(element, screen)
+    )
+  ).length;
+
+  if (elements.length === 0) {
+    warnings.push("No annotations to export");
+  }
+
+  const invalidElementIds = elements
+    .filter((element) => !element.component?.name)
+    .map((element) => element.id);
+  if (invalidElementIds.length > 0) {
+    const count = invalidElementIds.length;
+    warnings.push(
+      count === 1
+        ? "1 element without a component is skipped"
+        : `${count} elements without a component are skipped`
+    );
+  }
+  if (outsideCount > 0) {
+    warnings.push(
+      outsideCount === 1
+        ? "1 element outside the image is skipped"
+        : `${outsideCount} elements outside the image are skipped`
+    );
+  }
+
+  return {
+    isValid: true, // Unlabelled elements are skipped - always valid
+    invalidElementIds,
+    errors: [],
+    warnings,
+  };
+}
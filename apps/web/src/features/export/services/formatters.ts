@@ -0,0 +1,22 @@
+/**
+ * Shared Formatters
+ *
+ * Text formatting helpers used by multiple exporters.
+ */
+
+import type { ExportElement } from "@/types";
+
+/**
+ * Format a component with its props in JSX-like notation.
+ * e.g. `Button variant="destructive" size="sm" disabled={true}`
+ */
+export function formatComponent(
+  component: NonNullable<ExportElement["component"]>
+): string {
+  const props = Object.entries(component.props ?? {}).map(([key, value]) =>
+    typeof value === "string"
+      ? `${key}=${JSON.stringify(value)}`
+      : `${key}={${JSON.stringify(value)}}`
+  );
+  return [component.name, ...props].join(" ");
+}
@@ -0,0 +1,341 @@
+/**
+ * Layout Analyzer
+ *
+ * Infers flex/grid-like structure from sibling bounding boxes:
+ * - Siblings separated vertically form a column, horizontally a row
+ * - A column of rows whose cells share left edges forms a grid
+ * - Siblings that cannot be separated form an overlap group
+ */
+
+import type {
+  ExportElement,
+  ExportLayout,
+  ExportLayoutNode,
+  ExportScreen,
+} from "@/types";
+
+type Bounds = ExportElement["bounds"];
+type Axis = "x" | "y";
+
+/** Node with the bounds it covers */
+interface LayoutItem {
+  node: ExportLayoutNode;
+  bounds: Bounds;
+}
+
+/**
+ * Alignment tolerance (1% of the shorter screen side).
+ * Hand-drawn boxes rarely line up to the pixel.
+ */
+const TOLERANCE_RATIO = 0.01;
+
+/** Minimum alignment tolerance in pixels */
+const MIN_TOLERANCE_PX = 4;
+
+// ============================================
+// Geometry Helpers
+// ============================================
+
+function getStart(bounds: Bounds, axis: Axis): number {
+  return axis === "x" ? bounds.x : bounds.y;
+}
+
+function getEnd(bounds: Bounds, axis: Axis): number {
+  return axis === "x" ? bounds.x + bounds.w : bounds.y + bounds.h;
+}
+
+function getCenter(bounds: Bounds, axis: Axis): number {
+  return (getStart(bounds, axis) + getEnd(bounds, axis)) / 2;
+}
+
+/** Smallest bounds containing all given bounds */
+function unionBounds(bounds: Bounds[]): Bounds {
+  const x = Math.min(...bounds.map((b) => b.x));
+  const y = Math.min(...bounds.map((b) => b.y));
+  const right = Math.max(...bounds.map((b) => getEnd(b, "x")));
+  const bottom = Math.max(...bounds.map((b) => getEnd(b, "y")));
+  return { x, y, w: right - x, h: bottom - y };
+}
+
+/** Check if all values are within tolerance of each other */
+function isAligned(values: number[], tolerance: number): boolean {
+  return Math.max(...values) - Math.min(...values) <= tolerance;
+}
+
+/**
+ * Average gap between consecutive bounds along an axis (rounded, never negative).
+ * Bounds must be sorted along the axis.
+ */
+function averageGap(bounds: Bounds[], axis: Axis): number {
+  let total = 0;
+  for (let i = 1; i < bounds.length; i++) {
+    total += getStart(bounds[i], axis) - getEnd(bounds[i - 1], axis);
+  }
+  return Math.max(0, Math.round(total / (bounds.length - 1)));
+}
+
+/**
+ * Detect cross-axis alignment of bounds.
+ * Returns undefined when the items share no common edge or center.
+ */
+function detectAlignment(
+  bounds: Bounds[],
+  axis: Axis,
+  tolerance: number
+): ExportLayoutNode["align"] {
+  const starts = isAligned(
+    bounds.map((b) => getStart(b, axis)),
+    tolerance
+  );
+  const ends = isAligned(
+    bounds.map((b) => getEnd(b, axis)),
+    tolerance
+  );
+  if (starts && ends) {
+    return "stretch";
+  }
+  if (starts) {
+    return "start";
+  }
+  if (ends) {
+    return "end";
+  }
+  if (
+    isAligned(
+      bounds.map((b) => getCenter(b, axis)),
+      tolerance
+    )
+  ) {
+    return "center";
+  }
+  return;
+}
+
+// ============================================
+// Grouping
+// ============================================
+
+/**
+ * Split items into groups separated by empty space along an axis.
+ * Overlaps up to the tolerance still count as separated.
+ */
+function splitAlongAxis(
+  items: LayoutItem[],
+  axis: Axis,
+  tolerance: number
+): LayoutItem[][] {
+  const sorted = [...items].sort(
+    (a, b) => getStart(a.bounds, axis) - getStart(b.bounds, axis)
+  );
+  const groups: LayoutItem[][] = [];
+  let groupEnd = Number.NEGATIVE_INFINITY;
+  for (const item of sorted) {
+    const current = groups.at(-1);
+    if (current && getStart(item.bounds, axis) < groupEnd - tolerance) {
+      current.push(item);
+      groupEnd = Math.max(groupEnd, getEnd(item.bounds, axis));
+    } else {
+      groups.push([item]);
+      groupEnd = getEnd(item.bounds, axis);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Merge a group of items into a single item covering their bounds.
+ */
+function toGroupItem(
+  group: LayoutItem[],
+  analyze: (group: LayoutItem[]) => ExportLayoutNode
+): LayoutItem {
+  return {
+    node: analyze(group),
+    bounds: unionBounds(group.map((item) => item.bounds)),
+  };
+}
+
+/**
+ * Build a row or column from items sorted along its main axis.
+ */
+function buildStack(
+  type: "row" | "column",
+  items: LayoutItem[],
+  tolerance: number
+): ExportLayoutNode {
+  const bounds = items.map((item) => item.bounds);
+  const align = detectAlignment(bounds, type === "row" ? "y" : "x", tolerance);
+  return {
+    type,
+    gap: averageGap(bounds, type === "row" ? "x" : "y"),
+    ...(align && { align }),
+    children: items.map((item) => item.node),
+  };
+}
+
+/**
+ * Detect a grid in rows of single items whose columns share left edges.
+ * The last row may be incomplete.
+ */
+function detectGrid(
+  rows: LayoutItem[][],
+  tolerance: number
+): ExportLayoutNode | null {
+  const cells = rows.map((row) => splitAlongAxis(row, "x", tolerance));
+  const columns = cells[0].length;
+  const isRegular = cells.every(
+    (row, i) =>
+      row.every((cell) => cell.length === 1) &&
+      (i === cells.length - 1 ? row.length <= columns : row.length === columns)
+  );
+  if (rows.length < 2 || columns < 2 || !isRegular) {
+    return null;
+  }
+
+  for (let column = 0; column < columns; column++) {
+    const lefts = cells
+      .filter((row) => row.length > column)
+      .map((row) => row[column][0].bounds.x);
+    if (!isAligned(lefts, tolerance)) {
+      return null;
+    }
+  }
+
+  const fullRows = cells.filter((row) => row.length > 1);
+  const columnGap =
+    fullRows.reduce(
+      (sum, row) =>
+        sum +
+        averageGap(
+          row.map((cell) => cell[0].bounds),
+          "x"
+        ),
+      0
+    ) / fullRows.length;
+
+  return {
+    type: "grid",
+    columns,
+    gap: Math.round(columnGap),
+    rowGap: averageGap(
+      rows.map((row) => unionBounds(row.map((i) => i.bounds))),
+      "y"
+    ),
+    children: cells.flat(2).map((item) => item.node),
+  };
+}
+
+/**
+ * Build a column from rows sorted top to bottom.
+ * Consecutive rows that form a grid are merged into a grid node.
+ */
+function analyzeRows(
+  rows: LayoutItem[][],
+  tolerance: number
+): ExportLayoutNode {
+  const runs: LayoutItem[][][] = [];
+  for (const row of rows) {
+    const run = runs.at(-1);
+    if (run && detectGrid([...run, row], tolerance)) {
+      run.push(row);
+    } else {
+      runs.push([row]);
+    }
+  }
+
+  const items = runs.map((run) =>
+    toGroupItem(
+      run.flat(),
+      () => detectGrid(run, tolerance) ?? analyzeItems(run.flat(), tolerance)
+    )
+  );
+  return items.length === 1
+    ? items[0].node
+    : buildStack("column", items, tolerance);
+}
+
+/**
+ * Recursively group items: rows top to bottom first, then columns left to right.
+ */
+function analyzeItems(
+  items: LayoutItem[],
+  tolerance: number
+): ExportLayoutNode {
+  if (items.length === 1) {
+    return items[0].node;
+  }
+
+  const rows = splitAlongAxis(items, "y", tolerance);
+  if (rows.length > 1) {
+    return analyzeRows(rows, tolerance);
+  }
+
+  const columns = splitAlongAxis(items, "x", tolerance);
+  if (columns.length > 1) {
+    return buildStack(
+      "row",
+      columns.map((group) =>
+        toGroupItem(group, (g) => analyzeItems(g, tolerance))
+      ),
+      tolerance
+    );
+  }
+
+  const sorted = [...items].sort(
+    (a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x
+  );
+  return { type: "overlap", children: sorted.map((item) => item.node) };
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Analyze the layout of a sibling group.
+ */
+function analyzeSiblings(
+  elements: ExportElement[],
+  tolerance: number
+): ExportLayoutNode {
+  return analyzeItems(
+    elements.map((element) => ({
+      node: { type: "element", elementId: element.id },
+      bounds: element.bounds,
+    })),
+    tolerance
+  );
+}
+
+/**
+ * Infer the layout of a screen's element tree.
+ * Returns undefined for screens without elements.
+ */
+export function analyzeLayout(
+  screen: Pick<ExportScreen, "size" | "elements">
+): ExportLayout | undefined {
+  if (screen.elements.length === 0) {
+    return;
+  }
+
+  const tolerance = Math.max(
+    MIN_TOLERANCE_PX,
+    Math.round(Math.min(screen.size.w, screen.size.h) * TOLERANCE_RATIO)
+  );
+
+  const containers: ExportLayout["containers"] = {};
+  const visit = (elements: ExportElement[]) => {
+    for (const element of elements) {
+      if (element.children?.length) {
+        containers[element.id] = analyzeSiblings(element.children, tolerance);
+        visit(element.children);
+      }
+    }
+  };
+  visit(screen.elements);
+
+  return {
+    root: analyzeSiblings(screen.elements, tolerance),
+    containers,
+  };
+}
@@ -6,7 +6,8 @@ import type {
   PluginRegistryEntry,
   ValidationResult,
 } from "../types";
-import { toExportData } from "./converter";
+import { hasResultContent, toResultBlob } from "./archive";
+import { toExportContext, toExportData } from "./converter";
 
 /**
  * Manages export plugins registration and execution.
@@ -128,7 +129,7 @@ class ExportPluginManager {
     // Validate before export (warnings only, no blocking)
     const validation = plugin.validate(data);
 
-    const result = await plugin.export(data, options);
+    const result = await plugin.export(data, options, toExportContext(input));
 
     // Attach warnings to result if any
     if (validation.warnings.length > 0) {
@@ -138,6 +139,43 @@ class ExportPluginManager {
     return result;
   }
 
+  /**
+   * Check if a plugin can export several projects at once.
+   * @param pluginId - The ID of the plugin
+   */
+  supportsBatch(pluginId: string): boolean {
+    return !!this.getPlugin(pluginId)?.exportBatch;
+  }
+
+  /**
+   * Export several projects into one result using a specific plugin.
+   * @param pluginId - The ID of the plugin to use
+   * @param inputs - The export inputs (one per project)
+   * @param options - Optional export configuration
+   * @returns Export result
+   */
+  async exportBatch(
+    pluginId: string,
+    inputs: ExportInput[],
+    options?: ExportOptions
+  ): Promise<ExportResult> {
+    const plugin = this.getPlugin(pluginId);
+    if (!plugin?.exportBatch) {
+      return {
+        success: false,
+        error: `Plugin "${pluginId}" does not support batch export`,
+        filename: "error.txt",
+        mimeType: "text/plain",
+      };
+    }
+
+    const items = inputs.map((input) => ({
+      data: toExportData(input),
+      context: toExportContext(input),
+    }));
+    return await plugin.exportBatch(items, options);
+  }
+
   /**
    * Download export in a specific format.
    * @param pluginId - The ID of the plugin to use
@@ -149,13 +187,32 @@ class ExportPluginManager {
     input: ExportInput,
     options?: ExportOptions
   ): Promise<void> {
-    const result = await this.export(pluginId, input, options);
+    await this.saveResult(await this.export(pluginId, input, options));
+  }
+
+  /**
+   * Download a batch export of several projects.
+   * @param pluginId - The ID of the plugin to use
+   * @param inputs - The export inputs (one per project)
+   * @param options - Optional export configuration
+   */
+  async downloadBatch(
+    pluginId: string,
+    inputs: ExportInput[],
+    options?: ExportOptions
+  ): Promise<void> {
+    await this.saveResult(await this.exportBatch(pluginId, inputs, options));
+  }
 
-    if (!(result.success && result.content)) {
+  /**
+   * Save an export result as a file download.
+   */
+  private async saveResult(result: ExportResult): Promise<void> {
+    if (!hasResultContent(result)) {
       throw new Error(result.error ?? "Export failed");
     }
 
-    const blob = new Blob([result.content], { type: result.mimeType });
+    const blob = await toResultBlob(result);
     const url = URL.createObjectURL(blob);
 
     try {
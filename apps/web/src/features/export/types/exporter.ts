@@ -1,5 +1,11 @@
-import type { Element, ElementId } from "@/types";
-import type { ExportData } from "./export-schema";
+import type {
+  Connector,
+  Element,
+  ElementId,
+  ExportData,
+  ReviewComment,
+  Spacing,
+} from "@/types";
 
 /**
  * Exporter Plugin Types
@@ -12,23 +18,122 @@ import type { ExportData } from "./export-schema";
 // ============================================
 
 /**
- * Input for export operations.
- * This is what the app layer provides to the export feature.
+ * Options for rendering an annotated screen image.
  */
-export interface ExportInput {
+export interface ImageRenderOptions {
+  /** Draw element labels */
+  showLabels: boolean;
+  /** Draw serial number badges */
+  showNumbers: boolean;
+  /** Use element colors (otherwise a single color) */
+  useColors: boolean;
+}
+
+/**
+ * Renders a screen with its annotations as an image (injected by the app layer).
+ */
+export type ImageRenderer = (
+  screenIndex: number,
+  options: ImageRenderOptions
+) => Promise<Blob>;
+
+/**
+ * Screen input for export operations.
+ */
+export interface ExportScreenInput {
   name: string;
-  description?: string;
   /** Original source file name with extension (e.g., "screenshot.png") */
   sourceFileName: string;
   imageWidth: number;
   imageHeight: number;
   elements: Element[];
+  /** URL of the original screenshot (for exporters that embed images) */
+  imageUrl?: string;
+  /** CSS colors keyed by element ID (for exporters that draw boxes) */
+  elementColors?: Record<ElementId, string>;
+  /** Review comments (exported only with `includeComments`) */
+  comments?: ReviewComment[];
+  /** Connectors, exported as interactions */
+  connectors?: Connector[];
+  /** Saved spacings between element edges */
+  spacings?: Spacing[];
+  /** Device pixel ratio of the screenshot (defaults to 1) */
+  pixelRatio?: number;
+}
+
+/**
+ * Input for export operations.
+ * This is what the app layer provides to the export feature.
+ */
+export interface ExportInput {
+  name: string;
+  description?: string;
+  /** Screens in project order */
+  screens: ExportScreenInput[];
+  /** Import statements keyed by component name (from the component catalog) */
+  componentImports?: Record<string, string>;
+  /** Index of the screen shown in the editor */
+  activeScreenIndex?: number;
+  /** Annotated image renderer (for image exporters) */
+  renderImage?: ImageRenderer;
+  /** Include review comments in the exported data */
+  includeComments?: boolean;
+}
+
+// ============================================
+// Export Context
+// ============================================
+
+/**
+ * Screen resources that are not part of ExportData.
+ */
+export interface ExportScreenAssets {
+  /** URL of the original screenshot (object or data URL) */
+  imageUrl?: string;
+  /** CSS colors keyed by element ID */
+  elementColors: Record<ElementId, string>;
+}
+
+/**
+ * Resources passed to exporters alongside ExportData.
+ * Screens are in the same order as ExportData.screens.
+ */
+export interface ExportContext {
+  screens: ExportScreenAssets[];
+  /** Index of the screen shown in the editor */
+  activeScreenIndex: number;
+  /** Annotated image renderer (unavailable outside the editor) */
+  renderImage?: ImageRenderer;
+}
+
+/**
+ * One project of a batch export.
+ */
+export interface ExportBatchItem {
+  data: ExportData;
+  context: ExportContext;
 }
 
 // ============================================
 // Plugin Metadata
 // ============================================
 
+/**
+ * Option shown in the export dialog.
+ * Boolean options render as checkboxes, number options as number inputs.
+ * The value is passed to the plugin in ExportOptions under `id`.
+ */
+export interface ExporterOptionMeta {
+  id: string;
+  /** Field label */
+  label: string;
+  defaultValue: boolean | number;
+  /** Minimum value (number options) */
+  min?: number;
+  /** Maximum value (number options) */
+  max?: number;
+}
+
 /**
  * Exporter plugin metadata.
  */
@@ -47,6 +152,8 @@ export interface ExporterMeta {
   supportsClipboard?: boolean;
   /** Whether this format supports file download */
   supportsDownload?: boolean;
+  /** Options shown in the export dialog */
+  options?: ExporterOptionMeta[];
 }
 
 // ============================================
@@ -87,14 +194,29 @@ export interface ValidationResult {
 // Export Result
 // ============================================
 
+/**
+ * A file in a multi-file export.
+ */
+export interface ExportFile {
+  /** Path within the archive (e.g. "crops/01-header.png") */
+  path: string;
+  /** File content (text or binary) */
+  content: string | Blob;
+}
+
 /**
  * Result of an export operation.
+ * Exactly one of `content`, `blob`, or `files` is set on success.
  */
 export interface ExportResult {
   /** Whether the export succeeded */
   success: boolean;
   /** The exported content as a string */
   content?: string;
+  /** The exported content as binary data (e.g. images) */
+  blob?: Blob;
+  /** Multiple files, downloaded as one ZIP archive */
+  files?: ExportFile[];
   /** Error message if export failed */
   error?: string;
   /** Suggested filename for download */
@@ -129,10 +251,23 @@ export interface ExporterPlugin {
    * Export to the plugin's format.
    * @param data - The export data (unified format)
    * @param options - Optional export configuration
+   * @param context - Images and colors of the screens
    * @returns Export result with content or error
    */
   export(
     data: ExportData,
+    options?: ExportOptions,
+    context?: ExportContext
+  ): Promise<ExportResult> | ExportResult;
+
+  /**
+   * Export several projects into one result (e.g. a training dataset).
+   * Plugins without this method only export the current project.
+   * @param items - Projects with their export context
+   * @param options - Optional export configuration
+   */
+  exportBatch?(
+    items: ExportBatchItem[],
     options?: ExportOptions
   ): Promise<ExportResult> | ExportResult;
 }
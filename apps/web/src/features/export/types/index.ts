@@ -2,5 +2,16 @@
  * Export Feature Types
  */
 
-export * from "./export-schema";
+export type {
+  ExportComment,
+  ExportData,
+  ExportElement,
+  ExportInteraction,
+  ExportInteractionEndpoint,
+  ExportLayout,
+  ExportLayoutNode,
+  ExportScreen,
+  ExportShape,
+  ExportSpacing,
+} from "@/types";
 export * from "./exporter";
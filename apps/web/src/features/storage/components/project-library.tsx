@@ -0,0 +1,368 @@
+/**
+ * Project Library
+ *
+ * Lists the projects kept in the local library with thumbnails and
+ * offers opening, renaming, duplicating and deleting them.
+ */
+
+import { Copy, ImageIcon, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { type Result, showError } from "@/lib/error";
+import { cn } from "@/lib/utils";
+import {
+  deleteLibraryProject,
+  duplicateLibraryProject,
+  listLibraryProjects,
+  renameLibraryProject,
+} from "../services/project-library";
+import type { LibraryProjectSummary } from "../types";
+
+export interface ProjectLibraryProps {
+  /** Project open in the editor (cannot be renamed or deleted here) */
+  currentProjectId?: string;
+  /** Handler for opening a project */
+  onOpenProject: (id: string) => void;
+  /** Heading shown above the list */
+  title?: string;
+  /** Render nothing while the library is empty */
+  hideWhenEmpty?: boolean;
+  className?: string;
+}
+
+/**
+ * Format the last edit time of a project.
+ */
+function formatUpdatedAt(updatedAt: string): string {
+  return new Date(updatedAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * Thumbnail of a project (object URL released on unmount).
+ */
+function ProjectThumbnail({ thumbnail }: { thumbnail?: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!thumbnail) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(thumbnail);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [thumbnail]);
+
+  return (
+    <div className="flex aspect-video items-center justify-center overflow-hidden rounded-t-lg bg-muted">
+      {url ? (
+        <img
+          alt=""
+          className="h-full w-full object-cover object-top"
+          height={180}
+          src={url}
+          width={320}
+        />
+      ) : (
+        <ImageIcon className="h-6 w-6 text-muted-foreground" />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Card of a single library project.
+ */
+function ProjectCard({
+  project,
+  isCurrent,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  project: LibraryProjectSummary;
+  isCurrent: boolean;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(project.name);
+
+  const finishRename = () => {
+    setIsRenaming(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== project.name) {
+      onRename(trimmed);
+    } else {
+      setName(project.name);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "group relative rounded-lg border bg-background transition-colors hover:border-primary/50",
+        isCurrent && "border-primary"
+      )}
+    >
+      <button
+        className="block w-full text-left"
+        disabled={isRenaming}
+        onClick={onOpen}
+        type="button"
+      >
+        <ProjectThumbnail thumbnail={project.thumbnail} />
+      </button>
+      <div className="flex items-start gap-1 p-2">
+        <div className="min-w-0 flex-1">
+          {isRenaming ? (
+            <Input
+              autoFocus
+              className="h-6 px-1 text-sm"
+              onBlur={finishRename}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  finishRename();
+                } else if (e.key === "Escape") {
+                  setName(project.name);
+                  setIsRenaming(false);
+                }
+              }}
+              value={name}
+            />
+          ) : (
+            <p className="truncate font-medium text-sm" title={project.name}>
+              {project.name}
+            </p>
+          )}
+          <p className="truncate text-muted-foreground text-xs">
+            {isCurrent ? "Open now" : formatUpdatedAt(project.updatedAt)}
+            {" · "}
+            {project.screenCount > 1 && `${project.screenCount} screens, `}
+            {project.elementCount} elements
+          </p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button className="h-6 w-6 shrink-0" size="icon" variant="ghost">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              disabled={isCurrent}
+              onClick={() => setIsRenaming(true)}
+            >
+              <Pencil className="mr-2 h-4 w-4" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onDuplicate}>
+              <Copy className="mr-2 h-4 w-4" />
+              Duplicate
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="text-destructive focus:text-destructive"
+              disabled={isCurrent}
+              onClick={onDelete}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Grid of library projects.
+ */
+export function ProjectLibrary({
+  currentProjectId,
+  onOpenProject,
+  title,
+  hideWhenEmpty = false,
+  className,
+}: ProjectLibraryProps) {
+  const [projects, setProjects] = useState<LibraryProjectSummary[] | null>(
+    null
+  );
+  const [deleteTarget, setDeleteTarget] =
+    useState<LibraryProjectSummary | null>(null);
+
+  const refresh = useCallback(async () => {
+    const result = await listLibraryProjects();
+    if (!result.success) {
+      showError("Failed to load projects", result.error);
+      setProjects([]);
+      return;
+    }
+    setProjects(result.data);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Run a library change, then reload the list
+  const runAction = async (
+    title: string,
+    action: Promise<Result<unknown, string>>
+  ) => {
+    const result = await action;
+    if (!result.success) {
+      showError(title, result.error);
+    }
+    await refresh();
+  };
+
+  const handleDelete = () => {
+    if (deleteTarget) {
+      runAction(
+        "Failed to delete project",
+        deleteLibraryProject(deleteTarget.id)
+      );
+    }
+    setDeleteTarget(null);
+  };
+
+  if (!projects || (hideWhenEmpty && projects.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      {title && (
+        <h2 className="mb-3 font-medium text-muted-foreground text-sm">
+          {title}
+        </h2>
+      )}
+      {projects.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground text-sm">
+          No projects yet
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {projects.map((project) => (
+            <ProjectCard
+              isCurrent={project.id === currentProjectId}
+              key={project.id}
+              onDelete={() => setDeleteTarget(project)}
+              onDuplicate={() =>
+                runAction(
+                  "Failed to duplicate project",
+                  duplicateLibraryProject(project.id)
+                )
+              }
+              onOpen={() => onOpenProject(project.id)}
+              onRename={(name) =>
+                runAction(
+                  "Failed to rename project",
+                  renameLibraryProject(project.id, name)
+                )
+              }
+              project={project}
+            />
+          ))}
+        </div>
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        open={deleteTarget !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Project</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{deleteTarget?.name}" from this device? This cannot be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "destructive" })}
+              onClick={handleDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export interface ProjectLibraryDialogProps
+  extends Pick<ProjectLibraryProps, "currentProjectId" | "onOpenProject"> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for switching between library projects in the editor.
+ */
+export function ProjectLibraryDialog({
+  open,
+  onOpenChange,
+  currentProjectId,
+  onOpenProject,
+}: ProjectLibraryDialogProps) {
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Projects</DialogTitle>
+          <DialogDescription>
+            Projects are saved automatically on this device.
+          </DialogDescription>
+        </DialogHeader>
+        <ProjectLibrary
+          className="max-h-[60vh] overflow-y-auto"
+          currentProjectId={currentProjectId}
+          onOpenProject={(id) => {
+            onOpenChange(false);
+            if (id !== currentProjectId) {
+              onOpenProject(id);
+            }
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
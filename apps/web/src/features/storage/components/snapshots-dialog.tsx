@@ -0,0 +1,247 @@
+/**
+ * Snapshots Dialog
+ *
+ * Lists saved versions of the current project (autosaves and named
+ * snapshots) and lets the user save, name, delete and restore them.
+ */
+
+import { History, Pencil, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { type Result, showError, showSuccess } from "@/lib/error";
+import type { Project } from "@/types";
+import {
+  createProjectSnapshot,
+  deleteProjectSnapshot,
+  listProjectSnapshots,
+  renameProjectSnapshot,
+} from "../services/project-snapshots";
+import type { ProjectSnapshotSummary } from "../types";
+
+export interface SnapshotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Project open in the editor */
+  project: Project | null;
+  /** Handler for restoring a snapshot */
+  onRestore: (snapshotId: string) => void;
+}
+
+/**
+ * Format the creation time of a snapshot.
+ */
+function formatCreatedAt(createdAt: string): string {
+  return new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * Row of a single snapshot.
+ */
+function SnapshotRow({
+  snapshot,
+  onRestore,
+  onRename,
+  onDelete,
+}: {
+  snapshot: ProjectSnapshotSummary;
+  onRestore: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(snapshot.name ?? "");
+
+  const finishRename = () => {
+    setIsRenaming(false);
+    if (name.trim() !== (snapshot.name ?? "")) {
+      onRename(name.trim());
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 rounded bg-muted/50 px-3 py-2 text-sm">
+      <div className="min-w-0 flex-1">
+        {isRenaming ? (
+          <Input
+            autoFocus
+            className="h-6 px-1 text-sm"
+            onBlur={finishRename}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                finishRename();
+              }
+            }}
+            placeholder="Snapshot name"
+            value={name}
+          />
+        ) : (
+          <p className="truncate font-medium">
+            {snapshot.name ?? (
+              <span className="text-muted-foreground">Autosave</span>
+            )}
+          </p>
+        )}
+        <p className="truncate text-muted-foreground text-xs">
+          {formatCreatedAt(snapshot.createdAt)} · {snapshot.elementCount}{" "}
+          elements
+          {snapshot.screenCount > 1 && `, ${snapshot.screenCount} screens`}
+        </p>
+      </div>
+      <Button
+        className="h-7 w-7"
+        disabled={isRenaming}
+        onClick={() => setIsRenaming(true)}
+        size="icon"
+        title="Name snapshot"
+        variant="ghost"
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button
+        className="h-7 w-7"
+        onClick={onDelete}
+        size="icon"
+        title="Delete snapshot"
+        variant="ghost"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      <Button onClick={onRestore} size="sm" variant="outline">
+        Restore
+      </Button>
+    </div>
+  );
+}
+
+export function SnapshotsDialog({
+  open,
+  onOpenChange,
+  project,
+  onRestore,
+}: SnapshotsDialogProps) {
+  const [snapshots, setSnapshots] = useState<ProjectSnapshotSummary[]>([]);
+  const [name, setName] = useState("");
+  const projectId = project?.id;
+
+  const refresh = useCallback(async () => {
+    if (!projectId) {
+      setSnapshots([]);
+      return;
+    }
+    const result = await listProjectSnapshots(projectId);
+    if (!result.success) {
+      showError("Failed to load snapshots", result.error);
+      return;
+    }
+    setSnapshots(result.data);
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+    }
+  }, [open, refresh]);
+
+  // Run a snapshot change, then reload the list
+  const runAction = async (
+    title: string,
+    action: Promise<Result<unknown, string>>
+  ) => {
+    const result = await action;
+    if (!result.success) {
+      showError(title, result.error);
+    }
+    await refresh();
+  };
+
+  const handleSave = async () => {
+    if (!project) {
+      return;
+    }
+    const snapshotName = name.trim() || undefined;
+    const result = await createProjectSnapshot(project, snapshotName);
+    if (!result.success) {
+      showError("Failed to save snapshot", result.error);
+      return;
+    }
+    setName("");
+    showSuccess("Snapshot saved", snapshotName);
+    await refresh();
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Autosaves are taken every few minutes while you edit. Named
+            snapshots are kept until you delete them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <Input
+            className="h-8"
+            onChange={(e) => setName(e.target.value)}
+            placeholder='Snapshot name (e.g. "before review")'
+            value={name}
+          />
+          <Button disabled={!project} size="sm" type="submit">
+            Save Snapshot
+          </Button>
+        </form>
+
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {snapshots.length === 0 ? (
+            <div className="py-6 text-center text-muted-foreground text-sm">
+              <History className="mx-auto mb-2 h-6 w-6" />
+              No snapshots yet
+            </div>
+          ) : (
+            snapshots.map((snapshot) => (
+              <SnapshotRow
+                key={snapshot.id}
+                onDelete={() =>
+                  runAction(
+                    "Failed to delete snapshot",
+                    deleteProjectSnapshot(snapshot.id)
+                  )
+                }
+                onRename={(snapshotName) =>
+                  runAction(
+                    "Failed to name snapshot",
+                    renameProjectSnapshot(snapshot.id, snapshotName)
+                  )
+                }
+                onRestore={() => {
+                  onOpenChange(false);
+                  onRestore(snapshot.id);
+                }}
+                snapshot={snapshot}
+              />
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,34 @@
 /**
  * Storage Feature
  *
- * Provides Open/Save functionality for project files.
+ * Provides Open/Save functionality for project files and the local
+ * project library.
  */
 
+export {
+  ProjectLibrary,
+  ProjectLibraryDialog,
+} from "./components/project-library";
+export { SnapshotsDialog } from "./components/snapshots-dialog";
+
 export {
   getAcceptPattern,
   isAcceptableFile,
 } from "./services/codecs";
-export { openFile, saveProjectFile } from "./services/project-storage";
+export {
+  getLastProjectId,
+  importLegacyProject,
+  openLibraryProject,
+  saveLibraryProject,
+  setLastProjectId,
+} from "./services/project-library";
+export {
+  createProjectSnapshot,
+  openProjectSnapshot,
+} from "./services/project-snapshots";
+export {
+  loadFile,
+  openFile,
+  openImageAsScreen,
+  saveProjectFile,
+} from "./services/project-storage";
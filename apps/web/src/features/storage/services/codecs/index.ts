@@ -4,6 +4,7 @@
  * Registry of available storage format codecs.
  */
 
+import { isJsonFile } from "../export-data-import";
 import type { StorageCodec } from "./types";
 import { zipCodec } from "./zip-codec";
 
@@ -26,18 +27,18 @@ export function findCodecForBuffer(buffer: ArrayBuffer): StorageCodec | null {
 
 /**
  * Get accept pattern for file inputs.
- * Combines image/* with all registered codec extensions.
+ * Combines image/*, JSON exports, and all registered codec extensions.
  */
 export function getAcceptPattern(): string {
   const codecExtensions = codecs.map((c) => `.${c.extension}`);
-  return ["image/*", ...codecExtensions].join(",");
+  return ["image/*", ".json", ...codecExtensions].join(",");
 }
 
 /**
- * Check if a file is acceptable (image or project file).
+ * Check if a file is acceptable (image, JSON export, or project file).
  */
 export function isAcceptableFile(file: File): boolean {
-  if (file.type.startsWith("image/")) {
+  if (file.type.startsWith("image/") || isJsonFile(file)) {
     return true;
   }
   return codecs.some(
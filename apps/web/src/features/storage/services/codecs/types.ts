@@ -13,8 +13,8 @@ import type { Result } from "@/lib/error";
 export interface SerializedProject {
   /** Project metadata as JSON string */
   projectJson: string;
-  /** Image as Data URL (preserves original format) */
-  imageDataUrl: string;
+  /** Images keyed by path within the archive, as original image files */
+  images: Record<string, Blob>;
 }
 
 /**
@@ -34,7 +34,7 @@ export interface EncodeResult {
  *
  * Codecs are responsible for encoding/decoding projects to/from
  * specific file formats. They don't know about Project structure,
- * only about SerializedProject (JSON + image).
+ * only about SerializedProject (JSON + images).
  */
 export interface StorageCodec {
   /** Unique identifier for this codec */
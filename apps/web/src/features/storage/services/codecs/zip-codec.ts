@@ -5,8 +5,8 @@
  * Preserves original image format to avoid file size inflation.
  *
  * Archive structure:
- * - {sourceFileName} - Original image file with its original name
- * - project.json - Project metadata (references image by sourceFileName)
+ * - images/{nn}-{sourceFileName} - Original image of each screen
+ * - project.json - Project metadata (references images by path)
  */
 
 import { unzip, zip } from "fflate";
@@ -37,50 +37,12 @@ function getMimeTypeFromExtension(ext: string): string {
   return extToMime[ext.toLowerCase()] || "application/octet-stream";
 }
 
-/**
- * Convert Data URL to Uint8Array
- * @throws Error if Data URL format is invalid
- */
-function dataUrlToUint8Array(dataUrl: string): Uint8Array {
-  const commaIndex = dataUrl.indexOf(",");
-  if (commaIndex === -1) {
-    throw new Error("Invalid Data URL: missing comma separator");
-  }
-  const base64 = dataUrl.slice(commaIndex + 1);
-  if (!base64) {
-    throw new Error("Invalid Data URL: empty data");
-  }
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
-}
-
-/**
- * Convert Uint8Array to Data URL
- * Uses chunked processing to avoid call stack limits and improve performance.
- */
-function uint8ArrayToDataUrl(data: Uint8Array, mimeType: string): string {
-  // Process in chunks to avoid call stack size exceeded for large files
-  // 8KB keeps spread operator arguments well within safe limits
-  const chunkSize = 0x20_00; // 8KB chunks
-  const chunks: string[] = [];
-  for (let i = 0; i < data.length; i += chunkSize) {
-    const chunk = data.subarray(i, i + chunkSize);
-    chunks.push(String.fromCharCode(...chunk));
-  }
-  const base64 = btoa(chunks.join(""));
-  return `data:${mimeType};base64,${base64}`;
-}
-
 /**
  * ZIP Storage Codec
  *
  * Stores projects as ZIP archives containing:
- * - {sourceFileName}: Original image with its original filename
- * - project.json: Project metadata (references image by sourceFileName)
+ * - Screen images with their original format
+ * - project.json: Project metadata (references images by path)
  */
 export const zipCodec: StorageCodec = {
   id: "zip",
@@ -99,21 +61,16 @@ export const zipCodec: StorageCodec = {
 
   async encode(data: SerializedProject): Promise<Result<EncodeResult, string>> {
     try {
-      // Extract sourceFileName from project JSON
-      const projectData = JSON.parse(data.projectJson) as {
-        project: { sourceFileName: string };
+      const files: Record<string, Uint8Array> = {
+        [PROJECT_JSON_FILENAME]: new TextEncoder().encode(data.projectJson),
       };
-      const imageFilename = projectData.project.sourceFileName;
-
-      const imageData = dataUrlToUint8Array(data.imageDataUrl);
-      const jsonData = new TextEncoder().encode(data.projectJson);
+      for (const [path, image] of Object.entries(data.images)) {
+        files[path] = new Uint8Array(await image.arrayBuffer());
+      }
 
       const zipData = await new Promise<Uint8Array>((resolve, reject) => {
         zip(
-          {
-            [imageFilename]: imageData,
-            [PROJECT_JSON_FILENAME]: jsonData,
-          },
+          files,
           { level: 0 }, // No compression for images (already compressed)
           (zipErr, result) => {
             if (zipErr) {
@@ -155,35 +112,23 @@ export const zipCodec: StorageCodec = {
             return;
           }
 
-          // Extract project JSON and get sourceFileName
           const projectJson = new TextDecoder().decode(projectJsonData);
-          let sourceFileName: string;
-          try {
-            const projectData = JSON.parse(projectJson) as {
-              project: { sourceFileName: string };
-            };
-            sourceFileName = projectData.project.sourceFileName;
-          } catch {
-            reject(new Error("Invalid project.json format"));
-            return;
-          }
 
-          // Find image file by sourceFileName
-          const imageData = files[sourceFileName];
-          if (!imageData) {
-            reject(
-              new Error(`Image file not found in archive: ${sourceFileName}`)
-            );
-            return;
+          // Every other file is an image, keyed by its path
+          const images: Record<string, Blob> = {};
+          for (const [path, fileData] of Object.entries(files)) {
+            if (path === PROJECT_JSON_FILENAME || path.endsWith("/")) {
+              continue;
+            }
+            const ext = path.split(".").pop() || "bin";
+            const mimeType = getMimeTypeFromExtension(ext);
+            images[path] = new Blob([fileData as Uint8Array<ArrayBuffer>], {
+              type: mimeType,
+            });
           }
 
-          // Extract image
-          const ext = sourceFileName.split(".").pop() || "bin";
-          const mimeType = getMimeTypeFromExtension(ext);
-          const imageDataUrl = uint8ArrayToDataUrl(imageData, mimeType);
-
           resolve({
-            imageDataUrl,
+            images,
             projectJson,
           });
         });
@@ -0,0 +1,318 @@
+/**
+ * Export Data Import
+ *
+ * Restores an editable project from an `ExportData` JSON file
+ * (JSON export) and the screenshots it references.
+ * File reading is done by the project storage service.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { err, ok, type Result } from "@/lib/error";
+import { createBBox } from "@/lib/geometry";
+import {
+  type Connector,
+  compareVersions,
+  type EditorElement,
+  type ElementShape,
+  type ExportData,
+  type ExportElement,
+  type ExportInteractionEndpoint,
+  type ExportScreen,
+  exportDataSchema,
+  type Project,
+  type ReviewComment,
+  type Screen,
+  type Spacing,
+  VERSIONS,
+} from "@/types";
+
+/** Matches JSON file names */
+const JSON_FILE_REGEX = /\.json$/i;
+
+/**
+ * Check if a file is a JSON file (by name or MIME type).
+ */
+export function isJsonFile(file: File): boolean {
+  return file.type === "application/json" || JSON_FILE_REGEX.test(file.name);
+}
+
+/**
+ * Export format 0.0.1: a single screen with its elements at the top level.
+ * Elements are validated after upgrading.
+ */
+const exportDataV001Schema = z.object({
+  version: z.literal("0.0.1"),
+  screen: z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    sourceFileName: z.string(),
+    size: z.object({ w: z.number(), h: z.number() }),
+  }),
+  elements: z.array(z.unknown()),
+  exportedAt: z.string(),
+});
+
+/**
+ * Export format 0.0.2: screens with a flat list of elements (before nested
+ * `children`). The elements stay top-level elements.
+ */
+const exportDataV002Schema = z.looseObject({
+  version: z.literal("0.0.2"),
+});
+
+/**
+ * Upgrade older export formats to the current one.
+ * Other input is returned as-is.
+ */
+function upgradeExportData(json: unknown): unknown {
+  const v002 = exportDataV002Schema.safeParse(upgradeExportDataV001(json));
+  if (!v002.success) {
+    return json;
+  }
+  return { ...v002.data, version: VERSIONS.export };
+}
+
+/**
+ * Upgrade export format 0.0.1 (a single screen) to 0.0.2.
+ */
+function upgradeExportDataV001(json: unknown): unknown {
+  const v001 = exportDataV001Schema.safeParse(json);
+  if (!v001.success) {
+    return json;
+  }
+  const { screen, elements, exportedAt } = v001.data;
+  return {
+    version: "0.0.2",
+    project: {
+      name: screen.name,
+      ...(screen.description && { description: screen.description }),
+    },
+    screens: [
+      {
+        name: screen.name,
+        sourceFileName: screen.sourceFileName,
+        size: screen.size,
+        elements,
+      },
+    ],
+    exportedAt,
+  };
+}
+
+/**
+ * Parse and validate ExportData JSON, upgrading older formats.
+ */
+export function parseExportData(text: string): Result<ExportData, string> {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return err("Invalid JSON file");
+  }
+
+  const version = z.object({ version: z.string() }).safeParse(json);
+  if (
+    version.success &&
+    compareVersions(version.data.version, VERSIONS.export) > 0
+  ) {
+    return err(
+      `This export was created by a newer version of UI Annotator (format ${version.data.version}). Please update the app to open it.`
+    );
+  }
+
+  const parsed = exportDataSchema.safeParse(upgradeExportData(json));
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    const path = issue.path.join(".");
+    return err(
+      `JSON file is not a UI Annotator export (${path ? `${path}: ` : ""}${issue.message})`
+    );
+  }
+  return ok(parsed.data);
+}
+
+/**
+ * Find the image file of an exported screen.
+ * Matches by source file name; a single screen takes the only image.
+ */
+export function findScreenImage(
+  screen: ExportScreen,
+  images: File[],
+  screenCount: number
+): File | undefined {
+  const fileName = screen.sourceFileName.toLowerCase();
+  return (
+    images.find((image) => image.name.toLowerCase() === fileName) ??
+    (screenCount === 1 && images.length === 1 ? images[0] : undefined)
+  );
+}
+
+/**
+ * Rebuild an element shape relative to its bounding box.
+ */
+function toElementShape(node: ExportElement): ElementShape | undefined {
+  if (node.shape?.type === "ellipse") {
+    return { type: "ellipse" };
+  }
+  if (node.shape?.type === "polygon") {
+    const { x, y, w, h } = node.bounds;
+    return {
+      type: "polygon",
+      points: node.shape.points.map((p) => ({
+        x: w > 0 ? (p.x - x) / w : 0,
+        y: h > 0 ? (p.y - y) / h : 0,
+      })),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Rebuild editor elements from an exported element tree.
+ * Serial numbers and display order follow tree order (parents first).
+ * Bounds are scaled if the image size differs from the exported size.
+ */
+function toEditorElements(
+  screen: ExportScreen,
+  imageSize: { w: number; h: number }
+): EditorElement[] {
+  const now = new Date().toISOString();
+  const sx = imageSize.w / screen.size.w;
+  const sy = imageSize.h / screen.size.h;
+  const elements: EditorElement[] = [];
+
+  const visit = (nodes: ExportElement[], parentId?: string) => {
+    for (const node of nodes) {
+      const { x, y, w, h } = node.bounds;
+      const shape = toElementShape(node);
+      elements.push({
+        id: node.id,
+        label: node.label,
+        bbox: createBBox(
+          { x: x * sx, y: y * sy, w: w * sx, h: h * sy },
+          imageSize
+        ),
+        serialNumber: elements.length + 1,
+        displayOrder: elements.length,
+        createdAt: now,
+        updatedAt: now,
+        ...(shape && { shape }),
+        ...(node.component && {
+          component: {
+            name: node.component.name,
+            ...(node.component.props && { props: node.component.props }),
+          },
+        }),
+        ...(node.notes && { notes: node.notes }),
+        ...(parentId && { parentId }),
+      });
+      visit(node.children ?? [], node.id);
+    }
+  };
+  visit(screen.elements);
+
+  return elements;
+}
+
+/**
+ * Rebuild review comments (present only when included in the export).
+ */
+function toReviewComments(
+  screen: ExportScreen,
+  imageSize: { w: number; h: number }
+): ReviewComment[] {
+  const sx = imageSize.w / screen.size.w;
+  const sy = imageSize.h / screen.size.h;
+  return (screen.comments ?? []).map((comment) => ({
+    ...comment,
+    id: uuidv4(),
+    point: { x: comment.point.x * sx, y: comment.point.y * sy },
+    replies: comment.replies.map((reply) => ({ ...reply, id: uuidv4() })),
+  }));
+}
+
+/**
+ * Rebuild connectors from exported interactions.
+ * Endpoints whose element is missing become free points.
+ */
+function toConnectors(
+  screen: ExportScreen,
+  elements: EditorElement[],
+  imageSize: { w: number; h: number }
+): Connector[] {
+  const sx = imageSize.w / screen.size.w;
+  const sy = imageSize.h / screen.size.h;
+  const ids = new Set(elements.map((e) => e.id));
+  const toEndpoint = ({ elementId, point }: ExportInteractionEndpoint) =>
+    elementId && ids.has(elementId)
+      ? { elementId }
+      : { point: { x: point.x * sx, y: point.y * sy } };
+
+  return (screen.interactions ?? []).map((interaction) => ({
+    id: uuidv4(),
+    type: interaction.type,
+    ...(interaction.label && { label: interaction.label }),
+    from: toEndpoint(interaction.from),
+    to: toEndpoint(interaction.to),
+  }));
+}
+
+/**
+ * Rebuild saved spacings, dropping those whose elements are missing.
+ */
+function toSpacings(
+  screen: ExportScreen,
+  elements: EditorElement[]
+): Spacing[] {
+  const ids = new Set(elements.map((e) => e.id));
+  return (screen.spacings ?? [])
+    .filter(({ from, to }) => ids.has(from.elementId) && ids.has(to.elementId))
+    .map(({ from, to }) => ({ id: uuidv4(), from, to }));
+}
+
+/**
+ * Restore a screen from an exported screen and its loaded image.
+ */
+export function restoreScreen(
+  exported: ExportScreen,
+  imageUrl: string,
+  imageSize: { w: number; h: number }
+): Screen {
+  const elements = toEditorElements(exported, imageSize);
+  return {
+    id: uuidv4(),
+    name: exported.name,
+    sourceFileName: exported.sourceFileName,
+    imageUrl,
+    imageWidth: imageSize.w,
+    imageHeight: imageSize.h,
+    elements,
+    ...(exported.pixelRatio && { pixelRatio: exported.pixelRatio }),
+    ...(exported.comments && {
+      comments: toReviewComments(exported, imageSize),
+    }),
+    ...(exported.interactions && {
+      connectors: toConnectors(exported, elements, imageSize),
+    }),
+    ...(exported.spacings && { spacings: toSpacings(exported, elements) }),
+  };
+}
+
+/**
+ * Restore a project from export data and its restored screens.
+ */
+export function restoreProject(data: ExportData, screens: Screen[]): Project {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    name: data.project.name,
+    ...(data.project.description && {
+      description: data.project.description,
+    }),
+    screens,
+    activeScreenId: screens[0].id,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
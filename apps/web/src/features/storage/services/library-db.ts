@@ -0,0 +1,213 @@
+/**
+ * Library Database
+ *
+ * IndexedDB access shared by the project library and its snapshots.
+ *
+ * Object stores:
+ * - projects: latest state of each project (keyed by project ID)
+ * - snapshots: earlier versions of projects (indexed by project ID)
+ * - images: screen images as Blobs (keyed by "projectId/screenId"),
+ *   shared by a project and its snapshots
+ */
+
+import { err, ok, type Result } from "@/lib/error";
+import type { EmbeddedProjectData } from "../types";
+
+/** IndexedDB database name */
+const DB_NAME = "ui-annotator";
+
+/** IndexedDB schema version */
+const DB_VERSION = 2;
+
+/** Object store of project records (keyed by project ID) */
+export const PROJECTS_STORE = "projects";
+
+/** Object store of screen images (keyed by "projectId/screenId") */
+export const IMAGES_STORE = "images";
+
+/** Object store of project snapshots (keyed by snapshot ID) */
+export const SNAPSHOTS_STORE = "snapshots";
+
+/** Index of snapshots by project ID */
+export const SNAPSHOTS_BY_PROJECT = "projectId";
+
+/**
+ * Stored record with project data.
+ * Screens reference their image by screen ID (imagePath).
+ */
+interface StoredProjectData {
+  data: EmbeddedProjectData;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Create the object stores added since `oldVersion`.
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+    db.createObjectStore(IMAGES_STORE);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(SNAPSHOTS_STORE, { keyPath: "id" }).createIndex(
+      SNAPSHOTS_BY_PROJECT,
+      "projectId"
+    );
+  }
+}
+
+/**
+ * Open the library database (created on first use).
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) =>
+        upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () =>
+        reject(request.error ?? new Error("Failed to open database"));
+    });
+    // Retry on the next call if opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Wait for an IndexedDB request.
+ */
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("Database request failed"));
+  });
+}
+
+/**
+ * Wait for a transaction to commit.
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error("Database transaction failed"));
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Database transaction aborted"));
+  });
+}
+
+/**
+ * Run a library operation, converting failures to an error result.
+ */
+export async function withDatabase<T>(
+  action: string,
+  run: (db: IDBDatabase) => Promise<T>
+): Promise<Result<T, string>> {
+  try {
+    return ok(await run(await openDatabase()));
+  } catch (error) {
+    return err(
+      `Failed to ${action}: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+// ============================================
+// Images
+// ============================================
+
+/**
+ * Key of a screen image.
+ */
+export function imageKey(projectId: string, screenId: string): string {
+  return `${projectId}/${screenId}`;
+}
+
+/**
+ * Key range of all images of a project.
+ */
+export function projectImageRange(projectId: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+}
+
+/**
+ * Read all images of a project, keyed by screen ID.
+ */
+export async function getImages(
+  db: IDBDatabase,
+  projectId: string
+): Promise<Map<string, Blob>> {
+  const store = db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE);
+  const range = projectImageRange(projectId);
+  const [keys, blobs] = await Promise.all([
+    requestResult(store.getAllKeys(range)),
+    requestResult(store.getAll(range)),
+  ]);
+  const prefixLength = projectId.length + 1;
+  return new Map(
+    keys.map((key, i) => [String(key).slice(prefixLength), blobs[i] as Blob])
+  );
+}
+
+/**
+ * Get the image keys of a project that are already stored.
+ */
+export async function getStoredImageKeys(
+  db: IDBDatabase,
+  projectId: string
+): Promise<Set<string>> {
+  const keys = await requestResult(
+    db
+      .transaction(IMAGES_STORE)
+      .objectStore(IMAGES_STORE)
+      .getAllKeys(projectImageRange(projectId))
+  );
+  return new Set(keys.map(String));
+}
+
+/**
+ * Delete images of a project that neither the project nor any of its
+ * snapshots reference (e.g. after removing a screen).
+ */
+export async function deleteUnusedImages(
+  db: IDBDatabase,
+  projectId: string
+): Promise<void> {
+  const [project, snapshots, storedKeys] = await Promise.all([
+    requestResult<StoredProjectData | undefined>(
+      db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(projectId)
+    ),
+    requestResult<StoredProjectData[]>(
+      db
+        .transaction(SNAPSHOTS_STORE)
+        .objectStore(SNAPSHOTS_STORE)
+        .index(SNAPSHOTS_BY_PROJECT)
+        .getAll(projectId)
+    ),
+    getStoredImageKeys(db, projectId),
+  ]);
+
+  const usedKeys = new Set<string>();
+  for (const record of project ? [project, ...snapshots] : snapshots) {
+    for (const screen of record.data.project.screens) {
+      usedKeys.add(imageKey(projectId, screen.imagePath));
+    }
+  }
+
+  const unusedKeys = [...storedKeys].filter((key) => !usedKeys.has(key));
+  if (unusedKeys.length === 0) {
+    return;
+  }
+  const transaction = db.transaction(IMAGES_STORE, "readwrite");
+  const store = transaction.objectStore(IMAGES_STORE);
+  for (const key of unusedKeys) {
+    store.delete(key);
+  }
+  await transactionDone(transaction);
+}
@@ -0,0 +1,495 @@
+/**
+ * Project Library Service
+ *
+ * Keeps the user's projects in IndexedDB so several projects can be
+ * reopened without saving archives. Screen images are stored as Blobs
+ * in their own object store, keyed by project and screen.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { err, ok, type Result } from "@/lib/error";
+import { loadWorkingImage } from "@/lib/image";
+import {
+  getActiveScreen,
+  type Project,
+  projectSchema,
+  type Screen,
+} from "@/types";
+import type {
+  EmbeddedProjectData,
+  LibraryProjectSummary,
+  OpenResult,
+} from "../types";
+import {
+  deleteUnusedImages,
+  getImages,
+  getStoredImageKeys,
+  IMAGES_STORE,
+  imageKey,
+  PROJECTS_STORE,
+  projectImageRange,
+  requestResult,
+  SNAPSHOTS_BY_PROJECT,
+  SNAPSHOTS_STORE,
+  transactionDone,
+  withDatabase,
+} from "./library-db";
+import {
+  restoreProjectData,
+  toEmbeddedProjectData,
+} from "./project-serializer";
+
+/** localStorage key of the project open in the editor */
+const LAST_PROJECT_KEY = "ui-annotator-last-project";
+
+/** localStorage key of the single project kept before the library existed */
+const LEGACY_PROJECT_KEY = "ui-annotator-project";
+
+/** Maximum thumbnail width in pixels */
+const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Project record stored in IndexedDB.
+ * Screens reference their image by screen ID (imagePath).
+ */
+interface LibraryRecord extends LibraryProjectSummary {
+  /** Screen the thumbnail was created from */
+  thumbnailScreenId?: string;
+  data: EmbeddedProjectData;
+}
+
+// ============================================
+// IndexedDB Helpers
+// ============================================
+
+/**
+ * Read a project record.
+ */
+function getRecord(
+  db: IDBDatabase,
+  id: string
+): Promise<LibraryRecord | undefined> {
+  return requestResult(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id)
+  );
+}
+
+// ============================================
+// Image Helpers
+// ============================================
+
+/**
+ * Fetch an image URL (data or object URL) as a Blob.
+ */
+async function fetchBlob(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  return response.blob();
+}
+
+/**
+ * Create a downscaled copy of an image for the project list.
+ * Returns undefined if the image cannot be decoded.
+ */
+async function createThumbnail(image: Blob): Promise<Blob | undefined> {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, THUMBNAIL_WIDTH / bitmap.width);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas
+      .getContext("2d")
+      ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise((resolve) =>
+      canvas.toBlob((blob) => resolve(blob ?? undefined), "image/webp", 0.8)
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the thumbnail for a project whose first screen is `screen`.
+ * The stored thumbnail is reused unless the first screen changed.
+ */
+async function getThumbnail(
+  existing: LibraryRecord | undefined,
+  screen: Screen,
+  image?: Blob
+): Promise<Blob | undefined> {
+  if (existing?.thumbnail && existing.thumbnailScreenId === screen.id) {
+    return existing.thumbnail;
+  }
+  return createThumbnail(image ?? (await fetchBlob(screen.imageUrl)));
+}
+
+/**
+ * Count the elements of all screens of a project.
+ */
+export function countElements(project: Project): number {
+  return project.screens.reduce(
+    (sum, screen) => sum + screen.elements.length,
+    0
+  );
+}
+
+/**
+ * Strip stored-only fields from a record.
+ */
+function toSummary({
+  data: _data,
+  thumbnailScreenId: _thumbnailScreenId,
+  ...summary
+}: LibraryRecord): LibraryProjectSummary {
+  return summary;
+}
+
+// ============================================
+// Library Operations
+// ============================================
+
+/**
+ * List library projects, most recently edited first.
+ */
+export function listLibraryProjects(): Promise<
+  Result<LibraryProjectSummary[], string>
+> {
+  return withDatabase("load projects", async (db) => {
+    const records: LibraryRecord[] = await requestResult(
+      db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll()
+    );
+    return records
+      .map(toSummary)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  });
+}
+
+/**
+ * Save a project to the library (created or replaced).
+ * Screen images never change, so only images of new screens are written.
+ */
+export function saveLibraryProject(
+  project: Project
+): Promise<Result<void, string>> {
+  return withDatabase("save project", async (db) => {
+    const [existing, storedKeys] = await Promise.all([
+      getRecord(db, project.id),
+      getStoredImageKeys(db, project.id),
+    ]);
+
+    // Blobs are prepared first: transactions close while awaiting other work
+    const currentKeys = new Set<string>();
+    const newImages = new Map<string, Blob>();
+    for (const screen of project.screens) {
+      const key = imageKey(project.id, screen.id);
+      currentKeys.add(key);
+      if (!storedKeys.has(key)) {
+        newImages.set(key, await fetchBlob(screen.imageUrl));
+      }
+    }
+
+    const firstScreen = project.screens[0];
+    const thumbnail = await getThumbnail(
+      existing,
+      firstScreen,
+      newImages.get(imageKey(project.id, firstScreen.id))
+    );
+
+    const record: LibraryRecord = {
+      id: project.id,
+      name: project.name,
+      screenCount: project.screens.length,
+      elementCount: countElements(project),
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+      thumbnail,
+      thumbnailScreenId: firstScreen.id,
+      data: toEmbeddedProjectData(project, (screen) => screen.id),
+    };
+
+    const transaction = db.transaction(
+      [PROJECTS_STORE, IMAGES_STORE],
+      "readwrite"
+    );
+    const imageStore = transaction.objectStore(IMAGES_STORE);
+    transaction.objectStore(PROJECTS_STORE).put(record);
+    for (const [key, blob] of newImages) {
+      imageStore.put(blob, key);
+    }
+    await transactionDone(transaction);
+
+    // Remove images of deleted screens
+    if ([...storedKeys].some((key) => !currentKeys.has(key))) {
+      await deleteUnusedImages(db, project.id);
+    }
+  });
+}
+
+/**
+ * Load a project from the library with its screen images.
+ */
+export async function loadLibraryProject(
+  id: string
+): Promise<Result<Project, string>> {
+  const loaded = await withDatabase("load project", async (db) => {
+    const record = await getRecord(db, id);
+    if (!record) {
+      return null;
+    }
+    return restoreProjectData(record.data, await getImages(db, id));
+  });
+
+  if (!loaded.success) {
+    return loaded;
+  }
+  return loaded.data ?? err("Project not found in library");
+}
+
+/**
+ * Open a library project for the editor (with the active screen image).
+ */
+export async function openLibraryProject(
+  id: string
+): Promise<Result<OpenResult, string>> {
+  const projectResult = await loadLibraryProject(id);
+  if (!projectResult.success) {
+    return projectResult;
+  }
+  try {
+    const { image } = await loadWorkingImage(
+      getActiveScreen(projectResult.data).imageUrl
+    );
+    return ok({ project: projectResult.data, image, hasEmbeddedData: true });
+  } catch (error) {
+    return err(
+      `Failed to open project: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Rename a library project.
+ */
+export function renameLibraryProject(
+  id: string,
+  name: string
+): Promise<Result<void, string>> {
+  return withDatabase("rename project", async (db) => {
+    const record = await getRecord(db, id);
+    if (!record) {
+      throw new Error("Project not found in library");
+    }
+    const updatedAt = new Date().toISOString();
+    const transaction = db.transaction(PROJECTS_STORE, "readwrite");
+    transaction.objectStore(PROJECTS_STORE).put({
+      ...record,
+      name,
+      updatedAt,
+      data: {
+        ...record.data,
+        project: { ...record.data.project, name, updatedAt },
+      },
+    } satisfies LibraryRecord);
+    await transactionDone(transaction);
+  });
+}
+
+/**
+ * Copy a library project (with its images) under a new ID.
+ *
+ * @returns ID of the copy
+ */
+export function duplicateLibraryProject(
+  id: string
+): Promise<Result<string, string>> {
+  return withDatabase("duplicate project", async (db) => {
+    const [record, images] = await Promise.all([
+      getRecord(db, id),
+      getImages(db, id),
+    ]);
+    if (!record) {
+      throw new Error("Project not found in library");
+    }
+
+    const copyId = uuidv4();
+    const name = `${record.name} (copy)`;
+    const now = new Date().toISOString();
+    const transaction = db.transaction(
+      [PROJECTS_STORE, IMAGES_STORE],
+      "readwrite"
+    );
+    transaction.objectStore(PROJECTS_STORE).put({
+      ...record,
+      id: copyId,
+      name,
+      createdAt: now,
+      updatedAt: now,
+      data: {
+        ...record.data,
+        project: {
+          ...record.data.project,
+          id: copyId,
+          name,
+          createdAt: now,
+          updatedAt: now,
+        },
+      },
+    } satisfies LibraryRecord);
+    // Snapshots are not copied, so only current screen images are needed
+    const imageStore = transaction.objectStore(IMAGES_STORE);
+    for (const screen of record.data.project.screens) {
+      const blob = images.get(screen.imagePath);
+      if (blob) {
+        imageStore.put(blob, imageKey(copyId, screen.imagePath));
+      }
+    }
+    await transactionDone(transaction);
+    return copyId;
+  });
+}
+
+/**
+ * Delete a library project with its snapshots and images.
+ */
+export function deleteLibraryProject(
+  id: string
+): Promise<Result<void, string>> {
+  return withDatabase("delete project", async (db) => {
+    const transaction = db.transaction(
+      [PROJECTS_STORE, SNAPSHOTS_STORE, IMAGES_STORE],
+      "readwrite"
+    );
+    transaction.objectStore(PROJECTS_STORE).delete(id);
+    const snapshots = transaction.objectStore(SNAPSHOTS_STORE);
+    const snapshotIds = await requestResult(
+      snapshots.index(SNAPSHOTS_BY_PROJECT).getAllKeys(id)
+    );
+    for (const snapshotId of snapshotIds) {
+      snapshots.delete(snapshotId);
+    }
+    transaction.objectStore(IMAGES_STORE).delete(projectImageRange(id));
+    await transactionDone(transaction);
+    if (getLastProjectId() === id) {
+      setLastProjectId(null);
+    }
+  });
+}
+
+// ============================================
+// Last Opened Project
+// ============================================
+
+/**
+ * Get the ID of the project that was open in the editor.
+ */
+export function getLastProjectId(): string | null {
+  return localStorage.getItem(LAST_PROJECT_KEY);
+}
+
+/**
+ * Remember the project open in the editor (null when closed).
+ */
+export function setLastProjectId(id: string | null): void {
+  if (id) {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+}
+
+// ============================================
+// Legacy Storage
+// ============================================
+
+/**
+ * Project persisted in localStorage by earlier versions
+ * (zustand persist format).
+ */
+const legacyStateSchema = z.object({
+  state: z.object({ project: z.unknown() }),
+  version: z.number(),
+});
+
+/**
+ * Shape of the persisted project before multi-screen projects (version 0).
+ */
+interface LegacyProjectV0 {
+  id: string;
+  name: string;
+  description?: string;
+  sourceFileName: string;
+  imageUrl: string;
+  imageWidth: number;
+  imageHeight: number;
+  elements: unknown[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Upgrade a version 0 project: its single image becomes the first screen.
+ */
+function upgradeLegacyProject(project: LegacyProjectV0): unknown {
+  const {
+    sourceFileName,
+    imageUrl,
+    imageWidth,
+    imageHeight,
+    elements,
+    ...rest
+  } = project;
+  return {
+    ...rest,
+    screens: [
+      {
+        id: rest.id,
+        name: rest.name,
+        sourceFileName,
+        imageUrl,
+        imageWidth,
+        imageHeight,
+        elements,
+      },
+    ],
+    activeScreenId: rest.id,
+  };
+}
+
+/**
+ * Move the project kept in localStorage by earlier versions into the
+ * library and make it the last opened project.
+ *
+ * @returns ID of the imported project, or null if there was none
+ */
+export async function importLegacyProject(): Promise<
+  Result<string | null, string>
+> {
+  const stored = localStorage.getItem(LEGACY_PROJECT_KEY);
+  if (!stored) {
+    return ok(null);
+  }
+
+  let project: Project | null = null;
+  try {
+    const legacy = legacyStateSchema.safeParse(JSON.parse(stored));
+    const persisted =
+      legacy.success && legacy.data.version === 0 && legacy.data.state.project
+        ? upgradeLegacyProject(legacy.data.state.project as LegacyProjectV0)
+        : legacy.data?.state.project;
+    project = projectSchema.safeParse(persisted).data ?? null;
+  } catch {
+    // Unreadable data is dropped below
+  }
+
+  if (project) {
+    const saveResult = await saveLibraryProject(project);
+    if (!saveResult.success) {
+      return saveResult;
+    }
+    setLastProjectId(project.id);
+  }
+  localStorage.removeItem(LEGACY_PROJECT_KEY);
+  return ok(project?.id ?? null);
+}
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { VERSIONS } from "@/types";
+import { deserializeProject, migrateProjectData } from "./project-serializer";
+
+/** Storage formats with a project.json fixture, oldest first */
+const FIXTURE_VERSIONS = ["0.0.1", "0.0.2", "0.0.3"];
+
+/** Read the project.json fixture saved in a storage format */
+function readFixture(version: string): string {
+  return readFileSync(
+    join(import.meta.dir, "__fixtures__", version, "project.json"),
+    "utf8"
+  );
+}
+
+/** Deserialize a fixture with placeholder images at the given paths */
+function deserializeFixture(version: string, imagePaths: string[]) {
+  return deserializeProject({
+    projectJson: readFixture(version),
+    images: Object.fromEntries(
+      imagePaths.map((imagePath) => [
+        imagePath,
+        new Blob([imagePath], { type: "image/png" }),
+      ])
+    ),
+  });
+}
+
+describe("migrateProjectData", () => {
+  test.each(
+    FIXTURE_VERSIONS
+  )("upgrades format %s to the current version", (version) => {
+    const result = migrateProjectData(JSON.parse(readFixture(version)));
+    expect(result.success).toBe(true);
+    expect(result.success && result.data).toMatchObject({
+      storageVersion: VERSIONS.storage,
+    });
+  });
+
+  test("rejects projects saved by a newer version", () => {
+    const result = migrateProjectData({
+      storageVersion: "99.0.0",
+      project: {},
+    });
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain("newer version");
+  });
+
+  test("rejects payloads without a storage version", () => {
+    const result = migrateProjectData({ project: {} });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("deserializeProject", () => {
+  test("restores a 0.0.1 project as a single screen", () => {
+    const result = deserializeFixture("0.0.1", ["sign-in.png"]);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const project = result.data;
+    expect(project.description).toBe("Login screen");
+    expect(project.activeScreenId).toBe("project-sign-in");
+    expect(project.screens).toHaveLength(1);
+    expect(project.screens[0]).toMatchObject({
+      id: "project-sign-in",
+      name: "Sign in",
+      sourceFileName: "sign-in.png",
+      imageWidth: 400,
+      imageHeight: 300,
+    });
+    expect(project.screens[0].elements.map((e) => e.label)).toEqual(["Submit"]);
+  });
+
+  test("restores a 0.0.2 project without undo history", () => {
+    const result = deserializeFixture("0.0.2", [
+      "images/01-cart.png",
+      "images/02-payment.png",
+    ]);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const project = result.data;
+    expect(project.activeScreenId).toBe("screen-payment");
+    expect(project.screens.map((s) => s.name)).toEqual(["Cart", "Payment"]);
+    expect(project.screens[0].elements.map((e) => e.parentId)).toEqual([
+      undefined,
+      "element-summary",
+    ]);
+    expect(project.histories).toBeUndefined();
+  });
+
+  test("loads a project in the current format as saved", () => {
+    const result = deserializeFixture("0.0.3", [
+      "images/01-welcome.png",
+      "images/02-profile.png",
+    ]);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const project = result.data;
+    expect(project.activeScreenId).toBe("screen-profile");
+    expect(project.screens.map((s) => s.name)).toEqual(["Welcome", "Profile"]);
+    expect(project.histories).toEqual({
+      "screen-profile": {
+        past: [{ label: "Added element", elements: [] }],
+        future: [],
+      },
+    });
+  });
+
+  test("fails when a screen image is missing", () => {
+    const result = deserializeFixture("0.0.2", ["images/01-cart.png"]);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain("images/02-payment.png");
+  });
+
+  test("rejects projects saved by a newer version", () => {
+    const result = deserializeProject({
+      projectJson: JSON.stringify({ storageVersion: "99.0.0", project: {} }),
+      images: {},
+    });
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain("newer version");
+  });
+});
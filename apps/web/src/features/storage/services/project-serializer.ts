@@ -1,72 +1,303 @@
 /**
  * Project Serializer
  *
- * Handles conversion between Project objects and JSON strings.
+ * Handles conversion between Project objects and serialized form (JSON + images).
  * Format-agnostic: doesn't know about ZIP, PNG, or any storage format.
  */
 
+import { z } from "zod";
 import { err, ok, type Result } from "@/lib/error";
-import { type Project, VERSIONS } from "@/types";
+import {
+  compareVersions,
+  editorElementSchema,
+  type Project,
+  type Screen,
+  VERSIONS,
+} from "@/types";
 import { type EmbeddedProjectData, embeddedProjectDataSchema } from "../types";
+import type { SerializedProject } from "./codecs/types";
 
 /**
- * Serialize a Project to JSON string.
- * Excludes imageUrl as it's stored separately in the archive.
+ * Directory for screen images within the archive
  */
-export function serializeProject(project: Project): string {
-  const data: EmbeddedProjectData = {
+const IMAGES_DIR = "images";
+
+// ============================================
+// Migrations
+// ============================================
+
+/**
+ * Storage format 0.0.1: single image per project,
+ * stored at the archive root under sourceFileName.
+ */
+const projectDataV001Schema = z.object({
+  storageVersion: z.literal("0.0.1"),
+  project: z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    sourceFileName: z.string(),
+    imageWidth: z.number().positive(),
+    imageHeight: z.number().positive(),
+    elements: z.array(editorElementSchema),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  }),
+});
+
+/**
+ * Storage format 0.0.2: multiple screens without undo history.
+ * The project is validated after upgrading.
+ */
+const projectDataV002Schema = z.object({
+  storageVersion: z.literal("0.0.2"),
+  project: z.looseObject({}),
+});
+
+/**
+ * A single upgrade step between two consecutive storage versions.
+ */
+interface StorageMigration {
+  /** Version this step upgrades from */
+  from: string;
+  /** Version this step produces */
+  to: string;
+  /** Validate a payload of the `from` version and upgrade it */
+  migrate: (data: unknown) => Result<unknown, string>;
+}
+
+/**
+ * Format schema issues for error messages.
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((i) => `${i.path.join(".")}: ${i.message}`)
+    .join(", ");
+}
+
+/**
+ * Define a migration step that validates its input with the schema
+ * of the `from` version.
+ */
+function defineMigration<S extends z.ZodType>(
+  from: string,
+  to: string,
+  schema: S,
+  upgrade: (data: z.infer<S>) => unknown
+): StorageMigration {
+  return {
+    from,
+    to,
+    migrate: (data) => {
+      const input = schema.safeParse(data);
+      if (!input.success) {
+        return err(
+          `Invalid project data (format ${from}): ${formatIssues(input.error)}`
+        );
+      }
+      return ok(upgrade(input.data));
+    },
+  };
+}
+
+/**
+ * Upgrade steps, oldest first.
+ * When changing the stored format, bump VERSIONS.storage and add a step
+ * from the previous version (keeping its schema here).
+ */
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+  // 0.0.1 → 0.0.2: one screen per project, images under images/
+  defineMigration("0.0.1", "0.0.2", projectDataV001Schema, (data) => {
+    const { sourceFileName, imageWidth, imageHeight, elements, ...rest } =
+      data.project;
+    return {
+      storageVersion: "0.0.2",
+      project: {
+        ...rest,
+        screens: [
+          {
+            id: rest.id,
+            name: rest.name,
+            sourceFileName,
+            imagePath: sourceFileName,
+            imageWidth,
+            imageHeight,
+            elements,
+          },
+        ],
+        activeScreenId: rest.id,
+      },
+    };
+  }),
+  // 0.0.2 → 0.0.3: undo history saved per screen (nothing to convert)
+  defineMigration("0.0.2", "0.0.3", projectDataV002Schema, (data) => ({
+    ...data,
+    storageVersion: "0.0.3",
+  })),
+];
+
+/** Reads the storage version of any payload */
+const storageVersionSchema = z.object({ storageVersion: z.string() });
+
+/**
+ * Upgrade a payload step by step to the current storage version.
+ */
+export function migrateProjectData(parsed: unknown): Result<unknown, string> {
+  const versionResult = storageVersionSchema.safeParse(parsed);
+  if (!versionResult.success) {
+    return err("Invalid project data: missing storage version");
+  }
+
+  let version = versionResult.data.storageVersion;
+  if (compareVersions(version, VERSIONS.storage) > 0) {
+    return err(
+      `This project was saved by a newer version of UI Annotator (format ${version}). Please update the app to open it.`
+    );
+  }
+
+  let data = parsed;
+  while (version !== VERSIONS.storage) {
+    const step = STORAGE_MIGRATIONS.find((m) => m.from === version);
+    if (!step) {
+      return err(`Unsupported project format version: ${version}`);
+    }
+    const result = step.migrate(data);
+    if (!result.success) {
+      return result;
+    }
+    data = result.data;
+    version = step.to;
+  }
+
+  return ok(data);
+}
+
+/**
+ * Parse embedded project data, upgrading older formats.
+ */
+function parseProjectData(
+  parsed: unknown
+): Result<EmbeddedProjectData, string> {
+  const migrated = migrateProjectData(parsed);
+  if (!migrated.success) {
+    return migrated;
+  }
+
+  const result = embeddedProjectDataSchema.safeParse(migrated.data);
+  if (!result.success) {
+    return err(`Invalid project data: ${formatIssues(result.error)}`);
+  }
+  return ok(result.data);
+}
+
+// ============================================
+// Serialization
+// ============================================
+
+/**
+ * Convert a Project to embedded project data.
+ * Screen images are referenced by the path returned for each screen.
+ */
+export function toEmbeddedProjectData(
+  project: Project,
+  getImagePath: (screen: Screen, index: number) => string
+): EmbeddedProjectData {
+  return {
     storageVersion: VERSIONS.storage,
     project: {
       id: project.id,
       name: project.name,
       description: project.description,
-      sourceFileName: project.sourceFileName,
-      imageWidth: project.imageWidth,
-      imageHeight: project.imageHeight,
-      elements: project.elements,
+      screens: project.screens.map((screen, index) => {
+        const { imageUrl: _imageUrl, ...rest } = screen;
+        return { ...rest, imagePath: getImagePath(screen, index) };
+      }),
+      activeScreenId: project.activeScreenId,
       createdAt: project.createdAt,
       updatedAt: project.updatedAt,
+      histories: project.histories,
     },
   };
+}
+
+/**
+ * Serialize a Project to JSON and a set of images.
+ * Each screen image is stored under its own path (numbered to stay unique)
+ * with its original bytes.
+ */
+export async function serializeProject(
+  project: Project
+): Promise<SerializedProject> {
+  const imageUrls: Record<string, string> = {};
 
-  return JSON.stringify(data);
+  const data = toEmbeddedProjectData(project, (screen, index) => {
+    const prefix = String(index + 1).padStart(2, "0");
+    const imagePath = `${IMAGES_DIR}/${prefix}-${screen.sourceFileName}`;
+    imageUrls[imagePath] = screen.imageUrl;
+    return imagePath;
+  });
+
+  const images: Record<string, Blob> = {};
+  for (const [imagePath, imageUrl] of Object.entries(imageUrls)) {
+    images[imagePath] = await (await fetch(imageUrl)).blob();
+  }
+
+  return { projectJson: JSON.stringify(data), images };
 }
 
 /**
- * Deserialize a Project from JSON string.
- * Requires imageUrl to be provided separately (from archive).
+ * Restore a Project from parsed embedded project data and its images
+ * (keyed by imagePath), upgrading older formats.
+ * Object URLs are created only for the images of restored screens, so
+ * nothing is left to revoke when restoring fails.
  */
-export function deserializeProject(
-  json: string,
-  imageUrl: string
+export function restoreProjectData(
+  parsed: unknown,
+  images: Map<string, Blob>
 ): Result<Project, string> {
-  try {
-    const parsed = JSON.parse(json);
-    const result = embeddedProjectDataSchema.safeParse(parsed);
+  const dataResult = parseProjectData(parsed);
+  if (!dataResult.success) {
+    return err(dataResult.error);
+  }
 
-    if (!result.success) {
-      const issues = result.error.issues
-        .map((i) => `${i.path.join(".")}: ${i.message}`)
-        .join(", ");
-      return err(`Invalid project data: ${issues}`);
-    }
+  const data = dataResult.data;
+  const missing = data.project.screens.find((s) => !images.has(s.imagePath));
+  if (missing) {
+    return err(`Image file not found in archive: ${missing.imagePath}`);
+  }
 
-    const data = result.data;
-
-    const project: Project = {
-      id: data.project.id,
-      name: data.project.name,
-      description: data.project.description,
-      sourceFileName: data.project.sourceFileName,
-      imageUrl,
-      imageWidth: data.project.imageWidth,
-      imageHeight: data.project.imageHeight,
-      elements: data.project.elements,
-      createdAt: data.project.createdAt,
-      updatedAt: data.project.updatedAt,
-    };
+  const screens: Project["screens"] = data.project.screens.map(
+    ({ imagePath, ...screen }) => ({
+      ...screen,
+      imageUrl: URL.createObjectURL(images.get(imagePath) as Blob),
+    })
+  );
+
+  return ok({
+    id: data.project.id,
+    name: data.project.name,
+    description: data.project.description,
+    screens,
+    activeScreenId: data.project.activeScreenId,
+    createdAt: data.project.createdAt,
+    updatedAt: data.project.updatedAt,
+    histories: data.project.histories,
+  });
+}
 
-    return ok(project);
+/**
+ * Deserialize a Project from JSON and its images (from archive).
+ * Images are referenced by object URLs.
+ */
+export function deserializeProject(
+  serialized: SerializedProject
+): Result<Project, string> {
+  try {
+    const parsed = JSON.parse(serialized.projectJson);
+    return restoreProjectData(
+      parsed,
+      new Map(Object.entries(serialized.images))
+    );
   } catch (error) {
     return err(
       `Failed to parse project data: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -0,0 +1,240 @@
+/**
+ * Project Snapshots Service
+ *
+ * Keeps earlier versions of library projects: periodic autosaves, which
+ * are pruned automatically, and snapshots named by the user, which are
+ * kept until deleted. Snapshots share screen images with their project.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { err, ok, type Result } from "@/lib/error";
+import { loadWorkingImage } from "@/lib/image";
+import { getActiveScreen, type Project } from "@/types";
+import type {
+  EmbeddedProjectData,
+  OpenResult,
+  ProjectSnapshotSummary,
+} from "../types";
+import {
+  deleteUnusedImages,
+  getImages,
+  requestResult,
+  SNAPSHOTS_BY_PROJECT,
+  SNAPSHOTS_STORE,
+  transactionDone,
+  withDatabase,
+} from "./library-db";
+import { countElements, saveLibraryProject } from "./project-library";
+import {
+  restoreProjectData,
+  toEmbeddedProjectData,
+} from "./project-serializer";
+
+/** Autosave snapshots kept per project (older ones are pruned) */
+const MAX_AUTOSAVE_SNAPSHOTS = 20;
+
+/**
+ * Snapshot record stored in IndexedDB.
+ * Screens reference their image by screen ID (imagePath).
+ */
+interface SnapshotRecord extends ProjectSnapshotSummary {
+  data: EmbeddedProjectData;
+}
+
+/**
+ * Read a snapshot record.
+ */
+function getSnapshot(
+  db: IDBDatabase,
+  id: string
+): Promise<SnapshotRecord | undefined> {
+  return requestResult(
+    db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).get(id)
+  );
+}
+
+/**
+ * Read all snapshots of a project, newest first.
+ */
+async function getProjectSnapshots(
+  db: IDBDatabase,
+  projectId: string
+): Promise<SnapshotRecord[]> {
+  const records: SnapshotRecord[] = await requestResult(
+    db
+      .transaction(SNAPSHOTS_STORE)
+      .objectStore(SNAPSHOTS_STORE)
+      .index(SNAPSHOTS_BY_PROJECT)
+      .getAll(projectId)
+  );
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Delete the oldest autosave snapshots beyond the limit.
+ */
+async function pruneSnapshots(
+  db: IDBDatabase,
+  projectId: string
+): Promise<void> {
+  const expired = (await getProjectSnapshots(db, projectId))
+    .filter((snapshot) => !snapshot.name)
+    .slice(MAX_AUTOSAVE_SNAPSHOTS);
+  if (expired.length === 0) {
+    return;
+  }
+
+  const transaction = db.transaction(SNAPSHOTS_STORE, "readwrite");
+  const store = transaction.objectStore(SNAPSHOTS_STORE);
+  for (const snapshot of expired) {
+    store.delete(snapshot.id);
+  }
+  await transactionDone(transaction);
+  await deleteUnusedImages(db, projectId);
+}
+
+/**
+ * Strip stored-only fields from a record.
+ */
+function toSummary({
+  data: _data,
+  ...summary
+}: SnapshotRecord): ProjectSnapshotSummary {
+  return summary;
+}
+
+// ============================================
+// Snapshot Operations
+// ============================================
+
+/**
+ * Save a snapshot of a project.
+ * The project is saved to the library first so its images are stored.
+ *
+ * @param project - Project to snapshot
+ * @param name - Snapshot name (unnamed snapshots are autosaves)
+ */
+export async function createProjectSnapshot(
+  project: Project,
+  name?: string
+): Promise<Result<ProjectSnapshotSummary, string>> {
+  const saveResult = await saveLibraryProject(project);
+  if (!saveResult.success) {
+    return saveResult;
+  }
+
+  return withDatabase("save snapshot", async (db) => {
+    // Undo history is dropped on restore, so it is not stored
+    const data = toEmbeddedProjectData(project, (screen) => screen.id);
+    const { histories: _histories, ...projectData } = data.project;
+    const record: SnapshotRecord = {
+      id: uuidv4(),
+      projectId: project.id,
+      ...(name && { name }),
+      createdAt: new Date().toISOString(),
+      screenCount: project.screens.length,
+      elementCount: countElements(project),
+      data: { ...data, project: projectData },
+    };
+    const transaction = db.transaction(SNAPSHOTS_STORE, "readwrite");
+    transaction.objectStore(SNAPSHOTS_STORE).put(record);
+    await transactionDone(transaction);
+
+    if (!name) {
+      await pruneSnapshots(db, project.id);
+    }
+    return toSummary(record);
+  });
+}
+
+/**
+ * List the snapshots of a project, newest first.
+ */
+export function listProjectSnapshots(
+  projectId: string
+): Promise<Result<ProjectSnapshotSummary[], string>> {
+  return withDatabase("load snapshots", async (db) =>
+    (await getProjectSnapshots(db, projectId)).map(toSummary)
+  );
+}
+
+/**
+ * Name a snapshot. Named autosaves are no longer pruned.
+ */
+export function renameProjectSnapshot(
+  id: string,
+  name: string
+): Promise<Result<void, string>> {
+  return withDatabase("rename snapshot", async (db) => {
+    const record = await getSnapshot(db, id);
+    if (!record) {
+      throw new Error("Snapshot not found");
+    }
+    const transaction = db.transaction(SNAPSHOTS_STORE, "readwrite");
+    transaction.objectStore(SNAPSHOTS_STORE).put({
+      ...record,
+      name: name || undefined,
+    } satisfies SnapshotRecord);
+    await transactionDone(transaction);
+  });
+}
+
+/**
+ * Delete a snapshot (and images only it referenced).
+ */
+export function deleteProjectSnapshot(
+  id: string
+): Promise<Result<void, string>> {
+  return withDatabase("delete snapshot", async (db) => {
+    const record = await getSnapshot(db, id);
+    if (!record) {
+      return;
+    }
+    const transaction = db.transaction(SNAPSHOTS_STORE, "readwrite");
+    transaction.objectStore(SNAPSHOTS_STORE).delete(id);
+    await transactionDone(transaction);
+    await deleteUnusedImages(db, record.projectId);
+  });
+}
+
+/**
+ * Open a snapshot as the current state of its project.
+ * The restored project counts as edited now, and its undo history starts
+ * clean (the snapshot's history belongs to the edits before it).
+ */
+export async function openProjectSnapshot(
+  id: string
+): Promise<Result<OpenResult, string>> {
+  const loaded = await withDatabase("load snapshot", async (db) => {
+    const record = await getSnapshot(db, id);
+    if (!record) {
+      return null;
+    }
+    return restoreProjectData(
+      record.data,
+      await getImages(db, record.projectId)
+    );
+  });
+
+  if (!loaded.success) {
+    return loaded;
+  }
+  if (!loaded.data) {
+    return err("Snapshot not found");
+  }
+  if (!loaded.data.success) {
+    return loaded.data;
+  }
+
+  try {
+    // Snapshots saved before histories were left out may still carry one
+    const { histories: _histories, ...restored } = loaded.data.data;
+    const project = { ...restored, updatedAt: new Date().toISOString() };
+    const { image } = await loadWorkingImage(getActiveScreen(project).imageUrl);
+    return ok({ project, image, hasEmbeddedData: true });
+  } catch (error) {
+    return err(
+      `Failed to open snapshot: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
@@ -7,10 +7,17 @@
 
 import { v4 as uuidv4 } from "uuid";
 import { err, ok, type Result } from "@/lib/error";
-import { loadImageWithDimensions } from "@/lib/image";
-import type { Project } from "@/types";
-import type { OpenResult } from "../types";
+import { loadImageWithDimensions, loadWorkingImage } from "@/lib/image";
+import { getActiveScreen, type Project, type Screen } from "@/types";
+import type { OpenResult, OpenScreenResult } from "../types";
 import { defaultCodec, findCodecForBuffer } from "./codecs";
+import {
+  findScreenImage,
+  isJsonFile,
+  parseExportData,
+  restoreProject,
+  restoreScreen,
+} from "./export-data-import";
 import { deserializeProject, serializeProject } from "./project-serializer";
 
 /**
@@ -19,16 +26,12 @@ import { deserializeProject, serializeProject } from "./project-serializer";
  */
 const PROJECT_SUFFIX = "uiannotator";
 
-/**
- * Maximum image file size in bytes.
- * localStorage has ~5MB limit, Base64 adds ~33% overhead.
- * 3MB image → ~4MB Data URL, leaving ~1MB for metadata/elements.
- */
-const MAX_IMAGE_SIZE = 3 * 1024 * 1024; // 3MB
-
 /** Regex to remove file extension */
 const FILE_EXTENSION_REGEX = /\.[^/.]+$/;
 
+/** Matches a pixel ratio suffix like "@2x" before the extension */
+const PIXEL_RATIO_REGEX = /@([1-9])x\.[^/.]+$/;
+
 /**
  * Read a File as ArrayBuffer.
  */
@@ -42,40 +45,20 @@ function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
 }
 
 /**
- * Read a File as Data URL.
+ * Revoke the object URLs of images that failed to open.
  */
-function readFileAsDataURL(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = () => reject(new Error("Failed to read file"));
-    reader.readAsDataURL(file);
-  });
-}
-
-/**
- * Check image size and return error if too large.
- * Estimates original file size from Data URL length (Base64 adds ~33% overhead).
- */
-function checkImageSize(dataUrl: string): Result<void, string> {
-  // Estimate original size: Data URL base64 part is ~133% of original
-  const base64Part = dataUrl.split(",")[1] || "";
-  const estimatedSize = (base64Part.length * 3) / 4; // Base64 decode ratio
-
-  if (estimatedSize > MAX_IMAGE_SIZE) {
-    const sizeMB = (estimatedSize / (1024 * 1024)).toFixed(1);
-    const maxMB = (MAX_IMAGE_SIZE / (1024 * 1024)).toFixed(0);
-    return err(`Image too large (${sizeMB}MB). Maximum size is ${maxMB}MB.`);
+function revokeImageUrls(urls: string[]): void {
+  for (const url of urls) {
+    URL.revokeObjectURL(url);
   }
-  return ok(undefined);
 }
 
 /**
- * Open a project file using the appropriate codec.
+ * Load a project file using the appropriate codec.
  */
-async function openProjectFile(
+async function loadProjectFile(
   buffer: ArrayBuffer
-): Promise<Result<OpenResult, string>> {
+): Promise<Result<Project, string>> {
   const codec = findCodecForBuffer(buffer);
   if (!codec) {
     return err("Unknown file format");
@@ -86,99 +69,208 @@ async function openProjectFile(
     return err(decodeResult.error);
   }
 
-  const { imageDataUrl, projectJson } = decodeResult.data;
-
-  // Check image size
-  const sizeCheck = checkImageSize(imageDataUrl);
-  if (!sizeCheck.success) {
-    return err(sizeCheck.error);
-  }
-
-  // Load image element
-  const { image } = await loadImageWithDimensions(imageDataUrl);
-
-  // Deserialize project
-  const projectResult = deserializeProject(projectJson, imageDataUrl);
-  if (!projectResult.success) {
-    return err(projectResult.error);
-  }
-
-  return ok({
-    project: projectResult.data,
-    image,
-    hasEmbeddedData: true,
-  });
+  return deserializeProject(decodeResult.data);
 }
 
 /**
- * Create a new project from an image file.
+ * Get a display name from a file name.
+ * Removes extension and project suffix if present.
  */
-async function createNewProject(
-  file: File,
-  dataUrl: string
-): Promise<Result<OpenResult, string>> {
-  // Load image element
-  const { image, width, height } = await loadImageWithDimensions(dataUrl);
-
-  const now = new Date().toISOString();
-
-  // Remove extension and project suffix if present
+function getBaseName(fileName: string): string {
   const suffixPattern = new RegExp(`\\.${PROJECT_SUFFIX}$`);
-  const baseName = file.name
+  return fileName
     .replace(FILE_EXTENSION_REGEX, "") // Remove extension
     .replace(suffixPattern, ""); // Remove project suffix
+}
 
-  const project: Project = {
+/**
+ * Infer the pixel ratio from a file name like "home@2x.png".
+ */
+function getPixelRatio(fileName: string): number | undefined {
+  const ratio = Number(PIXEL_RATIO_REGEX.exec(fileName)?.[1] ?? 1);
+  return ratio > 1 ? ratio : undefined;
+}
+
+/**
+ * Create a screen from an image file.
+ * The original file is referenced by an object URL (never re-encoded).
+ */
+async function createScreen(file: File): Promise<Screen> {
+  const imageUrl = URL.createObjectURL(file);
+  const { width, height } = await loadImageWithDimensions(imageUrl).catch(
+    (error: unknown) => {
+      revokeImageUrls([imageUrl]);
+      throw error;
+    }
+  );
+  const pixelRatio = getPixelRatio(file.name);
+
+  return {
     id: uuidv4(),
-    name: baseName,
+    name: getBaseName(file.name),
     sourceFileName: file.name,
-    imageUrl: dataUrl,
+    imageUrl,
     imageWidth: width,
     imageHeight: height,
     elements: [],
+    ...(pixelRatio && { pixelRatio }),
+  };
+}
+
+/**
+ * Create a new project from an image file.
+ */
+async function createNewProject(file: File): Promise<Project> {
+  const screen = await createScreen(file);
+
+  const now = new Date().toISOString();
+
+  return {
+    id: uuidv4(),
+    name: getBaseName(file.name),
+    screens: [screen],
+    activeScreenId: screen.id,
     createdAt: now,
     updatedAt: now,
   };
+}
 
-  return ok({
-    project,
-    image,
-    hasEmbeddedData: false,
-  });
+/**
+ * Load a JSON export (ExportData) with its screenshots as a new project.
+ */
+async function loadExportData(
+  jsonFile: File,
+  images: File[]
+): Promise<Result<Project, string>> {
+  const dataResult = parseExportData(await jsonFile.text());
+  if (!dataResult.success) {
+    return err(dataResult.error);
+  }
+  const data = dataResult.data;
+  if (data.screens.length === 0) {
+    return err("Export contains no screens");
+  }
+
+  // Every image is matched before object URLs are created for them
+  const imageFiles: File[] = [];
+  for (const exported of data.screens) {
+    const imageFile = findScreenImage(exported, images, data.screens.length);
+    if (!imageFile) {
+      return err(
+        `Select the image "${exported.sourceFileName}" together with the JSON file`
+      );
+    }
+    imageFiles.push(imageFile);
+  }
+
+  const imageUrls: string[] = [];
+  try {
+    const screens: Screen[] = [];
+    for (const [index, exported] of data.screens.entries()) {
+      const imageUrl = URL.createObjectURL(imageFiles[index]);
+      imageUrls.push(imageUrl);
+      const { width, height } = await loadImageWithDimensions(imageUrl);
+      screens.push(restoreScreen(exported, imageUrl, { w: width, h: height }));
+    }
+    return ok(restoreProject(data, screens));
+  } catch (error) {
+    revokeImageUrls(imageUrls);
+    throw error;
+  }
+}
+
+/**
+ * Project read from files, with object URLs of its screen images.
+ */
+interface LoadedProject {
+  project: Project;
+  /** Whether the file had embedded project data */
+  hasEmbeddedData: boolean;
+}
+
+/**
+ * Read a project from an image, project file, or JSON export.
+ */
+async function readProject(
+  file: File,
+  companions: File[]
+): Promise<Result<LoadedProject, string>> {
+  const files = [file, ...companions];
+  const jsonFile = files.find(isJsonFile);
+  if (jsonFile) {
+    const result = await loadExportData(
+      jsonFile,
+      files.filter((f) => f !== jsonFile)
+    );
+    return result.success
+      ? ok({ project: result.data, hasEmbeddedData: true })
+      : result;
+  }
+
+  // Read as ArrayBuffer for format detection
+  const buffer = await readFileAsArrayBuffer(file);
+
+  // Try to find a codec that can handle this format
+  if (findCodecForBuffer(buffer)) {
+    const result = await loadProjectFile(buffer);
+    return result.success
+      ? ok({ project: result.data, hasEmbeddedData: true })
+      : result;
+  }
+
+  // Plain image
+  return ok({ project: await createNewProject(file), hasEmbeddedData: false });
 }
 
 /**
  * Open an image or project file.
  *
+ * - If a JSON export (ExportData) is among the files, restores it with the
+ *   other files as its screenshots
  * - If the file is a known project format (ZIP, etc.), opens it as a project
  * - Otherwise, creates a new project from the image
  *
- * @param file - Image or project file to open
+ * @param file - Image, project, or JSON export file to open
+ * @param companions - Other selected files (screenshots of a JSON export)
  * @returns Result containing the project, loaded image, and whether it had embedded data
  */
 export async function openFile(
-  file: File
+  file: File,
+  companions: File[] = []
 ): Promise<Result<OpenResult, string>> {
   try {
-    // Read as ArrayBuffer for format detection
-    const buffer = await readFileAsArrayBuffer(file);
-
-    // Try to find a codec that can handle this format
-    const codec = findCodecForBuffer(buffer);
-    if (codec) {
-      // Project file - image size checked after extraction
-      return openProjectFile(buffer);
+    const result = await readProject(file, companions);
+    if (!result.success) {
+      return result;
     }
 
-    // Plain image - check file size directly (fail fast)
-    if (file.size > MAX_IMAGE_SIZE) {
-      const sizeMB = (file.size / (1024 * 1024)).toFixed(1);
-      const maxMB = (MAX_IMAGE_SIZE / (1024 * 1024)).toFixed(0);
-      return err(`Image too large (${sizeMB}MB). Maximum size is ${maxMB}MB.`);
-    }
+    // Load image of the active screen (others load on switch)
+    const { project, hasEmbeddedData } = result.data;
+    const { image } = await loadWorkingImage(
+      getActiveScreen(project).imageUrl
+    ).catch((error: unknown) => {
+      revokeImageUrls(project.screens.map((s) => s.imageUrl));
+      throw error;
+    });
+    return ok({ project, image, hasEmbeddedData });
+  } catch (error) {
+    return err(
+      `Failed to open file: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
 
-    const dataUrl = await readFileAsDataURL(file);
-    return createNewProject(file, dataUrl);
+/**
+ * Load an image or project file without preparing it for the editor
+ * (e.g. to export it). The caller revokes the object URLs of its screens.
+ *
+ * @param file - Image or project file to load
+ * @returns Result containing the project
+ */
+export async function loadFile(file: File): Promise<Result<Project, string>> {
+  try {
+    const result = await readProject(file, []);
+    return result.success ? ok(result.data.project) : result;
   } catch (error) {
     return err(
       `Failed to open file: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -186,6 +278,31 @@ export async function openFile(
   }
 }
 
+/**
+ * Open an image file as an additional screen.
+ *
+ * @param file - Image file to open
+ * @returns Result containing the new screen and its loaded image
+ */
+export async function openImageAsScreen(
+  file: File
+): Promise<Result<OpenScreenResult, string>> {
+  try {
+    const screen = await createScreen(file);
+    const { image } = await loadWorkingImage(screen.imageUrl).catch(
+      (error: unknown) => {
+        revokeImageUrls([screen.imageUrl]);
+        throw error;
+      }
+    );
+    return ok({ screen, image });
+  } catch (error) {
+    return err(
+      `Failed to open image: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
 /**
  * Result of save operation including the blob and suggested filename.
  */
@@ -204,14 +321,11 @@ export async function saveProjectFile(
   project: Project
 ): Promise<Result<SaveResult, string>> {
   try {
-    // Serialize project to JSON
-    const projectJson = serializeProject(project);
+    // Serialize project to JSON + images
+    const serialized = await serializeProject(project);
 
     // Encode using default codec
-    const encodeResult = await defaultCodec.encode({
-      projectJson,
-      imageDataUrl: project.imageUrl,
-    });
+    const encodeResult = await defaultCodec.encode(serialized);
 
     if (!encodeResult.success) {
       return err(encodeResult.error);
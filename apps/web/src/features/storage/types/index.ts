@@ -3,19 +3,36 @@
  */
 
 import { z } from "zod";
-import { type Project, projectSchema, versionsSchema } from "@/types";
+import type { WorkingImage } from "@/lib/image";
+import {
+  type Project,
+  projectSchema,
+  type Screen,
+  screenSchema,
+  versionsSchema,
+} from "@/types";
 
 // ============================================
 // Embedded Project Data Schema
 // ============================================
 
+/**
+ * Schema for a screen stored in an archive.
+ * Note: imageUrl is replaced by the path of the image within the archive.
+ */
+export const storedScreenSchema = screenSchema.omit({ imageUrl: true }).extend({
+  /** Path of the screen image within the archive */
+  imagePath: z.string(),
+});
+
 /**
  * Schema for embedded project data (stored in archive).
- * Note: imageUrl is excluded as the image is stored separately.
  */
 export const embeddedProjectDataSchema = z.object({
   storageVersion: versionsSchema.shape.storage,
-  project: projectSchema.omit({ imageUrl: true }),
+  project: projectSchema.omit({ screens: true }).extend({
+    screens: z.array(storedScreenSchema).min(1),
+  }),
 });
 
 export type EmbeddedProjectData = z.infer<typeof embeddedProjectDataSchema>;
@@ -28,10 +45,52 @@ export type EmbeddedProjectData = z.infer<typeof embeddedProjectDataSchema>;
  * Result of opening a project file.
  */
 export interface OpenResult {
-  /** The project data (with imageUrl populated from archive) */
+  /** The project data (with object URLs of the images from the archive) */
   project: Project;
-  /** The loaded image element (ready for immediate use) */
-  image: HTMLImageElement;
+  /** The working image of the active screen (ready for immediate use) */
+  image: WorkingImage;
   /** Whether the file had embedded project data */
   hasEmbeddedData: boolean;
 }
+
+/**
+ * Result of opening an image as an additional screen.
+ */
+export interface OpenScreenResult {
+  /** The new screen (without annotations) */
+  screen: Screen;
+  /** The working image (ready for immediate use) */
+  image: WorkingImage;
+}
+
+// ============================================
+// Project Library
+// ============================================
+
+/**
+ * Project in the local library (without screens and annotations).
+ */
+export interface LibraryProjectSummary {
+  id: string;
+  name: string;
+  screenCount: number;
+  elementCount: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Downscaled image of the first screen */
+  thumbnail?: Blob;
+}
+
+/**
+ * Saved version of a library project.
+ * Unnamed snapshots are autosaves and are pruned automatically.
+ */
+export interface ProjectSnapshotSummary {
+  id: string;
+  projectId: string;
+  /** Name given by the user (e.g. "before review") */
+  name?: string;
+  createdAt: string;
+  screenCount: number;
+  elementCount: number;
+}
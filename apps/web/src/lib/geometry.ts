@@ -3,7 +3,17 @@
  * These are shared across features (canvas, elements, properties).
  */
 
-import type { BBox, NormCoord, PixelCoord } from "@/types";
+import type {
+  BBox,
+  Connector,
+  ConnectorEndpoint,
+  Element,
+  ElementEdge,
+  ElementShape,
+  NormCoord,
+  PixelCoord,
+  Point,
+} from "@/types";
 
 export interface ImageSize {
   w: number;
@@ -75,3 +85,281 @@ export function formatNorm(norm: NormCoord): {
     h: norm.h.toFixed(3),
   };
 }
+
+// ============================================
+// Edges
+// ============================================
+
+/**
+ * Edges and center lines of a box in pixels.
+ */
+export interface BoxEdges {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  centerX: number;
+  centerY: number;
+}
+
+/**
+ * Get the edges and center lines of a box.
+ * Shared by snapping and measurements.
+ */
+export function getBoxEdges(pixel: PixelCoord): BoxEdges {
+  const { x, y, w, h } = pixel;
+  return {
+    left: x,
+    right: x + w,
+    top: y,
+    bottom: y + h,
+    centerX: x + w / 2,
+    centerY: y + h / 2,
+  };
+}
+
+/**
+ * Get the axis an edge is measured along
+ * (left/right edges are x positions, top/bottom edges y positions).
+ */
+export function getEdgeAxis(edge: ElementEdge): "x" | "y" {
+  return edge === "left" || edge === "right" ? "x" : "y";
+}
+
+// ============================================
+// Element Shapes
+// ============================================
+
+/**
+ * Get the vertices of a polygon shape in image pixels.
+ */
+export function getPolygonPoints(pixel: PixelCoord, points: Point[]): Point[] {
+  return points.map((p) => ({
+    x: pixel.x + p.x * pixel.w,
+    y: pixel.y + p.y * pixel.h,
+  }));
+}
+
+/**
+ * Fit a bounding box to polygon vertices given in image pixels.
+ * Returns the box with the vertices relative to it.
+ */
+export function fitPolygon(
+  points: Point[],
+  imageSize: ImageSize
+): { bbox: BBox; shape: ElementShape } {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  // Keep a positive size for degenerate (collinear) polygons
+  const w = Math.max(Math.max(...xs) - x, 1);
+  const h = Math.max(Math.max(...ys) - y, 1);
+  return {
+    bbox: createBBox({ x, y, w, h }, imageSize),
+    shape: {
+      type: "polygon",
+      points: points.map((p) => ({ x: (p.x - x) / w, y: (p.y - y) / h })),
+    },
+  };
+}
+
+/**
+ * Get the outline of an element in image pixels.
+ * Rectangles return their corners; ellipses are approximated by a polygon.
+ */
+export function getShapeOutline(
+  pixel: PixelCoord,
+  shape: ElementShape | undefined,
+  ellipseSegments = 32
+): Point[] {
+  const { x, y, w, h } = pixel;
+  if (shape?.type === "polygon") {
+    return getPolygonPoints(pixel, shape.points);
+  }
+  if (shape?.type === "ellipse") {
+    return Array.from({ length: ellipseSegments }, (_, i) => {
+      const angle = (i / ellipseSegments) * Math.PI * 2;
+      return {
+        x: x + (w / 2) * (1 + Math.cos(angle)),
+        y: y + (h / 2) * (1 + Math.sin(angle)),
+      };
+    });
+  }
+  return [
+    { x, y },
+    { x: x + w, y },
+    { x: x + w, y: y + h },
+    { x, y: y + h },
+  ];
+}
+
+/**
+ * Check if a point is inside a polygon (ray casting).
+ */
+function isPointInPolygon(point: Point, vertices: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    const crosses =
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Check if a point (image pixels) is inside an element's shape.
+ */
+export function isPointInShape(
+  point: Point,
+  pixel: PixelCoord,
+  shape: ElementShape | undefined
+): boolean {
+  const { x, y, w, h } = pixel;
+  if (point.x < x || point.x > x + w || point.y < y || point.y > y + h) {
+    return false;
+  }
+  if (shape?.type === "ellipse") {
+    const dx = (point.x - x - w / 2) / (w / 2);
+    const dy = (point.y - y - h / 2) / (h / 2);
+    return dx * dx + dy * dy <= 1;
+  }
+  if (shape?.type === "polygon") {
+    return isPointInPolygon(point, getPolygonPoints(pixel, shape.points));
+  }
+  return true;
+}
+
+// ============================================
+// Clipping
+// ============================================
+
+/**
+ * Clip a box to the image (boxes may extend past the edges).
+ * Boxes outside the image get a zero width or height.
+ */
+export function clipToImage(
+  pixel: PixelCoord,
+  imageSize: ImageSize
+): PixelCoord {
+  const x1 = Math.min(imageSize.w, Math.max(0, pixel.x));
+  const y1 = Math.min(imageSize.h, Math.max(0, pixel.y));
+  const x2 = Math.min(imageSize.w, Math.max(0, pixel.x + pixel.w));
+  const y2 = Math.min(imageSize.h, Math.max(0, pixel.y + pixel.h));
+  return { x: x1, y: y1, w: x2 - x1, h: y2 - y1 };
+}
+
+/**
+ * Clip a polygon to the half-plane `axis <= limit` (or `>=` when `keepAbove`).
+ */
+function clipPolygonEdge(
+  points: Point[],
+  axis: "x" | "y",
+  limit: number,
+  keepAbove: boolean
+): Point[] {
+  const isInside = (p: Point) =>
+    keepAbove ? p[axis] >= limit : p[axis] <= limit;
+  const result: Point[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if (isInside(a)) {
+      result.push(a);
+    }
+    if (isInside(a) !== isInside(b)) {
+      const t = (limit - a[axis]) / (b[axis] - a[axis]);
+      result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    }
+  }
+  return result;
+}
+
+/**
+ * Clip a polygon to the image (Sutherland-Hodgman).
+ * Polygons outside the image return fewer than 3 points.
+ */
+export function clipPolygonToImage(
+  points: Point[],
+  imageSize: ImageSize
+): Point[] {
+  let clipped = clipPolygonEdge(points, "x", 0, true);
+  clipped = clipPolygonEdge(clipped, "x", imageSize.w, false);
+  clipped = clipPolygonEdge(clipped, "y", 0, true);
+  return clipPolygonEdge(clipped, "y", imageSize.h, false);
+}
+
+// ============================================
+// Connectors
+// ============================================
+
+type RoutableElement = Pick<Element, "id" | "bbox" | "shape">;
+
+/**
+ * Get where a line from the center of an element towards a point leaves
+ * the element (its ellipse, otherwise its bounding box).
+ */
+function getEdgePoint(element: RoutableElement, toward: Point): Point {
+  const { x, y, w, h } = element.bbox.pixel;
+  const center = { x: x + w / 2, y: y + h / 2 };
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  if (dx === 0 && dy === 0) {
+    return center;
+  }
+  const t =
+    element.shape?.type === "ellipse"
+      ? 1 / Math.hypot(dx / (w / 2), dy / (h / 2))
+      : Math.min(
+          dx === 0 ? Number.POSITIVE_INFINITY : w / 2 / Math.abs(dx),
+          dy === 0 ? Number.POSITIVE_INFINITY : h / 2 / Math.abs(dy)
+        );
+  return { x: center.x + dx * t, y: center.y + dy * t };
+}
+
+/**
+ * Get the start and end of a connector in image pixels.
+ * Element endpoints attach to the element's edge facing the other end, so
+ * the arrow follows elements as they move. Returns null if an endpoint's
+ * element no longer exists.
+ */
+export function getConnectorRoute(
+  connector: Pick<Connector, "from" | "to">,
+  elements: RoutableElement[]
+): { from: Point; to: Point } | null {
+  const resolve = (endpoint: ConnectorEndpoint) => {
+    if ("point" in endpoint) {
+      return { element: null, center: endpoint.point };
+    }
+    const element = elements.find((e) => e.id === endpoint.elementId);
+    if (!element) {
+      return null;
+    }
+    const { x, y, w, h } = element.bbox.pixel;
+    return { element, center: { x: x + w / 2, y: y + h / 2 } };
+  };
+
+  const from = resolve(connector.from);
+  const to = resolve(connector.to);
+  if (!(from && to)) {
+    return null;
+  }
+
+  const start = from.element
+    ? getEdgePoint(from.element, to.center)
+    : from.center;
+  const end = to.element ? getEdgePoint(to.element, from.center) : to.center;
+
+  // Overlapping or nested elements: the edges cross, so connect the centers
+  const forward =
+    (end.x - start.x) * (to.center.x - from.center.x) +
+    (end.y - start.y) * (to.center.y - from.center.y);
+  return forward > 0
+    ? { from: start, to: end }
+    : { from: from.center, to: to.center };
+}
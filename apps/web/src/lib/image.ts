@@ -8,7 +8,7 @@
  * Load an image from a URL (including data URLs).
  * Returns a promise that resolves to the loaded HTMLImageElement.
  *
- * @param url - The URL or data URL of the image
+ * @param url - The URL, object URL or data URL of the image
  * @returns Promise resolving to the loaded image element
  */
 export function loadImageFromUrl(url: string): Promise<HTMLImageElement> {
@@ -24,7 +24,7 @@ export function loadImageFromUrl(url: string): Promise<HTMLImageElement> {
 /**
  * Load an image from a URL and return dimensions along with the element.
  *
- * @param url - The URL or data URL of the image
+ * @param url - The URL, object URL or data URL of the image
  * @returns Promise resolving to image element and dimensions
  */
 export async function loadImageWithDimensions(
@@ -37,3 +37,64 @@ export async function loadImageWithDimensions(
     height: image.naturalHeight,
   };
 }
+
+// ============================================
+// Working Copies
+// ============================================
+
+/**
+ * Image drawn on the editor canvas: the original, or a downscaled copy
+ * of a large original.
+ */
+export type WorkingImage = HTMLImageElement | HTMLCanvasElement;
+
+/**
+ * Maximum pixel count of a working copy (4096 x 4096).
+ * Larger images exceed the canvas limits of some browsers and slow down
+ * rendering while panning and zooming.
+ */
+const MAX_WORKING_PIXELS = 4096 * 4096;
+
+/** Maximum side length of a working copy */
+const MAX_WORKING_SIDE = 16_384;
+
+/**
+ * Get the scale of the working copy for an image size (1 = original).
+ */
+function getWorkingScale(width: number, height: number): number {
+  return Math.min(
+    1,
+    Math.sqrt(MAX_WORKING_PIXELS / (width * height)),
+    MAX_WORKING_SIDE / Math.max(width, height)
+  );
+}
+
+/**
+ * Load an image for the editor canvas.
+ * Large images are replaced by a downscaled working copy. The returned
+ * dimensions are always those of the original, so the copy is drawn at
+ * original size and coordinates stay in original-image pixel space.
+ *
+ * @param url - The URL, object URL or data URL of the original image
+ * @returns Promise resolving to the working image and original dimensions
+ */
+export async function loadWorkingImage(
+  url: string
+): Promise<{ image: WorkingImage; width: number; height: number }> {
+  const { image, width, height } = await loadImageWithDimensions(url);
+  const scale = getWorkingScale(width, height);
+  if (scale >= 1) {
+    return { image, width, height };
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return { image, width, height };
+  }
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { image: canvas, width, height };
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+/**
+ * Review Comment Types
+ *
+ * Design review comments pinned to an element or a point of a screen.
+ * Stored in the project file; exported only when explicitly included.
+ */
+
+// ============================================
+// Reply Schema
+// ============================================
+
+export const commentReplySchema = z.object({
+  id: z.string(),
+  author: z.string(),
+  text: z.string(),
+  createdAt: z.iso.datetime(),
+});
+
+// ============================================
+// Comment Schema
+// ============================================
+
+/**
+ * Review comment with its discussion thread.
+ */
+export const reviewCommentSchema = z.object({
+  id: z.string(),
+  author: z.string(),
+  text: z.string(),
+  createdAt: z.iso.datetime(),
+  /** Element the comment is attached to (absent for free canvas points) */
+  elementId: z.string().optional(),
+  /** Pin position in image pixels (used when no element is attached) */
+  point: z.object({ x: z.number(), y: z.number() }),
+  resolved: z.boolean(),
+  /** Replies, oldest first */
+  replies: z.array(commentReplySchema),
+});
+
+export type ReviewComment = z.infer<typeof reviewCommentSchema>;
+
+export type CommentId = string;
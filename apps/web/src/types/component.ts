@@ -21,6 +21,8 @@ export const componentNameSchema = z
 export const componentSpecSchema = z.object({
   name: componentNameSchema,
   props: z.record(z.string(), z.unknown()).optional(),
+  /** Allowed values of enum props, keyed by prop name */
+  propOptions: z.record(z.string(), z.array(z.string())).optional(),
 });
 
 export type ComponentSpec = z.infer<typeof componentSpecSchema>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+/**
+ * Connector Types
+ *
+ * Arrows between elements (or free points) describing flows and
+ * interactions, e.g. "this button opens that dialog".
+ * Exported as the `interactions` of a screen.
+ */
+
+// ============================================
+// Connector Type
+// ============================================
+
+export const connectorTypeSchema = z.enum([
+  "navigation",
+  "data-flow",
+  "toggle",
+]);
+
+export type ConnectorType = z.infer<typeof connectorTypeSchema>;
+
+// ============================================
+// Endpoint Schema
+// ============================================
+
+/**
+ * End of a connector: an element (the arrow follows it when it moves)
+ * or a free point in image pixels.
+ */
+export const connectorEndpointSchema = z.union([
+  z.object({ elementId: z.string() }),
+  z.object({ point: z.object({ x: z.number(), y: z.number() }) }),
+]);
+
+export type ConnectorEndpoint = z.infer<typeof connectorEndpointSchema>;
+
+// ============================================
+// Connector Schema
+// ============================================
+
+/**
+ * Arrow from one endpoint to another.
+ */
+export const connectorSchema = z.object({
+  id: z.string(),
+  type: connectorTypeSchema,
+  /** Optional description (e.g. "onClick → navigate") */
+  label: z.string().optional(),
+  from: connectorEndpointSchema,
+  to: connectorEndpointSchema,
+});
+
+export type Connector = z.infer<typeof connectorSchema>;
+
+export type ConnectorId = string;
@@ -1,7 +1,12 @@
 import { z } from "zod";
 import { type ComponentSpec, componentSpecSchema } from "./component";
 import type { Element } from "./element";
-import { type BBox, bboxSchema } from "./geometry";
+import {
+  type BBox,
+  bboxSchema,
+  type ElementShape,
+  elementShapeSchema,
+} from "./geometry";
 
 /**
  * Editor Element Types
@@ -52,8 +57,12 @@ export const editorElementSchema = z.object({
   id: z.string(),
   label: z.string(),
   bbox: bboxSchema,
+  /** Exact shape within the bounding box (omitted for rectangles) */
+  shape: elementShapeSchema.optional(),
   component: componentSpecSchema.optional(),
   notes: z.string().optional(),
+  /** Containing element (omitted for top-level elements) */
+  parentId: z.string().optional(),
   // Editor-specific fields
   /** Auto-assigned serial number at creation time (immutable, for display fallback) */
   serialNumber: z.number().int().positive(),
@@ -75,6 +84,7 @@ export type EditorElement = z.infer<typeof editorElementSchema>;
 export interface ElementUpdate {
   label?: string;
   bbox?: BBox;
+  shape?: ElementShape;
   component?: ComponentSpec | null;
   notes?: string;
   color?: ElementColor;
@@ -94,8 +104,10 @@ export function toElement(editorElement: EditorElement): Element {
     id: editorElement.id,
     label: getDisplayLabel(editorElement),
     bbox: editorElement.bbox,
+    shape: editorElement.shape,
     component: editorElement.component,
     notes: editorElement.notes,
+    parentId: editorElement.parentId,
   };
 }
 
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { componentSpecSchema } from "./component";
-import { bboxSchema } from "./geometry";
+import { bboxSchema, elementShapeSchema } from "./geometry";
 
 /**
  * Element Type
@@ -14,8 +14,12 @@ export const elementSchema = z.object({
   id: z.string(),
   label: z.string(),
   bbox: bboxSchema,
+  /** Exact shape within the bounding box (omitted for rectangles) */
+  shape: elementShapeSchema.optional(),
   component: componentSpecSchema.optional(),
   notes: z.string().optional(),
+  /** Containing element (omitted for top-level elements) */
+  parentId: z.string().optional(),
 });
 
 export type Element = z.infer<typeof elementSchema>;
@@ -0,0 +1,295 @@
+/**
+ * Export Data Schema
+ *
+ * Unified export format for annotation data.
+ * Produced by the export feature (ExportInput → ExportData → format-specific
+ * output) and read back by storage to restore projects.
+ */
+
+import { z } from "zod";
+import { connectorTypeSchema } from "./connector";
+import { spacingEndSchema } from "./spacing";
+import { versionsSchema } from "./versions";
+
+// ============================================
+// Export Element Schema
+// ============================================
+
+/**
+ * Bounding box in the export format.
+ */
+export const exportBboxSchema = z.object({
+  /** X coordinate in pixels */
+  x: z.number(),
+  /** Y coordinate in pixels */
+  y: z.number(),
+  /** Width in pixels */
+  w: z.number(),
+  /** Height in pixels */
+  h: z.number(),
+});
+
+/**
+ * Normalized bounding box (relative to the image size).
+ * Values fall outside 0-1 for elements that extend past the image.
+ */
+export const exportNormBboxSchema = z.object({
+  /** Normalized X */
+  x: z.number(),
+  /** Normalized Y */
+  y: z.number(),
+  /** Normalized width */
+  w: z.number(),
+  /** Normalized height */
+  h: z.number(),
+});
+
+/**
+ * Component specification in export format.
+ */
+export const exportComponentSchema = z.object({
+  /** Component name (e.g., "Button", "Input") */
+  name: z.string(),
+  /** Component props (e.g., { variant: "destructive", size: "sm" }) */
+  props: z.record(z.string(), z.unknown()).optional(),
+  /** Import statement or module path from the component catalog */
+  importStatement: z.string().optional(),
+});
+
+/**
+ * Exact element shape in the export format (pixels).
+ * The element's `bounds` is the bounding box of the shape.
+ */
+export const exportShapeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("ellipse"),
+    /** Center */
+    cx: z.number(),
+    cy: z.number(),
+    /** Radii */
+    rx: z.number(),
+    ry: z.number(),
+  }),
+  z.object({
+    type: z.literal("polygon"),
+    /** Vertices in drawing order */
+    points: z.array(z.object({ x: z.number(), y: z.number() })).min(3),
+  }),
+]);
+
+export type ExportShape = z.infer<typeof exportShapeSchema>;
+
+/**
+ * Element in the export format.
+ * Simplified from internal Element type for clean export.
+ * Nested elements (e.g. Inputs inside a Form inside a Card) are in `children`.
+ */
+export const exportElementSchema = z.object({
+  /** Unique element identifier */
+  id: z.string(),
+  /** Human-readable label */
+  label: z.string(),
+  /** Bounding box in pixels */
+  bounds: exportBboxSchema,
+  /** Normalized bounding box */
+  boundsNorm: exportNormBboxSchema,
+  /** Exact shape (omitted for rectangles) */
+  shape: exportShapeSchema.optional(),
+  /** Component specification */
+  component: exportComponentSchema.optional(),
+  /** Additional notes */
+  notes: z.string().optional(),
+  /** Nested child elements */
+  get children() {
+    return z.array(exportElementSchema).optional();
+  },
+});
+
+export type ExportElement = z.infer<typeof exportElementSchema>;
+
+// ============================================
+// Export Layout Schema
+// ============================================
+
+/**
+ * Cross-axis alignment of items in a layout group.
+ */
+export const exportLayoutAlignSchema = z.enum([
+  "start",
+  "center",
+  "end",
+  "stretch",
+]);
+
+/**
+ * Node in the inferred layout tree.
+ * - element: a single element
+ * - row / column: items stacked horizontally / vertically
+ * - grid: items in row-major order with a fixed column count
+ * - overlap: items whose bounds cannot be separated
+ */
+export const exportLayoutNodeSchema = z.object({
+  /** Node type */
+  type: z.enum(["element", "row", "column", "grid", "overlap"]),
+  /** Element ID (element nodes only) */
+  elementId: z.string().optional(),
+  /** Average gap between items in pixels (grid: between columns) */
+  gap: z.number().optional(),
+  /** Average gap between grid rows in pixels */
+  rowGap: z.number().optional(),
+  /** Number of grid columns */
+  columns: z.number().int().positive().optional(),
+  /** Cross-axis alignment (row: vertical, column: horizontal) */
+  align: exportLayoutAlignSchema.optional(),
+  /** Child nodes in reading order */
+  get children() {
+    return z.array(exportLayoutNodeSchema).optional();
+  },
+});
+
+export type ExportLayoutNode = z.infer<typeof exportLayoutNodeSchema>;
+
+/**
+ * Inferred layout of a screen.
+ * Each sibling group (top-level elements, children of an element) is analyzed separately.
+ */
+export const exportLayoutSchema = z.object({
+  /** Layout of top-level elements */
+  root: exportLayoutNodeSchema,
+  /** Layout of child elements, keyed by parent element ID */
+  containers: z.record(z.string(), exportLayoutNodeSchema),
+});
+
+export type ExportLayout = z.infer<typeof exportLayoutSchema>;
+
+// ============================================
+// Export Data Schema
+// ============================================
+
+/**
+ * Project information in export format.
+ */
+export const exportProjectSchema = z.object({
+  /** Project name */
+  name: z.string(),
+  /** Project description */
+  description: z.string().optional(),
+});
+
+/**
+ * Reply to a review comment in export format.
+ */
+export const exportCommentReplySchema = z.object({
+  author: z.string(),
+  text: z.string(),
+  createdAt: z.iso.datetime(),
+});
+
+/**
+ * Review comment in export format.
+ */
+export const exportCommentSchema = z.object({
+  author: z.string(),
+  text: z.string(),
+  createdAt: z.iso.datetime(),
+  /** ID of the element the comment is attached to */
+  elementId: z.string().optional(),
+  /** Pin position in pixels */
+  point: z.object({ x: z.number(), y: z.number() }),
+  resolved: z.boolean(),
+  replies: z.array(exportCommentReplySchema),
+});
+
+export type ExportComment = z.infer<typeof exportCommentSchema>;
+
+/**
+ * End of an interaction in export format.
+ */
+export const exportInteractionEndpointSchema = z.object({
+  /** ID of the connected element (absent for free points) */
+  elementId: z.string().optional(),
+  /** Arrow end in pixels */
+  point: z.object({ x: z.number(), y: z.number() }),
+});
+
+export type ExportInteractionEndpoint = z.infer<
+  typeof exportInteractionEndpointSchema
+>;
+
+/**
+ * Interaction between elements (a connector arrow) in export format,
+ * e.g. a button that navigates to a dialog.
+ */
+export const exportInteractionSchema = z.object({
+  id: z.string(),
+  type: connectorTypeSchema,
+  /** Description (e.g. "onClick → navigate") */
+  label: z.string().optional(),
+  from: exportInteractionEndpointSchema,
+  to: exportInteractionEndpointSchema,
+});
+
+export type ExportInteraction = z.infer<typeof exportInteractionSchema>;
+
+/**
+ * Spacing between two element edges in export format,
+ * e.g. the gap between a card's title and its body.
+ */
+export const exportSpacingSchema = z.object({
+  from: spacingEndSchema,
+  to: spacingEndSchema,
+  /** Axis the distance is measured along */
+  axis: z.enum(["x", "y"]),
+  /** Distance in image pixels */
+  distance: z.number().nonnegative(),
+  /** Distance in CSS pixels (image pixels / pixel ratio) */
+  cssDistance: z.number().nonnegative(),
+});
+
+export type ExportSpacing = z.infer<typeof exportSpacingSchema>;
+
+/**
+ * Screen in export format.
+ */
+export const exportScreenSchema = z.object({
+  /** Screen name */
+  name: z.string(),
+  /** Original source file name with extension (e.g., "screenshot.png") */
+  sourceFileName: z.string(),
+  /** Image dimensions */
+  size: z.object({
+    w: z.number().positive(),
+    h: z.number().positive(),
+  }),
+  /** Device pixel ratio of the screenshot (omitted for 1x) */
+  pixelRatio: z.number().positive().optional(),
+  /** Top-level annotated elements (with nested children) */
+  elements: z.array(exportElementSchema),
+  /** Layout inferred from element positions (omitted without elements) */
+  layout: exportLayoutSchema.optional(),
+  /** Review comments (only when explicitly included in the export) */
+  comments: z.array(exportCommentSchema).optional(),
+  /** Interactions between elements (omitted without connectors) */
+  interactions: z.array(exportInteractionSchema).optional(),
+  /** Measured spacings between elements (omitted without spacings) */
+  spacings: z.array(exportSpacingSchema).optional(),
+});
+
+export type ExportScreen = z.infer<typeof exportScreenSchema>;
+
+/**
+ * Main export data schema.
+ * This is the unified format that all exporters work with.
+ */
+export const exportDataSchema = z.object({
+  /** Schema version for future compatibility */
+  version: versionsSchema.shape.export,
+  /** Project information */
+  project: exportProjectSchema,
+  /** Screens in project order */
+  screens: z.array(exportScreenSchema),
+  /** Export timestamp */
+  exportedAt: z.iso.datetime(),
+});
+
+export type ExportData = z.infer<typeof exportDataSchema>;
@@ -43,6 +43,34 @@ export const bboxSchema = z.object({
 
 export type BBox = z.infer<typeof bboxSchema>;
 
+// ============================================
+// Element Shape
+// ============================================
+
+export const shapePointSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+/**
+ * Exact outline of a non-rectangular element (elements without one are
+ * rectangles). Coordinates are relative to the element's bounding box
+ * (0-1), so moving or resizing the box also moves or scales the shape.
+ */
+export const elementShapeSchema = z.discriminatedUnion("type", [
+  /** Ellipse inscribed in the bounding box */
+  z.object({ type: z.literal("ellipse") }),
+  /** Polygon whose vertices span the bounding box */
+  z.object({
+    type: z.literal("polygon"),
+    points: z.array(shapePointSchema).min(3),
+  }),
+]);
+
+export type ElementShape = z.infer<typeof elementShapeSchema>;
+
+export type ShapeType = ElementShape["type"];
+
 // ============================================
 // Point
 // ============================================
@@ -11,11 +11,12 @@
  *
  * Layer structure (dependencies flow downward only):
  *
- *   Base:     geometry.ts, component.ts
+ *   Base:     geometry.ts, component.ts, comment.ts, connector.ts,
+ *             spacing.ts
  *              ↓
  *   Middle:   element.ts
  *              ↓
- *   Extended: editor-element.ts, project.ts
+ *   Extended: editor-element.ts, project.ts, export-data.ts
  *              ↓
  *   Public:   index.ts (this file - external API only)
  *
@@ -23,9 +24,13 @@
  * ✅ GOOD: import { BBox } from "./geometry"   // Direct import
  */
 
+export * from "./comment";
 export * from "./component";
+export * from "./connector";
 export * from "./editor-element";
 export * from "./element";
+export * from "./export-data";
 export * from "./geometry";
 export * from "./project";
+export * from "./spacing";
 export * from "./versions";
@@ -1,5 +1,8 @@
 import { z } from "zod";
+import { reviewCommentSchema } from "./comment";
+import { connectorSchema } from "./connector";
 import { editorElementSchema } from "./editor-element";
+import { spacingSchema } from "./spacing";
 
 /**
  * Project Types
@@ -9,24 +12,117 @@ import { editorElementSchema } from "./editor-element";
  */
 
 // ============================================
-// Project Schema
+// Screen Schema
 // ============================================
 
 /**
- * Project schema for runtime validation.
+ * Screen schema for runtime validation.
+ * A screen is one screenshot with its own annotations.
  */
-export const projectSchema = z.object({
+export const screenSchema = z.object({
   id: z.string(),
   name: z.string(),
-  description: z.string().optional(),
   /** Original source file name (e.g., "screenshot.png") */
   sourceFileName: z.string(),
+  /** Object URL of the original image file (never re-encoded) */
   imageUrl: z.string(),
+  /** Size of the original image; all coordinates use this pixel space */
   imageWidth: z.number().positive(),
   imageHeight: z.number().positive(),
   elements: z.array(editorElementSchema),
+  /** Review comments (optional, older files have none) */
+  comments: z.array(reviewCommentSchema).optional(),
+  /** Arrows between elements (optional, older files have none) */
+  connectors: z.array(connectorSchema).optional(),
+  /** Saved gaps between elements (optional, older files have none) */
+  spacings: z.array(spacingSchema).optional(),
+  /**
+   * Device pixel ratio of the screenshot (1 if absent).
+   * Measurements are shown and exported in CSS pixels.
+   */
+  pixelRatio: z.number().positive().optional(),
+});
+
+export type Screen = z.infer<typeof screenSchema>;
+
+export type ScreenId = string;
+
+// ============================================
+// History Schema
+// ============================================
+
+/**
+ * A change that can be undone or redone.
+ */
+export const historyEntrySchema = z.object({
+  /** Description of the change (e.g. "Moved 3 elements") */
+  label: z.string(),
+  /** Elements before the change (past entries) or after it (future entries) */
+  elements: z.array(editorElementSchema),
+  /** Connectors at the same point (optional, older files have none) */
+  connectors: z.array(connectorSchema).optional(),
+  /** Spacings at the same point (optional, older files have none) */
+  spacings: z.array(spacingSchema).optional(),
+});
+
+export type HistoryEntry = z.infer<typeof historyEntrySchema>;
+
+/**
+ * Undo history of a screen, saved with the project so it survives reloads.
+ * History covers the elements, connectors and spacings of the screen.
+ */
+export const screenHistorySchema = z.object({
+  /** Changes that can be undone, oldest first */
+  past: z.array(historyEntrySchema),
+  /** Undone changes that can be redone, the next redo last */
+  future: z.array(historyEntrySchema),
+});
+
+export type ScreenHistory = z.infer<typeof screenHistorySchema>;
+
+// ============================================
+// Project Schema
+// ============================================
+
+/**
+ * Project schema for runtime validation.
+ * Screens are ordered (e.g., the steps of a checkout flow).
+ */
+export const projectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  screens: z.array(screenSchema).min(1),
+  /** Screen currently open in the editor */
+  activeScreenId: z.string(),
   createdAt: z.iso.datetime(),
   updatedAt: z.iso.datetime(),
+  /** Undo history per screen, keyed by screen ID (optional, older files have none) */
+  histories: z.record(z.string(), screenHistorySchema).optional(),
 });
 
 export type Project = z.infer<typeof projectSchema>;
+
+// ============================================
+// Utilities
+// ============================================
+
+/**
+ * Get the active screen of a project.
+ * Falls back to the first screen if the active ID is stale.
+ */
+export function getActiveScreen(project: Project): Screen {
+  return (
+    project.screens.find((s) => s.id === project.activeScreenId) ??
+    project.screens[0]
+  );
+}
+
+/**
+ * Get the undo history of the project's active screen.
+ */
+export function getScreenHistory(
+  project: Project | null
+): ScreenHistory | null {
+  return project?.histories?.[getActiveScreen(project).id] ?? null;
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+/**
+ * Spacing Types
+ *
+ * Saved gaps between element edges (e.g. the 24px between a header and
+ * a card). The distance is measured from the current element positions.
+ */
+
+// ============================================
+// Edge Schema
+// ============================================
+
+export const elementEdgeSchema = z.enum(["left", "right", "top", "bottom"]);
+
+export type ElementEdge = z.infer<typeof elementEdgeSchema>;
+
+/**
+ * Edge of an element a spacing is measured from or to.
+ */
+export const spacingEndSchema = z.object({
+  elementId: z.string(),
+  edge: elementEdgeSchema,
+});
+
+export type SpacingEnd = z.infer<typeof spacingEndSchema>;
+
+// ============================================
+// Spacing Schema
+// ============================================
+
+/**
+ * Gap between two parallel element edges
+ * (left/right edges measure horizontally, top/bottom edges vertically).
+ */
+export const spacingSchema = z.object({
+  id: z.string(),
+  from: spacingEndSchema,
+  to: spacingEndSchema,
+});
+
+export type Spacing = z.infer<typeof spacingSchema>;
+
+export type SpacingId = string;
@@ -12,8 +12,8 @@ import { z } from "zod";
 // ============================================
 
 export const VERSIONS = {
-  storage: "0.0.1",
-  export: "0.0.1",
+  storage: "0.0.3",
+  export: "0.0.3",
 } as const;
 
 // ============================================
@@ -26,3 +26,23 @@ export const versionsSchema = z.object({
   /** Export schema version (JSON/Prompt output) */
   export: z.literal(VERSIONS.export),
 });
+
+// ============================================
+// Version Comparison
+// ============================================
+
+/**
+ * Compare two dotted versions (e.g. "0.0.2" vs "0.1.0").
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}